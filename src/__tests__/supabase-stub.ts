@@ -0,0 +1,40 @@
+/**
+ * Supabase client stub shared by the unit tests
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export interface StubResult {
+  data?: unknown;
+  error?: { message: string } | null;
+  count?: number | null;
+}
+
+const CHAIN_METHODS = ['select', 'insert', 'upsert', 'update', 'delete', 'eq', 'neq', 'lt', 'lte', 'gt', 'gte', 'in', 'is', 'order', 'limit', 'range'] as const;
+
+export type QueryStub = Record<(typeof CHAIN_METHODS)[number] | 'single' | 'maybeSingle', jest.Mock> & PromiseLike<StubResult>;
+
+/**
+ * Client whose queries and RPCs resolve the given results in call order, the
+ * last one repeating. Every table and RPC shares one chainable query, so tests
+ * assert on its methods (query.update, query.eq...).
+ */
+export function createSupabaseStub(...results: StubResult[]) {
+  const queue: StubResult[] = results.length > 0 ? results : [{}];
+  let next = 0;
+  const resolveNext = (): Promise<StubResult> =>
+    Promise.resolve({ data: null, error: null, ...queue[Math.min(next++, queue.length - 1)] });
+
+  const query = {} as QueryStub;
+  for (const method of CHAIN_METHODS) {
+    query[method] = jest.fn(() => query);
+  }
+  query.single = jest.fn(resolveNext);
+  query.maybeSingle = jest.fn(resolveNext);
+  query.then = (onFulfilled, onRejected) => resolveNext().then(onFulfilled, onRejected);
+
+  const from = jest.fn(() => query);
+  const rpc = jest.fn(() => query);
+
+  return { client: { from, rpc } as unknown as SupabaseClient, from, rpc, query };
+}
@@ -0,0 +1,134 @@
+/**
+ * Tests for the chain-of-title builder
+ */
+
+import { buildChainOfTitle, renderChainOfTitleReport, isTransferNature, partySide } from '../chain-of-title';
+import { sanitizeOCRResult } from '../../ocr/sanitizer';
+import { LinkedActe } from '../../types';
+
+jest.mock('../../utils/logger');
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+const BOOSTED_TEXT = `
+--- Page 1 ---
+
+Circonscription foncière: Montréal
+Cadastre: Cadastre du Québec
+Lot: 1 358 176
+
+Ligne 1:
+Date de présentation d'inscription: 1990-05-15
+Numéro: 4 000 000
+Nature de l'acte: Vente
+Qualité: Vendeur; Acheteur
+Nom des parties: TREMBLAY, JEAN; GAGNON, MARIE
+
+Ligne 2:
+Date de présentation d'inscription: 1990-05-15
+Numéro: 4 000 001
+Nature de l'acte: Hypothèque
+Nom des parties: CAISSE DESJARDINS; GAGNON, MARIE
+
+Ligne 3:
+Date de présentation d'inscription: 2005-03-01
+Numéro: 12 000 000
+Nature de l'acte: Vente
+Qualité: Vendeur; Acheteur
+Nom des parties: GAGNON, MARIE; ROY, PAUL
+
+Ligne 4:
+Date de présentation d'inscription: 2015-07-20
+Numéro: 21 000 000
+Nature de l'acte: Donation
+Qualité: Donateur; Donataire
+Nom des parties: LAVOIE, ANNE; ROY, LUC
+`;
+
+const ACTES = new Map<string, LinkedActe>([
+  ['12000000', {
+    job_id: 'acte-job-1',
+    status_id: 5,
+    parsed: {
+      inscription_number: '12000000',
+      registration_date: '2005-03-01',
+      bureau_publicite: 'Montréal',
+      nature: 'Vente',
+      parties: [
+        { name: 'Marie Gagnon', role: 'Vendeur', address: null },
+        { name: 'Paul Roy', role: 'Acheteur', address: null },
+      ],
+      consideration: { amount: 250000, text: '250 000,00 $' },
+      notary: 'Me Louise Côté',
+      lots: [],
+      referenced_inscriptions: ['4000000'],
+    },
+  }],
+  ['21000000', { job_id: 'acte-job-2', status_id: 1, parsed: null }],
+]);
+
+describe('Chain of Title', () => {
+  const chain = buildChainOfTitle(sanitizeOCRResult(BOOSTED_TEXT), ACTES, { now: NOW });
+
+  it('should order the ownership transfers and skip other inscriptions', () => {
+    expect(chain.transfers.map(t => [t.publication_number, t.acte_nature, t.parties_source])).toEqual([
+      ['4 000 000', 'Vente', 'index'],
+      ['12 000 000', 'Vente', 'acte'],
+      ['21 000 000', 'Donation', 'index'],
+    ]);
+    expect(chain.transfers[1].acte?.job_id).toBe('acte-job-1');
+    expect(chain.transfers[0].acte).toBeNull();
+  });
+
+  it('should build the ownership graph', () => {
+    expect(chain.graph.edges.map(e => [e.from, e.to, e.publication_number])).toEqual([
+      ['p:jean tremblay', 'p:gagnon marie', '4 000 000'],
+      ['p:gagnon marie', 'p:paul roy', '12 000 000'],
+      ['p:anne lavoie', 'p:luc roy', '21 000 000'],
+    ]);
+    expect(chain.graph.nodes).toHaveLength(5);
+    expect(chain.current_owners).toEqual(['ROY, LUC']);
+  });
+
+  it('should flag grantors that are not the previous owners', () => {
+    expect(chain.gaps).toEqual([{
+      type: 'owner_mismatch',
+      message: 'Grantors are not the owners after #12 000 000',
+      publication_number: '21 000 000',
+      previous_publication_number: '12 000 000',
+    }]);
+  });
+
+  it('should render a readable report', () => {
+    const report = renderChainOfTitleReport(chain);
+
+    expect(report).toContain('Chain of title - Lot 1 358 176 (Cadastre du Québec, Montréal)');
+    expect(report).toContain('2. 2005-03-01  Vente  #12 000 000  [acte: extracted]');
+    expect(report).toContain('[acte: pending]');
+    expect(report).toContain('   From: Marie Gagnon');
+    expect(report).toContain('⚠️  Grantors are not the owners after #12 000 000');
+    expect(report).toContain('Current owners: ROY, LUC');
+  });
+
+  describe('isTransferNature', () => {
+    it('should recognize ownership transfers', () => {
+      expect(isTransferNature('Vente')).toBe(true);
+      expect(isTransferNature('Déclaration de transmission')).toBe(true);
+      expect(isTransferNature('Testament')).toBe(true);
+      expect(isTransferNature('Promesse de vente')).toBe(false);
+      expect(isTransferNature('Hypothèque')).toBe(false);
+    });
+  });
+
+  describe('partySide', () => {
+    it('should tell previous and new owners apart', () => {
+      expect(partySide('Vendeur')).toBe('grantor');
+      expect(partySide('Décédé')).toBe('grantor');
+      expect(partySide('1ère partie')).toBe('grantor');
+      expect(partySide('Acheteur')).toBe('grantee');
+      expect(partySide('Légataire')).toBe('grantee');
+      expect(partySide('2e partie')).toBe('grantee');
+      expect(partySide('Créancier')).toBe('unknown');
+    });
+  });
+});
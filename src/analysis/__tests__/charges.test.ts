@@ -0,0 +1,156 @@
+/**
+ * Tests for the état des droits computation
+ */
+
+import { computeEtatDesDroits, chargeCategory } from '../charges';
+import { sanitizeOCRResult } from '../../ocr/sanitizer';
+
+jest.mock('../../utils/logger');
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+const BOOSTED_TEXT = `
+--- Page 1 ---
+
+Circonscription foncière: Montréal
+Cadastre: Cadastre du Québec
+Lot: 1 358 176
+
+Ligne 1:
+Date de présentation d'inscription: 1986-09-12
+Numéro: 3 770 292
+Nature de l'acte: Vente
+Nom des parties: TREMBLAY, JEAN; GAGNON, MARIE
+
+Ligne 2:
+Date de présentation d'inscription: 1986-09-12
+Numéro: 3 770 293
+Nature de l'acte: Hypothèque
+Qualité: Créancier; Débiteur
+Nom des parties: BANQUE ROYALE DU CANADA; GAGNON, MARIE
+Radiations: 4 100 200
+
+Ligne 3:
+Date de présentation d'inscription: 1988-03-01
+Numéro: 3 900 001
+Nature de l'acte: Servitude
+Nom des parties: HYDRO-QUÉBEC
+
+Ligne 4:
+Date de présentation d'inscription: 1990-05-15
+Numéro: 4 000 500
+Nature de l'acte: Hypothèque
+Nom des parties: CAISSE DESJARDINS; GAGNON, MARIE
+
+--- Page 2 ---
+
+Circonscription foncière: Montréal
+Cadastre: Cadastre du Québec
+Lot: 1 358 176
+
+Ligne 1:
+Date de présentation d'inscription: 1991-02-01
+Numéro: 4 100 200
+Nature de l'acte: Quittance
+Nom des parties: BANQUE ROYALE DU CANADA
+
+Ligne 2:
+Date de présentation d'inscription: 1995-06-30
+Numéro: 4 500 000
+Nature de l'acte: Quittance partielle
+Remarques: Réf. 4 000 500
+
+Ligne 3:
+Date de présentation d'inscription: 1996-01-10
+Numéro: 4 600 000
+Nature de l'acte: Cession de créance
+Remarques: Hypothèque 4 000 500 cédée
+
+Ligne 4:
+Date de présentation d'inscription: 1999-11-11
+Numéro: 5 000 000
+Nature de l'acte: Mainlevée
+Radiations: 2 999 999
+`;
+
+describe('État des droits', () => {
+  const etat = computeEtatDesDroits(sanitizeOCRResult(BOOSTED_TEXT), { now: NOW });
+
+  it('should list charges with their status in chronological order', () => {
+    expect(etat.charges.map(c => [c.publication_number, c.category, c.status])).toEqual([
+      ['3 770 293', 'hypotheque', 'radiated'],
+      ['3 900 001', 'servitude', 'active'],
+      ['4 000 500', 'hypotheque', 'partially_radiated'],
+    ]);
+    expect(etat.counts).toEqual({ active: 1, partially_radiated: 1, transferred: 0, radiated: 1 });
+    expect(etat.in_force_count).toBe(2);
+    expect(etat.lot_number).toBe('1 358 176');
+  });
+
+  it('should link radiations from the Radiations column to the radiating acte', () => {
+    const hypotheque = etat.charges[0];
+
+    expect(hypotheque.events).toEqual([{
+      type: 'radiation',
+      source: 'radiation_column',
+      publication_number: '4 100 200',
+      publication_date: '1991-02-01',
+      acte_nature: 'Quittance',
+      page_number: 2,
+      line_number: 1,
+    }]);
+  });
+
+  it('should link partial radiations and transfers referencing the charge', () => {
+    const hypotheque = etat.charges[2];
+
+    expect(hypotheque.events.map(e => [e.type, e.source, e.publication_number])).toEqual([
+      ['partial_radiation', 'reference', '4 500 000'],
+      ['transfer', 'reference', '4 600 000'],
+    ]);
+  });
+
+  it('should report radiations whose charge is not on the index', () => {
+    expect(etat.unlinked).toEqual([{
+      publication_number: '5 000 000',
+      publication_date: '1999-11-11',
+      acte_nature: 'Mainlevée',
+      references: ['2999999'],
+      page_number: 2,
+      line_number: 4,
+    }]);
+  });
+
+  it('should mark transferred charges that are not radiated', () => {
+    const result = sanitizeOCRResult(`
+--- Page 1 ---
+
+Lot: 1 358 176
+
+Ligne 1:
+Date de présentation d'inscription: 2001-01-01
+Numéro: 6 000 000
+Nature de l'acte: Hypothèque
+
+Ligne 2:
+Date de présentation d'inscription: 2002-01-01
+Numéro: 6 100 000
+Nature de l'acte: Transport de créance
+Radiations: 6 000 000
+`);
+
+    expect(computeEtatDesDroits(result, { now: NOW }).charges[0].status).toBe('transferred');
+  });
+
+  describe('chargeCategory', () => {
+    it('should classify charges and ignore other actes', () => {
+      expect(chargeCategory('hypotheque conventionnelle')).toBe('hypotheque');
+      expect(chargeCategory('preavis d\'exercice d\'un droit hypothecaire')).toBe('avis');
+      expect(chargeCategory('bail')).toBe('bail');
+      expect(chargeCategory('usufruit')).toBe('droit_reel');
+      expect(chargeCategory('vente')).toBeNull();
+      expect(chargeCategory('quittance')).toBeNull();
+      expect(chargeCategory('cession de creance')).toBeNull();
+    });
+  });
+});
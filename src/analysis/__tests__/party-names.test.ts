@@ -0,0 +1,99 @@
+/**
+ * Tests for party name normalization and mention collection
+ */
+
+import { normalizePartyName, normalizeRole, splitCompoundParty } from '../party-names';
+import { collectMentions } from '../party-resolver';
+import { sanitizeOCRResult } from '../../ocr/sanitizer';
+
+jest.mock('../../utils/logger');
+
+describe('Party Names', () => {
+  describe('normalizePartyName', () => {
+    it('should give people the same key regardless of order, accents and case', () => {
+      const keys = ['BEAUREGARD, ADRIEN', 'Adrien Beauregard', 'BEAURÉGARD,  Adrien'].map(n => normalizePartyName(n).key);
+
+      expect(new Set(keys)).toEqual(new Set(['p:adrien beauregard']));
+      expect(normalizePartyName('Adrien Beauregard').kind).toBe('person');
+    });
+
+    it('should ignore corporate suffixes and leading articles of companies', () => {
+      const keys = [
+        'Gestion Tremblay inc.',
+        'GESTION TREMBLAY INC',
+        'Gestion Tremblay Ltée',
+      ].map(n => normalizePartyName(n).key);
+
+      expect(new Set(keys)).toEqual(new Set(['c:gestion tremblay']));
+      expect(normalizePartyName('La Banque Royale du Canada').key).toBe('c:banque royale du canada');
+      expect(normalizePartyName('Tremblay & Fils S.E.N.C.')).toMatchObject({ kind: 'company', key: 'c:tremblay & fils' });
+    });
+
+    it('should recognize numbered companies and forced kinds', () => {
+      expect(normalizePartyName('9123-4567 Québec inc.').key).toBe('c:9123 4567 quebec');
+      expect(normalizePartyName('Desjardins', 'company').key).toBe('c:desjardins');
+    });
+  });
+
+  describe('normalizeRole', () => {
+    it('should strip accents and punctuation', () => {
+      expect(normalizeRole(' Créancier ')).toBe('creancier');
+      expect(normalizeRole('1ère partie')).toBe('1ere partie');
+    });
+  });
+
+  describe('splitCompoundParty', () => {
+    it('should pair compound names with their roles', () => {
+      expect(splitCompoundParty({ name: 'BANQUE ROYALE; GAGNON, MARIE', role: 'Créancier; Débiteur' })).toEqual([
+        { name: 'BANQUE ROYALE', role: 'Créancier' },
+        { name: 'GAGNON, MARIE', role: 'Débiteur' },
+      ]);
+      expect(splitCompoundParty({ name: 'GAGNON, MARIE', role: 'Créancier Débiteur' })).toEqual([
+        { name: 'GAGNON, MARIE', role: 'Créancier Débiteur' },
+      ]);
+    });
+  });
+
+  describe('collectMentions', () => {
+    it('should collect index and acte parties with their lot', () => {
+      const result = sanitizeOCRResult(`
+--- Page 1 ---
+
+Lot: 1 358 176
+
+Ligne 1:
+Date de présentation d'inscription: 1990-05-15
+Numéro: 4 000 001
+Nature de l'acte: Hypothèque
+Qualité: Créancier; Débiteur
+Nom des parties: BANQUE ROYALE DU CANADA; GAGNON, MARIE
+`);
+      const job = { id: 'job-1', document_source: 'index' as const, document_number: '1 358 176', circonscription_fonciere: 'Montréal', cadastre: 'Cadastre du Québec' };
+
+      expect(collectMentions(job, result, null).map(m => [m.name.key, m.role, m.lot_number, m.line_number])).toEqual([
+        ['c:banque royale du canada', 'Créancier', '1 358 176', 1],
+        ['p:gagnon marie', 'Débiteur', '1 358 176', 1],
+      ]);
+
+      const acteMentions = collectMentions({ ...job, document_source: 'acte', document_number: '4000001' }, null, {
+        inscription_number: '4000001',
+        registration_date: '1990-05-15',
+        bureau_publicite: null,
+        nature: 'Hypothèque',
+        parties: [{ name: 'Marie Gagnon', role: 'Débiteur', address: null }],
+        consideration: null,
+        notary: null,
+        lots: [
+          { lot_number: '1 358 176', cadastre: null, circonscription: null },
+          { lot_number: '1 358 177', cadastre: null, circonscription: null },
+        ],
+        referenced_inscriptions: [],
+      });
+
+      expect(acteMentions.map(m => [m.name.key, m.lot_number, m.cadastre])).toEqual([
+        ['p:gagnon marie', '1 358 176', 'Cadastre du Québec'],
+        ['p:gagnon marie', '1 358 177', 'Cadastre du Québec'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Chain of Title Builder
+ * Walks the ownership transfers of a lot's sanitized index (vente, donation,
+ * testament, déclaration de transmission, ...), links each one to its acte
+ * extraction when there is one, and flags breaks in the ownership history.
+ */
+
+import {
+  SanitizedOCRResult,
+  Inscription,
+  EXTRACTION_STATUS,
+  LinkedActe,
+  TitleParty,
+  TitleTransfer,
+  TitleGap,
+  TitleGraphNode,
+  TitleGraphEdge,
+  ChainOfTitle,
+} from '../types';
+import { normalizeNumber, normalizeText } from './charges';
+import { normalizePartyName, splitCompoundParty } from './party-names';
+
+export interface ChainOfTitleOptions {
+  /** Generation date (defaults to now) */
+  now?: Date;
+}
+
+/** Natures that transfer the ownership of the lot (promesses are not transfers) */
+const TRANSFER_NATURE = /\bvente\b|donation|testament|transmission|echange|dation en paiement/;
+const NOT_TRANSFER_NATURE = /promesse|option/;
+
+/** Roles of the previous owner */
+const GRANTOR_ROLE = /vend|donat(eur|rice)|decede|defunt|testat|cedant|liquidat|succession|\b1(er|ere)?\b|premiere/;
+
+/** Roles of the new owner */
+const GRANTEE_ROLE = /achet|acqu|donataire|legataire|heriti|beneficiaire|cessionnaire|\b2(e|eme)?\b|deuxieme|seconde/;
+
+/**
+ * Build the chain of title of a lot from its sanitized index
+ * @param actes Acte extractions by publication number (digits only)
+ */
+export function buildChainOfTitle(
+  result: SanitizedOCRResult,
+  actes: Map<string, LinkedActe>,
+  options: ChainOfTitleOptions = {}
+): ChainOfTitle {
+  const transfers: TitleTransfer[] = result.pages
+    .flatMap(page => page.inscriptions
+      .filter(inscription => isTransferNature(inscription.acte_nature))
+      .map(inscription => toTransfer(inscription, page.pageNumber, actes)))
+    .sort(compareChronologically);
+
+  const gaps: TitleGap[] = [];
+  const nodes = new Map<string, TitleGraphNode>();
+  const edges: TitleGraphEdge[] = [];
+
+  transfers.forEach((transfer, index) => {
+    const previous = index > 0 ? transfers[index - 1] : null;
+    gaps.push(...findGaps(transfer, previous));
+
+    const grantors = transfer.parties.filter(p => p.side === 'grantor');
+    const grantees = transfer.parties.filter(p => p.side === 'grantee');
+
+    for (const party of [...grantors, ...grantees]) {
+      const id = partyKey(party.name);
+      if (!nodes.has(id)) {
+        nodes.set(id, { id, name: party.name });
+      }
+    }
+
+    for (const grantor of grantors) {
+      for (const grantee of grantees) {
+        edges.push({
+          from: partyKey(grantor.name),
+          to: partyKey(grantee.name),
+          publication_number: transfer.publication_number,
+          publication_date: transfer.publication_date,
+          acte_nature: transfer.acte_nature,
+        });
+      }
+    }
+  });
+
+  const last = transfers[transfers.length - 1];
+  const metadata = result.pages.map(page => page.metadata);
+
+  return {
+    lot_number: metadata.find(m => m.lot_number)?.lot_number || null,
+    circonscription: metadata.find(m => m.circonscription)?.circonscription || null,
+    cadastre: metadata.find(m => m.cadastre)?.cadastre || null,
+    transfers,
+    graph: { nodes: Array.from(nodes.values()), edges },
+    gaps,
+    current_owners: last ? last.parties.filter(p => p.side === 'grantee').map(p => p.name) : [],
+    generated_at: (options.now || new Date()).toISOString(),
+  };
+}
+
+/**
+ * Human-readable report of a chain of title
+ */
+export function renderChainOfTitleReport(chain: ChainOfTitle): string {
+  const location = [chain.cadastre, chain.circonscription].filter(Boolean).join(', ');
+  const lines: string[] = [
+    `Chain of title - Lot ${chain.lot_number || 'unknown'}${location ? ` (${location})` : ''}`,
+    `Generated ${chain.generated_at}`,
+    '',
+  ];
+
+  if (chain.transfers.length === 0) {
+    lines.push('No ownership transfer found on the index.');
+  }
+
+  chain.transfers.forEach((transfer, index) => {
+    const names = (side: TitleParty['side']) =>
+      transfer.parties.filter(p => p.side === side).map(p => p.name).join('; ') || '?';
+
+    lines.push(`${index + 1}. ${transfer.publication_date || 'undated'}  ${transfer.acte_nature || 'Unknown nature'}  #${transfer.publication_number || '?'}  [acte: ${acteStatus(transfer.acte)}]`);
+    lines.push(`   From: ${names('grantor')}`);
+    lines.push(`   To:   ${names('grantee')}`);
+
+    for (const gap of chain.gaps.filter(g => g.publication_number === transfer.publication_number)) {
+      lines.push(`   ⚠️  ${gap.message}`);
+    }
+  });
+
+  lines.push('');
+  lines.push(`Current owners: ${chain.current_owners.join('; ') || 'unknown'}`);
+  lines.push(`Gaps: ${chain.gaps.length}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Whether an acte nature transfers the ownership of the lot
+ */
+export function isTransferNature(nature: string | null): boolean {
+  const normalized = normalizeText(nature);
+  return TRANSFER_NATURE.test(normalized) && !NOT_TRANSFER_NATURE.test(normalized);
+}
+
+/**
+ * Side of a party from its role, unknown when the role does not tell
+ */
+export function partySide(role: string): TitleParty['side'] {
+  const normalized = normalizeText(role);
+  if (GRANTEE_ROLE.test(normalized)) {
+    return 'grantee';
+  }
+  if (GRANTOR_ROLE.test(normalized)) {
+    return 'grantor';
+  }
+  return 'unknown';
+}
+
+function toTransfer(inscription: Inscription, pageNumber: number, actes: Map<string, LinkedActe>): TitleTransfer {
+  const number = normalizeNumber(inscription.acte_publication_number);
+  const acte = (number && actes.get(number)) || null;
+  const acteParties = acte?.parsed?.parties || [];
+  const parties = acteParties.length > 0 ? acteParties : inscription.parties.flatMap(splitCompoundParty);
+
+  return {
+    publication_number: inscription.acte_publication_number,
+    publication_date: inscription.acte_publication_date,
+    acte_nature: inscription.acte_nature,
+    page_number: pageNumber,
+    line_number: inscription.line_number,
+    parties_source: acteParties.length > 0 ? 'acte' : 'index',
+    parties: parties.map(party => ({ name: party.name, role: party.role, side: partySide(party.role) })),
+    acte,
+  };
+}
+
+/**
+ * Breaks between a transfer and the previous one: the previous owners should be
+ * the ones granting the lot
+ */
+function findGaps(transfer: TitleTransfer, previous: TitleTransfer | null): TitleGap[] {
+  const gaps: TitleGap[] = [];
+  const gap = (type: TitleGap['type'], message: string) => gaps.push({
+    type,
+    message,
+    publication_number: transfer.publication_number,
+    previous_publication_number: previous ? previous.publication_number : null,
+  });
+
+  if (!transfer.publication_date) {
+    gap('missing_date', 'Transfer has no publication date; its position in the chain is uncertain');
+  }
+
+  if (!previous) {
+    return gaps;
+  }
+
+  const owners = previous.parties.filter(p => p.side === 'grantee').map(p => partyKey(p.name));
+  const grantors = transfer.parties.filter(p => p.side === 'grantor').map(p => partyKey(p.name));
+
+  if (owners.length === 0 || grantors.length === 0) {
+    gap('missing_parties', `Cannot check continuity with #${previous.publication_number || '?'}: ${owners.length === 0 ? 'previous owners' : 'grantors'} unknown`);
+  } else if (!grantors.some(grantor => owners.includes(grantor))) {
+    gap('owner_mismatch', `Grantors are not the owners after #${previous.publication_number || '?'}`);
+  }
+
+  return gaps;
+}
+
+function acteStatus(acte: LinkedActe | null): string {
+  if (!acte) {
+    return 'not requested';
+  }
+  if (acte.parsed) {
+    return 'extracted';
+  }
+  return acte.status_id === EXTRACTION_STATUS.ERREUR ? 'failed' : 'pending';
+}
+
+/**
+ * Graph id of a party: its normalized name key
+ */
+function partyKey(name: string): string {
+  return normalizePartyName(name).key;
+}
+
+/**
+ * Order by publication date, then by position on the index; undated transfers
+ * keep their index position
+ */
+function compareChronologically(a: TitleTransfer, b: TitleTransfer): number {
+  const dateA = a.publication_date?.substring(0, 10);
+  const dateB = b.publication_date?.substring(0, 10);
+
+  if (dateA && dateB && dateA !== dateB) {
+    return dateA < dateB ? -1 : 1;
+  }
+  return a.page_number - b.page_number || a.line_number - b.line_number;
+}
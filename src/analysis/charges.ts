@@ -0,0 +1,298 @@
+/**
+ * Active Charges Analysis
+ * Computes the état des droits of a lot from its sanitized index: which
+ * hypothèques, servitudes and other rights are still in force, partially
+ * radiated, transferred or radiated.
+ *
+ * Links between inscriptions come from two places:
+ * - the Radiations column of a charge line, holding the number of the acte that radiated it
+ * - radiating or transferring actes referencing the charge number (Radiations column or Remarques)
+ */
+
+import {
+  SanitizedOCRResult,
+  Inscription,
+  ChargeCategory,
+  ChargeEntry,
+  ChargeEvent,
+  ChargeEventType,
+  ChargeStatus,
+  EtatDesDroits,
+  UnlinkedInscription,
+} from '../types';
+import { foldAccents } from '../utils/text';
+
+export interface EtatDesDroitsOptions {
+  /** Generation date (defaults to now) */
+  now?: Date;
+}
+
+/**
+ * Charge categories by acte nature, first match wins
+ * (natures are compared without accents and in lowercase)
+ */
+const CHARGE_CATEGORIES: Array<[RegExp, ChargeCategory]> = [
+  [/preavis|saisie|residence familiale|jugement|prise en paiement/, 'avis'],
+  [/hypotheque/, 'hypotheque'],
+  [/servitude/, 'servitude'],
+  [/\bbail\b|\blocation\b/, 'bail'],
+  [/usufruit|emphyteose|superficie|droit d.?usage|droit de preemption|premier refus|droit d.?habitation/, 'droit_reel'],
+];
+
+/** Natures that radiate a charge */
+const RADIATING_NATURE = /quittance|mainlevee|radiation|annulation|extinction|renonciation|retrait/;
+
+/** Natures that transfer a charge to a new holder */
+const TRANSFERRING_NATURE = /(cession|transport)\s+(de\s+|d.?)(la\s+)?(creance|hypotheque|bail|droit)|subrogation/;
+
+/** Radiation of only part of a charge (quittance partielle, mainlevée partielle, ...) */
+const PARTIAL = /partiel/;
+
+/** Publication numbers written in free text ("3 770 292", "12345678") */
+const NUMBER_IN_TEXT = /\b\d{1,3}(?:[ \u00a0]\d{3})+\b|\b\d{5,}\b/g;
+
+interface IndexedInscription {
+  inscription: Inscription;
+  page_number: number;
+  /** Publication number, digits only */
+  number: string | null;
+  nature: string;
+}
+
+/**
+ * Compute the état des droits of a lot from its sanitized index
+ */
+export function computeEtatDesDroits(
+  result: SanitizedOCRResult,
+  options: EtatDesDroitsOptions = {}
+): EtatDesDroits {
+  const entries: IndexedInscription[] = result.pages.flatMap(page =>
+    page.inscriptions.map(inscription => ({
+      inscription,
+      page_number: page.pageNumber,
+      number: normalizeNumber(inscription.acte_publication_number),
+      nature: normalizeText(inscription.acte_nature),
+    }))
+  );
+
+  const byNumber = new Map<string, IndexedInscription>();
+  for (const entry of entries) {
+    if (entry.number && !byNumber.has(entry.number)) {
+      byNumber.set(entry.number, entry);
+    }
+  }
+
+  // One charge per publication number; a charge repeated on a later page is merged
+  const charges = new Map<string, ChargeEntry>();
+  const radiatedFromColumn = new Set<string>();
+  for (const entry of entries) {
+    const category = chargeCategory(entry.nature);
+    if (!category) {
+      continue;
+    }
+
+    const key = entry.number || `${entry.page_number}:${entry.inscription.line_number}`;
+    const charge = charges.get(key) || toChargeEntry(entry, category);
+    charges.set(key, charge);
+
+    // Radiations column of a charge line: number of the acte that radiated it
+    const radiationNumber = normalizeNumber(entry.inscription.radiation_number);
+    if (radiationNumber) {
+      radiatedFromColumn.add(radiationNumber);
+      const radiating = byNumber.get(radiationNumber);
+      const partial = radiating
+        ? PARTIAL.test(radiating.nature)
+        : PARTIAL.test(normalizeText(entry.inscription.remarques));
+
+      addEvent(charge, toEvent(partial ? 'partial_radiation' : 'radiation', 'radiation_column', radiationNumber, radiating));
+    }
+  }
+
+  const unlinked: UnlinkedInscription[] = [];
+  for (const entry of entries) {
+    const type = affectingType(entry.nature);
+    if (!type) {
+      continue;
+    }
+
+    const references = referencedNumbers(entry.inscription).filter(number => number !== entry.number);
+    const unmatched: string[] = [];
+    let linked = entry.number !== null && radiatedFromColumn.has(entry.number);
+
+    for (const reference of references) {
+      const charge = charges.get(reference);
+      if (charge) {
+        addEvent(charge, toEvent(type, 'reference', entry.number || reference, entry));
+        linked = true;
+      } else if (!byNumber.has(reference)) {
+        unmatched.push(reference);
+      }
+    }
+
+    if (!linked) {
+      unlinked.push({
+        publication_number: entry.inscription.acte_publication_number,
+        publication_date: entry.inscription.acte_publication_date,
+        acte_nature: entry.inscription.acte_nature,
+        references: unmatched,
+        page_number: entry.page_number,
+        line_number: entry.inscription.line_number,
+      });
+    }
+  }
+
+  const sorted = Array.from(charges.values()).map(charge => ({ ...charge, status: chargeStatus(charge.events) }));
+  sorted.sort(compareChronologically);
+
+  const counts: Record<ChargeStatus, number> = { active: 0, partially_radiated: 0, transferred: 0, radiated: 0 };
+  for (const charge of sorted) {
+    counts[charge.status]++;
+  }
+
+  const metadata = result.pages.map(page => page.metadata);
+
+  return {
+    lot_number: metadata.find(m => m.lot_number)?.lot_number || null,
+    circonscription: metadata.find(m => m.circonscription)?.circonscription || null,
+    cadastre: metadata.find(m => m.cadastre)?.cadastre || null,
+    charges: sorted,
+    in_force_count: sorted.length - counts.radiated,
+    counts,
+    unlinked,
+    generated_at: (options.now || new Date()).toISOString(),
+  };
+}
+
+/**
+ * Category of a charge from its acte nature, null when the inscription is not a
+ * charge (ownership transfers, radiations, ...)
+ */
+export function chargeCategory(nature: string): ChargeCategory | null {
+  if (!nature || RADIATING_NATURE.test(nature) || TRANSFERRING_NATURE.test(nature)) {
+    return null;
+  }
+
+  const match = CHARGE_CATEGORIES.find(([pattern]) => pattern.test(nature));
+  return match ? match[1] : null;
+}
+
+/**
+ * Publication number reduced to its digits (null when it has none)
+ */
+export function normalizeNumber(value: string | null | undefined): string | null {
+  const digits = (value || '').replace(/\D/g, '');
+  return digits || null;
+}
+
+/**
+ * Status from the radiations and transfers applied to a charge
+ */
+function chargeStatus(events: ChargeEvent[]): ChargeStatus {
+  if (events.some(event => event.type === 'radiation')) {
+    return 'radiated';
+  }
+  if (events.some(event => event.type === 'partial_radiation')) {
+    return 'partially_radiated';
+  }
+  if (events.some(event => event.type === 'transfer')) {
+    return 'transferred';
+  }
+  return 'active';
+}
+
+/**
+ * How an inscription affects the charges it references, null when it does not
+ */
+function affectingType(nature: string): ChargeEventType | null {
+  if (RADIATING_NATURE.test(nature)) {
+    return PARTIAL.test(nature) ? 'partial_radiation' : 'radiation';
+  }
+  if (TRANSFERRING_NATURE.test(nature)) {
+    return 'transfer';
+  }
+  return null;
+}
+
+/**
+ * Numbers referenced by an inscription: its Radiations column and the numbers in its Remarques
+ */
+function referencedNumbers(inscription: Inscription): string[] {
+  const references = new Set<string>();
+
+  const radiationNumber = normalizeNumber(inscription.radiation_number);
+  if (radiationNumber) {
+    references.add(radiationNumber);
+  }
+
+  for (const match of (inscription.remarques || '').match(NUMBER_IN_TEXT) || []) {
+    references.add(normalizeNumber(match)!);
+  }
+
+  return Array.from(references);
+}
+
+function toChargeEntry(entry: IndexedInscription, category: ChargeCategory): ChargeEntry {
+  return {
+    publication_number: entry.inscription.acte_publication_number,
+    publication_date: entry.inscription.acte_publication_date,
+    acte_nature: entry.inscription.acte_nature,
+    category,
+    status: 'active',
+    parties: entry.inscription.parties,
+    page_number: entry.page_number,
+    line_number: entry.inscription.line_number,
+    events: [],
+  };
+}
+
+function toEvent(
+  type: ChargeEventType,
+  source: ChargeEvent['source'],
+  publicationNumber: string,
+  affecting: IndexedInscription | undefined
+): ChargeEvent {
+  return {
+    type,
+    source,
+    publication_number: affecting?.inscription.acte_publication_number || publicationNumber,
+    publication_date: affecting?.inscription.acte_publication_date || null,
+    acte_nature: affecting?.inscription.acte_nature || null,
+    page_number: affecting ? affecting.page_number : null,
+    line_number: affecting ? affecting.inscription.line_number : null,
+  };
+}
+
+/**
+ * Add an event unless the same acte already affected the charge (a link found
+ * both in the Radiations column and in the radiating acte)
+ */
+function addEvent(charge: ChargeEntry, event: ChargeEvent): void {
+  const number = normalizeNumber(event.publication_number);
+  const existing = charge.events.find(e => normalizeNumber(e.publication_number) === number);
+
+  if (!existing) {
+    charge.events.push(event);
+  } else if (existing.page_number === null && event.page_number !== null) {
+    Object.assign(existing, { ...event, source: existing.source });
+  }
+}
+
+/**
+ * Order by publication date, then by position on the index
+ */
+function compareChronologically(a: ChargeEntry, b: ChargeEntry): number {
+  const dateA = a.publication_date?.substring(0, 10) || '';
+  const dateB = b.publication_date?.substring(0, 10) || '';
+
+  if (dateA !== dateB) {
+    return dateA < dateB ? -1 : 1;
+  }
+  return a.page_number - b.page_number || a.line_number - b.line_number;
+}
+
+/**
+ * Lowercase text without accents, for pattern matching on natures and roles
+ */
+export function normalizeText(value: string | null): string {
+  return foldAccents(value || '').toLowerCase();
+}
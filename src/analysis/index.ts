@@ -0,0 +1,11 @@
+/**
+ * Title Analysis Module
+ * Analyses computed from the sanitized index of a lot, and parties resolved
+ * across OCR'd documents
+ */
+
+export { LotAnalyzer, LotKey, LotIndex, LotIndexSource, AnalysisError } from './lot-analyzer';
+export { computeEtatDesDroits, chargeCategory, normalizeNumber, normalizeText, EtatDesDroitsOptions } from './charges';
+export { buildChainOfTitle, renderChainOfTitleReport, isTransferNature, partySide, ChainOfTitleOptions } from './chain-of-title';
+export { normalizePartyName, normalizeRole, splitCompoundParty, NormalizedPartyName, PartyKind } from './party-names';
+export { PartyResolver, PartyJobContext, PartyMentionDraft, PartyMentionQuery, PartyLot, collectMentions } from './party-resolver';
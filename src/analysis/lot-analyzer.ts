@@ -0,0 +1,176 @@
+/**
+ * Lot Analyzer
+ * Loads the latest sanitized index of a lot and runs title analyses on it.
+ * Reviewer-corrected results take precedence over the machine output.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../utils/logger';
+import { EXTRACTION_STATUS, SanitizedOCRResult, EtatDesDroits, ChainOfTitle, LinkedActe } from '../types';
+import { computeEtatDesDroits, normalizeNumber } from './charges';
+import { buildChainOfTitle, isTransferNature } from './chain-of-title';
+
+/**
+ * Error raised for analysis requests that cannot be served (unknown lot, ...)
+ */
+export class AnalysisError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+/**
+ * Identifies a lot; circonscription and cadastre narrow the search when the
+ * same lot number exists in several registries
+ */
+export interface LotKey {
+  lot_number: string;
+  circonscription?: string;
+  cadastre?: string;
+}
+
+/**
+ * Index job a lot analysis was computed from
+ */
+export interface LotIndexSource {
+  job_id: string;
+  document_number: string;
+  circonscription_fonciere: string | null;
+  cadastre: string | null;
+  ocr_completed_at: string | null;
+  /** True when the result is a reviewer-corrected revision */
+  reviewed: boolean;
+}
+
+export interface LotIndex {
+  source: LotIndexSource;
+  result: SanitizedOCRResult;
+}
+
+export class LotAnalyzer {
+  constructor(private client: SupabaseClient) {}
+
+  /**
+   * Latest completed index of a lot, throwing a 404 AnalysisError when none was extracted
+   */
+  async loadIndex(key: LotKey): Promise<LotIndex> {
+    let query = this.client
+      .from('extraction_queue')
+      .select('id, document_number, circonscription_fonciere, cadastre, ocr_completed_at, sanitized_content, reviewed_content')
+      .eq('document_source', 'index')
+      .eq('document_number_normalized', key.lot_number.replace(/\s+/g, ''))
+      .eq('status_id', EXTRACTION_STATUS.EXTRACTION_COMPLETE)
+      .not('sanitized_content', 'is', null)
+      .order('ocr_completed_at', { ascending: false })
+      .limit(1);
+
+    if (key.circonscription) {
+      query = query.eq('circonscription_fonciere', key.circonscription);
+    }
+    if (key.cadastre) {
+      query = query.eq('cadastre', key.cadastre);
+    }
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load lot index: ${error.message}`);
+    }
+    if (!data) {
+      throw new AnalysisError(`No sanitized index found for lot ${key.lot_number}`, 404);
+    }
+
+    return {
+      source: {
+        job_id: data.id,
+        document_number: data.document_number,
+        circonscription_fonciere: data.circonscription_fonciere,
+        cadastre: data.cadastre,
+        ocr_completed_at: data.ocr_completed_at,
+        reviewed: !!data.reviewed_content,
+      },
+      result: data.reviewed_content || data.sanitized_content,
+    };
+  }
+
+  /**
+   * État des droits of a lot: charges of its index and whether they are still in force
+   */
+  async getEtatDesDroits(key: LotKey): Promise<{ source: LotIndexSource; etat_des_droits: EtatDesDroits }> {
+    const { source, result } = await this.loadIndex(key);
+    const etat = computeEtatDesDroits(result);
+
+    logger.info({
+      lot: key.lot_number,
+      jobId: source.job_id,
+      charges: etat.charges.length,
+      inForce: etat.in_force_count,
+    }, '📜 Computed état des droits');
+
+    return { source, etat_des_droits: etat };
+  }
+
+  /**
+   * Chain of title of a lot: ownership transfers of its index linked to their acte extractions
+   */
+  async getChainOfTitle(key: LotKey): Promise<{ source: LotIndexSource; chain_of_title: ChainOfTitle }> {
+    const { source, result } = await this.loadIndex(key);
+
+    const numbers = result.pages
+      .flatMap(page => page.inscriptions)
+      .filter(inscription => isTransferNature(inscription.acte_nature))
+      .map(inscription => normalizeNumber(inscription.acte_publication_number))
+      .filter((number): number is string => number !== null);
+
+    const chain = buildChainOfTitle(result, await this.loadActes(numbers));
+
+    logger.info({
+      lot: key.lot_number,
+      jobId: source.job_id,
+      transfers: chain.transfers.length,
+      linkedActes: chain.transfers.filter(t => t.acte).length,
+      gaps: chain.gaps.length,
+    }, '🔗 Built chain of title');
+
+    return { source, chain_of_title: chain };
+  }
+
+  /**
+   * Acte extractions by publication number (digits only); when an acte was
+   * requested several times, the parsed and most recent extraction wins
+   */
+  private async loadActes(numbers: string[]): Promise<Map<string, LinkedActe>> {
+    const actes = new Map<string, LinkedActe>();
+    if (numbers.length === 0) {
+      return actes;
+    }
+
+    const { data, error } = await this.client
+      .from('extraction_queue')
+      .select('id, document_number_normalized, status_id, acte_parsed_content')
+      .eq('document_source', 'acte')
+      .in('document_number_normalized', Array.from(new Set(numbers)))
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load acte extractions: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      const number = normalizeNumber(row.document_number_normalized);
+      const existing = number ? actes.get(number) : undefined;
+      if (!number || (existing && (existing.parsed || !row.acte_parsed_content))) {
+        continue;
+      }
+
+      actes.set(number, {
+        job_id: row.id,
+        status_id: row.status_id,
+        parsed: row.acte_parsed_content,
+      });
+    }
+
+    return actes;
+  }
+}
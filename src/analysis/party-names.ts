@@ -0,0 +1,113 @@
+/**
+ * Party Name Normalization
+ * Reduces the party names read by OCR to a comparison key so that spelling
+ * variants of the same person or company resolve to one party:
+ * - accents, case and punctuation are ignored
+ * - "NOM, Prénom" and "Prénom NOM" give the same key
+ * - corporate suffixes (inc., ltée, s.e.n.c., ...) are ignored
+ */
+
+import { Party } from '../types';
+import { normalizeText } from './charges';
+
+export type PartyKind = 'person' | 'company';
+
+export interface NormalizedPartyName {
+  /** Name as read */
+  raw: string;
+  /** Cleaned name for display ("BEAUREGARD, ADRIEN", "BANQUE ROYALE DU CANADA") */
+  display: string;
+  /** Comparison key, prefixed by kind ("p:adrien beauregard", "c:banque royale du canada") */
+  key: string;
+  kind: PartyKind;
+}
+
+/** Corporate suffixes, compared once dots are removed */
+const CORPORATE_SUFFIX = /\s+(inc|incorporee|incorporated|ltee|limitee|ltd|limited|corp|corporation|cie|senc|sencrl|sec|llc|enr|sa)$/;
+
+/** Words that only appear in company or institution names */
+const COMPANY_WORD = /\b(banque|caisse|fiducie|trust|societe|compagnie|groupe|gestion|immeubles|placements|investissements|construction|syndicat|coop|cooperative|association|fondation|ville|municipalite|gouvernement|procureur|ministre|hydro|commission|credit|financiere|hypotheques)\b/;
+
+/** Numbered companies ("9123-4567 Québec inc.") */
+const NUMBERED_COMPANY = /^\d{4}[\s-]?\d{4}\s+quebec\b/;
+
+/** Leading articles of company names ("La Banque ...") */
+const LEADING_ARTICLE = /^(la|le|les|l)\s+/;
+
+/**
+ * Normalize a party name and compute its comparison key
+ * @param kind Known kind of the party (REQ names are companies), detected from the name otherwise
+ */
+export function normalizePartyName(raw: string, kind?: PartyKind): NormalizedPartyName {
+  const cleaned = raw
+    .replace(/[’`]/g, '\'')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const base = normalizeText(cleaned)
+    .replace(/\./g, '')
+    .replace(/[^a-z0-9,&' -]/g, ' ')
+    .replace(/['-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const flat = base.replace(/,/g, ' ').replace(/\s+/g, ' ').trim();
+  const withoutSuffix = stripCorporateSuffixes(flat);
+  const isCompany = kind
+    ? kind === 'company'
+    : withoutSuffix !== flat || COMPANY_WORD.test(flat) || NUMBERED_COMPANY.test(flat);
+
+  if (isCompany) {
+    return {
+      raw,
+      display: cleaned.toUpperCase(),
+      key: `c:${withoutSuffix.replace(LEADING_ARTICLE, '')}`,
+      kind: 'company',
+    };
+  }
+
+  // People: word order varies ("NOM, Prénom" / "Prénom NOM"), so the key is the sorted words
+  const words = flat.split(' ').filter(Boolean);
+
+  return {
+    raw,
+    display: cleaned.toUpperCase(),
+    key: `p:${[...words].sort().join(' ')}`,
+    kind: 'person',
+  };
+}
+
+/**
+ * Lowercase role without accents or punctuation ("Créancier" -> "creancier")
+ */
+export function normalizeRole(role: string): string {
+  return normalizeText(role)
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Index lines often hold all parties in one entry ("TREMBLAY, JEAN; GAGNON, MARIE"
+ * with "Vendeur; Acheteur"); pair the names with their roles
+ */
+export function splitCompoundParty(party: Party): Party[] {
+  const names = party.name.split(/\s*;\s*/).filter(Boolean);
+  const roles = party.role.split(/\s*;\s*/);
+
+  if (names.length < 2) {
+    return [party];
+  }
+  if (roles.length === names.length) {
+    return names.map((name, index) => ({ name, role: roles[index] }));
+  }
+  return roles.length === 1 ? names.map(name => ({ name, role: party.role })) : [party];
+}
+
+function stripCorporateSuffixes(name: string): string {
+  let stripped = name;
+  while (CORPORATE_SUFFIX.test(stripped)) {
+    stripped = stripped.replace(CORPORATE_SUFFIX, '').trim();
+  }
+  return stripped;
+}
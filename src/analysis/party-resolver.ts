@@ -0,0 +1,389 @@
+/**
+ * Party Resolver
+ * Assigns stable party ids to the names found in OCR'd index inscriptions and
+ * actes, and records every mention so a party can be followed across lots
+ * ("every lot where this person appears as créancier").
+ *
+ * Names resolve to the same party when their normalized keys match, when the key
+ * is a known alias, or when both companies match the same NEQ in req_companies.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../utils/logger';
+import {
+  ExtractionQueueJob,
+  SanitizedOCRResult,
+  ParsedActe,
+  PartyRecord,
+  PartyMention,
+} from '../types';
+import { AnalysisError } from './lot-analyzer';
+import { NormalizedPartyName, normalizePartyName, normalizeRole, splitCompoundParty } from './party-names';
+
+/**
+ * Job fields copied on its party mentions
+ */
+export type PartyJobContext = Pick<ExtractionQueueJob, 'id' | 'document_source' | 'document_number' | 'circonscription_fonciere' | 'cadastre'>;
+
+/**
+ * Party mention before its party is resolved
+ */
+export interface PartyMentionDraft {
+  name: NormalizedPartyName;
+  role: string;
+  lot_number: string | null;
+  circonscription: string | null;
+  cadastre: string | null;
+  acte_publication_number: string | null;
+  acte_publication_date: string | null;
+  acte_nature: string | null;
+  page_number: number | null;
+  line_number: number | null;
+}
+
+export interface PartyMentionQuery {
+  /** Role to match, ignoring case and accents ("créancier") */
+  role?: string;
+  documentSource?: PartyMention['document_source'];
+  limit?: number;
+}
+
+/**
+ * Lot where a party appears
+ */
+export interface PartyLot {
+  lot_number: string;
+  circonscription: string | null;
+  cadastre: string | null;
+  roles: string[];
+  mentions: number;
+}
+
+/**
+ * Party mentions of an index result or a parsed acte
+ */
+export function collectMentions(
+  job: PartyJobContext,
+  result: SanitizedOCRResult | null,
+  acte: ParsedActe | null
+): PartyMentionDraft[] {
+  const drafts: PartyMentionDraft[] = [];
+
+  for (const page of result?.pages || []) {
+    for (const inscription of page.inscriptions) {
+      for (const party of inscription.parties.flatMap(splitCompoundParty)) {
+        if (!party.name.trim()) {
+          continue;
+        }
+        drafts.push({
+          name: normalizePartyName(party.name),
+          role: party.role,
+          lot_number: job.document_number || page.metadata.lot_number,
+          circonscription: job.circonscription_fonciere || page.metadata.circonscription,
+          cadastre: job.cadastre || page.metadata.cadastre,
+          acte_publication_number: inscription.acte_publication_number,
+          acte_publication_date: inscription.acte_publication_date,
+          acte_nature: inscription.acte_nature,
+          page_number: page.pageNumber,
+          line_number: inscription.line_number,
+        });
+      }
+    }
+  }
+
+  if (acte) {
+    const lots = acte.lots.length > 0 ? acte.lots : [null];
+
+    for (const party of acte.parties) {
+      for (const lot of lots) {
+        drafts.push({
+          name: normalizePartyName(party.name),
+          role: party.role,
+          lot_number: lot?.lot_number || null,
+          circonscription: lot?.circonscription || job.circonscription_fonciere || null,
+          cadastre: lot?.cadastre || job.cadastre || null,
+          acte_publication_number: acte.inscription_number || job.document_number,
+          acte_publication_date: acte.registration_date,
+          acte_nature: acte.nature,
+          page_number: null,
+          line_number: null,
+        });
+      }
+    }
+  }
+
+  return drafts;
+}
+
+export class PartyResolver {
+  /** Company name key -> NEQ, loaded once per resolver */
+  private companyNEQs: Map<string, string> | null = null;
+
+  constructor(private client: SupabaseClient) {}
+
+  /**
+   * Resolve the parties of a job and replace its mentions
+   */
+  async indexJob(job: PartyJobContext, result: SanitizedOCRResult | null, acte: ParsedActe | null): Promise<number> {
+    const drafts = collectMentions(job, result, acte);
+    const partyIds = await this.resolve(drafts.map(d => d.name));
+
+    const { error: deleteError } = await this.client
+      .from('party_mentions')
+      .delete()
+      .eq('job_id', job.id);
+
+    if (deleteError) {
+      throw new Error(`Failed to clear party mentions: ${deleteError.message}`);
+    }
+
+    if (drafts.length > 0) {
+      const { error } = await this.client
+        .from('party_mentions')
+        .insert(drafts.map(({ name, ...draft }) => ({
+          ...draft,
+          party_id: partyIds.get(name.key),
+          job_id: job.id,
+          document_source: job.document_source,
+          raw_name: name.raw,
+          role_key: normalizeRole(draft.role),
+        })));
+
+      if (error) {
+        throw new Error(`Failed to save party mentions: ${error.message}`);
+      }
+    }
+
+    logger.info({ jobId: job.id, mentions: drafts.length, parties: new Set(partyIds.values()).size }, '👥 Indexed parties');
+
+    return drafts.length;
+  }
+
+  /**
+   * Party id of each name key, creating the parties that do not exist yet
+   */
+  async resolve(names: NormalizedPartyName[]): Promise<Map<string, string>> {
+    const byKey = new Map(names.map(name => [name.key, name]));
+    const ids = new Map<string, string>();
+    if (byKey.size === 0) {
+      return ids;
+    }
+
+    await this.loadKnownParties(Array.from(byKey.keys()), ids);
+
+    // Companies known under another name but with the same NEQ
+    const neqs = await this.getCompanyNEQs();
+    const unresolvedCompanies = Array.from(byKey.values())
+      .filter(name => !ids.has(name.key) && name.kind === 'company' && neqs.has(name.key));
+
+    if (unresolvedCompanies.length > 0) {
+      const { data, error } = await this.client
+        .from('parties')
+        .select('id, neq, alias_keys')
+        .in('neq', unresolvedCompanies.map(name => neqs.get(name.key)!));
+
+      if (error) {
+        throw new Error(`Failed to look up parties by NEQ: ${error.message}`);
+      }
+
+      for (const party of data || []) {
+        const aliases = unresolvedCompanies.filter(name => neqs.get(name.key) === party.neq).map(name => name.key);
+        await this.addAliases(party.id, party.alias_keys || [], aliases);
+        aliases.forEach(key => ids.set(key, party.id));
+      }
+    }
+
+    const missing = Array.from(byKey.values()).filter(name => !ids.has(name.key));
+    if (missing.length > 0) {
+      // New names sharing a NEQ become one party, the others being its aliases
+      const rows = new Map<string, { name_key: string; display_name: string; kind: string; neq: string | null; alias_keys: string[] }>();
+      for (const name of missing) {
+        const neq = neqs.get(name.key) || null;
+        const sameCompany = neq ? rows.get(`neq:${neq}`) : undefined;
+        if (sameCompany) {
+          sameCompany.alias_keys.push(name.key);
+          continue;
+        }
+        rows.set(neq ? `neq:${neq}` : name.key, {
+          name_key: name.key,
+          display_name: name.display,
+          kind: name.kind,
+          neq,
+          alias_keys: [],
+        });
+      }
+
+      const { error } = await this.client
+        .from('parties')
+        .upsert(Array.from(rows.values()), { onConflict: 'name_key', ignoreDuplicates: true });
+
+      if (error) {
+        throw new Error(`Failed to create parties: ${error.message}`);
+      }
+
+      // Re-read so parties created concurrently by another worker are picked up
+      await this.loadKnownParties(missing.map(name => name.key), ids);
+    }
+
+    return ids;
+  }
+
+  /**
+   * Parties whose name matches, by normalized key or alias first, then by display name
+   */
+  async search(name: string, limit: number = 20): Promise<PartyRecord[]> {
+    const key = normalizePartyName(name).key;
+
+    const [exact, aliased, similar] = await Promise.all([
+      this.client.from('parties').select('*').eq('name_key', key),
+      this.client.from('parties').select('*').contains('alias_keys', [key]),
+      this.client.from('parties').select('*').ilike('display_name', `%${name.trim()}%`).limit(limit),
+    ]);
+
+    const error = exact.error || aliased.error || similar.error;
+    if (error) {
+      throw new Error(`Failed to search parties: ${error.message}`);
+    }
+
+    const parties = new Map<string, PartyRecord>();
+    for (const party of [...exact.data || [], ...aliased.data || [], ...similar.data || []]) {
+      parties.set(party.id, party);
+    }
+
+    return Array.from(parties.values()).slice(0, limit);
+  }
+
+  /**
+   * Get a party, throwing a 404 AnalysisError when it does not exist
+   */
+  async get(id: string): Promise<PartyRecord> {
+    const { data, error } = await this.client
+      .from('parties')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get party: ${error.message}`);
+    }
+    if (!data) {
+      throw new AnalysisError('Party not found', 404);
+    }
+
+    return data;
+  }
+
+  /**
+   * Mentions of a party and the lots they are on
+   */
+  async findMentions(partyId: string, query: PartyMentionQuery = {}): Promise<{ mentions: PartyMention[]; lots: PartyLot[] }> {
+    let request = this.client
+      .from('party_mentions')
+      .select('*')
+      .eq('party_id', partyId)
+      .order('acte_publication_date', { ascending: true, nullsFirst: false })
+      .limit(query.limit || 500);
+
+    if (query.role) {
+      request = request.ilike('role_key', `%${normalizeRole(query.role)}%`);
+    }
+    if (query.documentSource) {
+      request = request.eq('document_source', query.documentSource);
+    }
+
+    const { data, error } = await request;
+
+    if (error) {
+      throw new Error(`Failed to load party mentions: ${error.message}`);
+    }
+
+    const mentions: PartyMention[] = data || [];
+    const lots = new Map<string, PartyLot>();
+
+    for (const mention of mentions) {
+      if (!mention.lot_number) {
+        continue;
+      }
+      const key = [mention.lot_number.replace(/\s+/g, ''), mention.circonscription, mention.cadastre].join('|');
+      const lot = lots.get(key) || {
+        lot_number: mention.lot_number,
+        circonscription: mention.circonscription,
+        cadastre: mention.cadastre,
+        roles: [],
+        mentions: 0,
+      };
+      if (mention.role && !lot.roles.includes(mention.role)) {
+        lot.roles.push(mention.role);
+      }
+      lot.mentions++;
+      lots.set(key, lot);
+    }
+
+    return { mentions, lots: Array.from(lots.values()) };
+  }
+
+  /**
+   * Add the ids of parties matching the keys by name key or alias
+   */
+  private async loadKnownParties(keys: string[], ids: Map<string, string>): Promise<void> {
+    const [byName, byAlias] = await Promise.all([
+      this.client.from('parties').select('id, name_key, alias_keys').in('name_key', keys),
+      this.client.from('parties').select('id, name_key, alias_keys').overlaps('alias_keys', keys),
+    ]);
+
+    const error = byName.error || byAlias.error;
+    if (error) {
+      throw new Error(`Failed to load parties: ${error.message}`);
+    }
+
+    for (const party of [...byName.data || [], ...byAlias.data || []]) {
+      for (const key of [party.name_key, ...(party.alias_keys || [])]) {
+        if (keys.includes(key) && !ids.has(key)) {
+          ids.set(key, party.id);
+        }
+      }
+    }
+  }
+
+  private async addAliases(partyId: string, current: string[], aliases: string[]): Promise<void> {
+    const { error } = await this.client
+      .from('parties')
+      .update({
+        alias_keys: Array.from(new Set([...current, ...aliases])),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', partyId);
+
+    if (error) {
+      throw new Error(`Failed to add party aliases: ${error.message}`);
+    }
+  }
+
+  /**
+   * NEQ of the companies found by REQ searches, by company name key
+   * (an environment without req_companies simply has no NEQ matches)
+   */
+  private async getCompanyNEQs(): Promise<Map<string, string>> {
+    if (this.companyNEQs) {
+      return this.companyNEQs;
+    }
+
+    this.companyNEQs = new Map();
+    const { data, error } = await this.client
+      .from('req_companies')
+      .select('neq, company_name');
+
+    if (error) {
+      logger.warn({ error: error.message }, 'Could not load REQ companies for NEQ matching');
+      return this.companyNEQs;
+    }
+
+    for (const company of data || []) {
+      if (company.neq && company.company_name) {
+        this.companyNEQs.set(normalizePartyName(company.company_name, 'company').key, company.neq);
+      }
+    }
+
+    return this.companyNEQs;
+  }
+}
@@ -4,7 +4,17 @@ import { logger } from '../utils/logger';
 import { config } from '../config';
 import { z } from 'zod';
 import path from 'path';
-import { supabase } from '../utils/supabase';
+import os from 'os';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase, supabaseManager, EnvironmentName } from '../utils/supabase';
+import { ReviewQueue, ReviewError } from '../review';
+import { LotAnalyzer, AnalysisError, PartyResolver, renderChainOfTitleReport } from '../analysis';
+import { ReferenceFollower } from '../queue/reference-follower';
+import { DocumentSearch } from '../search';
+import { CostReporter, renderCostCSV } from '../usage';
+import { OCRRerunner } from '../ocr/ocr-rerun';
+import { JobScheduler, countRunningJobs } from '../queue/scheduler';
+import { jobPriorityName } from '../queue/priority';
 
 const app = express();
 const queueManager = new QueueManager();
@@ -21,6 +31,15 @@ app.use((req, _res, next) => {
 });
 
 // Request validation schemas
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+const followReferencesSchema = z.object({
+  natures: z.array(z.string().min(1)).optional(),
+  date_from: isoDateSchema.optional(),
+  date_to: isoDateSchema.optional(),
+  active_only: z.boolean().optional(),
+}).strict();
+
 const createExtractionSchema = z.object({
   document_source: z.enum(['acte', 'index', 'plan_cadastraux']),
   document_number: z.string().min(1),
@@ -29,6 +48,11 @@ const createExtractionSchema = z.object({
   cadastre: z.string().optional(),
   designation_secondaire: z.string().optional(),
   acte_type: z.enum(['Acte', 'Avis d\'adresse', 'Radiation', 'Acte divers']).optional(),
+  ocr_force_refresh: z.boolean().optional(),
+  // true follows every reference of the index, an object filters them
+  follow_references: z.union([z.boolean(), followReferencesSchema]).optional(),
+  // Level name or raw extraction_queue.priority (higher is claimed first)
+  priority: z.union([z.enum(['low', 'normal', 'high', 'rush']), z.number().int().min(-1000).max(1000)]).optional(),
 }).refine((data) => {
   // Validation based on document source
   if (data.document_source === 'index' || data.document_source === 'plan_cadastraux') {
@@ -40,8 +64,115 @@ const createExtractionSchema = z.object({
   return true;
 }, {
   message: 'Missing required fields for the specified document source'
+}).refine((data) => !data.follow_references || data.document_source === 'index', {
+  message: 'follow_references is only available for index documents',
+});
+
+const partySchema = z.object({
+  name: z.string().min(1),
+  role: z.string(),
+});
+
+const inscriptionFieldsSchema = z.object({
+  acte_publication_date: z.string().nullable().optional(),
+  acte_publication_number: z.string().nullable().optional(),
+  acte_nature: z.string().nullable().optional(),
+  parties: z.array(partySchema).optional(),
+  remarques: z.string().nullable().optional(),
+  radiation_number: z.string().nullable().optional(),
+}).strict();
+
+const reviewCorrectionSchema = z.object({
+  reviewer: z.string().min(1),
+  note: z.string().optional(),
+  fields: inscriptionFieldsSchema.optional(),
+  inscriptions: z.array(inscriptionFieldsSchema.extend({
+    line_number: z.number().int().positive(),
+  })).optional(),
+});
+
+const ocrRerunSchema = z.object({
+  requested_by: z.string().min(1),
+  note: z.string().optional(),
+  provider: z.enum(['gemini', 'claude', 'tesseract']).optional(),
+  extract_model: z.string().min(1).optional(),
+  boost_model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  prompt_versions: z.object({
+    extract: z.string().min(1).optional(),
+    boost: z.string().min(1).optional(),
+  }).strict().optional(),
+});
+
+const reviewListSchema = z.object({
+  status: z.enum(['pending', 'resolved']).optional(),
+  job_id: z.string().uuid().optional(),
+  limit: z.coerce.number().int().positive().max(500).optional(),
+});
+
+const lotQuerySchema = z.object({
+  circonscription: z.string().min(1).optional(),
+  cadastre: z.string().min(1).optional(),
+});
+
+const partySearchSchema = z.object({
+  name: z.string().min(2),
+  limit: z.coerce.number().int().positive().max(100).optional(),
+});
+
+const partyMentionsSchema = z.object({
+  role: z.string().min(1).optional(),
+  document_source: z.enum(['acte', 'index', 'plan_cadastraux']).optional(),
+  limit: z.coerce.number().int().positive().max(5000).optional(),
+});
+
+const documentSearchSchema = z.object({
+  q: z.string().min(1).optional(),
+  document_source: z.enum(['acte', 'index', 'plan_cadastraux']).optional(),
+  nature: z.string().min(1).optional(),
+  party: z.string().min(2).optional(),
+  date_from: isoDateSchema.optional(),
+  date_to: isoDateSchema.optional(),
+  circonscription: z.string().min(1).optional(),
+  cadastre: z.string().min(1).optional(),
+  limit: z.coerce.number().int().positive().max(100).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+}).refine((data) => !!(data.q || data.nature || data.party || data.date_from || data.date_to || data.circonscription || data.cadastre), {
+  message: 'Provide a query (q) or at least one filter',
+});
+
+const costReportSchema = z.object({
+  date_from: isoDateSchema.optional(),
+  date_to: isoDateSchema.optional(),
+  document_source: z.enum(['acte', 'index', 'plan_cadastraux']).optional(),
+  environment: z.enum(['prod', 'staging', 'dev']).optional(),
+  format: z.enum(['json', 'csv']).default('json'),
 });
 
+const chainOfTitleQuerySchema = z.object({
+  circonscription: z.string().min(1),
+  cadastre: z.string().min(1),
+  format: z.enum(['json', 'text']).default('json'),
+});
+
+/**
+ * Supabase client for the optional ?environment= query parameter
+ * (defaults to the main client)
+ */
+function getRequestClient(req: Request): SupabaseClient {
+  const environment = req.query.environment as EnvironmentName | undefined;
+
+  if (!environment) {
+    return supabase;
+  }
+
+  const client = supabaseManager.getServiceClient(environment);
+  if (!client) {
+    throw new ReviewError(`Unknown or unconfigured environment: ${environment}`);
+  }
+  return client;
+}
+
 // Error handler middleware
 const errorHandler = (err: Error, req: Request, res: Response, _next: NextFunction) => {
   logger.error({ error: err, url: req.url }, 'API Error');
@@ -53,6 +184,10 @@ const errorHandler = (err: Error, req: Request, res: Response, _next: NextFuncti
     });
   }
 
+  if (err instanceof ReviewError || err instanceof AnalysisError) {
+    return res.status(err.statusCode).json({ error: err.message });
+  }
+
   return res.status(500).json({
     error: 'Internal server error',
     message: config.isDevelopment ? err.message : undefined,
@@ -77,13 +212,27 @@ app.get('/api', (_req: Request, res: Response) => {
     name: 'Registre Extractor API',
     version: '2.0.0',
     endpoints: {
-      'POST /api/extractions': 'Create new extraction job',
+      'POST /api/extractions': 'Create new extraction job (priority: low, normal, high or rush; rush jobs are claimed first)',
       'GET /api/extractions/:id': 'Get extraction job status',
       'GET /api/extractions': 'List extraction jobs',
       'POST /api/extractions/:id/retry': 'Retry failed extraction',
       'DELETE /api/extractions/:id': 'Cancel extraction job',
+      'GET /api/extractions/:id/bundle': 'Progress of an index job and the acte jobs it enqueued (follow_references)',
+      'POST /api/extractions/:id/ocr': 'Re-run OCR of a completed job, keeping the previous output as a revision (provider, extract_model, boost_model, temperature, prompt_versions overrides)',
+      'GET /api/extractions/:id/ocr/revisions': 'Reviewed and replaced OCR outputs of a job, oldest first (?environment)',
       'GET /api/metrics': 'Get system metrics',
       'GET /api/workers': 'Get worker status',
+      'GET /api/review/items': 'List OCR review items (?status, job_id, limit, environment)',
+      'GET /api/review/items/:id': 'Get OCR review item with the current inscription',
+      'GET /api/review/items/:id/page-image': 'Page image of a review item from the stored PDF',
+      'POST /api/review/items/:id/corrections': 'Submit a reviewer correction (new authoritative revision)',
+      'GET /api/lots/:lot/etat-des-droits': 'Charges of a lot and whether they are still in force (?circonscription, cadastre, environment)',
+      'GET /api/parties': 'Search resolved parties by name (?name, limit, environment)',
+      'GET /api/parties/:id/mentions': 'Inscriptions, actes and lots where a party appears (?role, document_source, limit, environment)',
+      'GET /api/lots/:lot/chain-of-title': 'Ownership history of a lot (?circonscription, cadastre required; format=json|text, environment)',
+      'GET /api/scheduler': 'Effective job scheduling policy of the unified workers (weights, shares, caps, aging) and jobs in progress per environment',
+      'GET /api/costs': 'Model tokens and estimated cost by day, document source and environment (?date_from, date_to, document_source, environment, format=json|csv)',
+      'GET /api/search': 'Full-text and structured search of OCR\'d documents with snippets (?q, document_source, nature, party, date_from, date_to, circonscription, cadastre, limit, offset, environment)',
     },
   });
 });
@@ -101,6 +250,8 @@ app.post('/api/extractions', async (req: Request, res: Response, next: NextFunct
       status_id: job.status_id,
       document_number: job.document_number,
       document_number_normalized: job.document_number_normalized,
+      priority: jobPriorityName(job.priority),
+      priority_value: job.priority ?? 0,
       created_at: job.created_at,
       estimated_completion: new Date(Date.now() + 180000).toISOString(), // 3 minutes estimate
     });
@@ -127,6 +278,8 @@ app.get('/api/extractions/:id', async (req: Request, res: Response, next: NextFu
       document_number_normalized: job.document_number_normalized,
       supabase_path: job.supabase_path,
       error_message: job.error_message,
+      priority: jobPriorityName(job.priority),
+      priority_value: job.priority ?? 0,
       created_at: job.created_at,
       processing_started_at: job.processing_started_at,
       worker_id: job.worker_id,
@@ -152,6 +305,7 @@ app.get('/api/extractions', async (req: Request, res: Response, next: NextFuncti
         document_number: job.document_number,
         document_number_normalized: job.document_number_normalized,
         circonscription_fonciere: job.circonscription_fonciere,
+        priority: jobPriorityName(job.priority),
         created_at: job.created_at,
         processing_started_at: job.processing_started_at,
       })),
@@ -161,6 +315,22 @@ app.get('/api/extractions', async (req: Request, res: Response, next: NextFuncti
   }
 });
 
+// Progress of an index job and the acte jobs enqueued from its references
+app.get('/api/extractions/:id/bundle', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const bundle = await new ReferenceFollower(getRequestClient(req)).getBundle(req.params.id);
+
+    if (!bundle) {
+      res.status(404).json({ error: 'Extraction job not found' });
+      return;
+    }
+
+    res.json(bundle);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Retry failed extraction
 app.post('/api/extractions/:id/retry', async (_req: Request, res: Response, next: NextFunction) => {
   try {
@@ -175,6 +345,42 @@ app.post('/api/extractions/:id/retry', async (_req: Request, res: Response, next
   }
 });
 
+// Re-run OCR of a completed job with optional overrides
+app.post('/api/extractions/:id/ocr', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { requested_by, note, ...overrides } = ocrRerunSchema.parse(req.body);
+    const revision = await new OCRRerunner(getRequestClient(req)).requeue(req.params.id, {
+      requested_by,
+      note,
+      overrides,
+    });
+
+    res.status(202).json({
+      message: 'OCR requeued',
+      extraction_id: req.params.id,
+      overrides,
+      previous_revision: {
+        revision: revision.revision,
+        created_by: revision.created_by,
+        created_at: revision.created_at,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Revisions of a job's OCR output (reviewer corrections and outputs replaced by re-runs)
+app.get('/api/extractions/:id/ocr/revisions', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const revisions = await new ReviewQueue(getRequestClient(req)).listRevisions(req.params.id);
+
+    res.json({ total: revisions.length, revisions });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Cancel extraction job
 app.delete('/api/extractions/:id', async (_req: Request, res: Response, next: NextFunction) => {
   try {
@@ -250,6 +456,195 @@ app.get('/api/workers', async (_req: Request, res: Response, next: NextFunction)
   }
 });
 
+// List OCR review items
+app.get('/api/review/items', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = reviewListSchema.parse(req.query);
+    const items = await new ReviewQueue(getRequestClient(req)).list({
+      status: query.status,
+      jobId: query.job_id,
+      limit: query.limit,
+    });
+
+    res.json({ total: items.length, items });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get OCR review item with the current (possibly already corrected) inscription
+app.get('/api/review/items/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const queue = new ReviewQueue(getRequestClient(req));
+    const item = await queue.get(req.params.id);
+    const current = await queue.getCurrentResult(item.job_id);
+    const page = current.pages.find(p => p.pageNumber === item.page_number);
+
+    res.json({
+      item,
+      current: {
+        metadata: page?.metadata || null,
+        inscription: page?.inscriptions.find(i => i.line_number === item.line_number) || null,
+        inscriptions: item.line_number === 0 ? page?.inscriptions || [] : undefined,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Page image of a review item, rendered from the stored PDF
+app.get('/api/review/items/:id/page-image', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const queue = new ReviewQueue(getRequestClient(req));
+    const item = await queue.get(req.params.id);
+    const { image, mimeType } = await queue.renderPageImage(item, path.join(os.tmpdir(), 'ocr-review'));
+
+    res.setHeader('Content-Type', mimeType);
+    res.send(image);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Submit a reviewer correction
+app.post('/api/review/items/:id/corrections', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const correction = reviewCorrectionSchema.parse(req.body);
+    const { item, revision } = await new ReviewQueue(getRequestClient(req)).submitCorrection(req.params.id, correction);
+
+    res.json({
+      item,
+      revision: {
+        revision: revision.revision,
+        created_by: revision.created_by,
+        created_at: revision.created_at,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// État des droits of a lot, computed from its latest sanitized index
+app.get('/api/lots/:lot/etat-des-droits', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = lotQuerySchema.parse(req.query);
+    const analysis = await new LotAnalyzer(getRequestClient(req)).getEtatDesDroits({
+      lot_number: req.params.lot,
+      circonscription: query.circonscription,
+      cadastre: query.cadastre,
+    });
+
+    res.json(analysis);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Chain of title of a lot, as a JSON graph or a human-readable report
+app.get('/api/lots/:lot/chain-of-title', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = chainOfTitleQuerySchema.parse(req.query);
+    const analysis = await new LotAnalyzer(getRequestClient(req)).getChainOfTitle({
+      lot_number: req.params.lot,
+      circonscription: query.circonscription,
+      cadastre: query.cadastre,
+    });
+
+    if (query.format === 'text') {
+      res.type('text/plain').send(renderChainOfTitleReport(analysis.chain_of_title));
+      return;
+    }
+
+    res.json({ ...analysis, report: renderChainOfTitleReport(analysis.chain_of_title) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Search resolved parties by name
+app.get('/api/parties', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = partySearchSchema.parse(req.query);
+    const parties = await new PartyResolver(getRequestClient(req)).search(query.name, query.limit);
+
+    res.json({ total: parties.length, parties });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Mentions of a party and the lots they are on (e.g. ?role=créancier)
+app.get('/api/parties/:id/mentions', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = partyMentionsSchema.parse(req.query);
+    const resolver = new PartyResolver(getRequestClient(req));
+    const party = await resolver.get(req.params.id);
+    const { mentions, lots } = await resolver.findMentions(party.id, {
+      role: query.role,
+      documentSource: query.document_source,
+      limit: query.limit,
+    });
+
+    res.json({ party, total: mentions.length, lots, mentions });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Search OCR'd documents by text and structured filters (e.g. ?q=servitude&party=Tremblay)
+app.get('/api/search', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = documentSearchSchema.parse(req.query);
+    const result = await new DocumentSearch(getRequestClient(req)).search(query);
+
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Model usage and estimated cost, across all environments unless ?environment= is given
+app.get('/api/costs', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { environment, format, ...query } = costReportSchema.parse(req.query);
+    const environments = environment
+      ? [{ environment, client: getRequestClient(req) }]
+      : supabaseManager.getAvailableEnvironments().map(env => ({ environment: env, client: supabaseManager.getServiceClient(env)! }));
+
+    const report = await new CostReporter(environments).report(query);
+
+    if (format === 'csv') {
+      res.type('text/csv').send(renderCostCSV(report));
+      return;
+    }
+
+    res.json(report);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Effective scheduling policy of the unified workers, with the jobs in progress it caps
+app.get('/api/scheduler', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const environments = supabaseManager.getAvailableEnvironments();
+    const running = await Promise.all(environments.map(async environment => ({
+      environment,
+      ...(await countRunningJobs(supabaseManager.getServiceClient(environment)!)),
+    })));
+
+    res.json({
+      ...new JobScheduler(config.scheduler).describe(environments),
+      running,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get all tasks (extraction, REQ, RDPRM) - unified view
 app.get('/api/tasks', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -22,7 +22,10 @@ async function checkAccounts() {
           index: index + 1,
           username: account.username,
           is_active: account.is_active,
-          failure_count: account.failure_count
+          failure_count: account.failure_count,
+          leased_by: account.leased_by,
+          lease_expires_at: account.lease_expires_at,
+          cooldown_until: account.cooldown_until,
         }, 'Account');
       });
     } else {
@@ -3,6 +3,16 @@ import { z } from 'zod';
 
 dotenv.config();
 
+/**
+ * Parse "key:number" lists ("prod:6,staging:3,dev:1")
+ */
+const numberMap = (value: string): Record<string, number> => Object.fromEntries(
+  value.split(',')
+    .map(entry => entry.split(':').map(part => part.trim()))
+    .filter(([key, number]) => key && number !== undefined && !Number.isNaN(Number(number)))
+    .map(([key, number]) => [key, Number(number)])
+);
+
 const envSchema = z.object({
   // Legacy single-environment config (for backward compatibility)
   SUPABASE_URL: z.string().url().optional(),
@@ -29,8 +39,23 @@ const envSchema = z.object({
   REDIS_PASSWORD: z.string().optional(),
   WORKER_COUNT: z.string().transform(Number).default('1'),
   WORKER_CONCURRENCY: z.string().transform(Number).default('20'),
+  // Restart delay of crashed unified workers, doubled per consecutive crash (see src/worker/worker-pool.ts)
+  WORKER_RESTART_DELAY: z.string().transform(Number).default('5000'),
+  WORKER_MAX_RESTART_DELAY: z.string().transform(Number).default('300000'),
+  // Registry account leases of the unified workers (see src/worker/account-leaser.ts)
+  WORKER_ACCOUNT_LEASE_SECONDS: z.string().transform(Number).default('120'),
+  WORKER_ACCOUNT_COOLDOWN_SECONDS: z.string().transform(Number).default('300'),
+  WORKER_ACCOUNT_MAX_COOLDOWN_SECONDS: z.string().transform(Number).default('3600'),
+  WORKER_ACCOUNT_MAX_FAILURES: z.string().transform(Number).default('5'),
   EXTRACTION_TIMEOUT: z.string().transform(Number).default('180000'),
   SESSION_TIMEOUT: z.string().transform(Number).default('240000'),
+
+  // Job scheduling of the unified workers (see src/queue/scheduler.ts)
+  SCHEDULER_POLICY: z.enum(['weighted', 'strict']).default('weighted'),
+  SCHEDULER_ENVIRONMENT_WEIGHTS: z.string().transform(numberMap).default('prod:6,staging:3,dev:1'),
+  SCHEDULER_JOB_TYPE_WEIGHTS: z.string().transform(numberMap).default('extraction:2,req:2,rdprm:1'),
+  SCHEDULER_MAX_CONCURRENT: z.string().transform(numberMap).default(''),
+  SCHEDULER_AGING_MINUTES: z.string().transform(Number).default('30'),
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
   REGISTRY_BASE_URL: z.string().url().default('https://www.registrefoncier.gouv.qc.ca/Sirf/'),
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
@@ -42,7 +67,7 @@ const envSchema = z.object({
   // OCR Configuration
   GEMINI_API_KEY: z.string().optional(),
   CLAUDE_API_KEY: z.string().optional(),
-  OCR_PREFERRED_PROVIDER: z.enum(['gemini', 'claude']).default('gemini'),
+  OCR_PREFERRED_PROVIDER: z.enum(['gemini', 'claude', 'tesseract']).default('gemini'),
   OCR_EXTRACT_MODEL_GEMINI: z.string().default('gemini-2.0-flash-exp'),
   OCR_EXTRACT_MODEL_CLAUDE: z.string().default('claude-sonnet-4-5-20250929'),
   OCR_BOOST_MODEL_GEMINI: z.string().default('gemini-2.5-pro'),
@@ -53,6 +78,14 @@ const envSchema = z.object({
   OCR_TEMP_DIR: z.string().default('/tmp/ocr-processing'),
   OCR_WORKER_COUNT: z.string().transform(Number).default('2'),
   OCR_WORKER_ID: z.string().optional(),
+  OCR_PAGE_CONCURRENCY: z.string().transform(Number).default('4'),
+  OCR_PAGE_MAX_ATTEMPTS: z.string().transform(Number).default('3'),
+
+  // Local OCR (Tesseract), last-resort fallback or preferred provider without API keys
+  OCR_TESSERACT_ENABLED: z.string().transform(val => val === 'true').default('false'),
+  OCR_TESSERACT_PATH: z.string().default('tesseract'),
+  OCR_TESSERACT_LANGUAGE: z.string().default('fra'),
+  OCR_TESSERACT_PSM: z.string().transform(Number).default('6'),
 
   // Acte OCR Configuration (uses File API for Gemini, images for Claude)
   ACTE_OCR_EXTRACT_MODEL_GEMINI: z.string().default('gemini-2.0-flash-exp'),
@@ -69,6 +102,13 @@ const envSchema = z.object({
 
   // OCR Output Format Control
   OCR_SKIP_SANITIZATION: z.string().transform(val => val === 'true').default('false'),
+  OCR_REVIEW_CONFIDENCE_THRESHOLD: z.string().transform(Number).default('70'),
+  OCR_STRUCTURED_OUTPUT: z.string().transform(val => val === 'true').default('false'),
+  OCR_STRUCTURED_MAX_ATTEMPTS: z.string().transform(Number).default('2'),
+
+  // OCR Cache Control
+  OCR_CACHE_ENABLED: z.string().transform(val => val !== 'false').default('true'),
+  OCR_CACHE_ENVIRONMENT: z.enum(['prod', 'staging', 'dev']).optional(),
 });
 
 const env = envSchema.parse(process.env);
@@ -136,9 +176,24 @@ export const config = {
   worker: {
     count: env.WORKER_COUNT,
     concurrency: env.WORKER_CONCURRENCY,
+    restartDelay: env.WORKER_RESTART_DELAY,
+    maxRestartDelay: env.WORKER_MAX_RESTART_DELAY,
+    accountLease: {
+      leaseSeconds: env.WORKER_ACCOUNT_LEASE_SECONDS,
+      cooldownSeconds: env.WORKER_ACCOUNT_COOLDOWN_SECONDS,
+      maxCooldownSeconds: env.WORKER_ACCOUNT_MAX_COOLDOWN_SECONDS,
+      maxFailures: env.WORKER_ACCOUNT_MAX_FAILURES,
+    },
     extractionTimeout: env.EXTRACTION_TIMEOUT,
     sessionTimeout: env.SESSION_TIMEOUT,
   },
+  scheduler: {
+    policy: env.SCHEDULER_POLICY,
+    environmentWeights: env.SCHEDULER_ENVIRONMENT_WEIGHTS,
+    jobTypeWeights: env.SCHEDULER_JOB_TYPE_WEIGHTS,
+    maxConcurrent: env.SCHEDULER_MAX_CONCURRENT,
+    agingMinutes: env.SCHEDULER_AGING_MINUTES,
+  },
   logging: {
     level: env.LOG_LEVEL,
   },
@@ -164,10 +219,12 @@ export const config = {
     extractModel: {
       gemini: env.OCR_EXTRACT_MODEL_GEMINI,
       claude: env.OCR_EXTRACT_MODEL_CLAUDE,
+      tesseract: `tesseract-${env.OCR_TESSERACT_LANGUAGE}`,
     },
     boostModel: {
       gemini: env.OCR_BOOST_MODEL_GEMINI,
       claude: env.OCR_BOOST_MODEL_CLAUDE,
+      tesseract: 'none',
     },
     extractTemperature: env.OCR_EXTRACT_TEMPERATURE,
     boostTemperature: env.OCR_BOOST_TEMPERATURE,
@@ -175,19 +232,39 @@ export const config = {
     tempDir: env.OCR_TEMP_DIR,
     workerCount: env.OCR_WORKER_COUNT,
     workerId: env.OCR_WORKER_ID,
+    pageConcurrency: env.OCR_PAGE_CONCURRENCY,
+    pageMaxAttempts: env.OCR_PAGE_MAX_ATTEMPTS,
+    tesseract: {
+      enabled: env.OCR_TESSERACT_ENABLED,
+      binaryPath: env.OCR_TESSERACT_PATH,
+      language: env.OCR_TESSERACT_LANGUAGE,
+      pageSegmentationMode: env.OCR_TESSERACT_PSM,
+    },
     enabledEnvironments: {
       prod: env.OCR_PROD,
       staging: env.OCR_STAGING,
       dev: env.OCR_DEV,
     },
+    skipSanitization: env.OCR_SKIP_SANITIZATION,
+    reviewConfidenceThreshold: env.OCR_REVIEW_CONFIDENCE_THRESHOLD,
+    structuredOutput: {
+      enabled: env.OCR_STRUCTURED_OUTPUT,
+      maxAttempts: env.OCR_STRUCTURED_MAX_ATTEMPTS,
+    },
+    cache: {
+      enabled: env.OCR_CACHE_ENABLED,
+      environment: env.OCR_CACHE_ENVIRONMENT,
+    },
     acte: {
       extractModel: {
         gemini: env.ACTE_OCR_EXTRACT_MODEL_GEMINI,
         claude: env.ACTE_OCR_EXTRACT_MODEL_CLAUDE,
+        tesseract: `tesseract-${env.OCR_TESSERACT_LANGUAGE}`,
       },
       boostModel: {
         gemini: env.ACTE_OCR_BOOST_MODEL_GEMINI,
         claude: env.ACTE_OCR_BOOST_MODEL_CLAUDE,
+        tesseract: 'none',
       },
       extractTemperature: env.ACTE_OCR_EXTRACT_TEMPERATURE,
       boostTemperature: env.ACTE_OCR_BOOST_TEMPERATURE,
@@ -85,6 +85,15 @@ export class HealthMonitor {
         const client = supabaseManager.getServiceClient(env);
         if (!client) continue;
 
+        // Fail waiting jobs that used up their attempts (claims no longer sweep them)
+        const { data: failedCount, error: failError } = await client.rpc('fail_exhausted_extraction_jobs');
+
+        if (failError) {
+          logger.error({ error: failError, environment: env }, 'Error failing exhausted jobs');
+        } else if (failedCount > 0) {
+          logger.warn({ environment: env, count: failedCount }, '⛔ Failed jobs past max attempts');
+        }
+
         // Find and reset stuck jobs in one query
         const { data: stuckJobs, error: queryError } = await client
           .from('extraction_queue')
@@ -0,0 +1,100 @@
+/**
+ * Tests for acte parsing
+ */
+
+import { parseActe, ActeParseError, normalizeActeDate, parseAmount } from '../acte-parser';
+
+jest.mock('../../utils/logger');
+
+const BOOSTED_ACTE = `
+## 📋 EN-TÊTE
+- **Numéro d'inscription** : 12 345 678
+- **Date d’enregistrement** : 2020-01-15 (15 janvier 2020)
+- **Bureau de la publicité** : Circonscription foncière de Montréal
+
+## NATURE DE L'ACTE
+Vente
+
+## PARTIES
+
+### Partie 1 (Vendeur)
+Nom : **TREMBLAY, Jean**
+Adresse : 123 rue Principale, Montréal, Québec, H1A 1A1
+
+### Partie 2
+Nom : GAGNON, Marie
+Adresse : [ILLISIBLE]
+Qualité : Acheteur
+
+## DESCRIPTION DE LA PROPRIÉTÉ
+Lot(s) : 1 234 567, 1 234 568
+Cadastre : Cadastre du Québec
+Circonscription foncière : Montréal
+
+## MONTANTS
+- Prix de vente : **250 000,00 $**
+- Taxe de bienvenue : 3 500 $
+
+## RÉFÉRENCES
+Hypothèque publiée sous le numéro 9 876 543 le 2010-05-04
+Voir aussi 12 345 678
+
+## SIGNATURES
+Me Luc Bouchard, notaire
+`;
+
+describe('Acte Parser', () => {
+  it('should parse header fields, parties, lots, price, notary and references', () => {
+    const result = parseActe(BOOSTED_ACTE);
+
+    expect(result).toEqual({
+      inscription_number: '12345678',
+      registration_date: '2020-01-15',
+      bureau_publicite: 'Circonscription foncière de Montréal',
+      nature: 'Vente',
+      parties: [
+        { name: 'TREMBLAY, Jean', role: 'Vendeur', address: '123 rue Principale, Montréal, Québec, H1A 1A1' },
+        { name: 'GAGNON, Marie', role: 'Acheteur', address: null },
+      ],
+      consideration: { amount: 250000, text: '250 000,00 $' },
+      notary: 'Luc Bouchard',
+      lots: [
+        { lot_number: '1 234 567', cadastre: 'Cadastre du Québec', circonscription: 'Montréal' },
+        { lot_number: '1 234 568', cadastre: 'Cadastre du Québec', circonscription: 'Montréal' },
+      ],
+      referenced_inscriptions: ['9876543'],
+    });
+  });
+
+  it('should fall back to labelled fields when sections are missing', () => {
+    const result = parseActe(`Numéro d'inscription : 1 111 111
+Nature de l'acte : Quittance
+Notaire : Me Anne Roy`);
+
+    expect(result.inscription_number).toBe('1111111');
+    expect(result.nature).toBe('Quittance');
+    expect(result.notary).toBe('Anne Roy');
+    expect(result.parties).toEqual([]);
+  });
+
+  it('should reject text without any acte field', () => {
+    expect(() => parseActe('Document illisible')).toThrow(ActeParseError);
+  });
+});
+
+describe('normalizeActeDate', () => {
+  it('should accept ISO, French and numeric dates', () => {
+    expect(normalizeActeDate('2020-1-5')).toBe('2020-01-05');
+    expect(normalizeActeDate('1er février 1998')).toBe('1998-02-01');
+    expect(normalizeActeDate('15/01/2020')).toBe('2020-01-15');
+    expect(normalizeActeDate('[ILLISIBLE]')).toBeNull();
+  });
+});
+
+describe('parseAmount', () => {
+  it('should handle French and English separators', () => {
+    expect(parseAmount('250 000,00')).toBe(250000);
+    expect(parseAmount('250,000.50')).toBe(250000.5);
+    expect(parseAmount('3 500')).toBe(3500);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for the OCR golden-set evaluation metrics
+ */
+
+import { scoreSanitizedResult, scoreParsedActe, mergeCounts, summarizeCounts } from '../evaluation';
+import { versionPrompt, getPrompt, listPromptVersions, promptDocumentType } from '../prompt-registry';
+import { SanitizedOCRResult, Inscription, ParsedActe } from '../../types/ocr';
+
+jest.mock('../../utils/logger');
+
+function inscription(overrides: Partial<Inscription>): Inscription {
+  return {
+    line_number: 1,
+    acte_publication_date: '1990-05-15',
+    acte_publication_number: '4 000 001',
+    acte_nature: 'Hypothèque',
+    parties: [{ name: 'GAGNON, MARIE', role: 'Débiteur' }],
+    remarques: null,
+    radiation_number: null,
+    candidates: {} as Inscription['candidates'],
+    min_confidence: null,
+    ...overrides,
+  } as Inscription;
+}
+
+function indexResult(inscriptions: Inscription[], lotNumber: string | null = '1 358 176'): SanitizedOCRResult {
+  return {
+    pages: [{
+      pageNumber: 1,
+      metadata: { circonscription: 'Montréal', cadastre: 'Cadastre du Québec', lot_number: lotNumber },
+      inscriptions,
+    }],
+  } as SanitizedOCRResult;
+}
+
+describe('OCR Evaluation', () => {
+  describe('scoreSanitizedResult', () => {
+    it('should count wrong, missing and extra values', () => {
+      const expected = indexResult([
+        inscription({}),
+        inscription({ line_number: 2, acte_nature: 'Vente', radiation_number: '5 000 002' }),
+      ]);
+      const actual = indexResult([
+        inscription({ acte_publication_number: '4000001', acte_nature: 'HYPOTHÈQUE' }),
+        inscription({ line_number: 2, acte_nature: 'Vante', remarques: 'Voir acte' }),
+      ]);
+
+      const counts = scoreSanitizedResult(expected, actual);
+
+      expect(counts.acte_publication_number).toEqual({ true_positives: 2, false_positives: 0, false_negatives: 0 });
+      expect(counts.acte_nature).toEqual({ true_positives: 1, false_positives: 1, false_negatives: 1 });
+      expect(counts.radiation_number).toEqual({ true_positives: 0, false_positives: 0, false_negatives: 1 });
+      expect(counts.remarques).toEqual({ true_positives: 0, false_positives: 1, false_negatives: 0 });
+      expect(counts.lot_number.true_positives).toBe(1);
+    });
+
+    it('should compare parties as multisets and score unmatched lines', () => {
+      const expected = indexResult([inscription({
+        parties: [
+          { name: 'GAGNON, MARIE', role: 'Débiteur' },
+          { name: 'GAGNON, MARIE', role: 'Débiteur' },
+          { name: 'CAISSE DESJARDINS', role: 'Créancier' },
+        ],
+      })]);
+      const actual = indexResult([
+        inscription({ parties: [{ name: 'gagnon,  marie', role: 'Débiteur' }, { name: 'CAISSE', role: 'Créancier' }] }),
+        inscription({ line_number: 3 }),
+      ]);
+
+      const counts = scoreSanitizedResult(expected, actual);
+
+      expect(counts.parties).toEqual({ true_positives: 1, false_positives: 2, false_negatives: 2 });
+      expect(counts.acte_publication_date).toEqual({ true_positives: 1, false_positives: 1, false_negatives: 0 });
+    });
+  });
+
+  describe('scoreParsedActe', () => {
+    it('should count every expected field as missed when the acte did not parse', () => {
+      const expected = {
+        inscription_number: '12 345 678',
+        registration_date: '2010-03-01',
+        bureau_publicite: 'Montréal',
+        nature: 'Vente',
+        notary: null,
+        consideration: { amount: 250000, currency: 'CAD', text: '250 000 $' },
+        parties: [{ name: 'GAGNON, MARIE', role: 'Vendeur' }],
+        lots: [{ lot_number: '1 358 176', cadastre: null }],
+        referenced_inscriptions: [],
+      } as unknown as ParsedActe;
+
+      const counts = scoreParsedActe(expected, null);
+
+      expect(counts.inscription_number).toEqual({ true_positives: 0, false_positives: 0, false_negatives: 1 });
+      expect(counts.notary).toEqual({ true_positives: 0, false_positives: 0, false_negatives: 0 });
+      expect(counts.consideration.false_negatives).toBe(1);
+      expect(counts.lots.false_negatives).toBe(1);
+      expect(scoreParsedActe(expected, expected).lots.true_positives).toBe(1);
+    });
+  });
+
+  describe('summarizeCounts', () => {
+    it('should compute precision and recall per field and overall', () => {
+      const total = mergeCounts(
+        mergeCounts({}, { acte_nature: { true_positives: 3, false_positives: 1, false_negatives: 0 } }),
+        {
+          acte_nature: { true_positives: 1, false_positives: 0, false_negatives: 1 },
+          remarques: { true_positives: 0, false_positives: 0, false_negatives: 0 },
+        }
+      );
+
+      const summary = summarizeCounts(total, 2);
+
+      expect(summary.documents).toBe(2);
+      expect(summary.fields.map(f => f.field)).toEqual(['acte_nature', 'remarques']);
+      expect(summary.fields[0].precision).toBeCloseTo(0.8);
+      expect(summary.fields[0].recall).toBeCloseTo(0.8);
+      expect(summary.fields[1].precision).toBeNull();
+      expect(summary.fields[1].recall).toBeNull();
+      expect(summary.overall).toMatchObject({ field: 'overall', true_positives: 4, false_positives: 1, false_negatives: 1 });
+    });
+  });
+
+  describe('prompt versions', () => {
+    it('should change the prompt id when the text changes', () => {
+      const current = getPrompt('index', 'boost');
+      const edited = versionPrompt(current.name, current.version, current.text + '\n');
+
+      expect(current.id).toMatch(/^index\.boost@\d+\+[0-9a-f]{8}$/);
+      expect(edited.id).not.toBe(current.id);
+      expect(() => getPrompt('acte', 'structure')).toThrow('No structure prompt for acte documents');
+    });
+
+    it('should resolve registered versions only', () => {
+      const current = getPrompt('plan', 'boost');
+
+      expect(getPrompt('plan', 'boost', current.version)).toEqual(current);
+      expect(listPromptVersions('plan.boost')).toEqual([current.version]);
+      expect(() => getPrompt('plan', 'boost', '0')).toThrow('Unknown version 0 of prompt plan.boost');
+      expect(promptDocumentType('plan_cadastraux')).toBe('plan');
+    });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Tests for the content-addressed OCR cache
+ */
+
+import { OCRCache, hashContent, promptVersion } from '../ocr-cache';
+import { createSupabaseStub } from '../../__tests__/supabase-stub';
+
+jest.mock('../../utils/logger');
+
+const key = { kind: 'pdf' as const, contentHash: hashContent('pdf bytes'), promptVersion: promptVersion('EXTRACT'), model: 'gemini-2.5-pro' };
+
+describe('OCRCache', () => {
+  it('should return the cached output without running the provider', async () => {
+    const { client, query } = createSupabaseStub({ data: { id: '1', provider: 'gemini', model: 'gemini-2.5-pro', content: 'cached', hit_count: 2 } });
+    const run = jest.fn();
+
+    const result = await new OCRCache(client).getOrRun(key, false, run);
+
+    expect(result).toEqual({ text: 'cached', provider: 'gemini', model: 'gemini-2.5-pro' });
+    expect(run).not.toHaveBeenCalled();
+    expect(query.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should run the provider and store the output on a miss', async () => {
+    const { client, query } = createSupabaseStub({ data: null });
+    const run = jest.fn().mockResolvedValue({ text: 'fresh', provider: 'gemini', model: 'gemini-2.5-pro' });
+
+    const result = await new OCRCache(client).getOrRun(key, false, run);
+
+    expect(result.text).toBe('fresh');
+    expect(query.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: 'pdf', content_hash: key.contentHash, model: 'gemini-2.5-pro', content: 'fresh' }),
+      { onConflict: 'kind,content_hash,prompt_version,model' }
+    );
+  });
+
+  it('should skip the lookup but refresh the entry when forced', async () => {
+    const { client, query } = createSupabaseStub({ data: { id: '1', provider: 'gemini', model: 'gemini-2.5-pro', content: 'cached' } });
+    const run = jest.fn().mockResolvedValue({ text: 'fresh', provider: 'claude', model: 'gemini-2.5-pro' });
+
+    const result = await new OCRCache(client).getOrRun(key, true, run);
+
+    expect(result.text).toBe('fresh');
+    expect(query.maybeSingle).not.toHaveBeenCalled();
+    expect(query.upsert).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('promptVersion', () => {
+  it('should change when the prompt text changes', () => {
+    expect(promptVersion('EXTRACT')).toBe(promptVersion('EXTRACT'));
+    expect(promptVersion('EXTRACT')).not.toBe(promptVersion('EXTRACT v2'));
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Tests for OCR provider selection and error classification
+ */
+
+import {
+  classifyProviderError,
+  createOCRProviders,
+  GeminiOCRProvider,
+  TesseractOCRProvider,
+  OCRProvider,
+  OCRProviderError,
+  appliesBoostRules,
+} from '../ocr-providers';
+import { TesseractClient } from '../tesseract-client';
+import { PDFConverter } from '../pdf-converter';
+import { GeminiClient } from '../gemini-client';
+import { GeminiFileClient } from '../gemini-file-client';
+
+jest.mock('../gemini-client');
+jest.mock('../gemini-file-client');
+jest.mock('../claude-ocr-client');
+jest.mock('../tesseract-client');
+jest.mock('../pdf-converter');
+jest.mock('../../utils/logger');
+
+describe('OCR Providers', () => {
+  describe('classifyProviderError', () => {
+    it('should detect rate limit errors from both SDKs', () => {
+      expect(classifyProviderError('[429 Too Many Requests] Resource has been exhausted')).toBe('rate_limit');
+      expect(classifyProviderError('RESOURCE_EXHAUSTED: quota exceeded')).toBe('rate_limit');
+      expect(classifyProviderError('529 {"type":"overloaded_error"}')).toBe('rate_limit');
+    });
+
+    it('should treat other failures as generic errors', () => {
+      expect(classifyProviderError('File processing failed: files/abc')).toBe('error');
+    });
+  });
+
+  describe('createOCRProviders', () => {
+    it('should put the preferred provider first', () => {
+      const providers = createOCRProviders({
+        preferredProvider: 'claude',
+        geminiApiKey: 'gemini-key',
+        claudeApiKey: 'claude-key',
+        tempDir: '/tmp/test-ocr',
+      });
+
+      expect(providers.map(p => p.name)).toEqual(['claude', 'gemini']);
+    });
+
+    it('should skip providers without an API key', () => {
+      const providers = createOCRProviders({
+        preferredProvider: 'claude',
+        geminiApiKey: 'gemini-key',
+        tempDir: '/tmp/test-ocr',
+      });
+
+      expect(providers.map(p => p.name)).toEqual(['gemini']);
+    });
+
+    it('should add Tesseract last unless it is preferred', () => {
+      const fallback = createOCRProviders({
+        preferredProvider: 'gemini',
+        geminiApiKey: 'gemini-key',
+        claudeApiKey: 'claude-key',
+        tesseract: { enabled: true },
+        tempDir: '/tmp/test-ocr',
+      });
+      const offline = createOCRProviders({
+        preferredProvider: 'tesseract',
+        tempDir: '/tmp/test-ocr',
+      });
+
+      expect(fallback.map(p => p.name)).toEqual(['gemini', 'claude', 'tesseract']);
+      expect(offline.map(p => p.name)).toEqual(['tesseract']);
+    });
+  });
+
+  describe('TesseractOCRProvider', () => {
+    function createProvider() {
+      const client = new TesseractClient({ tempDir: '/tmp/test-ocr' }) as jest.Mocked<TesseractClient>;
+      const converter = new PDFConverter('/tmp/test-ocr') as jest.Mocked<PDFConverter>;
+      converter.convertAllPagesToImages = jest.fn().mockResolvedValue({
+        totalPages: 2,
+        pages: [
+          { imagePath: '/tmp/test-ocr/page1.png', mimeType: 'image/png', base64Data: '' },
+          { imagePath: '/tmp/test-ocr/page2.png', mimeType: 'image/png', base64Data: '' },
+        ],
+      });
+      converter.cleanup = jest.fn().mockResolvedValue(undefined);
+      return { client, converter, provider: new TesseractOCRProvider(client, converter) };
+    }
+
+    it('should extract every page with page markers and clean up the images', async () => {
+      const { client, converter, provider } = createProvider();
+      client.recognizeFile = jest.fn()
+        .mockResolvedValueOnce('VENTE 1 358 176\n')
+        .mockResolvedValueOnce('  HYPOTHÈQUE  ');
+
+      const result = await provider.extractFromPDF('/tmp/doc.pdf', 'ignored prompt', { model: 'tesseract-fra' });
+
+      expect(result.text).toBe('\n\n--- Page 1 ---\n\nVENTE 1 358 176\n\n\n--- Page 2 ---\n\nHYPOTHÈQUE');
+      expect(result).toMatchObject({ provider: 'tesseract', model: 'tesseract-fra' });
+      expect(converter.cleanup).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject blank pages and keep the raw text when boosting, flagged as unboosted', async () => {
+      const { client, provider } = createProvider();
+      client.recognizeFile = jest.fn().mockResolvedValue('\n');
+
+      await expect(provider.extractFromPDF('/tmp/doc.pdf', 'prompt', { model: 'tesseract-fra' }))
+        .rejects.toMatchObject({ reason: 'empty', provider: 'tesseract' });
+
+      const boost = await provider.boostText('Ligne 1: VENTE', 'boost prompt', { model: 'none' });
+      expect(boost.text).toBe('Ligne 1: VENTE');
+      expect(appliesBoostRules(boost.provider)).toBe(false);
+      expect(appliesBoostRules('gemini')).toBe(true);
+      expect((provider as OCRProvider).structureText).toBeUndefined();
+    });
+  });
+
+  describe('GeminiOCRProvider', () => {
+    it('should reject empty content so the worker can fail over', async () => {
+      const client = new GeminiClient('key') as jest.Mocked<GeminiClient>;
+      client.processFile = jest.fn().mockResolvedValue({ success: true, content: '   ' });
+
+      const provider = new GeminiOCRProvider(client, new GeminiFileClient({ apiKey: 'key' }));
+
+      await expect(provider.extractFromPDF('/tmp/doc.pdf', 'prompt', { model: 'gemini-2.0-flash-exp' }))
+        .rejects.toMatchObject({ reason: 'empty', provider: 'gemini' });
+    });
+
+    it('should report rate limits with the rate_limit reason', async () => {
+      const client = new GeminiClient('key') as jest.Mocked<GeminiClient>;
+      client.processFile = jest.fn().mockResolvedValue({
+        success: false,
+        content: '',
+        error: '[429 Too Many Requests] Resource has been exhausted',
+      });
+
+      const provider = new GeminiOCRProvider(client, new GeminiFileClient({ apiKey: 'key' }));
+      const promise = provider.extractFromPDF('/tmp/doc.pdf', 'prompt', { model: 'gemini-2.0-flash-exp' });
+
+      await expect(promise).rejects.toBeInstanceOf(OCRProviderError);
+      await expect(promise).rejects.toMatchObject({ reason: 'rate_limit' });
+    });
+
+    it('should return the provider and model with the text', async () => {
+      const client = new GeminiClient('key') as jest.Mocked<GeminiClient>;
+      client.processFile = jest.fn().mockResolvedValue({ success: true, content: 'Ligne 1: ...' });
+
+      const provider = new GeminiOCRProvider(client, new GeminiFileClient({ apiKey: 'key' }));
+      const result = await provider.extractFromPDF('/tmp/doc.pdf', 'prompt', { model: 'gemini-2.5-pro' });
+
+      expect(result).toEqual({ text: 'Ligne 1: ...', provider: 'gemini', model: 'gemini-2.5-pro' });
+    });
+
+    it('should boost text through the File API client', async () => {
+      const fileClient = new GeminiFileClient({ apiKey: 'key' }) as jest.Mocked<GeminiFileClient>;
+      fileClient.boostText = jest.fn().mockResolvedValue({ boostedText: 'Boosted' });
+
+      const provider = new GeminiOCRProvider(new GeminiClient('key'), fileClient);
+      const result = await provider.boostText('Raw', 'BOOST', { model: 'gemini-2.5-pro', temperature: 0 });
+
+      expect(fileClient.boostText).toHaveBeenCalledWith('Raw', 'BOOST', { model: 'gemini-2.5-pro', temperature: 0 });
+      expect(result).toEqual({ text: 'Boosted', provider: 'gemini', model: 'gemini-2.5-pro' });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for the OCR worker job completion
+ */
+
+import { OCRWorker } from '../ocr-worker';
+import { OCRProvider, createOCRProviders } from '../ocr-providers';
+import { PageOCRProcessor } from '../page-processor';
+import { EXTRACTION_STATUS, ExtractionQueueJob } from '../../types';
+import { supabaseManager } from '../../utils/supabase';
+import { createSupabaseStub } from '../../__tests__/supabase-stub';
+
+jest.mock('../../utils/logger');
+jest.mock('../ocr-logger');
+jest.mock('../../utils/supabase', () => ({ supabaseManager: { getServiceClient: jest.fn() } }));
+jest.mock('../storage', () => ({ downloadJobPDF: jest.fn().mockResolvedValue('/tmp/ocr-worker-test/missing.pdf') }));
+jest.mock('../ocr-providers', () => ({ ...jest.requireActual('../ocr-providers'), createOCRProviders: jest.fn() }));
+jest.mock('../../config', () => ({
+  config: {
+    ocr: {
+      tempDir: '/tmp/ocr-worker-test',
+      pageConcurrency: 1,
+      pageMaxAttempts: 1,
+      skipSanitization: true,
+      structuredOutput: { enabled: false },
+      cache: { enabled: false },
+      acte: {
+        extractModel: { gemini: 'gemini-2.5-pro' },
+        boostModel: { gemini: 'gemini-2.5-pro' },
+        extractTemperature: 0,
+        boostTemperature: 0,
+      },
+    },
+    scheduler: { agingMinutes: 0 },
+    logging: { level: 'silent' },
+  },
+}));
+
+const provider: OCRProvider = {
+  name: 'gemini',
+  extractFromPDF: jest.fn().mockResolvedValue({ text: 'raw text', provider: 'gemini', model: 'gemini-2.5-pro' }),
+  extractFromImage: jest.fn(),
+  boostText: jest.fn().mockResolvedValue({ text: 'boosted text', provider: 'gemini', model: 'gemini-2.5-pro' }),
+};
+
+const job = {
+  id: 'job-1',
+  document_source: 'acte',
+  document_number: '1234567',
+  supabase_path: 'actes/1234567.pdf',
+  status_id: 6,
+  ocr_attempts: 0,
+  ocr_max_attempts: 3,
+  _environment: 'dev',
+} as unknown as ExtractionQueueJob;
+
+describe('OCRWorker', () => {
+  beforeEach(() => {
+    jest.mocked(createOCRProviders).mockReturnValue([provider]);
+  });
+
+  it('keeps the stored pages and retries when the result cannot be saved', async () => {
+    const { client, query } = createSupabaseStub({ error: { message: 'connection reset' } }, {});
+    jest.mocked(supabaseManager.getServiceClient).mockReturnValue(client);
+    const clearPages = jest.spyOn(PageOCRProcessor.prototype, 'clearPages').mockResolvedValue();
+
+    const worker = new OCRWorker('ocr-test') as unknown as { processJob(job: ExtractionQueueJob): Promise<void> };
+    await worker.processJob(job);
+
+    expect(clearPages).not.toHaveBeenCalled();
+    expect(query.update).toHaveBeenLastCalledWith(expect.objectContaining({
+      status_id: EXTRACTION_STATUS.COMPLETE,
+      ocr_error: 'Failed to save OCR result: connection reset',
+      ocr_attempts: 1,
+    }));
+  });
+
+  it('clears the stored pages once the result is saved', async () => {
+    const { client, query } = createSupabaseStub();
+    jest.mocked(supabaseManager.getServiceClient).mockReturnValue(client);
+    const clearPages = jest.spyOn(PageOCRProcessor.prototype, 'clearPages').mockResolvedValue();
+
+    const worker = new OCRWorker('ocr-test') as unknown as { processJob(job: ExtractionQueueJob): Promise<void> };
+    await worker.processJob(job);
+
+    expect(query.update).toHaveBeenCalledTimes(1);
+    expect(query.update).toHaveBeenCalledWith(expect.objectContaining({ status_id: EXTRACTION_STATUS.EXTRACTION_COMPLETE }));
+    expect(clearPages).toHaveBeenCalledWith('job-1', client);
+  });
+});
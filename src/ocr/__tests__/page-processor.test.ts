@@ -0,0 +1,189 @@
+/**
+ * Tests for page-level OCR: resume, per-page failover and failure reporting
+ */
+
+import { PageOCRProcessor, PageOCRRecord, combinePageTexts, runWithConcurrency } from '../page-processor';
+import { PDFConverter } from '../pdf-converter';
+import { OCRProvider, OCRProviderError } from '../ocr-providers';
+import { promptVersion } from '../ocr-cache';
+import { createSupabaseStub } from '../../__tests__/supabase-stub';
+
+jest.mock('../pdf-converter');
+jest.mock('../../utils/logger');
+
+function createConverter(pageCount: number): jest.Mocked<PDFConverter> {
+  const converter = new PDFConverter('/tmp/test-ocr') as jest.Mocked<PDFConverter>;
+  converter.getPageCount = jest.fn().mockResolvedValue(pageCount);
+  converter.convertPageToImage = jest.fn().mockImplementation(async (_pdf: string, pageNumber: number) => ({
+    imagePath: `/tmp/test-ocr/doc-page${pageNumber}.png`,
+    mimeType: 'image/png',
+    base64Data: `page-${pageNumber}`,
+  }));
+  converter.cleanup = jest.fn().mockResolvedValue(undefined);
+  return converter;
+}
+
+function createProvider(
+  name: 'gemini' | 'claude',
+  extract: (base64Data: string) => Promise<string>
+): OCRProvider {
+  return {
+    name,
+    extractFromPDF: jest.fn(),
+    boostText: jest.fn(),
+    extractFromImage: jest.fn().mockImplementation(async (base64Data: string, _mime: string, _prompt: string, options) => ({
+      text: await extract(base64Data),
+      provider: name,
+      model: options.model,
+    })),
+  };
+}
+
+function storedPage(pageNumber: number, overrides: Partial<PageOCRRecord> = {}): PageOCRRecord {
+  return {
+    page_number: pageNumber,
+    raw_text: `stored ${pageNumber}`,
+    provider: 'gemini',
+    model: 'test-model',
+    prompt_version: promptVersion('EXTRACT'),
+    ...overrides,
+  };
+}
+
+const job = {
+  jobId: 'job-1',
+  sourcePath: 'index/doc.pdf',
+  pdfPath: '/tmp/test-ocr/job-1.pdf',
+  prompt: 'EXTRACT',
+  getOptions: () => ({ model: 'test-model' }),
+};
+
+describe('PageOCRProcessor', () => {
+  it('should extract every page and persist each result', async () => {
+    const converter = createConverter(3);
+    const provider = createProvider('gemini', async (data) => `text of ${data}`);
+    const { client, query } = createSupabaseStub();
+
+    const processor = new PageOCRProcessor([provider], converter, { concurrency: 2, maxAttempts: 1 });
+    const outcome = await processor.process(job, client);
+
+    expect(outcome.totalPages).toBe(3);
+    expect(outcome.resumedPages).toBe(0);
+    expect(outcome.pages.map(p => p.raw_text)).toEqual(['text of page-1', 'text of page-2', 'text of page-3']);
+    expect(query.upsert).toHaveBeenCalledTimes(3);
+    expect(converter.cleanup).toHaveBeenCalledTimes(3);
+  });
+
+  it('should resume from pages stored by a previous attempt', async () => {
+    const converter = createConverter(3);
+    const provider = createProvider('gemini', async (data) => `text of ${data}`);
+    const { client } = createSupabaseStub({ data: [storedPage(1), storedPage(2)] });
+
+    const processor = new PageOCRProcessor([provider], converter, { concurrency: 2, maxAttempts: 1 });
+    const outcome = await processor.process(job, client);
+
+    expect(outcome.resumedPages).toBe(2);
+    expect(converter.convertPageToImage).toHaveBeenCalledTimes(1);
+    expect(converter.convertPageToImage).toHaveBeenCalledWith(job.pdfPath, 3, expect.any(Object));
+    expect(outcome.pages.map(p => p.raw_text)).toEqual(['stored 1', 'stored 2', 'text of page-3']);
+  });
+
+  it('should extract again pages of another prompt version or model', async () => {
+    const converter = createConverter(3);
+    const provider = createProvider('gemini', async (data) => `text of ${data}`);
+    const { client } = createSupabaseStub({ data: [
+      storedPage(1),
+      storedPage(2, { prompt_version: 'old-version' }),
+      storedPage(3, { model: 'other-model' }),
+    ] });
+
+    const processor = new PageOCRProcessor([provider], converter, { concurrency: 2, maxAttempts: 1 });
+    const outcome = await processor.process(job, client);
+
+    expect(outcome.resumedPages).toBe(1);
+    expect(outcome.pages.map(p => p.raw_text)).toEqual(['stored 1', 'text of page-2', 'text of page-3']);
+  });
+
+  it('should not resume stored pages when forcing a refresh', async () => {
+    const converter = createConverter(2);
+    const provider = createProvider('gemini', async (data) => `text of ${data}`);
+    const { client, query } = createSupabaseStub({ data: [storedPage(1), storedPage(2)] });
+
+    const processor = new PageOCRProcessor([provider], converter, { concurrency: 2, maxAttempts: 1 });
+    const outcome = await processor.process({ ...job, forceRefresh: true }, client);
+
+    expect(query.select).not.toHaveBeenCalled();
+    expect(outcome.resumedPages).toBe(0);
+    expect(outcome.pages.map(p => p.raw_text)).toEqual(['text of page-1', 'text of page-2']);
+    expect(query.upsert).toHaveBeenCalledWith(expect.objectContaining({ prompt_version: promptVersion('EXTRACT') }), expect.any(Object));
+  });
+
+  it('should delete the stored pages of a completed job', async () => {
+    const { client, query } = createSupabaseStub();
+
+    await new PageOCRProcessor([], createConverter(1), { concurrency: 1, maxAttempts: 1 }).clearPages('job-1', client);
+
+    expect(query.eq).toHaveBeenCalledWith('job_id', 'job-1');
+  });
+
+  it('should fail over to the next provider for a single page', async () => {
+    const converter = createConverter(2);
+    const gemini = createProvider('gemini', async (data) => {
+      if (data === 'page-2') {
+        throw new OCRProviderError('429 Too Many Requests', 'gemini', 'rate_limit');
+      }
+      return `gemini ${data}`;
+    });
+    const claude = createProvider('claude', async (data) => `claude ${data}`);
+    const { client } = createSupabaseStub();
+
+    const processor = new PageOCRProcessor([gemini, claude], converter, { concurrency: 1, maxAttempts: 1 });
+    const outcome = await processor.process(job, client);
+
+    expect(outcome.pages.map(p => p.provider)).toEqual(['gemini', 'claude']);
+  });
+
+  it('should report failed pages after saving the others', async () => {
+    const converter = createConverter(3);
+    const provider = createProvider('gemini', async (data) => {
+      if (data === 'page-2') {
+        throw new Error('boom');
+      }
+      return `text of ${data}`;
+    });
+    const { client, query } = createSupabaseStub();
+
+    const processor = new PageOCRProcessor([provider], converter, { concurrency: 3, maxAttempts: 1 });
+
+    await expect(processor.process(job, client)).rejects.toThrow('OCR failed for page(s) 2 of 3 (2 page(s) saved for resume) - boom');
+    expect(query.upsert).toHaveBeenCalledTimes(2);
+    expect(converter.cleanup).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('combinePageTexts', () => {
+  it('should join pages in order with page markers', () => {
+    const text = combinePageTexts([
+      { page_number: 2, raw_text: 'B' },
+      { page_number: 1, raw_text: 'A' },
+    ]);
+
+    expect(text).toBe('\n\n--- Page 1 ---\n\nA\n\n\n--- Page 2 ---\n\nB');
+  });
+});
+
+describe('runWithConcurrency', () => {
+  it('should never run more tasks than the limit', async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    await runWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+    });
+
+    expect(maxActive).toBe(2);
+  });
+});
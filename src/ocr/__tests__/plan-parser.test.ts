@@ -0,0 +1,72 @@
+/**
+ * Tests for plan title block parsing
+ */
+
+import { parsePlan, PlanParseError, normalizeLotNumber } from '../plan-parser';
+
+jest.mock('../../utils/logger');
+
+const BOOSTED_PLAN = `
+## BLOC DE TITRE
+- **Titre** : Plan cadastral parcellaire
+- **Lots** : 1234567, 1 234 568 et 2 000 001
+- **Cadastre** : Cadastre du Québec
+- **Circonscription foncière** : Montréal
+- **Arpenteur-géomètre** : Me Jean Tremblay, a.-g.
+- **Minute** : 12 345
+- **Date** : 15 janvier 2020
+- **Échelle** : 1 / 1 000
+
+## CONTENU DU PLAN
+Lot 1 234 567 - Superficie : 512,3 m²
+`;
+
+describe('parsePlan', () => {
+  it('parses the title block fields', () => {
+    const plan = parsePlan(BOOSTED_PLAN);
+
+    expect(plan).toEqual({
+      title: 'Plan cadastral parcellaire',
+      lot_numbers: ['1 234 567', '1 234 568', '2 000 001'],
+      cadastre: 'Cadastre du Québec',
+      circonscription: 'Montréal',
+      surveyor: 'Jean Tremblay',
+      minute_number: '12345',
+      plan_date: '2020-01-15',
+      scale: '1:1000',
+    });
+  });
+
+  it('reads [Vide] values as null and ignores label case and accents', () => {
+    const plan = parsePlan(`CADASTRE: Cadastre du Québec
+lots: 1 234 567
+ECHELLE: [Vide]
+Minute: [Vide]`);
+
+    expect(plan.cadastre).toBe('Cadastre du Québec');
+    expect(plan.lot_numbers).toEqual(['1 234 567']);
+    expect(plan.scale).toBeNull();
+    expect(plan.minute_number).toBeNull();
+    expect(plan.surveyor).toBeNull();
+  });
+
+  it('falls back to lot numbers and scale found in the plan text', () => {
+    const plan = parsePlan('Plan montrant les lots 1 234 567 et 1234568, échelle 1:500');
+
+    expect(plan.lot_numbers).toEqual(['1 234 567', '1 234 568']);
+    expect(plan.scale).toBe('1:500');
+  });
+
+  it('throws when no title block field is found', () => {
+    expect(() => parsePlan('Texte illisible')).toThrow(PlanParseError);
+  });
+});
+
+describe('normalizeLotNumber', () => {
+  it('groups renovated lot numbers by 3 and keeps older lots as written', () => {
+    expect(normalizeLotNumber('1234567')).toBe('1 234 567');
+    expect(normalizeLotNumber('Lot no 1 234 567')).toBe('1 234 567');
+    expect(normalizeLotNumber('123-4')).toBe('123-4');
+    expect(normalizeLotNumber('P-12')).toBe('P-12');
+  });
+});
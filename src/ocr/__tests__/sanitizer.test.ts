@@ -3,6 +3,7 @@
  */
 
 import { sanitizeOCRResult } from '../sanitizer';
+import { toInscriptionRows } from '../sanitized-store';
 
 describe('OCR Sanitizer', () => {
   describe('sanitizeOCRResult', () => {
@@ -210,6 +211,50 @@ Radiations: [Vide]
       expect(inscription.acte_nature).toBe('Testament');
     });
 
+    it('should keep ranked candidates and the minimum confidence', () => {
+      const verboseText = `
+--- Page 1 ---
+
+Ligne 1:
+Date de présentation d'inscription: 1986-09-12 (Confiance: 90%)
+Numéro: Option 1: 3 770 292 (Confiance: 40%)
+Option 2: 3 770 282 (Confiance: 55%)
+Option 3: [Vide] (Confiance: 5%)
+Nature de l'acte: Testament
+Qualité: Décédé
+Nom des parties: BEAUREGARD, ADRIEN
+Remarques: [Vide]
+Radiations: [Vide]
+`;
+
+      const inscription = sanitizeOCRResult(verboseText).pages[0].inscriptions[0];
+
+      expect(inscription.candidates.acte_publication_number).toEqual([
+        { value: '3 770 282', confidence: 55 },
+        { value: '3 770 292', confidence: 40 },
+        { value: null, confidence: 5 },
+      ]);
+      expect(inscription.acte_publication_number).toBe('3 770 282');
+      expect(inscription.candidates.acte_publication_date).toEqual([{ value: '1986-09-12', confidence: 90 }]);
+      expect(inscription.candidates.acte_nature).toEqual([{ value: 'Testament', confidence: null }]);
+      expect(inscription.min_confidence).toBe(55);
+    });
+
+    it('should report no minimum confidence when none is given', () => {
+      const verboseText = `
+--- Page 1 ---
+
+Ligne 1:
+Numéro: 1000000
+Nature de l'acte: Vente
+`;
+
+      const inscription = sanitizeOCRResult(verboseText).pages[0].inscriptions[0];
+
+      expect(inscription.min_confidence).toBeNull();
+      expect(inscription.candidates.acte_publication_date).toEqual([]);
+    });
+
     it('should handle [Vide] fields as null', () => {
       const verboseText = `
 --- Page 1 ---
@@ -231,6 +276,24 @@ Radiations: [Vide]
       expect(inscription.radiation_number).toBeNull();
     });
 
+    it('should keep [ILLISIBLE] fields so they can be flagged', () => {
+      const verboseText = `
+--- Page 1 ---
+
+Ligne 1:
+Date de présentation d'inscription: 2020-01-01
+Numéro: 1000000
+Nature de l'acte: [ILLISIBLE]
+Nom des parties: SMITH, JOHN
+Remarques: [Vide]
+`;
+
+      const inscription = sanitizeOCRResult(verboseText).pages[0].inscriptions[0];
+
+      expect(inscription.acte_nature).toBe('[ILLISIBLE]');
+      expect(inscription.remarques).toBeNull();
+    });
+
     it('should handle malformed input gracefully', () => {
       const verboseText = 'This is not valid OCR output';
 
@@ -273,6 +336,43 @@ Radiations: [Vide]
       expect(result.pages[0].inscriptions).toHaveLength(2);
       expect(result.pages[0].inscriptions[0].acte_publication_number).toBe('1000000');
       expect(result.pages[0].inscriptions[1].acte_publication_number).toBe('2000000');
+      expect(result.pages[0].inscriptions[0].line_number).toBe(1);
+      expect(result.pages[0].inscriptions[1].line_number).toBe(2);
+    });
+  });
+
+  describe('toInscriptionRows', () => {
+    it('should key rows by job, page and line and drop duplicates', () => {
+      const verboseText = `
+--- Page 1 ---
+
+Circonscription foncière: Montréal
+Cadastre: Test
+Lot: 123
+
+Ligne 1:
+Numéro: 1000000
+Nature de l'acte: Vente
+
+Ligne 1:
+Numéro: 1000001
+Nature de l'acte: Vente
+
+--- Page 2 ---
+
+Ligne 1:
+Numéro: 2000000
+Nature de l'acte: Hypothèque
+`;
+
+      const rows = toInscriptionRows('job-1', sanitizeOCRResult(verboseText));
+
+      expect(rows.map(r => [r.page_number, r.line_number, r.acte_publication_number])).toEqual([
+        [1, 1, '1000000'],
+        [2, 1, '2000000'],
+      ]);
+      expect(rows[0].job_id).toBe('job-1');
+      expect(rows[0].lot_number).toBe('123');
     });
   });
 });
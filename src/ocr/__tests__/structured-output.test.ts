@@ -0,0 +1,137 @@
+/**
+ * Tests for the structured OCR output mode
+ */
+
+import {
+  parseStructuredOutput,
+  generateStructuredResult,
+  toJSONSchema,
+  StructuredOutputError,
+  STRUCTURED_OCR_RESPONSE_SCHEMA,
+} from '../structured-output';
+
+jest.mock('../../utils/logger');
+
+const VALID_OUTPUT = {
+  pages: [
+    {
+      pageNumber: 2,
+      metadata: { circonscription: 'Montréal', cadastre: 'Cadastre du Québec', lot_number: '1 358 176' },
+      inscriptions: [],
+    },
+    {
+      pageNumber: 1,
+      metadata: { circonscription: 'Montréal', cadastre: 'Cadastre du Québec', lot_number: '[Vide]' },
+      inscriptions: [{
+        line_number: 1,
+        acte_publication_date: '1990-05-15',
+        acte_publication_number: '4 000 001',
+        acte_nature: 'Hypothèque',
+        parties: [
+          { name: 'CAISSE DESJARDINS', role: 'Créancier' },
+          { name: 'GAGNON, MARIE', role: 'Débiteur' },
+        ],
+        remarques: '[Vide]',
+        radiation_number: null,
+        candidates: [
+          { field: 'acte_nature', value: 'Hypotheque', confidence: 20 },
+          { field: 'acte_nature', value: 'Hypothèque', confidence: 80 },
+          { field: 'acte_publication_number', value: '4 000 001', confidence: 65 },
+        ],
+      }],
+    },
+  ],
+};
+
+describe('Structured OCR Output', () => {
+  describe('parseStructuredOutput', () => {
+    it('should convert valid JSON to a sanitized result', () => {
+      const result = parseStructuredOutput(JSON.stringify(VALID_OUTPUT));
+
+      expect(result.pages.map(p => p.pageNumber)).toEqual([1, 2]);
+      expect(result.pages[0].metadata.lot_number).toBeNull();
+
+      const inscription = result.pages[0].inscriptions[0];
+      expect(inscription.remarques).toBeNull();
+      expect(inscription.parties).toHaveLength(2);
+      expect(inscription.candidates.acte_nature).toEqual([
+        { value: 'Hypothèque', confidence: 80 },
+        { value: 'Hypotheque', confidence: 20 },
+      ]);
+      expect(inscription.candidates.party_names).toEqual([{ value: 'CAISSE DESJARDINS; GAGNON, MARIE', confidence: null }]);
+      expect(inscription.candidates.radiation_number).toEqual([]);
+      expect(inscription.min_confidence).toBe(65);
+    });
+
+    it('should accept JSON wrapped in a code fence', () => {
+      const result = parseStructuredOutput('```json\n' + JSON.stringify(VALID_OUTPUT) + '\n```');
+
+      expect(result.pages).toHaveLength(2);
+    });
+
+    it('should list the schema violations', () => {
+      const invalid = { pages: [{ pageNumber: 0, metadata: {}, inscriptions: [{ line_number: 1 }] }] };
+
+      expect(() => parseStructuredOutput(invalid)).toThrow(StructuredOutputError);
+      try {
+        parseStructuredOutput(invalid);
+      } catch (error) {
+        expect((error as StructuredOutputError).issues).toEqual(expect.arrayContaining([
+          expect.stringContaining('pages.0.pageNumber'),
+          expect.stringContaining('pages.0.inscriptions.0.parties'),
+        ]));
+      }
+      expect(() => parseStructuredOutput('not json')).toThrow(/not valid JSON/);
+    });
+  });
+
+  describe('generateStructuredResult', () => {
+    it('should retry with the schema violations as feedback', async () => {
+      const feedbacks: Array<string | null> = [];
+      const generate = jest.fn(async (feedback: string | null) => {
+        feedbacks.push(feedback);
+        return feedbacks.length === 1 ? { pages: [] } : VALID_OUTPUT;
+      });
+
+      const { result, attempts } = await generateStructuredResult(generate, 2);
+
+      expect(attempts).toBe(2);
+      expect(result.pages).toHaveLength(2);
+      expect(feedbacks[0]).toBeNull();
+      expect(feedbacks[1]).toContain('pages: At least one page is required');
+    });
+
+    it('should fail after the last attempt and not retry provider errors', async () => {
+      await expect(generateStructuredResult(async () => ({ pages: [] }), 2)).rejects.toThrow(StructuredOutputError);
+
+      const failing = jest.fn(async () => {
+        throw new Error('429 rate limit');
+      });
+      await expect(generateStructuredResult(failing, 3)).rejects.toThrow('429 rate limit');
+      expect(failing).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('toJSONSchema', () => {
+    type JSONSchemaNode = {
+      type?: string | string[];
+      required?: string[];
+      items?: JSONSchemaNode;
+      properties?: Record<string, JSONSchemaNode>;
+    };
+
+    const child = (node: JSONSchemaNode, name: string): JSONSchemaNode => {
+      expect(node.properties).toHaveProperty(name);
+      return node.properties![name];
+    };
+
+    it('should convert nullable types to type unions', () => {
+      const schema = toJSONSchema(STRUCTURED_OCR_RESPONSE_SCHEMA) as JSONSchemaNode;
+      const page = child(schema, 'pages').items!;
+
+      expect(schema.type).toBe('object');
+      expect(child(child(page, 'metadata'), 'lot_number').type).toEqual(['string', 'null']);
+      expect(child(page, 'inscriptions').items!.required).toContain('candidates');
+    });
+  });
+});
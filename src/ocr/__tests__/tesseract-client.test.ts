@@ -0,0 +1,33 @@
+/**
+ * Tests for the Tesseract CLI client
+ */
+
+import { execFile } from 'child_process';
+import { TesseractClient } from '../tesseract-client';
+
+jest.mock('child_process', () => ({
+  execFile: jest.fn((_file: string, _args: string[], _options: object, callback: (error: Error | null, result: { stdout: string; stderr: string }) => void) =>
+    callback(null, { stdout: 'eng\nfra\n', stderr: '' })
+  ),
+}));
+jest.mock('../../utils/logger');
+
+describe('TesseractClient', () => {
+  it('passes config values as arguments, never through a shell', async () => {
+    const client = new TesseractClient({ binaryPath: '/opt/tesseract bin/tesseract', language: 'fra; rm -rf /', tempDir: '/tmp' });
+
+    await client.recognizeFile('/tmp/page "1".png');
+
+    expect(execFile).toHaveBeenCalledWith(
+      '/opt/tesseract bin/tesseract',
+      ['/tmp/page "1".png', 'stdout', '-l', 'fra; rm -rf /', '--psm', '6'],
+      expect.objectContaining({ timeout: 120000 }),
+      expect.any(Function)
+    );
+  });
+
+  it('checks that every language is installed', async () => {
+    await expect(new TesseractClient({ language: 'fra+eng', tempDir: '/tmp' }).isAvailable()).resolves.toBe(true);
+    await expect(new TesseractClient({ language: 'fra+deu', tempDir: '/tmp' }).isAvailable()).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for the OCR validation rules
+ */
+
+import { validateSanitizedResult, validateParsedPlan, isValidDate, isKnownPublicationNumber } from '../validator';
+import { sanitizeOCRResult } from '../sanitizer';
+
+jest.mock('../../utils/logger');
+
+const JOB = {
+  document_number: '1 358 176',
+  circonscription_fonciere: 'Montreal',
+  cadastre: 'Cadastre du Québec',
+};
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+function page(pageNumber: number, header: string, rows: string): string {
+  return `
+--- Page ${pageNumber} ---
+
+${header}
+
+${rows}
+`;
+}
+
+const HEADER = `Circonscription foncière: Montréal
+Cadastre: Cadastre du Québec
+Lot: 1358176`;
+
+describe('OCR Validator', () => {
+  describe('validateSanitizedResult', () => {
+    it('should accept a clean result', () => {
+      const text = page(1, HEADER, `Ligne 1:
+Date de présentation d'inscription: 1986-09-12
+Numéro: 3 770 292
+Nature de l'acte: Testament`);
+
+      const report = validateSanitizedResult(sanitizeOCRResult(text), JOB, { boostedText: text, now: NOW });
+
+      expect(report.valid).toBe(true);
+      expect(report.issues).toEqual([]);
+      expect(report.validated_at).toBe(NOW.toISOString());
+    });
+
+    it('should report inscription issues with their page and line', () => {
+      const text = page(1, HEADER, `Ligne 1:
+Date de présentation d'inscription: 1986-02-30
+Numéro: 3 770 292
+Nature de l'acte: Vente
+
+Ligne 2:
+Date de présentation d'inscription: 2030-01-01
+Numéro: ABC-12
+Nature de l'acte: Hypothèque
+
+Ligne 3:
+Date de présentation d'inscription: 1990-01-01
+Numéro: [Vide]
+Nature de l'acte: Quittance`);
+
+      const report = validateSanitizedResult(sanitizeOCRResult(text), JOB, { now: NOW });
+
+      expect(report.issues.map(i => [i.code, i.severity, i.page_number, i.line_number])).toEqual([
+        ['invalid_date', 'error', 1, 1],
+        ['future_date', 'warning', 1, 2],
+        ['invalid_publication_number', 'error', 1, 2],
+        ['missing_publication_number', 'error', 1, 3],
+      ]);
+      expect(report.valid).toBe(false);
+      expect(report.error_count).toBe(3);
+      expect(report.warning_count).toBe(1);
+    });
+
+    it('should compare page metadata with the job', () => {
+      const text = page(1, `Circonscription foncière: Laval
+Cadastre: Cadastre du Québec
+Lot: 2 000 001`, `Ligne 1:
+Date de présentation d'inscription: 1986-09-12
+Numéro: 3 770 292
+Nature de l'acte: Testament`);
+
+      const report = validateSanitizedResult(sanitizeOCRResult(text), JOB, { now: NOW });
+
+      expect(report.issues.map(i => [i.code, i.severity, i.value])).toEqual([
+        ['circonscription_mismatch', 'warning', 'Laval'],
+        ['lot_mismatch', 'error', '2 000 001'],
+      ]);
+    });
+
+    it('should only treat empty pages with content as errors', () => {
+      const text = page(1, HEADER, 'Aucune donnée') + page(2, HEADER,
+        'Le tableau de cette page contient plusieurs lignes d\'inscriptions dont aucune n\'a pu être structurée.');
+
+      const report = validateSanitizedResult(sanitizeOCRResult(text), JOB, { boostedText: text, now: NOW });
+
+      expect(report.issues.map(i => [i.code, i.severity, i.page_number])).toEqual([
+        ['empty_page', 'warning', 1],
+        ['empty_page', 'error', 2],
+      ]);
+    });
+
+    it('should flag every page of a result whose boost rules were not applied', () => {
+      const text = page(1, HEADER, `Ligne 1:
+Date de présentation d'inscription: 1986-09-12
+Numéro: 3 770 292
+Nature de l'acte: Testament`) + page(2, HEADER, 'Aucune donnée');
+
+      const report = validateSanitizedResult(sanitizeOCRResult(text), JOB, { boostedText: text, now: NOW, boostApplied: false });
+
+      expect(report.issues.filter(i => i.code === 'boost_not_applied').map(i => [i.severity, i.page_number, i.line_number]))
+        .toEqual([['error', 1, null], ['error', 2, null]]);
+      expect(report.valid).toBe(false);
+    });
+  });
+
+  describe('validateParsedPlan', () => {
+    const PLAN = {
+      title: 'Plan cadastral parcellaire',
+      lot_numbers: ['1 358 175', '1 358 176'],
+      cadastre: 'Cadastre du Quebec',
+      circonscription: 'Montréal',
+      surveyor: 'Jean Tremblay',
+      minute_number: '12345',
+      plan_date: '2020-01-15',
+      scale: '1:1000',
+    };
+
+    it('should accept a plan showing the requested lot', () => {
+      const report = validateParsedPlan(PLAN, JOB, { now: NOW });
+
+      expect(report.valid).toBe(true);
+      expect(report.issues).toEqual([]);
+    });
+
+    it('should flag a plan that does not show the requested lot', () => {
+      const report = validateParsedPlan({ ...PLAN, lot_numbers: ['2 000 001'], surveyor: null }, JOB, { now: NOW });
+
+      expect(report.valid).toBe(false);
+      expect(report.issues.map(i => [i.code, i.severity, i.field])).toEqual([
+        ['missing_metadata', 'warning', null],
+        ['requested_lot_not_on_plan', 'error', 'lot_numbers'],
+      ]);
+    });
+  });
+
+  describe('isValidDate', () => {
+    it('should only accept real calendar dates', () => {
+      expect(isValidDate('2020-02-29')).toBe(true);
+      expect(isValidDate('2020-01-15 (15 janvier 2020)')).toBe(true);
+      expect(isValidDate('2019-02-29')).toBe(false);
+      expect(isValidDate('12 septembre 1986')).toBe(false);
+    });
+  });
+
+  describe('isKnownPublicationNumber', () => {
+    it('should accept current and older registry formats', () => {
+      expect(isKnownPublicationNumber('3 770 292')).toBe(true);
+      expect(isKnownPublicationNumber('12 345 678')).toBe(true);
+      expect(isKnownPublicationNumber('45 678')).toBe(true);
+      expect(isKnownPublicationNumber('123456')).toBe(true);
+      expect(isKnownPublicationNumber('123 45 678')).toBe(false);
+      expect(isKnownPublicationNumber('ABC-12')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * Acte Parsing Module
+ * Converts the boosted Markdown of an acte (deed) into typed deed fields:
+ * inscription number, registration date, nature, parties, consideration,
+ * notary, lots and referenced prior inscriptions
+ */
+
+import { z } from 'zod';
+import { logger } from '../utils/logger';
+import { foldAccents, normalizeValue, escapeRegex } from '../utils/text';
+import { ParsedActe, ActeParty, ActeLot, ActeConsideration } from '../types/ocr';
+
+/**
+ * Error raised when the acte text does not yield a valid ParsedActe
+ */
+export class ActeParseError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(message);
+    this.name = 'ActeParseError';
+  }
+}
+
+const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validation schema for parsed actes
+ */
+export const parsedActeSchema: z.ZodType<ParsedActe> = z.object({
+  inscription_number: z.string().regex(/^\d+$/, 'Inscription number must contain digits only').nullable(),
+  registration_date: z.string().regex(isoDate, 'Registration date must be YYYY-MM-DD').nullable(),
+  bureau_publicite: z.string().min(1).nullable(),
+  nature: z.string().min(1).nullable(),
+  parties: z.array(z.object({
+    name: z.string().min(1),
+    role: z.string(),
+    address: z.string().min(1).nullable(),
+  })),
+  consideration: z.object({
+    amount: z.number().nonnegative(),
+    text: z.string().min(1),
+  }).nullable(),
+  notary: z.string().min(1).nullable(),
+  lots: z.array(z.object({
+    lot_number: z.string().min(1),
+    cadastre: z.string().min(1).nullable(),
+    circonscription: z.string().min(1).nullable(),
+  })),
+  referenced_inscriptions: z.array(z.string().regex(/^\d+$/)),
+});
+
+type SectionName = 'header' | 'nature' | 'parties' | 'description' | 'amounts' | 'references' | 'signatures';
+
+/**
+ * Section headings of ACTE_EXTRACT_PROMPT (accents, case and emojis ignored)
+ */
+const SECTION_KEYWORDS: Array<[SectionName, string]> = [
+  ['header', 'EN-TETE'],
+  ['nature', 'NATURE'],
+  ['parties', 'PARTIES'],
+  ['description', 'DESCRIPTION'],
+  ['amounts', 'MONTANT'],
+  ['references', 'REFERENCE'],
+  ['signatures', 'SIGNATURE'],
+];
+
+const MONTHS: Record<string, number> = {
+  janvier: 1, fevrier: 2, mars: 3, avril: 4, mai: 5, juin: 6,
+  juillet: 7, aout: 8, septembre: 9, octobre: 10, novembre: 11, decembre: 12,
+};
+
+/**
+ * Main parsing function
+ * Throws an ActeParseError when nothing could be parsed or validation fails
+ */
+export function parseActe(boostedText: string): ParsedActe {
+  const text = stripMarkdown(boostedText);
+  const sections = splitIntoSections(text);
+  const section = (name: SectionName) => sections.get(name) ?? text;
+
+  const inscriptionNumber = extractField(section('header'), ['Numéro d\'inscription', 'Numéro de publication', 'N° d\'inscription']);
+
+  const parsed: ParsedActe = {
+    inscription_number: inscriptionNumber ? normalizeInscriptionNumber(inscriptionNumber) : null,
+    registration_date: normalizeActeDate(extractField(section('header'), ['Date d\'enregistrement', 'Date de présentation', 'Date d\'inscription'])),
+    bureau_publicite: extractField(section('header'), ['Bureau de la publicité des droits', 'Bureau de la publicité']),
+    nature: sections.has('nature') ? firstLine(sections.get('nature')!) : extractField(text, ['Nature de l\'acte']),
+    parties: parseParties(sections.get('parties') ?? ''),
+    consideration: parseConsideration(section('amounts')),
+    notary: parseNotary(sections.get('signatures') ?? text),
+    lots: parseLots(section('description')),
+    referenced_inscriptions: [],
+  };
+
+  parsed.referenced_inscriptions = parseReferences(sections.get('references') ?? '', parsed.inscription_number);
+
+  if (!parsed.inscription_number && !parsed.nature && parsed.parties.length === 0) {
+    throw new ActeParseError('No acte fields found in OCR text');
+  }
+
+  const validation = parsedActeSchema.safeParse(parsed);
+  if (!validation.success) {
+    const issues = validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`);
+    throw new ActeParseError(`Invalid acte fields - ${issues.join('; ')}`, issues);
+  }
+
+  logger.info({
+    inscriptionNumber: parsed.inscription_number,
+    nature: parsed.nature,
+    partyCount: parsed.parties.length,
+    lotCount: parsed.lots.length,
+    referenceCount: parsed.referenced_inscriptions.length,
+  }, 'Acte parsing complete');
+
+  return validation.data;
+}
+
+/**
+ * Remove Markdown emphasis and list bullets so "- **Nom** : X" reads "Nom : X"
+ * (typographic apostrophes are folded so labels like "Date d'enregistrement" match)
+ */
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/\*\*|__/g, '')
+    .replace(/[\u2018\u2019]/g, '\'')
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*+]|\d+\.)\s+/, '').trimEnd())
+    .join('\n');
+}
+
+/**
+ * Split the text on level 1-2 Markdown headings ("## EN-TÊTE")
+ */
+function splitIntoSections(text: string): Map<SectionName, string> {
+  const sections = new Map<SectionName, string>();
+  const headingPattern = /^#{1,2}\s+(.+)$/gm;
+  const headings: Array<{ name: SectionName | null; start: number; end: number }> = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = headingPattern.exec(text)) !== null) {
+    const title = foldAccents(match[1]).toUpperCase();
+    const entry = SECTION_KEYWORDS.find(([, keyword]) => title.includes(keyword));
+    headings.push({ name: entry ? entry[0] : null, start: match.index, end: match.index + match[0].length });
+  }
+
+  headings.forEach((heading, i) => {
+    if (!heading.name || sections.has(heading.name)) {
+      return;
+    }
+    const end = i < headings.length - 1 ? headings[i + 1].start : text.length;
+    sections.set(heading.name, text.substring(heading.end, end).trim());
+  });
+
+  return sections;
+}
+
+/**
+ * Value of the first "Label : value" line matching one of the labels
+ */
+function extractField(text: string, labels: string[]): string | null {
+  for (const label of labels) {
+    const pattern = new RegExp(`${escapeRegex(label)}\\s*:\\s*(.+?)\\s*$`, 'im');
+    const match = text.match(pattern);
+    if (match) {
+      const value = normalizeValue(match[1], { illegibleAsNull: true });
+      if (value) {
+        return value;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse the PARTIES section: one "### Partie N (Role)" block per party
+ */
+function parseParties(text: string): ActeParty[] {
+  if (!text) {
+    return [];
+  }
+
+  const blocks = text.split(/^#{3,}\s+/m).map(b => b.trim()).filter(Boolean);
+  const parties: ActeParty[] = [];
+
+  for (const block of blocks) {
+    const name = extractField(block, ['Nom']);
+    if (!name) {
+      continue;
+    }
+
+    // Role from "Qualité :" or from the heading, e.g. "Partie 1 (Vendeur)"
+    const headingRole = block.split('\n')[0].match(/\(([^)]+)\)/);
+
+    parties.push({
+      name,
+      role: extractField(block, ['Qualité']) ?? (headingRole ? headingRole[1].trim() : ''),
+      address: extractField(block, ['Adresse']),
+    });
+  }
+
+  return parties;
+}
+
+/**
+ * Parse the lots of the DESCRIPTION section
+ */
+function parseLots(text: string): ActeLot[] {
+  const lotField = extractField(text, ['Lot(s)', 'Lots', 'Lot', 'Numéro de lot']);
+  if (!lotField) {
+    return [];
+  }
+
+  const cadastre = extractField(text, ['Cadastre']);
+  const circonscription = extractField(text, ['Circonscription foncière']);
+
+  return lotField
+    .split(/\s*(?:,|;|\bet\b)\s*/i)
+    .map(lot => lot.replace(/^lots?\s+/i, '').trim())
+    .filter(lot => /\d/.test(lot))
+    .map(lot_number => ({ lot_number, cadastre, circonscription }));
+}
+
+/**
+ * Price of the acte - the amount next to "prix"/"considération", else the
+ * first amount of the MONTANTS section
+ */
+function parseConsideration(text: string): ActeConsideration | null {
+  const amountPattern = '(\\d{1,3}(?:[\\s\\u00a0.,]\\d{3})*(?:[.,]\\d{2})?|\\d+(?:[.,]\\d{2})?)\\s*\\$';
+  const labelled = text.match(new RegExp(`(?:prix|considération|contrepartie|somme)[^\\n$]*?${amountPattern}`, 'i'));
+  const match = labelled ?? text.match(new RegExp(amountPattern));
+
+  if (!match) {
+    return null;
+  }
+
+  const amount = parseAmount(match[1]);
+  if (amount === null) {
+    return null;
+  }
+
+  return { amount, text: `${match[1].trim()} $` };
+}
+
+/**
+ * Notary from "Me X, notaire" or "Notaire : X"
+ */
+function parseNotary(text: string): string | null {
+  const labelled = extractField(text, ['Notaire instrumentant', 'Notaire']);
+  if (labelled) {
+    return labelled.replace(/^M(?:e|ᵉ|aître)\s+/i, '').trim();
+  }
+
+  const match = text.match(/M(?:e|ᵉ|aître)\s+([^\n,]+?)\s*,\s*notaire/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Inscription numbers cited in the RÉFÉRENCES section, excluding the acte itself
+ */
+function parseReferences(text: string, ownNumber: string | null): string[] {
+  const pattern = /\b\d{1,3}(?:[ \u00a0]\d{3}){1,2}\b|\b\d{6,9}\b/g;
+  const numbers = new Set<string>();
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const number = normalizeInscriptionNumber(match[0]);
+    // Skip 4-digit years read as part of a date
+    if (number.length >= 6 && number !== ownNumber) {
+      numbers.add(number);
+    }
+  }
+
+  return Array.from(numbers);
+}
+
+/**
+ * Registry numbers are written with spaces ("12 345 678"); keep digits only
+ */
+export function normalizeInscriptionNumber(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/**
+ * Normalize an acte date to YYYY-MM-DD
+ * Accepts "2020-01-15", "2020-01-15 (15 janvier 2020)", "15 janvier 2020" and "15/01/2020"
+ */
+export function normalizeActeDate(value: string | null): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const iso = value.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return formatDate(+iso[1], +iso[2], +iso[3]);
+  }
+
+  const french = foldAccents(value).toLowerCase().match(/(\d{1,2})(?:er)?\s+([a-z]+)\s+(\d{4})/);
+  if (french && MONTHS[french[2]]) {
+    return formatDate(+french[3], MONTHS[french[2]], +french[1]);
+  }
+
+  const numeric = value.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (numeric) {
+    return formatDate(+numeric[3], +numeric[2], +numeric[1]);
+  }
+
+  return null;
+}
+
+/**
+ * Parse "250 000,00", "250,000.00" or "250000" into a number
+ */
+export function parseAmount(value: string): number | null {
+  let cleaned = value.replace(/[\s\u00a0]/g, '');
+  const decimal = cleaned.match(/[.,](\d{2})$/);
+
+  if (decimal) {
+    cleaned = cleaned.slice(0, -3).replace(/[.,]/g, '') + '.' + decimal[1];
+  } else {
+    cleaned = cleaned.replace(/[.,]/g, '');
+  }
+
+  const amount = Number(cleaned);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+function formatDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function firstLine(text: string): string | null {
+  const line = text.split('\n').map(l => l.trim()).find(l => l.length > 0);
+  return line ? normalizeValue(line.replace(/^Nature de l'acte\s*:\s*/i, ''), { illegibleAsNull: true }) : null;
+}
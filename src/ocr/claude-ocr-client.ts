@@ -6,6 +6,7 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import { logger } from '../utils/logger';
+import { trackModelCall, anthropicTokenUsage } from '../usage/model-usage';
 
 export interface ClaudeOCRConfig {
   apiKey: string;
@@ -20,6 +21,15 @@ export interface ClaudeOCRResult {
   isComplete: boolean;
 }
 
+/**
+ * Tool whose input Claude is forced to produce (structured output)
+ */
+export interface ClaudeOutputTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
 export class ClaudeOCRClient {
   private client: Anthropic;
   private extractModel: string;
@@ -68,30 +78,34 @@ export class ClaudeOCRClient {
           imageSize: base64Data.length
         }, 'Extracting text from image with Claude');
 
-        const message = await this.client.messages.create({
-          model,
-          max_tokens: 16000, // Claude 4.5 supports up to 64k output tokens
-          temperature,
-          messages: [
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'image',
-                  source: {
-                    type: 'base64',
-                    media_type: mimeType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp',
-                    data: base64Data,
+        const message = await trackModelCall(
+          { provider: 'claude', model, operation: 'ocr.extract_page' },
+          () => this.client.messages.create({
+            model,
+            max_tokens: 16000, // Claude 4.5 supports up to 64k output tokens
+            temperature,
+            messages: [
+              {
+                role: 'user',
+                content: [
+                  {
+                    type: 'image',
+                    source: {
+                      type: 'base64',
+                      media_type: mimeType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp',
+                      data: base64Data,
+                    },
                   },
-                },
-                {
-                  type: 'text',
-                  text: prompt,
-                },
-              ],
-            },
-          ],
-        });
+                  {
+                    type: 'text',
+                    text: prompt,
+                  },
+                ],
+              },
+            ],
+          }),
+          m => anthropicTokenUsage(m.usage)
+        );
 
         // Extract text from response
         const textContent = message.content.find(block => block.type === 'text');
@@ -165,17 +179,21 @@ export class ClaudeOCRClient {
           textLength: rawText.length
         }, 'Applying boost corrections with Claude');
 
-        const message = await this.client.messages.create({
-          model,
-          max_tokens: 16000,
-          temperature,
-          messages: [
-            {
-              role: 'user',
-              content: `${prompt}\n\n---\n\nTEXTE BRUT À BOOSTER:\n\n${rawText}`,
-            },
-          ],
-        });
+        const message = await trackModelCall(
+          { provider: 'claude', model, operation: 'ocr.boost' },
+          () => this.client.messages.create({
+            model,
+            max_tokens: 16000,
+            temperature,
+            messages: [
+              {
+                role: 'user',
+                content: `${prompt}\n\n---\n\nTEXTE BRUT À BOOSTER:\n\n${rawText}`,
+              },
+            ],
+          }),
+          m => anthropicTokenUsage(m.usage)
+        );
 
         // Extract text from response
         const textContent = message.content.find(block => block.type === 'text');
@@ -221,6 +239,57 @@ export class ClaudeOCRClient {
     throw lastError || new Error('Claude boost failed after all attempts');
   }
 
+  /**
+   * Generate JSON matching a schema by forcing Claude to call a tool
+   * Returns the tool input, validated by the caller
+   */
+  async generateWithTool(
+    prompt: string,
+    tool: ClaudeOutputTool,
+    options: {
+      model?: string;
+      temperature?: number;
+    } = {}
+  ): Promise<unknown> {
+    const model = options.model || this.boostModel;
+    const temperature = options.temperature ?? this.boostTemperature;
+
+    logger.debug({ model, temperature, tool: tool.name, promptLength: prompt.length }, 'Requesting structured output from Claude');
+
+    const message = await trackModelCall(
+      { provider: 'claude', model, operation: 'ocr.structure' },
+      () => this.client.messages.create({
+        model,
+        max_tokens: 32000,
+        temperature,
+        tools: [{
+          name: tool.name,
+          description: tool.description,
+          input_schema: { type: 'object', ...tool.inputSchema },
+        }],
+        tool_choice: { type: 'tool', name: tool.name },
+        messages: [
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+      }),
+      m => anthropicTokenUsage(m.usage)
+    );
+
+    const toolUse = message.content.find(block => block.type === 'tool_use');
+    if (!toolUse || toolUse.type !== 'tool_use') {
+      throw new Error('No tool use in Claude response');
+    }
+
+    if (message.stop_reason === 'max_tokens') {
+      logger.warn({ model, tool: tool.name }, 'Claude structured output truncated (max_tokens)');
+    }
+
+    return toolUse.input;
+  }
+
   /**
    * Process multiple images in parallel
    */
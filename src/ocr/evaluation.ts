@@ -0,0 +1,217 @@
+/**
+ * OCR Evaluation Metrics
+ * Field-level precision and recall of a SanitizedOCRResult or ParsedActe against
+ * the expected result of a golden-set document
+ *
+ * For each field, a correct non-empty value is a true positive, a wrong or extra
+ * value a false positive and a wrong or missing value a false negative (a wrong
+ * value counts as both). List fields (parties, lots, references) are compared as
+ * multisets of their items.
+ */
+
+import { SanitizedOCRResult, ParsedActe, Inscription, PageResult } from '../types/ocr';
+
+export interface FieldCounts {
+  true_positives: number;
+  false_positives: number;
+  false_negatives: number;
+}
+
+export type FieldCountMap = Record<string, FieldCounts>;
+
+export interface FieldScore extends FieldCounts {
+  field: string;
+  /** null when nothing was predicted */
+  precision: number | null;
+  /** null when nothing was expected */
+  recall: number | null;
+}
+
+export interface EvaluationSummary {
+  documents: number;
+  fields: FieldScore[];
+  overall: FieldScore;
+}
+
+/** Fields compared without whitespace ("4 000 001" = "4000001") */
+const NUMBER_FIELDS = new Set([
+  'acte_publication_number',
+  'radiation_number',
+  'lot_number',
+  'inscription_number',
+  'lots',
+  'referenced_inscriptions',
+]);
+
+const INSCRIPTION_FIELDS = [
+  'acte_publication_date',
+  'acte_publication_number',
+  'acte_nature',
+  'remarques',
+  'radiation_number',
+] as const;
+
+/**
+ * Score an index result against the expected one
+ * Pages are matched by page number and inscriptions by line number
+ */
+export function scoreSanitizedResult(expected: SanitizedOCRResult, actual: SanitizedOCRResult): FieldCountMap {
+  const counts: FieldCountMap = {};
+  const pageNumbers = new Set([...expected.pages, ...actual.pages].map(p => p.pageNumber));
+
+  for (const pageNumber of pageNumbers) {
+    const expectedPage = expected.pages.find(p => p.pageNumber === pageNumber);
+    const actualPage = actual.pages.find(p => p.pageNumber === pageNumber);
+
+    for (const field of ['circonscription', 'cadastre', 'lot_number'] as const) {
+      countValue(counts, field, expectedPage?.metadata[field] ?? null, actualPage?.metadata[field] ?? null);
+    }
+
+    const lineNumbers = new Set([...inscriptionsOf(expectedPage), ...inscriptionsOf(actualPage)].map(i => i.line_number));
+
+    for (const lineNumber of lineNumbers) {
+      const expectedInscription = inscriptionsOf(expectedPage).find(i => i.line_number === lineNumber);
+      const actualInscription = inscriptionsOf(actualPage).find(i => i.line_number === lineNumber);
+
+      for (const field of INSCRIPTION_FIELDS) {
+        countValue(counts, field, expectedInscription?.[field] ?? null, actualInscription?.[field] ?? null);
+      }
+      countItems(
+        counts,
+        'parties',
+        (expectedInscription?.parties || []).map(p => `${p.name}|${p.role}`),
+        (actualInscription?.parties || []).map(p => `${p.name}|${p.role}`)
+      );
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Score a parsed acte against the expected one
+ */
+export function scoreParsedActe(expected: ParsedActe, actual: ParsedActe | null): FieldCountMap {
+  const counts: FieldCountMap = {};
+
+  for (const field of ['inscription_number', 'registration_date', 'bureau_publicite', 'nature', 'notary'] as const) {
+    countValue(counts, field, expected[field], actual?.[field] ?? null);
+  }
+  countValue(
+    counts,
+    'consideration',
+    expected.consideration ? String(expected.consideration.amount) : null,
+    actual?.consideration ? String(actual.consideration.amount) : null
+  );
+  countItems(
+    counts,
+    'parties',
+    expected.parties.map(p => `${p.name}|${p.role}`),
+    (actual?.parties || []).map(p => `${p.name}|${p.role}`)
+  );
+  countItems(counts, 'lots', expected.lots.map(l => l.lot_number), (actual?.lots || []).map(l => l.lot_number));
+  countItems(counts, 'referenced_inscriptions', expected.referenced_inscriptions, actual?.referenced_inscriptions || []);
+
+  return counts;
+}
+
+/**
+ * Add the counts of a document to a running total
+ */
+export function mergeCounts(total: FieldCountMap, counts: FieldCountMap): FieldCountMap {
+  for (const [field, fieldCounts] of Object.entries(counts)) {
+    const current = total[field] || emptyCounts();
+    current.true_positives += fieldCounts.true_positives;
+    current.false_positives += fieldCounts.false_positives;
+    current.false_negatives += fieldCounts.false_negatives;
+    total[field] = current;
+  }
+  return total;
+}
+
+/**
+ * Precision and recall per field and over all fields
+ */
+export function summarizeCounts(counts: FieldCountMap, documents: number): EvaluationSummary {
+  const fields = Object.entries(counts)
+    .map(([field, fieldCounts]) => toScore(field, fieldCounts))
+    .sort((a, b) => a.field.localeCompare(b.field));
+
+  const overall = fields.reduce((sum, score) => ({
+    true_positives: sum.true_positives + score.true_positives,
+    false_positives: sum.false_positives + score.false_positives,
+    false_negatives: sum.false_negatives + score.false_negatives,
+  }), emptyCounts());
+
+  return { documents, fields, overall: toScore('overall', overall) };
+}
+
+function inscriptionsOf(page: PageResult | undefined): Inscription[] {
+  return page?.inscriptions || [];
+}
+
+function countValue(counts: FieldCountMap, field: string, expected: string | null, actual: string | null): void {
+  const fieldCounts = counts[field] || (counts[field] = emptyCounts());
+  const expectedValue = normalizeFieldValue(field, expected);
+  const actualValue = normalizeFieldValue(field, actual);
+
+  if (expectedValue !== null && expectedValue === actualValue) {
+    fieldCounts.true_positives++;
+    return;
+  }
+  if (actualValue !== null) {
+    fieldCounts.false_positives++;
+  }
+  if (expectedValue !== null) {
+    fieldCounts.false_negatives++;
+  }
+}
+
+function countItems(counts: FieldCountMap, field: string, expected: string[], actual: string[]): void {
+  const fieldCounts = counts[field] || (counts[field] = emptyCounts());
+  const remaining = expected
+    .map(value => normalizeFieldValue(field, value))
+    .filter((value): value is string => value !== null);
+
+  for (const value of actual.map(item => normalizeFieldValue(field, item))) {
+    if (value === null) {
+      continue;
+    }
+    const index = remaining.indexOf(value);
+    if (index >= 0) {
+      remaining.splice(index, 1);
+      fieldCounts.true_positives++;
+    } else {
+      fieldCounts.false_positives++;
+    }
+  }
+
+  fieldCounts.false_negatives += remaining.length;
+}
+
+/**
+ * Case and spacing are not OCR errors; accents are
+ */
+function normalizeFieldValue(field: string, value: string | null): string | null {
+  if (value === null) {
+    return null;
+  }
+  const normalized = value.replace(/\s+/g, NUMBER_FIELDS.has(field) ? '' : ' ').trim().toLowerCase();
+  return normalized === '' ? null : normalized;
+}
+
+function toScore(field: string, counts: FieldCounts): FieldScore {
+  const predicted = counts.true_positives + counts.false_positives;
+  const expected = counts.true_positives + counts.false_negatives;
+
+  return {
+    field,
+    ...counts,
+    precision: predicted > 0 ? counts.true_positives / predicted : null,
+    recall: expected > 0 ? counts.true_positives / expected : null,
+  };
+}
+
+function emptyCounts(): FieldCounts {
+  return { true_positives: 0, false_positives: 0, false_negatives: 0 };
+}
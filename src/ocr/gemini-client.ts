@@ -1,6 +1,7 @@
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { GoogleGenerativeAI, GenerativeModel, ResponseSchema } from '@google/generative-ai';
 import { GoogleAIFileManager, FileState } from '@google/generative-ai/server';
 import { logger } from '../utils/logger';
+import { trackModelCall, geminiTokenUsage } from '../usage/model-usage';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -16,6 +17,11 @@ export interface GeminiOCRResult {
   error?: string;
 }
 
+export interface GeminiGenerationOptions {
+  model?: string;
+  temperature?: number;
+}
+
 /**
  * Client for interacting with Google Gemini File API for OCR processing
  */
@@ -23,6 +29,7 @@ export class GeminiClient {
   private genAI: GoogleGenerativeAI;
   private fileManager: GoogleAIFileManager;
   private model: GenerativeModel;
+  private modelName: string;
 
   constructor(apiKey: string, modelName: string = 'gemini-2.0-flash-exp') {
     if (!apiKey) {
@@ -31,16 +38,42 @@ export class GeminiClient {
 
     this.genAI = new GoogleGenerativeAI(apiKey);
     this.fileManager = new GoogleAIFileManager(apiKey);
-    this.model = this.genAI.getGenerativeModel({
+    this.modelName = modelName;
+    this.model = this.createModel(modelName);
+
+    logger.info({ modelName }, 'Gemini client initialized');
+  }
+
+  /**
+   * Name of the model used when no override is given
+   */
+  getModelName(): string {
+    return this.modelName;
+  }
+
+  /**
+   * Build a generative model instance with the shared generation settings
+   */
+  private createModel(modelName: string, temperature?: number): GenerativeModel {
+    return this.genAI.getGenerativeModel({
       model: modelName,
       generationConfig: {
         maxOutputTokens: 65536,
+        temperature,
         // Note: stopSequences removed - Gemini 2.0 has a limit of 17 stop sequences
         // and the instruction is better placed in the prompt itself
       },
     });
+  }
 
-    logger.info({ modelName }, 'Gemini client initialized');
+  /**
+   * Resolve the model to use for a request, honouring per-call overrides
+   */
+  private resolveModel(options?: GeminiGenerationOptions): GenerativeModel {
+    if (!options || (!options.model && options.temperature === undefined)) {
+      return this.model;
+    }
+    return this.createModel(options.model || this.modelName, options.temperature);
   }
 
   /**
@@ -112,19 +145,31 @@ export class GeminiClient {
   /**
    * Extract text from a file using OCR with a custom prompt
    */
-  async extractText(fileUri: string, prompt: string): Promise<GeminiOCRResult> {
+  async extractText(
+    fileUri: string,
+    prompt: string,
+    options?: GeminiGenerationOptions
+  ): Promise<GeminiOCRResult> {
     try {
-      logger.info({ fileUri, promptLength: prompt.length }, 'Sending OCR request to Gemini');
-
-      const result = await this.model.generateContent([
-        {
-          fileData: {
-            mimeType: 'application/pdf',
-            fileUri: fileUri,
+      logger.info({
+        fileUri,
+        promptLength: prompt.length,
+        model: options?.model || this.modelName,
+      }, 'Sending OCR request to Gemini');
+
+      const result = await trackModelCall(
+        { provider: 'gemini', model: options?.model || this.modelName, operation: 'ocr.extract_pdf' },
+        () => this.resolveModel(options).generateContent([
+          {
+            fileData: {
+              mimeType: 'application/pdf',
+              fileUri: fileUri,
+            },
           },
-        },
-        { text: prompt },
-      ]);
+          { text: prompt },
+        ]),
+        r => geminiTokenUsage(r.response.usageMetadata)
+      );
 
       const response = result.response;
       const text = response.text();
@@ -152,6 +197,106 @@ export class GeminiClient {
     }
   }
 
+  /**
+   * Extract text from a single page image (inline data, no File API upload)
+   */
+  async extractTextFromImage(
+    base64Data: string,
+    mimeType: string,
+    prompt: string,
+    options?: GeminiGenerationOptions
+  ): Promise<GeminiOCRResult> {
+    try {
+      logger.debug({
+        mimeType,
+        imageSize: base64Data.length,
+        model: options?.model || this.modelName,
+      }, 'Sending image OCR request to Gemini');
+
+      const result = await trackModelCall(
+        { provider: 'gemini', model: options?.model || this.modelName, operation: 'ocr.extract_page' },
+        () => this.resolveModel(options).generateContent([
+          {
+            inlineData: {
+              mimeType,
+              data: base64Data,
+            },
+          },
+          { text: prompt },
+        ]),
+        r => geminiTokenUsage(r.response.usageMetadata)
+      );
+
+      const text = result.response.text();
+
+      if (!text) {
+        throw new Error('Empty response from Gemini');
+      }
+
+      return {
+        success: true,
+        content: text,
+      };
+    } catch (error) {
+      logger.error({ error, mimeType }, 'Image OCR extraction failed');
+      return {
+        success: false,
+        content: '',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Generate JSON constrained by a response schema (structured output)
+   * The content is the JSON text returned by Gemini
+   */
+  async generateJSON(
+    prompt: string,
+    responseSchema: ResponseSchema,
+    options?: GeminiGenerationOptions
+  ): Promise<GeminiOCRResult> {
+    try {
+      const model = this.genAI.getGenerativeModel({
+        model: options?.model || this.modelName,
+        generationConfig: {
+          maxOutputTokens: 65536,
+          temperature: options?.temperature,
+          responseMimeType: 'application/json',
+          responseSchema,
+        },
+      });
+
+      logger.debug({
+        promptLength: prompt.length,
+        model: options?.model || this.modelName,
+      }, 'Sending structured output request to Gemini');
+
+      const result = await trackModelCall(
+        { provider: 'gemini', model: options?.model || this.modelName, operation: 'ocr.structure' },
+        () => model.generateContent(prompt),
+        r => geminiTokenUsage(r.response.usageMetadata)
+      );
+      const text = result.response.text();
+
+      if (!text) {
+        throw new Error('Empty response from Gemini');
+      }
+
+      return {
+        success: true,
+        content: text,
+      };
+    } catch (error) {
+      logger.error({ error }, 'Structured output request failed');
+      return {
+        success: false,
+        content: '',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
   /**
    * Delete a file from Gemini File API
    */
@@ -169,7 +314,8 @@ export class GeminiClient {
    */
   async processFile(
     localFilePath: string,
-    prompt: string
+    prompt: string,
+    options?: GeminiGenerationOptions
   ): Promise<GeminiOCRResult> {
     let uploadedFileName: string | null = null;
 
@@ -179,7 +325,7 @@ export class GeminiClient {
       uploadedFileName = uploadResult.name;
 
       // Extract text
-      const extractResult = await this.extractText(uploadResult.fileUri, prompt);
+      const extractResult = await this.extractText(uploadResult.fileUri, prompt, options);
 
       // Cleanup
       if (uploadedFileName) {
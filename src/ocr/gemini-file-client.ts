@@ -2,6 +2,7 @@ import { GoogleGenerativeAI } from '@google/generative-ai';
 import { GoogleAIFileManager } from '@google/generative-ai/server';
 import { logger } from '../utils/logger';
 import { OCRLogger } from './ocr-logger';
+import { trackModelCall, geminiTokenUsage } from '../usage/model-usage';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -197,15 +198,19 @@ export class GeminiFileClient {
     // Get the file reference
     const file = await this.fileManager.getFile(fileName);
 
-    const result = await generativeModel.generateContent([
-      {
-        fileData: {
-          mimeType: file.mimeType,
-          fileUri: fileUri
-        }
-      },
-      { text: prompt }
-    ]);
+    const result = await trackModelCall(
+      { provider: 'gemini', model, operation: 'ocr.extract_pdf' },
+      () => generativeModel.generateContent([
+        {
+          fileData: {
+            mimeType: file.mimeType,
+            fileUri: fileUri
+          }
+        },
+        { text: prompt }
+      ]),
+      r => geminiTokenUsage(r.response.usageMetadata)
+    );
 
     const response = await result.response;
     const text = response.text();
@@ -229,7 +234,7 @@ export class GeminiFileClient {
     }
   ): Promise<{ boostedText: string }> {
     const model = options?.model || 'gemini-2.5-pro';
-    const temperature = options?.temperature || 0.2;
+    const temperature = options?.temperature ?? 0.2;
 
     let maxTokens = this.defaultMaxTokens;
     if (model.includes('2.5') && model.includes('pro')) {
@@ -250,7 +255,11 @@ export class GeminiFileClient {
 
     const fullPrompt = `${prompt}\n\n---\n\nTEXTE BRUT À BOOSTER :\n\n${rawText}`;
 
-    const result = await generativeModel.generateContent(fullPrompt);
+    const result = await trackModelCall(
+      { provider: 'gemini', model, operation: 'ocr.boost' },
+      () => generativeModel.generateContent(fullPrompt),
+      r => geminiTokenUsage(r.response.usageMetadata)
+    );
     const response = await result.response;
     const text = response.text();
 
@@ -0,0 +1,314 @@
+/**
+ * OCR Golden Set
+ * Documents with their expected result, used to evaluate prompt and model changes
+ * offline. Provider responses are recorded once (--record) and replayed, keyed by
+ * stage, model, prompt text and input, so a run needs no network access; a new
+ * prompt or model only needs the stages it changes to be recorded.
+ *
+ * Layout: <root>/<index|acte>/<case>/
+ *   document.pdf     source PDF
+ *   expected.json    expected SanitizedOCRResult (index) or ParsedActe (acte)
+ *   recordings.json  recorded provider responses
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { SanitizedOCRResult, ParsedActe } from '../types/ocr';
+import { OCRProvider, OCRGenerationOptions } from './ocr-providers';
+import { PDFConverter } from './pdf-converter';
+import { combinePageTexts } from './page-processor';
+import { hashContent, hashFile } from './ocr-cache';
+import { sanitizeOCRResult } from './sanitizer';
+import { parseActe } from './acte-parser';
+import { parseStructuredOutput } from './structured-output';
+import { VersionedPrompt, PromptDocumentType } from './prompt-registry';
+import { FieldCountMap, scoreSanitizedResult, scoreParsedActe } from './evaluation';
+
+export interface GoldenCase {
+  id: string;
+  documentType: PromptDocumentType;
+  pdfPath: string;
+  expected: SanitizedOCRResult | ParsedActe;
+  recordingsPath: string;
+}
+
+/**
+ * Stage whose response is recorded: index pages, whole acte PDF, boost, structure
+ */
+export type RecordedStage = 'page' | 'pdf' | 'boost' | 'structure';
+
+export interface RecordedResponse {
+  stage: RecordedStage;
+  model: string;
+  prompt_id: string;
+  text: string;
+  recorded_at: string;
+}
+
+interface RecordingsFile {
+  /** Page count of the PDF, recorded with the page responses */
+  page_count?: number;
+  responses: Record<string, RecordedResponse>;
+}
+
+/**
+ * Error raised when a response is not recorded and recording is off
+ */
+export class MissingRecordingError extends Error {
+  constructor(stage: RecordedStage, promptId: string, model: string) {
+    super(`No recorded ${stage} response for ${promptId} with ${model} (run with --record)`);
+    this.name = 'MissingRecordingError';
+  }
+}
+
+/**
+ * Load the golden cases of a document type (all types when omitted)
+ */
+export async function loadGoldenSet(root: string, documentType?: PromptDocumentType): Promise<GoldenCase[]> {
+  const cases: GoldenCase[] = [];
+  const types: PromptDocumentType[] = documentType ? [documentType] : ['index', 'acte'];
+
+  for (const type of types) {
+    const typeDir = path.join(root, type);
+    let entries: string[];
+    try {
+      entries = (await fs.readdir(typeDir, { withFileTypes: true }))
+        .filter(entry => entry.isDirectory())
+        .map(entry => entry.name)
+        .sort();
+    } catch {
+      logger.warn({ typeDir }, 'No golden cases for document type');
+      continue;
+    }
+
+    for (const id of entries) {
+      const dir = path.join(typeDir, id);
+      cases.push({
+        id,
+        documentType: type,
+        pdfPath: path.join(dir, 'document.pdf'),
+        expected: JSON.parse(await fs.readFile(path.join(dir, 'expected.json'), 'utf-8')),
+        recordingsPath: path.join(dir, 'recordings.json'),
+      });
+    }
+  }
+
+  return cases;
+}
+
+/**
+ * Recorded provider responses of a golden case
+ */
+export class ResponseRecorder {
+  private dirty = false;
+
+  private constructor(
+    private filePath: string,
+    private data: RecordingsFile,
+    private recording: boolean
+  ) {}
+
+  static async open(filePath: string, recording: boolean): Promise<ResponseRecorder> {
+    let data: RecordingsFile = { responses: {} };
+    try {
+      data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      // No recordings yet
+      if (!(error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT')) {
+        throw error;
+      }
+    }
+    return new ResponseRecorder(filePath, data, recording);
+  }
+
+  get pageCount(): number | undefined {
+    return this.data.page_count;
+  }
+
+  set pageCount(count: number | undefined) {
+    this.data.page_count = count;
+    this.dirty = true;
+  }
+
+  /**
+   * Recorded response for a stage, model, prompt and input, calling the provider
+   * and recording its response when missing and recording is on
+   */
+  async getOrRecord(
+    entry: { stage: RecordedStage; model: string; prompt: VersionedPrompt; inputHash: string },
+    live: () => Promise<string>
+  ): Promise<string> {
+    const key = hashContent([entry.stage, entry.model, hashContent(entry.prompt.text), entry.inputHash].join('|')).substring(0, 32);
+    const recorded = this.data.responses[key];
+
+    if (recorded) {
+      return recorded.text;
+    }
+    if (!this.recording) {
+      throw new MissingRecordingError(entry.stage, entry.prompt.id, entry.model);
+    }
+
+    const text = await live();
+    this.data.responses[key] = {
+      stage: entry.stage,
+      model: entry.model,
+      prompt_id: entry.prompt.id,
+      text,
+      recorded_at: new Date().toISOString(),
+    };
+    this.dirty = true;
+    return text;
+  }
+
+  async save(): Promise<void> {
+    if (this.dirty) {
+      await fs.writeFile(this.filePath, JSON.stringify(this.data, null, 2) + '\n');
+      this.dirty = false;
+    }
+  }
+}
+
+export interface GoldenRunOptions {
+  prompts: { extract: VersionedPrompt; boost: VersionedPrompt; structure?: VersionedPrompt };
+  models: { extract: OCRGenerationOptions; boost: OCRGenerationOptions };
+  /** Provider called when recording (null to replay only) */
+  provider: OCRProvider | null;
+  /** Converts index PDFs to page images when recording */
+  pdfConverter?: PDFConverter;
+  recorder: ResponseRecorder;
+}
+
+export interface GoldenCaseResult {
+  id: string;
+  documentType: PromptDocumentType;
+  counts: FieldCountMap | null;
+  error: string | null;
+}
+
+/**
+ * Run the OCR stages of a golden case and score the result
+ * The structure prompt, when given, replaces the regex sanitizer (one attempt, no retry)
+ */
+export async function evaluateCase(goldenCase: GoldenCase, options: GoldenRunOptions): Promise<GoldenCaseResult> {
+  const { prompts, models, provider, recorder } = options;
+  const live = <T>(run: (provider: OCRProvider) => Promise<T>) => async () => {
+    if (!provider) {
+      throw new Error('No OCR provider to record with');
+    }
+    return run(provider);
+  };
+
+  try {
+    const pdfHash = await hashFile(goldenCase.pdfPath);
+    let rawText: string;
+
+    if (goldenCase.documentType === 'index') {
+      rawText = await extractIndexPages(goldenCase, pdfHash, options);
+    } else {
+      rawText = await recorder.getOrRecord(
+        { stage: 'pdf', model: models.extract.model, prompt: prompts.extract, inputHash: pdfHash },
+        live(async p => (await p.extractFromPDF(goldenCase.pdfPath, prompts.extract.text, models.extract)).text)
+      );
+    }
+
+    const boostedText = await recorder.getOrRecord(
+      { stage: 'boost', model: models.boost.model, prompt: prompts.boost, inputHash: hashContent(rawText) },
+      live(async p => (await p.boostText(rawText, prompts.boost.text, models.boost)).text)
+    );
+
+    if (goldenCase.documentType === 'acte') {
+      return {
+        id: goldenCase.id,
+        documentType: goldenCase.documentType,
+        counts: scoreParsedActe(goldenCase.expected as ParsedActe, parseOrNull(() => parseActe(boostedText))),
+        error: null,
+      };
+    }
+
+    let result: SanitizedOCRResult;
+    if (prompts.structure) {
+      const structurePrompt = prompts.structure;
+      const json = await recorder.getOrRecord(
+        { stage: 'structure', model: models.boost.model, prompt: structurePrompt, inputHash: hashContent(boostedText) },
+        live(async p => {
+          if (!p.structureText) {
+            throw new Error(`Provider ${p.name} has no structured output`);
+          }
+          const output = await p.structureText(boostedText, structurePrompt.text, models.boost);
+          return typeof output.data === 'string' ? output.data : JSON.stringify(output.data);
+        })
+      );
+      result = parseStructuredOutput(json);
+    } else {
+      result = sanitizeOCRResult(boostedText);
+    }
+
+    return {
+      id: goldenCase.id,
+      documentType: goldenCase.documentType,
+      counts: scoreSanitizedResult(goldenCase.expected as SanitizedOCRResult, result),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      id: goldenCase.id,
+      documentType: goldenCase.documentType,
+      counts: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    await recorder.save();
+  }
+}
+
+/**
+ * Extract the pages of an index PDF one image at a time, as the OCR worker does
+ * Pages are keyed by PDF hash and page number so replays need no image conversion
+ */
+async function extractIndexPages(goldenCase: GoldenCase, pdfHash: string, options: GoldenRunOptions): Promise<string> {
+  const { prompts, models, provider, pdfConverter, recorder } = options;
+  let images: Array<{ base64Data: string; mimeType: string; imagePath: string }> | null = null;
+
+  try {
+    if (recorder.pageCount === undefined) {
+      if (!provider || !pdfConverter) {
+        throw new MissingRecordingError('page', prompts.extract.id, models.extract.model);
+      }
+      images = (await pdfConverter.convertAllPagesToImages(goldenCase.pdfPath, { dpi: 300, format: 'png' })).pages;
+      recorder.pageCount = images.length;
+    }
+
+    const pages: Array<{ page_number: number; raw_text: string }> = [];
+    for (let pageNumber = 1; pageNumber <= recorder.pageCount!; pageNumber++) {
+      const text = await recorder.getOrRecord(
+        { stage: 'page', model: models.extract.model, prompt: prompts.extract, inputHash: `${pdfHash}:${pageNumber}` },
+        async () => {
+          if (!provider || !pdfConverter) {
+            throw new Error('No OCR provider to record with');
+          }
+          if (!images) {
+            images = (await pdfConverter.convertAllPagesToImages(goldenCase.pdfPath, { dpi: 300, format: 'png' })).pages;
+          }
+          const image = images[pageNumber - 1];
+          return (await provider.extractFromImage(image.base64Data, image.mimeType, prompts.extract.text, models.extract)).text;
+        }
+      );
+      pages.push({ page_number: pageNumber, raw_text: text });
+    }
+
+    return combinePageTexts(pages);
+  } finally {
+    if (images && pdfConverter) {
+      await Promise.all(images.map(image => pdfConverter.cleanup(image.imagePath)));
+    }
+  }
+}
+
+function parseOrNull<T>(parse: () => T): T | null {
+  try {
+    return parse();
+  } catch {
+    return null;
+  }
+}
@@ -2,19 +2,34 @@
  * OCR Module for Quebec Land Registry Documents
  *
  * This module provides OCR processing capabilities using Google's Gemini AI
- * with specialized prompts and boost rules for Quebec land registry documents.
+ * (with Claude and a local Tesseract install as fallback providers) and specialized prompts and boost rules for Quebec land registry documents.
  *
  * Supports:
  * - Index documents (using Vision API with PDF to image conversion)
  * - Acte documents (using File API for direct PDF processing)
+ * - Plans cadastraux (title block metadata, using File API for direct PDF processing)
  */
 
-export { GeminiClient, GeminiUploadResult, GeminiOCRResult } from './gemini-client';
+export { GeminiClient, GeminiUploadResult, GeminiOCRResult, GeminiGenerationOptions } from './gemini-client';
+export { ClaudeOCRClient, ClaudeOCRConfig, ClaudeOCRResult } from './claude-ocr-client';
+export { OCRProvider, OCRProviderName, OCRProviderResult, OCRProviderError, GeminiOCRProvider, ClaudeOCRProvider, TesseractOCRProvider, createOCRProviders } from './ocr-providers';
+export { TesseractClient, TesseractConfig } from './tesseract-client';
 export { GeminiFileClient, GeminiFileClientConfig, FileUploadResult, FileProcessingStatus, OCRFileExtractionResult } from './gemini-file-client';
 export { PDFConverter, PDFToImageOptions, ConversionResult, MultiPageConversionResult } from './pdf-converter';
+export { PageOCRProcessor, PageOCRJob, PageOCRRecord, PageOCROutcome, combinePageTexts } from './page-processor';
+export { OCRCache, OCRCacheKey, OCRCacheKind, hashContent, hashFile, promptVersion } from './ocr-cache';
 export { StaleOCRMonitor, staleOCRMonitor } from './stale-ocr-monitor';
 export { OCRLogger } from './ocr-logger';
-export { sanitizeOCRResult } from './sanitizer';
-export { EXTRACT_PROMPT, BOOST_PROMPT } from './prompts';
+export { sanitizeOCRResult, SanitizeOptions, SanitizationError } from './sanitizer';
+export { validateSanitizedResult, validateParsedPlan, ValidationJobContext, ValidateOptions, isValidDate, isKnownPublicationNumber } from './validator';
+export { parseActe, parsedActeSchema, ActeParseError, normalizeActeDate, normalizeInscriptionNumber, parseAmount } from './acte-parser';
+export { parsePlan, parsedPlanSchema, PlanParseError, normalizeLotNumber } from './plan-parser';
+export { saveInscriptions, toInscriptionRows, OCRInscriptionRow } from './sanitized-store';
+export { structuredOCRSchema, parseStructuredOutput, generateStructuredResult, toJSONSchema, StructuredOutputError, STRUCTURED_OCR_RESPONSE_SCHEMA } from './structured-output';
+export { getPrompt, versionPrompt, listPrompts, listPromptVersions, promptDocumentType, VersionedPrompt, PromptVersions, PromptDocumentType, PromptStage } from './prompt-registry';
+export { scoreSanitizedResult, scoreParsedActe, mergeCounts, summarizeCounts, FieldCounts, FieldCountMap, FieldScore, EvaluationSummary } from './evaluation';
+export { OCRRerunner, toOutputSnapshot } from './ocr-rerun';
+export { loadGoldenSet, evaluateCase, ResponseRecorder, MissingRecordingError, GoldenCase, GoldenCaseResult, GoldenRunOptions, RecordedStage } from './golden-set';
+export { EXTRACT_PROMPT, BOOST_PROMPT, STRUCTURE_PROMPT } from './prompts';
 export { ACTE_EXTRACT_PROMPT, ACTE_BOOST_PROMPT } from './prompts-acte';
-
+export { PLAN_EXTRACT_PROMPT, PLAN_BOOST_PROMPT } from './prompts-plan';
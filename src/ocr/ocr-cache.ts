@@ -0,0 +1,132 @@
+/**
+ * OCR Cache
+ * Content-addressed store of previous OCR outputs so identical PDFs, page
+ * images and raw texts are not sent to the providers again. Entries are keyed
+ * by content hash + prompt version + model; cache failures never fail a job.
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../utils/logger';
+import { OCRProviderName, OCRProviderResult } from './ocr-providers';
+
+/**
+ * What the cached text was produced from:
+ * - pdf: whole-document extraction
+ * - page: extraction of a single page image
+ * - boost: boost of a raw OCR text
+ */
+export type OCRCacheKind = 'pdf' | 'page' | 'boost';
+
+export interface OCRCacheKey {
+  kind: OCRCacheKind;
+  contentHash: string;
+  promptVersion: string;
+  model: string;
+}
+
+/**
+ * SHA-256 of a string or buffer
+ */
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * SHA-256 of a local file
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  return hashContent(await fs.readFile(filePath));
+}
+
+/**
+ * Version identifier of a prompt - any change to the prompt text invalidates
+ * the entries produced with the previous text
+ */
+export function promptVersion(prompt: string): string {
+  return hashContent(prompt).substring(0, 16);
+}
+
+export class OCRCache {
+  constructor(private client: SupabaseClient) {}
+
+  /**
+   * Look up a cached output, returning null on miss or error
+   */
+  async get(key: OCRCacheKey): Promise<OCRProviderResult | null> {
+    const { data, error } = await this.client
+      .from('ocr_cache')
+      .select('id, provider, model, content, hit_count')
+      .eq('kind', key.kind)
+      .eq('content_hash', key.contentHash)
+      .eq('prompt_version', key.promptVersion)
+      .eq('model', key.model)
+      .maybeSingle();
+
+    if (error) {
+      logger.warn({ key, error: error.message }, 'OCR cache lookup failed');
+      return null;
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    // Usage statistics only - ignore failures
+    await this.client
+      .from('ocr_cache')
+      .update({ hit_count: (data.hit_count || 0) + 1, last_hit_at: new Date().toISOString() })
+      .eq('id', data.id);
+
+    logger.info({ kind: key.kind, contentHash: key.contentHash.substring(0, 12), model: key.model }, '♻️  OCR cache hit');
+
+    return {
+      text: data.content,
+      provider: data.provider as OCRProviderName,
+      model: data.model,
+    };
+  }
+
+  /**
+   * Return the cached output for a key, or run the provider and cache its output
+   * With forceRefresh the lookup is skipped but the fresh output replaces the entry
+   */
+  async getOrRun(
+    key: OCRCacheKey,
+    forceRefresh: boolean,
+    run: () => Promise<OCRProviderResult>
+  ): Promise<OCRProviderResult> {
+    if (!forceRefresh) {
+      const cached = await this.get(key);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const result = await run();
+    await this.set(key, result);
+    return result;
+  }
+
+  /**
+   * Store (or replace) the output for a key
+   */
+  async set(key: OCRCacheKey, result: OCRProviderResult): Promise<void> {
+    const { error } = await this.client
+      .from('ocr_cache')
+      .upsert({
+        kind: key.kind,
+        content_hash: key.contentHash,
+        prompt_version: key.promptVersion,
+        model: key.model,
+        provider: result.provider,
+        content: result.text,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'kind,content_hash,prompt_version,model' });
+
+    if (error) {
+      logger.warn({ key, error: error.message }, 'Failed to store OCR cache entry');
+    }
+  }
+}
@@ -0,0 +1,433 @@
+/**
+ * OCR Providers
+ * Common interface over the Gemini, Claude and local Tesseract OCR clients so
+ * the OCR worker can pick the preferred provider and fail over to the others
+ */
+
+import { GeminiClient } from './gemini-client';
+import { GeminiFileClient } from './gemini-file-client';
+import { ClaudeOCRClient } from './claude-ocr-client';
+import { TesseractClient } from './tesseract-client';
+import { PDFConverter } from './pdf-converter';
+import { STRUCTURED_OCR_RESPONSE_SCHEMA, toJSONSchema } from './structured-output';
+import { logger } from '../utils/logger';
+
+export type OCRProviderName = 'gemini' | 'claude' | 'tesseract';
+
+export type OCRFailureReason = 'error' | 'rate_limit' | 'empty';
+
+export interface OCRGenerationOptions {
+  model: string;
+  temperature?: number;
+}
+
+export interface OCRProviderResult {
+  text: string;
+  provider: OCRProviderName;
+  model: string;
+}
+
+/**
+ * Unvalidated JSON returned by a provider's structured output
+ */
+export interface OCRStructuredOutput {
+  data: unknown;
+  provider: OCRProviderName;
+  model: string;
+}
+
+export interface OCRProvider {
+  readonly name: OCRProviderName;
+  /** Extract text from a local PDF file */
+  extractFromPDF(pdfPath: string, prompt: string, options: OCRGenerationOptions): Promise<OCRProviderResult>;
+  /** Extract text from a single page image */
+  extractFromImage(
+    base64Data: string,
+    mimeType: string,
+    prompt: string,
+    options: OCRGenerationOptions
+  ): Promise<OCRProviderResult>;
+  /** Apply boost corrections to previously extracted text */
+  boostText(rawText: string, prompt: string, options: OCRGenerationOptions): Promise<OCRProviderResult>;
+  /**
+   * Convert boosted index text to JSON matching STRUCTURED_OCR_RESPONSE_SCHEMA
+   * (providers without structured output leave it undefined)
+   */
+  structureText?(boostedText: string, prompt: string, options: OCRGenerationOptions): Promise<OCRStructuredOutput>;
+}
+
+/**
+ * Error raised by a provider when it cannot produce usable content
+ */
+export class OCRProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: OCRProviderName,
+    public reason: OCRFailureReason
+  ) {
+    super(message);
+    this.name = 'OCRProviderError';
+  }
+}
+
+/**
+ * Classify a raw provider error message
+ * Rate limits are reported differently by each SDK (HTTP 429, RESOURCE_EXHAUSTED, overloaded, quota)
+ */
+export function classifyProviderError(message: string): OCRFailureReason {
+  if (/\b429\b|rate.?limit|resource.?exhausted|quota|overloaded|\b529\b/i.test(message)) {
+    return 'rate_limit';
+  }
+  return 'error';
+}
+
+/**
+ * Prompt followed by the boosted text to structure
+ */
+function structurePrompt(boostedText: string, prompt: string): string {
+  return `${prompt}\n\n---\n\nTEXTE BOOSTÉ À STRUCTURER :\n\n${boostedText}`;
+}
+
+/**
+ * Wrap an unexpected SDK error into an OCRProviderError
+ */
+function toProviderError(error: unknown, provider: OCRProviderName): OCRProviderError {
+  if (error instanceof OCRProviderError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new OCRProviderError(message, provider, classifyProviderError(message));
+}
+
+/**
+ * Gemini provider - sends the whole PDF through the File API
+ */
+export class GeminiOCRProvider implements OCRProvider {
+  readonly name = 'gemini' as const;
+
+  constructor(
+    private client: GeminiClient,
+    private fileClient: GeminiFileClient
+  ) {}
+
+  async extractFromPDF(pdfPath: string, prompt: string, options: OCRGenerationOptions): Promise<OCRProviderResult> {
+    const result = await this.client.processFile(pdfPath, prompt, {
+      model: options.model,
+      temperature: options.temperature,
+    });
+
+    if (!result.success) {
+      const message = result.error || 'Gemini OCR extraction failed';
+      throw new OCRProviderError(message, this.name, classifyProviderError(message));
+    }
+
+    if (!result.content || result.content.trim().length === 0) {
+      throw new OCRProviderError('Empty response from Gemini', this.name, 'empty');
+    }
+
+    return { text: result.content, provider: this.name, model: options.model };
+  }
+
+  async extractFromImage(
+    base64Data: string,
+    mimeType: string,
+    prompt: string,
+    options: OCRGenerationOptions
+  ): Promise<OCRProviderResult> {
+    const result = await this.client.extractTextFromImage(base64Data, mimeType, prompt, {
+      model: options.model,
+      temperature: options.temperature,
+    });
+
+    if (!result.success) {
+      const message = result.error || 'Gemini image OCR failed';
+      throw new OCRProviderError(message, this.name, classifyProviderError(message));
+    }
+
+    if (!result.content || result.content.trim().length === 0) {
+      throw new OCRProviderError('Empty response from Gemini', this.name, 'empty');
+    }
+
+    return { text: result.content, provider: this.name, model: options.model };
+  }
+
+  async boostText(rawText: string, prompt: string, options: OCRGenerationOptions): Promise<OCRProviderResult> {
+    let boostedText: string;
+    try {
+      ({ boostedText } = await this.fileClient.boostText(rawText, prompt, {
+        model: options.model,
+        temperature: options.temperature,
+      }));
+    } catch (error) {
+      throw toProviderError(error, this.name);
+    }
+
+    if (!boostedText || boostedText.trim().length === 0) {
+      throw new OCRProviderError('Empty boost response from Gemini', this.name, 'empty');
+    }
+
+    return { text: boostedText, provider: this.name, model: options.model };
+  }
+
+  async structureText(boostedText: string, prompt: string, options: OCRGenerationOptions): Promise<OCRStructuredOutput> {
+    const result = await this.client.generateJSON(structurePrompt(boostedText, prompt), STRUCTURED_OCR_RESPONSE_SCHEMA, {
+      model: options.model,
+      temperature: options.temperature,
+    });
+
+    if (!result.success) {
+      const message = result.error || 'Gemini structured output failed';
+      throw new OCRProviderError(message, this.name, classifyProviderError(message));
+    }
+
+    if (!result.content || result.content.trim().length === 0) {
+      throw new OCRProviderError('Empty structured output from Gemini', this.name, 'empty');
+    }
+
+    // Validated (and parsed) by parseStructuredOutput
+    return { data: result.content, provider: this.name, model: options.model };
+  }
+}
+
+/**
+ * Claude provider - Claude only accepts images, so each PDF page is converted first
+ */
+export class ClaudeOCRProvider implements OCRProvider {
+  readonly name = 'claude' as const;
+
+  constructor(
+    private client: ClaudeOCRClient,
+    private pdfConverter: PDFConverter
+  ) {}
+
+  async extractFromPDF(pdfPath: string, prompt: string, options: OCRGenerationOptions): Promise<OCRProviderResult> {
+    const conversion = await this.pdfConverter.convertAllPagesToImages(pdfPath, {
+      dpi: 300,
+      format: 'png',
+    });
+
+    try {
+      const pages = await this.client.extractTextFromImages(
+        conversion.pages.map((page, index) => ({
+          base64Data: page.base64Data,
+          mimeType: page.mimeType,
+          pageNumber: index + 1,
+        })),
+        prompt,
+        { model: options.model, temperature: options.temperature }
+      );
+
+      const text = pages
+        .map(p => `\n\n--- Page ${p.pageNumber} ---\n\n${p.text}`)
+        .join('\n');
+
+      if (pages.every(p => p.text.trim().length === 0)) {
+        throw new OCRProviderError('Empty response from Claude', this.name, 'empty');
+      }
+
+      return { text, provider: this.name, model: options.model };
+    } catch (error) {
+      throw toProviderError(error, this.name);
+    } finally {
+      await Promise.all(conversion.pages.map(page => this.pdfConverter.cleanup(page.imagePath)));
+    }
+  }
+
+  async extractFromImage(
+    base64Data: string,
+    mimeType: string,
+    prompt: string,
+    options: OCRGenerationOptions
+  ): Promise<OCRProviderResult> {
+    let text: string;
+    try {
+      ({ text } = await this.client.extractTextFromImage(base64Data, mimeType, prompt, {
+        model: options.model,
+        temperature: options.temperature,
+      }));
+    } catch (error) {
+      throw toProviderError(error, this.name);
+    }
+
+    if (!text || text.trim().length === 0) {
+      throw new OCRProviderError('Empty response from Claude', this.name, 'empty');
+    }
+
+    return { text, provider: this.name, model: options.model };
+  }
+
+  async boostText(rawText: string, prompt: string, options: OCRGenerationOptions): Promise<OCRProviderResult> {
+    let text: string;
+    try {
+      ({ text } = await this.client.boostText(rawText, prompt, {
+        model: options.model,
+        temperature: options.temperature,
+      }));
+    } catch (error) {
+      throw toProviderError(error, this.name);
+    }
+
+    if (!text || text.trim().length === 0) {
+      throw new OCRProviderError('Empty boost response from Claude', this.name, 'empty');
+    }
+
+    return { text, provider: this.name, model: options.model };
+  }
+
+  async structureText(boostedText: string, prompt: string, options: OCRGenerationOptions): Promise<OCRStructuredOutput> {
+    try {
+      const data = await this.client.generateWithTool(structurePrompt(boostedText, prompt), {
+        name: 'save_index',
+        description: 'Enregistre les pages et inscriptions structurées de l\'index',
+        inputSchema: toJSONSchema(STRUCTURED_OCR_RESPONSE_SCHEMA),
+      }, {
+        model: options.model,
+        temperature: options.temperature,
+      });
+
+      return { data, provider: this.name, model: options.model };
+    } catch (error) {
+      throw toProviderError(error, this.name);
+    }
+  }
+}
+
+/**
+ * Tesseract provider - local OCR of page images, no API key or network needed
+ * Tesseract ignores prompts: extraction returns the raw page text and boost
+ * returns it unchanged, so it only fills file_content when used as a fallback
+ */
+export class TesseractOCRProvider implements OCRProvider {
+  readonly name = 'tesseract' as const;
+
+  constructor(
+    private client: TesseractClient,
+    private pdfConverter: PDFConverter
+  ) {}
+
+  async extractFromPDF(pdfPath: string, _prompt: string, options: OCRGenerationOptions): Promise<OCRProviderResult> {
+    const conversion = await this.pdfConverter.convertAllPagesToImages(pdfPath, {
+      dpi: 300,
+      format: 'png',
+    });
+
+    try {
+      const pages: string[] = [];
+      for (const page of conversion.pages) {
+        pages.push(await this.client.recognizeFile(page.imagePath));
+      }
+
+      if (pages.every(text => text.trim().length === 0)) {
+        throw new OCRProviderError('Empty response from Tesseract', this.name, 'empty');
+      }
+
+      const text = pages
+        .map((pageText, index) => `\n\n--- Page ${index + 1} ---\n\n${pageText.trim()}`)
+        .join('\n');
+
+      return { text, provider: this.name, model: options.model };
+    } catch (error) {
+      throw toProviderError(error, this.name);
+    } finally {
+      await Promise.all(conversion.pages.map(page => this.pdfConverter.cleanup(page.imagePath)));
+    }
+  }
+
+  async extractFromImage(
+    base64Data: string,
+    mimeType: string,
+    _prompt: string,
+    options: OCRGenerationOptions
+  ): Promise<OCRProviderResult> {
+    let text: string;
+    try {
+      text = await this.client.recognizeBase64(base64Data, mimeType);
+    } catch (error) {
+      throw toProviderError(error, this.name);
+    }
+
+    if (!text || text.trim().length === 0) {
+      throw new OCRProviderError('Empty response from Tesseract', this.name, 'empty');
+    }
+
+    return { text: text.trim(), provider: this.name, model: options.model };
+  }
+
+  async boostText(rawText: string, _prompt: string, options: OCRGenerationOptions): Promise<OCRProviderResult> {
+    if (rawText.trim().length === 0) {
+      throw new OCRProviderError('Nothing to boost', this.name, 'empty');
+    }
+
+    logger.warn({ provider: this.name }, '⚠️  Tesseract cannot apply boost rules, keeping the raw text');
+    return { text: rawText, provider: this.name, model: options.model };
+  }
+}
+
+/**
+ * Whether a provider's boostText applies the boost rules (Tesseract returns the raw text)
+ */
+export function appliesBoostRules(provider: OCRProviderName): boolean {
+  return provider !== 'tesseract';
+}
+
+/**
+ * Build the ordered provider list: preferred provider first, then the other
+ * cloud provider if its API key is configured, then Tesseract when enabled
+ * (Tesseract is always enabled when it is the preferred provider)
+ */
+export function createOCRProviders(options: {
+  preferredProvider: OCRProviderName;
+  geminiApiKey?: string;
+  claudeApiKey?: string;
+  tesseract?: {
+    enabled: boolean;
+    binaryPath?: string;
+    language?: string;
+    pageSegmentationMode?: number;
+  };
+  tempDir: string;
+}): OCRProvider[] {
+  const available: Partial<Record<OCRProviderName, OCRProvider>> = {};
+
+  if (options.geminiApiKey) {
+    available.gemini = new GeminiOCRProvider(
+      new GeminiClient(options.geminiApiKey),
+      new GeminiFileClient({ apiKey: options.geminiApiKey, defaultMaxTokens: 65536 })
+    );
+  }
+
+  if (options.claudeApiKey) {
+    available.claude = new ClaudeOCRProvider(
+      new ClaudeOCRClient({ apiKey: options.claudeApiKey }),
+      new PDFConverter(options.tempDir)
+    );
+  }
+
+  if (options.tesseract?.enabled || options.preferredProvider === 'tesseract') {
+    available.tesseract = new TesseractOCRProvider(
+      new TesseractClient({
+        binaryPath: options.tesseract?.binaryPath,
+        language: options.tesseract?.language,
+        pageSegmentationMode: options.tesseract?.pageSegmentationMode,
+        tempDir: options.tempDir,
+      }),
+      new PDFConverter(options.tempDir)
+    );
+  }
+
+  const order: OCRProviderName[] = [
+    options.preferredProvider,
+    ...(['gemini', 'claude', 'tesseract'] as OCRProviderName[]).filter(name => name !== options.preferredProvider),
+  ];
+
+  const providers = order
+    .map(name => available[name])
+    .filter((provider): provider is OCRProvider => !!provider);
+
+  logger.info({
+    preferredProvider: options.preferredProvider,
+    providers: providers.map(p => p.name),
+  }, 'OCR providers configured');
+
+  return providers;
+}
@@ -0,0 +1,156 @@
+/**
+ * OCR Re-run
+ * Requeues OCR of a completed job, optionally with other providers, models,
+ * temperature or prompt versions. The output being replaced is kept as an
+ * "ocr_rerun" revision in ocr_result_revisions so before/after can be compared.
+ * Overrides and the cache bypass only apply to that run: the OCR worker clears
+ * them once it completes.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../utils/logger';
+import {
+  ExtractionQueueJob,
+  EXTRACTION_STATUS,
+  OCROverrides,
+  OCROutputSnapshot,
+  OCRRerunRequest,
+  OCRResultRevision,
+} from '../types';
+import { ReviewQueue } from '../review/review-queue';
+import { ReviewError } from '../review/review-rules';
+import { getPrompt, promptDocumentType, PromptStage } from './prompt-registry';
+
+export class OCRRerunner {
+  constructor(private client: SupabaseClient) {}
+
+  /**
+   * Snapshot the current OCR output and send the job back to the OCR workers
+   * Only jobs with completed OCR can be re-run (404/409 ReviewError otherwise)
+   */
+  async requeue(jobId: string, request: OCRRerunRequest): Promise<OCRResultRevision> {
+    const { data: job, error } = await this.client
+      .from('extraction_queue')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load job: ${error.message}`);
+    }
+    if (!job) {
+      throw new ReviewError('Extraction job not found', 404);
+    }
+    if (job.status_id !== EXTRACTION_STATUS.EXTRACTION_COMPLETE || !job.supabase_path) {
+      throw new ReviewError('OCR can only be re-run for jobs with completed OCR', 409);
+    }
+
+    const overrides = request.overrides && Object.keys(request.overrides).length > 0 ? request.overrides : null;
+    if (overrides) {
+      checkPromptVersions(job, overrides);
+    }
+
+    // Guard on the status so a job claimed in the meantime is not requeued twice;
+    // nothing is cleared or saved unless this update went through
+    const { data: requeued, error: updateError } = await this.client
+      .from('extraction_queue')
+      .update({
+        status_id: EXTRACTION_STATUS.COMPLETE,
+        ocr_overrides: overrides,
+        ocr_force_refresh: true,
+        ocr_worker_id: null,
+        ocr_started_at: null,
+        ocr_heartbeat_at: null,
+        ocr_attempts: 0,
+        ocr_error: null,
+      })
+      .eq('id', job.id)
+      .eq('status_id', EXTRACTION_STATUS.EXTRACTION_COMPLETE)
+      .select('id');
+
+    if (updateError) {
+      throw new Error(`Failed to requeue OCR: ${updateError.message}`);
+    }
+    if (!requeued || requeued.length === 0) {
+      throw new ReviewError('Job status changed while requeuing OCR', 409);
+    }
+
+    // Index pages stored by the previous run would otherwise be resumed (the forced
+    // refresh already ignores them if a worker claims the job before they are gone)
+    const { error: pagesError } = await this.client
+      .from('ocr_page_results')
+      .delete()
+      .eq('job_id', job.id);
+
+    if (pagesError) {
+      throw new Error(`Failed to clear page results: ${pagesError.message}`);
+    }
+
+    // Review items point at lines of the output being replaced; resolved corrections
+    // stay in the revision saved below
+    const { error: reviewError } = await this.client
+      .from('ocr_review_items')
+      .delete()
+      .eq('job_id', job.id);
+
+    if (reviewError) {
+      throw new Error(`Failed to clear review items: ${reviewError.message}`);
+    }
+
+    // Output being replaced, as loaded before the requeue
+    const revision = await new ReviewQueue(this.client).saveRevision(
+      job.id,
+      job.reviewed_content || job.sanitized_content || null,
+      request.requested_by,
+      'ocr_rerun',
+      request.note || null,
+      toOutputSnapshot(job)
+    );
+
+    logger.info({
+      jobId: job.id,
+      revision: revision.revision,
+      requestedBy: request.requested_by,
+      overrides,
+    }, '🔁 OCR re-run queued');
+
+    return revision;
+  }
+}
+
+/**
+ * OCR output columns of a job, as stored in the revision
+ */
+export function toOutputSnapshot(job: ExtractionQueueJob): OCROutputSnapshot {
+  return {
+    file_content: job.file_content ?? null,
+    boosted_file_content: job.boosted_file_content ?? null,
+    sanitized_content: job.sanitized_content ?? null,
+    acte_parsed_content: job.acte_parsed_content ?? null,
+    plan_parsed_content: job.plan_parsed_content ?? null,
+    ocr_validation: job.ocr_validation ?? null,
+    ocr_provider: job.ocr_provider ?? null,
+    ocr_model: job.ocr_model ?? null,
+    ocr_boost_provider: job.ocr_boost_provider ?? null,
+    ocr_boost_model: job.ocr_boost_model ?? null,
+    ocr_prompt_versions: job.ocr_prompt_versions ?? null,
+    ocr_overrides: job.ocr_overrides ?? null,
+    ocr_completed_at: job.ocr_completed_at ?? null,
+  };
+}
+
+/**
+ * Reject prompt versions that are not registered for the job's document type
+ */
+function checkPromptVersions(job: ExtractionQueueJob, overrides: OCROverrides): void {
+  for (const [stage, version] of Object.entries(overrides.prompt_versions || {})) {
+    if (!version) {
+      continue;
+    }
+    try {
+      getPrompt(promptDocumentType(job.document_source), stage as PromptStage, version);
+    } catch (error) {
+      throw new ReviewError(error instanceof Error ? error.message : `Unknown prompt version ${version}`);
+    }
+  }
+}
@@ -1,8 +1,34 @@
 import { supabaseManager, EnvironmentName } from '../utils/supabase';
 import { logger } from '../utils/logger';
 import { config } from '../config';
-import { ExtractionQueueJob, EXTRACTION_STATUS } from '../types';
-import { GeminiClient } from './gemini-client';
+import { ExtractionQueueJob, EXTRACTION_STATUS, SanitizedOCRResult, ParsedActe, ParsedPlan, ValidationReport } from '../types';
+import {
+  OCRProvider,
+  OCRProviderError,
+  OCRProviderName,
+  OCRProviderResult,
+  OCRGenerationOptions,
+  createOCRProviders,
+  appliesBoostRules,
+} from './ocr-providers';
+import { OCRLogger } from './ocr-logger';
+import { PDFConverter } from './pdf-converter';
+import { PageOCRProcessor } from './page-processor';
+import { downloadJobPDF } from './storage';
+import { OCRCache, OCRCacheKey, hashContent, hashFile, promptVersion } from './ocr-cache';
+import { getPrompt, promptDocumentType, VersionedPrompt, PromptVersions } from './prompt-registry';
+import { sanitizeOCRResult } from './sanitizer';
+import { generateStructuredResult } from './structured-output';
+import { validateSanitizedResult, validateParsedPlan } from './validator';
+import { parseActe } from './acte-parser';
+import { parsePlan } from './plan-parser';
+import { saveInscriptions } from './sanitized-store';
+import { ReviewQueue } from '../review/review-queue';
+import { ReferenceFollower } from '../queue/reference-follower';
+import { JobClaimer } from '../queue/job-claimer';
+import { PartyResolver } from '../analysis/party-resolver';
+import { withModelUsageContext } from '../usage/model-usage';
+import { SupabaseClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs/promises';
 import path from 'path';
@@ -12,13 +38,27 @@ interface OCRJobWithEnv extends ExtractionQueueJob {
   _environment: EnvironmentName;
 }
 
+type OCRStage = 'extract' | 'boost';
+
+/**
+ * Text produced by a stage; provider/model are comma-separated when index
+ * pages were extracted by more than one provider
+ */
+interface OCRStageResult {
+  text: string;
+  provider: string;
+  model: string;
+}
+
 /**
  * OCR Worker for processing documents from extraction_queue
- * Picks up jobs with status_id = 3 (COMPLETE) and performs OCR extraction
+ * Picks up jobs with status_id = 3 (COMPLETE) and performs OCR extraction,
+ * then applies the boost rules to the raw text (extract -> boost)
  */
 export class OCRWorker {
   private workerId: string;
-  private geminiClient: GeminiClient;
+  private providers: OCRProvider[];
+  private pageProcessor: PageOCRProcessor;
   private isProcessing: boolean = false;
   private shouldStop: boolean = false;
   private tempDir: string;
@@ -28,15 +68,24 @@ export class OCRWorker {
     this.workerId = workerId || `ocr-worker-${uuidv4().substring(0, 8)}`;
     this.tempDir = config.ocr.tempDir || path.join(os.tmpdir(), 'ocr-processing');
 
-    // Initialize Gemini client
-    if (!config.ocr.geminiApiKey) {
-      throw new Error('GEMINI_API_KEY is required for OCR worker');
+    // Initialize OCR providers (preferred first, the others as fallback)
+    this.providers = createOCRProviders({
+      preferredProvider: config.ocr.preferredProvider,
+      geminiApiKey: config.ocr.geminiApiKey,
+      claudeApiKey: config.ocr.claudeApiKey,
+      tesseract: config.ocr.tesseract,
+      tempDir: this.tempDir,
+    });
+
+    if (this.providers.length === 0) {
+      throw new Error('GEMINI_API_KEY, CLAUDE_API_KEY or OCR_TESSERACT_ENABLED=true is required for OCR worker');
     }
 
-    this.geminiClient = new GeminiClient(
-      config.ocr.geminiApiKey,
-      config.ocr.extractModel.gemini
-    );
+    // Index documents are extracted page by page so failures and restarts are per page
+    this.pageProcessor = new PageOCRProcessor(this.providers, new PDFConverter(this.tempDir), {
+      concurrency: config.ocr.pageConcurrency,
+      maxAttempts: config.ocr.pageMaxAttempts,
+    });
 
     logger.info({ workerId: this.workerId }, 'OCR Worker created');
   }
@@ -103,7 +152,8 @@ export class OCRWorker {
           .from('extraction_queue')
           .select('id, ocr_worker_id, document_source, document_number, ocr_started_at')
           .eq('status_id', EXTRACTION_STATUS.OCR_PROCESSING)
-          .lt('ocr_started_at', twoMinutesAgo);
+          .lt('ocr_started_at', twoMinutesAgo)
+          .or(`ocr_heartbeat_at.is.null,ocr_heartbeat_at.lt.${twoMinutesAgo}`);
 
         if (queryError) {
           logger.error({ error: queryError, environment: env }, 'Error querying stuck OCR jobs');
@@ -117,11 +167,13 @@ export class OCRWorker {
               status_id: EXTRACTION_STATUS.COMPLETE,
               ocr_worker_id: null,
               ocr_started_at: null,
+              ocr_heartbeat_at: null,
               ocr_error: 'Reset by OCR worker on startup - job exceeded processing time limit',
               ocr_last_error_at: new Date().toISOString(),
             })
             .eq('status_id', EXTRACTION_STATUS.OCR_PROCESSING)
-            .lt('ocr_started_at', twoMinutesAgo);
+            .lt('ocr_started_at', twoMinutesAgo)
+            .or(`ocr_heartbeat_at.is.null,ocr_heartbeat_at.lt.${twoMinutesAgo}`);
 
           if (updateError) {
             logger.error({ error: updateError, environment: env }, 'Error resetting stuck OCR jobs');
@@ -202,7 +254,7 @@ export class OCRWorker {
       return null;
     }
 
-    // Check for stale jobs and reset them
+    // Check for stale jobs and reset them (jobs reporting page progress are not stale)
     const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000).toISOString();
 
     for (const env of environments) {
@@ -215,6 +267,7 @@ export class OCRWorker {
         .select('*')
         .eq('status_id', EXTRACTION_STATUS.OCR_PROCESSING)
         .lt('ocr_started_at', fiveMinutesAgo)
+        .or(`ocr_heartbeat_at.is.null,ocr_heartbeat_at.lt.${fiveMinutesAgo}`)
         .limit(1);
 
       if (staleJobs && staleJobs.length > 0) {
@@ -224,6 +277,7 @@ export class OCRWorker {
             status_id: EXTRACTION_STATUS.COMPLETE,
             ocr_worker_id: null,
             ocr_started_at: null,
+            ocr_heartbeat_at: null,
           })
           .eq('id', staleJobs[0].id);
 
@@ -241,74 +295,13 @@ export class OCRWorker {
 
       logger.debug({ environment: env, workerId: this.workerId }, 'Polling for OCR jobs');
 
-      // Find jobs ready for OCR: status_id=3, has supabase_path, ocr_attempts < ocr_max_attempts
-      const { data, error } = await client
-        .from('extraction_queue')
-        .select('*')
-        .eq('status_id', EXTRACTION_STATUS.COMPLETE)
-        .not('supabase_path', 'is', null)
-        .or('ocr_attempts.is.null,ocr_attempts.lt.' + (3)) // Default max attempts is 3
-        .order('created_at', { ascending: true })
-        .limit(1);
-
-      if (error) {
-        logger.error({
-          error,
-          environment: env,
-          workerId: this.workerId,
-          errorMessage: error.message,
-          errorDetails: error.details,
-          errorHint: error.hint,
-        }, 'Error querying for OCR jobs');
-        continue;
-      }
-
-      if (!data || data.length === 0) {
-        logger.debug({ environment: env, workerId: this.workerId }, 'No OCR jobs found in environment');
-        continue;
-      }
-
-      const job = data[0];
-      logger.debug({
-        jobId: job.id,
-        environment: env,
-        workerId: this.workerId,
-        documentNumber: job.document_number,
-        documentSource: job.document_source,
-        ocrAttempts: job.ocr_attempts,
-        ocrMaxAttempts: job.ocr_max_attempts,
-      }, 'Found OCR job, attempting to claim');
-
-      // Try to claim the job atomically
-      const { data: claimedJob, error: claimError } = await client
-        .from('extraction_queue')
-        .update({
-          status_id: EXTRACTION_STATUS.OCR_PROCESSING,
-          ocr_worker_id: this.workerId,
-          ocr_started_at: new Date().toISOString(),
-        })
-        .eq('id', job.id)
-        .eq('status_id', EXTRACTION_STATUS.COMPLETE) // Ensure it's still available
-        .select()
-        .single();
-
-      if (claimError) {
-        logger.warn({
-          error: claimError,
-          jobId: job.id,
-          environment: env,
-          workerId: this.workerId,
-          errorMessage: claimError.message,
-        }, 'Error claiming OCR job');
-        continue;
-      }
+      // Claim a job ready for OCR: status_id=3, has supabase_path, ocr_attempts < ocr_max_attempts
+      const claimedJob = await new JobClaimer(client, this.workerId).claimOCRJob({
+        agingMinutes: config.scheduler.agingMinutes,
+      });
 
       if (!claimedJob) {
-        logger.debug({
-          jobId: job.id,
-          environment: env,
-          workerId: this.workerId,
-        }, 'Job was claimed by another worker');
+        logger.debug({ environment: env, workerId: this.workerId }, 'No OCR jobs found in environment');
         continue;
       }
 
@@ -336,6 +329,17 @@ export class OCRWorker {
       return;
     }
 
+    // Model calls made while processing are recorded against the job
+    await withModelUsageContext(
+      { client, environment, jobId: job.id, documentSource: job.document_source, workerId: this.workerId },
+      () => this.runJob(job, environment, client)
+    );
+  }
+
+  /**
+   * OCR stages of a job, with its environment client
+   */
+  private async runJob(job: OCRJobWithEnv, environment: EnvironmentName, client: SupabaseClient): Promise<void> {
     this.isProcessing = true;
 
     logger.info('='.repeat(60));
@@ -348,71 +352,141 @@ export class OCRWorker {
     logger.info(`   Attempt: ${(job.ocr_attempts || 0) + 1}/${job.ocr_max_attempts || 3}`);
     logger.info('');
 
-    // Skip OCR for plan_cadastraux - just mark as complete
-    if (job.document_source === 'plan_cadastraux') {
-      logger.info({ jobId: job.id }, '⏭️  Skipping OCR for plan_cadastraux (not supported)');
-
-      await client
-        .from('extraction_queue')
-        .update({
-          status_id: EXTRACTION_STATUS.EXTRACTION_COMPLETE,
-          ocr_completed_at: new Date().toISOString(),
-          file_content: null, // No OCR content for plans
-        })
-        .eq('id', job.id);
-
-      logger.info('='.repeat(60));
-      logger.info('✅ OCR JOB SKIPPED (plan_cadastraux)');
-      logger.info('='.repeat(60));
-      logger.info('');
-
-      this.isProcessing = false;
-      return;
-    }
-
     try {
       // Download file from Supabase Storage
-      const localFilePath = await this.downloadFile(job, client);
-
-      // Load appropriate prompt
-      const prompt = await GeminiClient.loadPrompt(job.document_source);
-
-      // Process with Gemini
-      logger.info({ jobId: job.id }, '🤖 Starting Gemini OCR extraction...');
-      const result = await this.geminiClient.processFile(
-        localFilePath,
-        prompt
-      );
+      const localFilePath = await downloadJobPDF(client, job, this.tempDir);
+      const prompts = this.getPrompts(job);
+      const cache = this.getCache(environment);
 
-      // Cleanup local file (check if exists first to avoid ENOENT errors)
+      // Stage 1: extract raw text from the PDF
+      let extraction: OCRStageResult;
       try {
-        await fs.unlink(localFilePath);
-      } catch (unlinkError: any) {
-        if (unlinkError.code !== 'ENOENT') {
-          logger.warn({ error: unlinkError, localFilePath }, 'Failed to delete temp file (non-critical)');
+        if (job.document_source === 'index') {
+          extraction = await this.extractPages(job, localFilePath, prompts.extract.text, client, cache);
+        } else {
+          const cacheKey = cache && {
+            kind: 'pdf' as const,
+            contentHash: await hashFile(localFilePath),
+            promptVersion: promptVersion(prompts.extract.text),
+          };
+          extraction = await this.runWithFailover(job, 'extract', (provider, options) =>
+            provider.extractFromPDF(localFilePath, prompts.extract.text, options),
+            cache, cacheKey
+          );
+        }
+      } finally {
+        // Cleanup local file (check if exists first to avoid ENOENT errors)
+        try {
+          await fs.unlink(localFilePath);
+        } catch (unlinkError: any) {
+          if (unlinkError.code !== 'ENOENT') {
+            logger.warn({ error: unlinkError, localFilePath }, 'Failed to delete temp file (non-critical)');
+          }
         }
       }
 
-      if (!result.success) {
-        throw new Error(result.error || 'OCR extraction failed');
-      }
+      // Stage 2: apply the domain boost rules to the raw text
+      const boostStartTime = Date.now();
+      const boost = await this.runWithFailover(job, 'boost', (provider, options) =>
+        provider.boostText(extraction.text, prompts.boost.text, options),
+        cache, { kind: 'boost', contentHash: hashContent(extraction.text), promptVersion: promptVersion(prompts.boost.text) }
+      );
+      OCRLogger.boostComplete(boost.text.length, (Date.now() - boostStartTime) / 1000);
+
+      // Stage 3: convert the boosted text to structured JSON (index inscriptions, acte fields or plan title block)
+      const sanitization = await this.structure(job, boost.text);
+      const acteParsing = this.parseActeFields(job, boost.text);
+      const planParsing = this.parsePlanFields(job, boost.text);
+      const promptVersions: PromptVersions = {
+        extract: prompts.extract.id,
+        boost: prompts.boost.id,
+        structure: sanitization.prompt?.id,
+      };
+      const boostApplied = appliesBoostRules(boost.provider);
+      const validation = sanitization.result
+        ? validateSanitizedResult(sanitization.result, job, { boostedText: boost.text, boostApplied })
+        : planParsing.result ? validateParsedPlan(planParsing.result, job) : null;
 
       // Update job with success
-      await client
+      const { error: completeError } = await client
         .from('extraction_queue')
         .update({
           status_id: EXTRACTION_STATUS.EXTRACTION_COMPLETE,
-          file_content: result.content,
+          file_content: extraction.text,
+          boosted_file_content: boost.text,
+          sanitized_content: sanitization.result,
+          acte_parsed_content: acteParsing.result,
+          plan_parsed_content: planParsing.result,
+          ocr_validation: validation,
+          ocr_prompt_versions: promptVersions,
+          // A new machine result supersedes earlier reviews (kept in ocr_result_revisions)
+          reviewed_content: null,
+          reviewed_by: null,
+          reviewed_at: null,
+          ocr_sanitization_error: sanitization.error || acteParsing.error || planParsing.error,
+          ocr_provider: extraction.provider,
+          ocr_model: extraction.model,
+          ocr_boost_provider: boost.provider,
+          ocr_boost_model: boost.model,
+          ocr_boost_applied: boostApplied,
           ocr_completed_at: new Date().toISOString(),
           ocr_attempts: (job.ocr_attempts || 0) + 1,
+          // One-off settings of a re-run or forced refresh; later retries use the defaults
+          ocr_overrides: null,
+          ocr_force_refresh: false,
         })
         .eq('id', job.id);
 
+      // The stored pages let the retry resume, and nothing derives from an unsaved result
+      if (completeError) {
+        throw new Error(`Failed to save OCR result: ${completeError.message}`);
+      }
+
+      // Stored pages only serve to resume an interrupted run
+      await this.pageProcessor.clearPages(job.id, client);
+
+      if (sanitization.result && validation) {
+        await this.storeInscriptions(job, sanitization.result, validation, client);
+
+        if (job.follow_references) {
+          await this.followReferences(job, sanitization.result, client);
+        }
+      }
+
+      if (sanitization.result || acteParsing.result) {
+        await this.indexParties(job, sanitization.result, acteParsing.result, client);
+      }
+
       logger.info('='.repeat(60));
       logger.info('✅ OCR JOB COMPLETED SUCCESSFULLY');
       logger.info('='.repeat(60));
       logger.info(`   Job ID: ${job.id}`);
-      logger.info(`   Content Length: ${result.content.length} characters`);
+      logger.info(`   Extraction: ${extraction.provider} (${extraction.model})`);
+      logger.info(`   Boost: ${boost.provider} (${boost.model})${boostApplied ? '' : ' ⚠️ rules not applied, raw text kept'}`);
+      logger.info(`   Prompts: ${Object.values(promptVersions).filter(Boolean).join(', ')}`);
+      if (job.ocr_overrides) {
+        logger.info(`   Overrides: ${JSON.stringify(job.ocr_overrides)}`);
+      }
+      logger.info(`   Raw Content Length: ${extraction.text.length} characters`);
+      logger.info(`   Boosted Content Length: ${boost.text.length} characters`);
+      if (sanitization.error) {
+        logger.info(`   Sanitization: ❌ ${sanitization.error}`);
+      } else if (sanitization.result) {
+        logger.info(`   Sanitized Pages: ${sanitization.result.pages.length}`);
+      }
+      if (validation) {
+        logger.info(`   Validation: ${validation.valid ? '✅' : '⚠️'} ${validation.error_count} error(s), ${validation.warning_count} warning(s)`);
+      }
+      if (acteParsing.error) {
+        logger.info(`   Acte Parsing: ❌ ${acteParsing.error}`);
+      } else if (acteParsing.result) {
+        logger.info(`   Acte: ${acteParsing.result.nature || 'unknown nature'} (${acteParsing.result.parties.length} parties)`);
+      }
+      if (planParsing.error) {
+        logger.info(`   Plan Parsing: ❌ ${planParsing.error}`);
+      } else if (planParsing.result) {
+        logger.info(`   Plan: ${planParsing.result.lot_numbers.length} lot(s), minute ${planParsing.result.minute_number || 'unknown'}, ${planParsing.result.surveyor || 'unknown surveyor'}`);
+      }
       logger.info('');
     } catch (error) {
       await this.handleJobError(job, error, client);
@@ -422,62 +496,343 @@ export class OCRWorker {
   }
 
   /**
-   * Download file from Supabase Storage to local temp directory
+   * Extract an index document page by page, resuming from pages stored by a
+   * previous attempt and refreshing the job heartbeat as pages complete
+   */
+  private async extractPages(
+    job: OCRJobWithEnv,
+    localFilePath: string,
+    prompt: string,
+    client: SupabaseClient,
+    cache: OCRCache | null
+  ): Promise<OCRStageResult> {
+    const outcome = await this.pageProcessor.process({
+      jobId: job.id,
+      sourcePath: job.supabase_path!,
+      pdfPath: localFilePath,
+      prompt,
+      getOptions: (provider) => this.getStageOptions(job, 'extract', provider),
+      providers: this.getProviders(job),
+      cache,
+      forceRefresh: !!job.ocr_force_refresh,
+      onPageComplete: async () => {
+        await client
+          .from('extraction_queue')
+          .update({ ocr_heartbeat_at: new Date().toISOString() })
+          .eq('id', job.id);
+      },
+    }, client);
+
+    OCRLogger.extractionComplete(outcome.totalPages, outcome.combinedText.length);
+
+    // Pages may come from different providers after a failover or a resume
+    const distinct = (values: string[]) => Array.from(new Set(values)).join(',');
+
+    return {
+      text: outcome.combinedText,
+      provider: distinct(outcome.pages.map(p => p.provider)),
+      model: distinct(outcome.pages.map(p => p.model)),
+    };
+  }
+
+  /**
+   * Convert boosted index text into a SanitizedOCRResult with the providers'
+   * structured output (OCR_STRUCTURED_OUTPUT), retrying on schema violations;
+   * falls back to the regex sanitizer when no provider supports it or all fail
+   * The structure prompt is returned when its output was used
    */
-  private async downloadFile(job: ExtractionQueueJob, client: any): Promise<string> {
-    if (!job.supabase_path) {
-      throw new Error('No supabase_path found for job');
+  private async structure(
+    job: OCRJobWithEnv,
+    boostedText: string
+  ): Promise<{ result: SanitizedOCRResult | null; error: string | null; prompt?: VersionedPrompt }> {
+    if (job.document_source !== 'index' || config.ocr.skipSanitization || !config.ocr.structuredOutput.enabled) {
+      return this.sanitize(job, boostedText);
     }
 
-    // Parse bucket and file path from supabase_path
-    // Format: "bucket/filename.pdf" or just "filename.pdf" (legacy)
-    let bucketName: string;
-    let filePath: string;
+    const structurePrompt = getPrompt('index', 'structure');
 
-    if (job.supabase_path.includes('/')) {
-      // New format: "bucket/filename.pdf"
-      const parts = job.supabase_path.split('/');
-      bucketName = parts[0];
-      filePath = parts.slice(1).join('/');
-    } else {
-      // Legacy format: just "filename.pdf" - determine bucket from document_source
-      const bucketMap: Record<string, string> = {
-        'index': 'index',
-        'acte': 'actes',
-        'plan_cadastraux': 'plans-cadastraux',
-      };
-      bucketName = bucketMap[job.document_source];
-      filePath = job.supabase_path;
+    for (const provider of this.getProviders(job)) {
+      if (!provider.structureText) {
+        continue;
+      }
+
+      // Structuring is a text task: it uses the boost model of the provider
+      const options = this.getStageOptions(job, 'boost', provider.name);
+
+      try {
+        const { result, attempts } = await generateStructuredResult(async (feedback) => {
+          const prompt = feedback ? `${structurePrompt.text}\n\n${feedback}` : structurePrompt.text;
+          return (await provider.structureText!(boostedText, prompt, options)).data;
+        }, config.ocr.structuredOutput.maxAttempts);
+
+        logger.info({
+          jobId: job.id,
+          provider: provider.name,
+          model: options.model,
+          attempts,
+          pages: result.pages.length,
+        }, '🧱 Structured OCR output validated');
 
-      if (!bucketName) {
-        throw new Error(`Unknown document_source: ${job.document_source}`);
+        return { result, error: null, prompt: structurePrompt };
+      } catch (error) {
+        logger.warn({
+          jobId: job.id,
+          provider: provider.name,
+          model: options.model,
+          error: error instanceof Error ? error.message : error,
+        }, '⚠️  Structured OCR output failed, trying next provider');
       }
     }
 
-    logger.info({ bucket: bucketName, path: filePath }, 'Downloading file from Supabase');
+    logger.warn({ jobId: job.id }, '⚠️  No structured OCR output, falling back to the regex sanitizer');
+    return this.sanitize(job, boostedText);
+  }
 
-    const { data, error } = await client.storage
-      .from(bucketName)
-      .download(filePath);
+  /**
+   * Sanitize boosted index text into a SanitizedOCRResult
+   * Failures are returned as an error message so they can be flagged on the job
+   */
+  private sanitize(
+    job: ExtractionQueueJob,
+    boostedText: string
+  ): { result: SanitizedOCRResult | null; error: string | null } {
+    if (job.document_source !== 'index' || config.ocr.skipSanitization) {
+      return { result: null, error: null };
+    }
 
-    if (error || !data) {
-      throw new Error(`Failed to download file: ${error?.message || 'Unknown error'}`);
+    try {
+      return { result: sanitizeOCRResult(boostedText, { strict: true }), error: null };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown sanitization error';
+      logger.error({ jobId: job.id, error: message }, '❌ OCR sanitization failed');
+      return { result: null, error: message };
     }
+  }
 
-    // Save to temp file
-    const localFilePath = path.join(this.tempDir, `${job.id}.pdf`);
-    const buffer = Buffer.from(await data.arrayBuffer());
-    await fs.writeFile(localFilePath, buffer);
+  /**
+   * Parse boosted acte text into typed deed fields
+   * Failures are returned as an error message so they can be flagged on the job
+   */
+  private parseActeFields(
+    job: ExtractionQueueJob,
+    boostedText: string
+  ): { result: ParsedActe | null; error: string | null } {
+    if (job.document_source !== 'acte' || config.ocr.skipSanitization) {
+      return { result: null, error: null };
+    }
+
+    try {
+      return { result: parseActe(boostedText), error: null };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown acte parsing error';
+      logger.error({ jobId: job.id, error: message }, '❌ Acte parsing failed');
+      return { result: null, error: message };
+    }
+  }
+
+  /**
+   * Parse the title block of boosted plan text (lots, cadastre, surveyor, minute, date, scale)
+   * Failures are returned as an error message so they can be flagged on the job
+   */
+  private parsePlanFields(
+    job: ExtractionQueueJob,
+    boostedText: string
+  ): { result: ParsedPlan | null; error: string | null } {
+    if (job.document_source !== 'plan_cadastraux' || config.ocr.skipSanitization) {
+      return { result: null, error: null };
+    }
 
-    logger.info({ localFilePath, size: buffer.length }, 'File downloaded successfully');
+    try {
+      return { result: parsePlan(boostedText), error: null };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown plan parsing error';
+      logger.error({ jobId: job.id, error: message }, '❌ Plan parsing failed');
+      return { result: null, error: message };
+    }
+  }
+
+  /**
+   * Store one queryable row per inscription, flagging the job if it fails,
+   * and queue the lines that need review
+   */
+  private async storeInscriptions(
+    job: OCRJobWithEnv,
+    result: SanitizedOCRResult,
+    validation: ValidationReport,
+    client: SupabaseClient
+  ): Promise<void> {
+    try {
+      await saveInscriptions(client, job.id, result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ jobId: job.id, error: message }, '❌ Failed to store sanitized inscriptions');
+
+      await client
+        .from('extraction_queue')
+        .update({ ocr_sanitization_error: message })
+        .eq('id', job.id);
+    }
+
+    // Queue uncertain or invalid lines for a human reviewer (non-critical)
+    try {
+      await new ReviewQueue(client).enqueue(job.id, result, validation, config.ocr.reviewConfidenceThreshold);
+    } catch (error) {
+      logger.warn({ jobId: job.id, error: error instanceof Error ? error.message : error }, 'Failed to queue OCR review items');
+    }
+  }
+
+  /**
+   * Enqueue the actes referenced by the index (non-critical: the OCR result is kept
+   * and the failure is logged)
+   */
+  private async followReferences(
+    job: OCRJobWithEnv,
+    result: SanitizedOCRResult,
+    client: SupabaseClient
+  ): Promise<void> {
+    try {
+      await new ReferenceFollower(client).follow(job, result, job.follow_references!);
+    } catch (error) {
+      logger.warn({ jobId: job.id, error: error instanceof Error ? error.message : error }, 'Failed to enqueue referenced actes');
+    }
+  }
+
+  /**
+   * Resolve the parties of the index or acte to stable party ids (non-critical)
+   */
+  private async indexParties(
+    job: OCRJobWithEnv,
+    result: SanitizedOCRResult | null,
+    acte: ParsedActe | null,
+    client: SupabaseClient
+  ): Promise<void> {
+    try {
+      await new PartyResolver(client).indexJob(job, result, acte);
+    } catch (error) {
+      logger.warn({ jobId: job.id, error: error instanceof Error ? error.message : error }, 'Failed to index parties');
+    }
+  }
+
+  /**
+   * Versioned extract and boost prompts for the job's document type
+   * (the versions of an OCR re-run override when set)
+   */
+  private getPrompts(job: ExtractionQueueJob): { extract: VersionedPrompt; boost: VersionedPrompt } {
+    const documentType = promptDocumentType(job.document_source);
+    const versions = job.ocr_overrides?.prompt_versions || {};
+
+    return {
+      extract: getPrompt(documentType, 'extract', versions.extract),
+      boost: getPrompt(documentType, 'boost', versions.boost),
+    };
+  }
+
+  /**
+   * Providers of a job: the one requested by an OCR re-run, or all of them
+   * (preferred first) to fail over between
+   */
+  private getProviders(job: ExtractionQueueJob): OCRProvider[] {
+    const requested = job.ocr_overrides?.provider;
+    if (!requested) {
+      return this.providers;
+    }
+
+    const provider = this.providers.find(p => p.name === requested);
+    if (!provider) {
+      throw new Error(`OCR provider ${requested} requested for this job is not configured on this worker`);
+    }
+    return [provider];
+  }
+
+  /**
+   * Model and temperature configured for a stage, provider and document type
+   * (the model and temperature of an OCR re-run override when set)
+   */
+  private getStageOptions(
+    job: ExtractionQueueJob,
+    stage: OCRStage,
+    provider: OCRProviderName
+  ): OCRGenerationOptions {
+    // Plans are read as a whole PDF like actes
+    const settings = job.document_source === 'index' ? config.ocr : config.ocr.acte;
+    const overrides = job.ocr_overrides || {};
+
+    return stage === 'extract'
+      ? {
+        model: overrides.extract_model || settings.extractModel[provider],
+        temperature: overrides.temperature ?? settings.extractTemperature,
+      }
+      : {
+        model: overrides.boost_model || settings.boostModel[provider],
+        temperature: overrides.temperature ?? settings.boostTemperature,
+      };
+  }
+
+  /**
+   * OCR cache for a job environment, stored in OCR_CACHE_ENVIRONMENT when set
+   * so identical documents are shared across environments
+   */
+  private getCache(environment: EnvironmentName): OCRCache | null {
+    if (!config.ocr.cache.enabled) {
+      return null;
+    }
+
+    const cacheEnvironment = config.ocr.cache.environment || environment;
+    const client = supabaseManager.getServiceClient(cacheEnvironment)
+      || supabaseManager.getServiceClient(environment);
+
+    return client ? new OCRCache(client) : null;
+  }
+
+  /**
+   * Run a stage with the preferred provider, falling back to the next one
+   * when a provider errors, is rate limited or returns empty content
+   * With a cache key, each provider's model is first looked up in the OCR cache
+   */
+  private async runWithFailover(
+    job: OCRJobWithEnv,
+    stage: OCRStage,
+    run: (provider: OCRProvider, options: OCRGenerationOptions) => Promise<OCRProviderResult>,
+    cache?: OCRCache | null,
+    cacheKey?: Omit<OCRCacheKey, 'model'> | null
+  ): Promise<OCRProviderResult> {
+    const failures: string[] = [];
+
+    for (const provider of this.getProviders(job)) {
+      const options = this.getStageOptions(job, stage, provider.name);
+
+      logger.info({ jobId: job.id, stage, provider: provider.name, model: options.model }, '🤖 Starting OCR stage...');
+
+      try {
+        if (cache && cacheKey) {
+          return await cache.getOrRun({ ...cacheKey, model: options.model }, !!job.ocr_force_refresh, () =>
+            run(provider, options)
+          );
+        }
+        return await run(provider, options);
+      } catch (error) {
+        const reason = error instanceof OCRProviderError ? error.reason : 'error';
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        failures.push(`${provider.name}: ${message}`);
+
+        logger.warn({
+          jobId: job.id,
+          stage,
+          provider: provider.name,
+          model: options.model,
+          reason,
+          error: message,
+        }, '⚠️  OCR provider failed, trying next provider');
+      }
+    }
 
-    return localFilePath;
+    throw new Error(`All OCR providers failed (${stage}) - ${failures.join(' | ')}`);
   }
 
   /**
    * Handle job processing error
    */
-  private async handleJobError(job: OCRJobWithEnv, error: unknown, client: any): Promise<void> {
+  private async handleJobError(job: OCRJobWithEnv, error: unknown, client: SupabaseClient): Promise<void> {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     const attempts = (job.ocr_attempts || 0) + 1;
     const maxAttempts = job.ocr_max_attempts || 3;
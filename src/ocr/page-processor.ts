@@ -0,0 +1,302 @@
+/**
+ * Page-level OCR Processor
+ * Splits a PDF into page images, extracts each page with bounded concurrency
+ * and per-page retries, and persists every completed page in ocr_page_results
+ * so a crashed or reset job resumes from the pages it already has (pages of
+ * another prompt version or model are extracted again)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../utils/logger';
+import { OCRLogger } from './ocr-logger';
+import { PDFConverter } from './pdf-converter';
+import {
+  OCRProvider,
+  OCRProviderError,
+  OCRProviderName,
+  OCRGenerationOptions,
+} from './ocr-providers';
+import { OCRCache, hashContent, promptVersion } from './ocr-cache';
+
+export interface PageOCRJob {
+  jobId: string;
+  /** Storage path of the PDF - page results are only reused for the same file */
+  sourcePath: string;
+  pdfPath: string;
+  prompt: string;
+  /** Model settings for a given provider */
+  getOptions: (provider: OCRProviderName) => OCRGenerationOptions;
+  /** Providers to fail over between (defaults to the processor's providers) */
+  providers?: OCRProvider[];
+  /** Reuse outputs of identical page images (skipped when not set) */
+  cache?: OCRCache | null;
+  /** Bypass cache lookups and stored pages, still storing fresh results */
+  forceRefresh?: boolean;
+  /** Called after each page is stored (used to refresh the job heartbeat) */
+  onPageComplete?: (pageNumber: number, completedPages: number, totalPages: number) => Promise<void>;
+}
+
+export interface PageOCRRecord {
+  page_number: number;
+  raw_text: string;
+  provider: OCRProviderName;
+  model: string;
+  /** Version of the extract prompt the page was read with */
+  prompt_version: string | null;
+}
+
+export interface PageOCROutcome {
+  pages: PageOCRRecord[];
+  totalPages: number;
+  /** Pages reused from a previous attempt */
+  resumedPages: number;
+  /** Raw text of all pages joined with "--- Page X ---" markers */
+  combinedText: string;
+}
+
+export interface PageOCRProcessorOptions {
+  concurrency: number;
+  maxAttempts: number;
+}
+
+/**
+ * Join page texts with the "--- Page X ---" markers the boost prompt and the
+ * sanitizer expect
+ */
+export function combinePageTexts(pages: Array<{ page_number: number; raw_text: string }>): string {
+  return [...pages]
+    .sort((a, b) => a.page_number - b.page_number)
+    .map(p => `\n\n--- Page ${p.page_number} ---\n\n${p.raw_text}`)
+    .join('\n');
+}
+
+/**
+ * Run tasks with at most `limit` of them in flight
+ * Every task runs to completion; failures are returned rather than thrown
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<Array<{ item: T; error: unknown }>> {
+  const failures: Array<{ item: T; error: unknown }> = [];
+  let next = 0;
+
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await task(item);
+      } catch (error) {
+        failures.push({ item, error });
+      }
+    }
+  });
+
+  await Promise.all(runners);
+  return failures;
+}
+
+export class PageOCRProcessor {
+  constructor(
+    private providers: OCRProvider[],
+    private pdfConverter: PDFConverter,
+    private options: PageOCRProcessorOptions
+  ) {}
+
+  /**
+   * Extract all pages of a job, resuming from previously stored pages
+   */
+  async process(job: PageOCRJob, client: SupabaseClient): Promise<PageOCROutcome> {
+    const totalPages = await this.pdfConverter.getPageCount(job.pdfPath);
+    const completed = await this.loadCompletedPages(job, client);
+    const resumedPages = completed.size;
+
+    const pending = Array.from({ length: totalPages }, (_, i) => i + 1)
+      .filter(pageNumber => !completed.has(pageNumber));
+
+    logger.info({
+      jobId: job.jobId,
+      totalPages,
+      resumedPages,
+      pendingPages: pending.length,
+      concurrency: this.options.concurrency,
+    }, resumedPages > 0 ? '🔁 Resuming page-level OCR' : '📄 Starting page-level OCR');
+
+    OCRLogger.pdfConversionStart(totalPages);
+
+    const failures = await runWithConcurrency(pending, this.options.concurrency, async (pageNumber) => {
+      const record = await this.extractPage(job, pageNumber);
+      await this.savePage(job, record, totalPages, client);
+      completed.set(pageNumber, record);
+
+      OCRLogger.pageExtracted(pageNumber, totalPages, record.raw_text.length);
+      if (job.onPageComplete) {
+        await job.onPageComplete(pageNumber, completed.size, totalPages);
+      }
+    });
+
+    if (failures.length > 0) {
+      const failedPages = failures.map(f => f.item).sort((a, b) => a - b);
+      const firstError = failures[0].error instanceof Error ? failures[0].error.message : String(failures[0].error);
+      throw new Error(
+        `OCR failed for page(s) ${failedPages.join(', ')} of ${totalPages} ` +
+        `(${completed.size} page(s) saved for resume) - ${firstError}`
+      );
+    }
+
+    const pages = Array.from(completed.values()).sort((a, b) => a.page_number - b.page_number);
+
+    return {
+      pages,
+      totalPages,
+      resumedPages,
+      combinedText: combinePageTexts(pages),
+    };
+  }
+
+  /**
+   * Extract a single page, retrying with backoff and failing over between
+   * providers on every attempt
+   */
+  private async extractPage(job: PageOCRJob, pageNumber: number): Promise<PageOCRRecord> {
+    const image = await this.pdfConverter.convertPageToImage(job.pdfPath, pageNumber, {
+      dpi: 300,
+      format: 'png',
+    });
+
+    const imageHash = job.cache ? hashContent(image.base64Data) : '';
+    let lastError: unknown = null;
+
+    try {
+      for (let attempt = 1; attempt <= this.options.maxAttempts; attempt++) {
+        for (const provider of job.providers || this.providers) {
+          const options = job.getOptions(provider.name);
+          const extract = () => provider.extractFromImage(image.base64Data, image.mimeType, job.prompt, options);
+
+          try {
+            const result = job.cache
+              ? await job.cache.getOrRun({
+                kind: 'page',
+                contentHash: imageHash,
+                promptVersion: promptVersion(job.prompt),
+                model: options.model,
+              }, !!job.forceRefresh, extract)
+              : await extract();
+            return {
+              page_number: pageNumber,
+              raw_text: result.text,
+              provider: result.provider,
+              model: result.model,
+              prompt_version: promptVersion(job.prompt),
+            };
+          } catch (error) {
+            lastError = error;
+            logger.warn({
+              jobId: job.jobId,
+              pageNumber,
+              attempt,
+              maxAttempts: this.options.maxAttempts,
+              provider: provider.name,
+              model: options.model,
+              reason: error instanceof OCRProviderError ? error.reason : 'error',
+              error: error instanceof Error ? error.message : error,
+            }, '⚠️  Page OCR failed');
+          }
+        }
+
+        if (attempt < this.options.maxAttempts) {
+          // Wait before retrying (exponential backoff)
+          const delay = Math.min(2000 * Math.pow(2, attempt - 1), 30000);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    } finally {
+      await this.pdfConverter.cleanup(image.imagePath);
+    }
+
+    throw lastError instanceof Error ? lastError : new Error(`Page ${pageNumber} OCR failed`);
+  }
+
+  /**
+   * Remove the stored pages of a job once its OCR is complete
+   */
+  async clearPages(jobId: string, client: SupabaseClient): Promise<void> {
+    const { error } = await client
+      .from('ocr_page_results')
+      .delete()
+      .eq('job_id', jobId);
+
+    if (error) {
+      logger.warn({ jobId, error: error.message }, 'Failed to clear page results');
+    }
+  }
+
+  /**
+   * Load pages already extracted for this job and file with the current prompt
+   * version and the model each provider would use now (none when forcing a refresh)
+   */
+  private async loadCompletedPages(
+    job: PageOCRJob,
+    client: SupabaseClient
+  ): Promise<Map<number, PageOCRRecord>> {
+    if (job.forceRefresh) {
+      return new Map();
+    }
+
+    const { data, error } = await client
+      .from('ocr_page_results')
+      .select('page_number, raw_text, provider, model, prompt_version')
+      .eq('job_id', job.jobId)
+      .eq('source_path', job.sourcePath);
+
+    if (error) {
+      logger.warn({ jobId: job.jobId, error: error.message }, 'Failed to load previous page results, starting over');
+      return new Map();
+    }
+
+    const version = promptVersion(job.prompt);
+    const providers = new Set((job.providers || this.providers).map(provider => provider.name));
+    const rows = (data || []) as PageOCRRecord[];
+    const reusable = rows.filter(row =>
+      row.prompt_version === version &&
+      providers.has(row.provider) &&
+      row.model === job.getOptions(row.provider).model
+    );
+
+    if (reusable.length < rows.length) {
+      logger.info({ jobId: job.jobId, stale: rows.length - reusable.length }, 'Ignoring stored pages of another prompt version or model');
+    }
+
+    return new Map(reusable.map(row => [row.page_number, row]));
+  }
+
+  /**
+   * Persist a completed page
+   */
+  private async savePage(
+    job: PageOCRJob,
+    record: PageOCRRecord,
+    totalPages: number,
+    client: SupabaseClient
+  ): Promise<void> {
+    const { error } = await client
+      .from('ocr_page_results')
+      .upsert({
+        job_id: job.jobId,
+        source_path: job.sourcePath,
+        page_number: record.page_number,
+        total_pages: totalPages,
+        raw_text: record.raw_text,
+        provider: record.provider,
+        model: record.model,
+        prompt_version: record.prompt_version,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'job_id,source_path,page_number' });
+
+    if (error) {
+      // The page text is still used for this run, it just cannot be resumed
+      logger.warn({ jobId: job.jobId, pageNumber: record.page_number, error: error.message }, 'Failed to save page result');
+    }
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Plan Parsing Module
+ * Converts the boosted text of a cadastral plan into its typed title block:
+ * lots shown, cadastre, circonscription, surveyor, minute number, date and scale
+ */
+
+import { z } from 'zod';
+import { logger } from '../utils/logger';
+import { foldAccents, normalizeValue } from '../utils/text';
+import { ParsedPlan } from '../types/ocr';
+import { normalizeActeDate } from './acte-parser';
+
+/**
+ * Error raised when the plan text does not yield a valid ParsedPlan
+ */
+export class PlanParseError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(message);
+    this.name = 'PlanParseError';
+  }
+}
+
+/**
+ * Validation schema for parsed plans
+ */
+export const parsedPlanSchema: z.ZodType<ParsedPlan> = z.object({
+  title: z.string().min(1).nullable(),
+  lot_numbers: z.array(z.string().min(1)),
+  cadastre: z.string().min(1).nullable(),
+  circonscription: z.string().min(1).nullable(),
+  surveyor: z.string().min(1).nullable(),
+  minute_number: z.string().regex(/^\d+$/, 'Minute number must contain digits only').nullable(),
+  plan_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Plan date must be YYYY-MM-DD').nullable(),
+  scale: z.string().regex(/^1:\d+$/, 'Scale must be 1:N').nullable(),
+});
+
+/**
+ * Labels of the "BLOC DE TITRE" section of PLAN_EXTRACT_PROMPT, with the
+ * variants seen on plans (accents and case are ignored)
+ */
+const LABELS: Record<keyof ParsedPlan, string[]> = {
+  title: ['Titre', 'Title'],
+  lot_numbers: ['Lots', 'Lot', 'Lot Numbers', 'Numéros de lot'],
+  cadastre: ['Cadastre'],
+  circonscription: ['Circonscription foncière', 'Circonscription'],
+  surveyor: ['Arpenteur-géomètre', 'Arpenteur', 'Surveyor'],
+  minute_number: ['Minute', 'Numéro de minute', 'No de minute'],
+  plan_date: ['Date'],
+  scale: ['Échelle', 'Scale'],
+};
+
+/** Renovated cadastre lot, 7 digits usually grouped by 3 ("1 234 567") */
+const RENOVATED_LOT = /\b\d[ \u00a0]?\d{3}[ \u00a0]?\d{3}\b/g;
+
+/**
+ * Main parsing function
+ * Throws a PlanParseError when no title block field was found or validation fails
+ */
+export function parsePlan(boostedText: string): ParsedPlan {
+  const lines = boostedText
+    .replace(/\*\*|__/g, '')
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*+]|#+)\s*/, '').trim());
+  const field = (name: keyof ParsedPlan) => extractLabel(lines, LABELS[name]);
+
+  const lotField = field('lot_numbers');
+  const scale = field('scale') ?? boostedText.match(/[ÉE]chelle\s*:?\s*(1\s*[:/]\s*[\d\s]+\d)/i)?.[1] ?? null;
+
+  const parsed: ParsedPlan = {
+    title: field('title'),
+    lot_numbers: lotField ? splitLots(lotField) : uniqueLots(boostedText.match(RENOVATED_LOT) || []),
+    cadastre: field('cadastre'),
+    circonscription: field('circonscription'),
+    surveyor: normalizeSurveyor(field('surveyor')),
+    minute_number: normalizeMinute(field('minute_number')),
+    plan_date: normalizeActeDate(field('plan_date')),
+    scale: normalizeScale(scale),
+  };
+
+  const found = Object.entries(parsed).filter(([, value]) => Array.isArray(value) ? value.length > 0 : value !== null);
+  if (found.length === 0) {
+    throw new PlanParseError('No plan title block fields found in OCR text');
+  }
+
+  const validation = parsedPlanSchema.safeParse(parsed);
+  if (!validation.success) {
+    const issues = validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`);
+    throw new PlanParseError(`Invalid plan fields - ${issues.join('; ')}`, issues);
+  }
+
+  logger.info({
+    lotCount: parsed.lot_numbers.length,
+    cadastre: parsed.cadastre,
+    surveyor: parsed.surveyor,
+    minuteNumber: parsed.minute_number,
+  }, 'Plan parsing complete');
+
+  return validation.data;
+}
+
+/**
+ * Renovated lot numbers as "1 234 567"; older lots ("123-4", "P-12") as written
+ */
+export function normalizeLotNumber(value: string): string {
+  const trimmed = value.replace(/^lots?\s+(?:n[o°]\s*)?/i, '').replace(/\s+/g, ' ').trim();
+  const digits = trimmed.replace(/[\s\u00a0]/g, '');
+
+  return /^\d{7}$/.test(digits)
+    ? `${digits[0]} ${digits.substring(1, 4)} ${digits.substring(4)}`
+    : trimmed;
+}
+
+/**
+ * Value of the first line starting with one of the labels ("Label : value")
+ */
+function extractLabel(lines: string[], labels: string[]): string | null {
+  const folded = labels.map(label => foldAccents(label).toLowerCase());
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) {
+      continue;
+    }
+    const label = foldAccents(line.substring(0, separator)).toLowerCase().trim();
+    if (folded.includes(label)) {
+      const value = normalizeValue(line.substring(separator + 1), { illegibleAsNull: true });
+      if (value) {
+        return value;
+      }
+    }
+  }
+  return null;
+}
+
+function splitLots(value: string): string[] {
+  return uniqueLots(value.split(/\s*(?:,|;|\bet\b)\s*/i).filter(lot => /\d/.test(lot)));
+}
+
+function uniqueLots(values: string[]): string[] {
+  return Array.from(new Set(values.map(normalizeLotNumber)));
+}
+
+function normalizeSurveyor(value: string | null): string | null {
+  if (!value) {
+    return null;
+  }
+  return value
+    .replace(/,?\s*(?:a\.?-?\s?g\.?|arpenteur-g[ée]om[èe]tre)\s*$/i, '')
+    .replace(/^M(?:\.|e)\s+/, '')
+    .trim() || null;
+}
+
+function normalizeMinute(value: string | null): string | null {
+  if (!value) {
+    return null;
+  }
+  const digits = value.replace(/\D/g, '');
+  return digits || null;
+}
+
+/**
+ * "1/500", "1 : 500" and "1:1 000" read as "1:500" / "1:1000"
+ */
+function normalizeScale(value: string | null): string | null {
+  if (!value) {
+    return null;
+  }
+  const match = value.match(/1\s*[:/]\s*([\d\s\u00a0]*\d)/);
+  return match ? `1:${match[1].replace(/[\s\u00a0]/g, '')}` : null;
+}
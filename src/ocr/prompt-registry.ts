@@ -0,0 +1,105 @@
+/**
+ * Prompt Registry
+ * Versioned OCR prompts per document type and stage. Every OCR result records
+ * the id of the prompts that produced it ("index.boost@3+1a2b3c4d"), so the
+ * effect of a prompt edit can be measured with the golden-set evaluation.
+ *
+ * Bump the version of a prompt when editing its text, moving the old text to
+ * `previous` so OCR can still be re-run with it; the content hash in the id
+ * still tells apart edits made without a bump.
+ */
+
+import { hashContent } from './ocr-cache';
+import { EXTRACT_PROMPT, BOOST_PROMPT, STRUCTURE_PROMPT } from './prompts';
+import { ACTE_EXTRACT_PROMPT, ACTE_BOOST_PROMPT } from './prompts-acte';
+import { PLAN_EXTRACT_PROMPT, PLAN_BOOST_PROMPT } from './prompts-plan';
+
+export type PromptDocumentType = 'index' | 'acte' | 'plan';
+
+export type PromptStage = 'extract' | 'boost' | 'structure';
+
+export interface VersionedPrompt {
+  /** "<document type>.<stage>" */
+  name: string;
+  version: string;
+  text: string;
+  /** "<name>@<version>+<content hash>", recorded on OCR results */
+  id: string;
+}
+
+/**
+ * Prompt ids of the stages that produced an OCR result
+ */
+export type PromptVersions = Partial<Record<PromptStage, string>>;
+
+interface RegisteredPrompt {
+  version: string;
+  text: string;
+  /** Texts of earlier versions, by version */
+  previous?: Record<string, string>;
+}
+
+const PROMPTS: Record<string, RegisteredPrompt> = {
+  'index.extract': { version: '1', text: EXTRACT_PROMPT },
+  'index.boost': { version: '1', text: BOOST_PROMPT },
+  'index.structure': { version: '1', text: STRUCTURE_PROMPT },
+  'acte.extract': { version: '1', text: ACTE_EXTRACT_PROMPT },
+  'acte.boost': { version: '1', text: ACTE_BOOST_PROMPT },
+  'plan.extract': { version: '1', text: PLAN_EXTRACT_PROMPT },
+  'plan.boost': { version: '1', text: PLAN_BOOST_PROMPT },
+};
+
+/**
+ * Build a versioned prompt from its name, version and text
+ */
+export function versionPrompt(name: string, version: string, text: string): VersionedPrompt {
+  return {
+    name,
+    version,
+    text,
+    id: `${name}@${version}+${hashContent(text).substring(0, 8)}`,
+  };
+}
+
+/**
+ * Prompt of a document type and stage: the current one, or a registered earlier version
+ */
+export function getPrompt(documentType: PromptDocumentType, stage: PromptStage, version?: string): VersionedPrompt {
+  const name = `${documentType}.${stage}`;
+  const prompt = PROMPTS[name];
+
+  if (!prompt) {
+    throw new Error(`No ${stage} prompt for ${documentType} documents`);
+  }
+  if (!version || version === prompt.version) {
+    return versionPrompt(name, prompt.version, prompt.text);
+  }
+
+  const text = prompt.previous?.[version];
+  if (text === undefined) {
+    throw new Error(`Unknown version ${version} of prompt ${name} (registered: ${listPromptVersions(name).join(', ')})`);
+  }
+  return versionPrompt(name, version, text);
+}
+
+/**
+ * Prompt document type of an extraction_queue document source
+ */
+export function promptDocumentType(documentSource: 'acte' | 'index' | 'plan_cadastraux'): PromptDocumentType {
+  return documentSource === 'plan_cadastraux' ? 'plan' : documentSource;
+}
+
+/**
+ * Names of the registered prompts
+ */
+export function listPrompts(): string[] {
+  return Object.keys(PROMPTS);
+}
+
+/**
+ * Registered versions of a prompt, current version last
+ */
+export function listPromptVersions(name: string): string[] {
+  const prompt = PROMPTS[name];
+  return prompt ? [...Object.keys(prompt.previous || {}), prompt.version] : [];
+}
@@ -0,0 +1,47 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * OCR Extraction Prompt for Quebec Cadastral Plans
+ * Kept in prompts/plan_cadastraux.txt (copied to dist by the build); asks for the
+ * title block with fixed labels before the rest of the plan's text
+ */
+export const PLAN_EXTRACT_PROMPT = fs.readFileSync(path.join(__dirname, 'prompts', 'plan_cadastraux.txt'), 'utf-8');
+
+/**
+ * OCR Boost Prompt for Quebec Cadastral Plans
+ * Corrects the raw plan text and normalizes the title block values parsed by parsePlan
+ */
+export const PLAN_BOOST_PROMPT = `Tu es un expert des plans cadastraux du Québec. Tu dois corriger le texte brut extrait d'un plan cadastral et normaliser son bloc de titre.
+
+RÈGLES DE CORRECTION :
+
+**1. BLOC DE TITRE**
+- Conserver la section "BLOC DE TITRE" en tête du texte, avec exactement ces libellés, un par ligne :
+  Titre:, Lots:, Cadastre:, Circonscription foncière:, Arpenteur-géomètre:, Minute:, Date:, Échelle:
+- Écrire [Vide] lorsqu'une valeur n'apparaît pas sur le plan
+- NE PAS déplacer dans le bloc de titre une valeur qui n'y figure pas dans le texte brut
+
+**2. NUMÉROS DE LOT**
+- Cadastre du Québec (rénové) : 7 chiffres groupés par 3 → "1 234 567"
+- Corriger les confusions OCR dans les numéros : "O" → "0", "l"/"I" → "1", "S" → "5", "B" → "8"
+- Anciens cadastres : conserver la forme écrite ("123-4", "P-12", "12-A")
+- Lister sur la ligne "Lots:" TOUS les lots montrés sur le plan, séparés par des virgules, sans doublon
+
+**3. DATES ET ÉCHELLE**
+- Date au format AAAA-MM-JJ (ex. : "15 janvier 2020" → "2020-01-15")
+- Échelle au format "1:500" (ex. : "1/500", "1 : 500" ou "Échelle 1:500" → "1:500")
+
+**4. ARPENTEUR-GÉOMÈTRE ET MINUTE**
+- Nom complet de l'arpenteur-géomètre, sans titre ("a.-g.", "arpenteur-géomètre")
+- Numéro de minute en chiffres seulement
+
+**5. PRÉSERVATION DE L'INTÉGRITÉ**
+- NE PAS inventer d'information absente du texte brut
+- NE PAS supprimer le reste du texte du plan (mesures, rues, annotations)
+- Maintenir les accents et le texte français d'origine
+
+FORMAT DE SORTIE :
+- Le bloc de titre, puis le reste du texte du plan, en texte brut
+- Aucun commentaire ni explication
+`;
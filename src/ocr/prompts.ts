@@ -227,3 +227,20 @@ INSTRUCTIONS FINALES :
 
 `;
 
+
+/**
+ * Structuring Prompt for Quebec Land Registry Index Documents
+ * Converts the boosted text to the JSON response schema (structured output mode)
+ */
+export const STRUCTURE_PROMPT = `Tu es un expert en analyse de registres fonciers québécois. Convertis le texte boosté d'un index fourni ci-dessous en JSON respectant EXACTEMENT le schéma demandé.
+
+RÈGLES :
+- Une entrée "pages" par marqueur "--- Page X ---" (pageNumber = X), dans l'ordre du document
+- "metadata" reprend la circonscription foncière, le cadastre et le lot de l'en-tête de la page (null si absent)
+- Une entrée "inscriptions" par "Ligne X:" (line_number = X)
+- Chaque champ reçoit la valeur retenue (l'option ayant la plus haute confiance), null si [Vide] ou absent
+- Dates au format AAAA-MM-JJ lorsque la date est complète, sinon telle qu'écrite
+- "parties" : une entrée par partie, avec sa qualité ("Créancier", "Débiteur", "1ère partie"...), role vide si aucune qualité
+- "candidates" : chaque option "Option N: VALEUR (Confiance: XX%)" du texte avec son champ (acte_publication_date, acte_publication_number, acte_nature, party_roles, party_names, remarques, radiation_number) et sa confiance ; une valeur simple suivie de "(Confiance: XX%)" donne aussi un candidat ; liste vide si aucune confiance n'est indiquée
+- N'invente AUCUNE donnée absente du texte et ne corrige pas les valeurs : le boost est déjà appliqué
+`;
@@ -0,0 +1,110 @@
+/**
+ * Sanitized OCR Storage
+ * Flattens the structured SanitizedOCRResult of an index job into queryable
+ * ocr_inscriptions rows, one per inscription, replacing the job's previous rows
+ * (the full JSON is written to extraction_queue.sanitized_content by the OCR worker)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../utils/logger';
+import { SanitizedOCRResult, InscriptionCandidates } from '../types/ocr';
+
+/**
+ * Row shape of the ocr_inscriptions table
+ */
+export interface OCRInscriptionRow {
+  job_id: string;
+  page_number: number;
+  line_number: number;
+  circonscription: string | null;
+  cadastre: string | null;
+  lot_number: string | null;
+  acte_publication_date: string | null;
+  acte_publication_number: string | null;
+  acte_nature: string | null;
+  parties: Array<{ name: string; role: string }>;
+  remarques: string | null;
+  radiation_number: string | null;
+  candidates: InscriptionCandidates;
+  min_confidence: number | null;
+}
+
+/**
+ * Flatten a sanitized result into ocr_inscriptions rows
+ * Duplicate (page, line) pairs are dropped since they violate the table key
+ */
+export function toInscriptionRows(jobId: string, result: SanitizedOCRResult): OCRInscriptionRow[] {
+  const rows: OCRInscriptionRow[] = [];
+  const seen = new Set<string>();
+
+  for (const page of result.pages) {
+    for (const inscription of page.inscriptions) {
+      const key = `${page.pageNumber}:${inscription.line_number}`;
+      if (seen.has(key)) {
+        logger.warn({
+          jobId,
+          pageNumber: page.pageNumber,
+          lineNumber: inscription.line_number,
+        }, 'Duplicate inscription line number, keeping first occurrence');
+        continue;
+      }
+      seen.add(key);
+
+      rows.push({
+        job_id: jobId,
+        page_number: page.pageNumber,
+        line_number: inscription.line_number,
+        circonscription: page.metadata.circonscription,
+        cadastre: page.metadata.cadastre,
+        lot_number: page.metadata.lot_number,
+        acte_publication_date: inscription.acte_publication_date,
+        acte_publication_number: inscription.acte_publication_number,
+        acte_nature: inscription.acte_nature,
+        parties: inscription.parties,
+        remarques: inscription.remarques,
+        radiation_number: inscription.radiation_number,
+        candidates: inscription.candidates,
+        min_confidence: inscription.min_confidence,
+      });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Replace the inscription rows of a job with the given sanitized result
+ */
+export async function saveInscriptions(
+  client: SupabaseClient,
+  jobId: string,
+  result: SanitizedOCRResult
+): Promise<number> {
+  const rows = toInscriptionRows(jobId, result);
+
+  // Remove rows from a previous OCR run of the same job
+  const { error: deleteError } = await client
+    .from('ocr_inscriptions')
+    .delete()
+    .eq('job_id', jobId);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear previous inscriptions: ${deleteError.message}`);
+  }
+
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  const { error: insertError } = await client
+    .from('ocr_inscriptions')
+    .insert(rows);
+
+  if (insertError) {
+    throw new Error(`Failed to save inscriptions: ${insertError.message}`);
+  }
+
+  logger.info({ jobId, count: rows.length }, 'Saved sanitized inscriptions');
+
+  return rows.length;
+}
@@ -4,19 +4,44 @@
  */
 
 import { logger } from '../utils/logger';
+import { normalizeValue, escapeRegex } from '../utils/text';
 import {
   SanitizedOCRResult,
   PageResult,
   PageMetadata,
   Inscription,
-  Party
+  Party,
+  FieldCandidate,
+  InscriptionCandidateField,
+  InscriptionCandidates
 } from '../types/ocr';
 
+export interface SanitizeOptions {
+  /**
+   * Throw a SanitizationError instead of returning an empty page when a page
+   * cannot be processed (used by the OCR worker to flag the job)
+   */
+  strict?: boolean;
+}
+
+/**
+ * Error raised in strict mode when the OCR text cannot be sanitized
+ */
+export class SanitizationError extends Error {
+  constructor(message: string, public pageNumber?: number) {
+    super(message);
+    this.name = 'SanitizationError';
+  }
+}
+
 /**
  * Main sanitization function
  * Converts verbose OCR output (combinedBoostedText) to clean JSON structure
  */
-export function sanitizeOCRResult(combinedBoostedText: string): SanitizedOCRResult {
+export function sanitizeOCRResult(
+  combinedBoostedText: string,
+  options: SanitizeOptions = {}
+): SanitizedOCRResult {
   logger.info({ textLength: combinedBoostedText.length }, 'Starting OCR sanitization');
 
   try {
@@ -62,6 +87,13 @@ export function sanitizeOCRResult(combinedBoostedText: string): SanitizedOCRResu
           pageTextPreview: pageText.substring(0, 500)
         }, 'Failed to process page');
 
+        if (options.strict) {
+          throw new SanitizationError(
+            `Failed to process page ${pageNumber}: ${error instanceof Error ? error.message : error}`,
+            pageNumber
+          );
+        }
+
         // Return minimal valid structure for this page
         return {
           pageNumber,
@@ -85,6 +117,12 @@ export function sanitizeOCRResult(combinedBoostedText: string): SanitizedOCRResu
       textPreview: combinedBoostedText.substring(0, 500)
     }, 'Sanitization failed');
 
+    if (options.strict) {
+      throw error instanceof SanitizationError
+        ? error
+        : new SanitizationError(`Sanitization failed: ${error instanceof Error ? error.message : error}`);
+    }
+
     // Return minimal valid structure
     return {
       pages: [{
@@ -100,7 +138,7 @@ export function sanitizeOCRResult(combinedBoostedText: string): SanitizedOCRResu
  * Split combined text into individual pages
  * Looks for "--- Page X ---" markers
  */
-function splitIntoPages(text: string): string[] {
+export function splitIntoPages(text: string): string[] {
   const pagePattern = /---\s*Page\s+(\d+)\s*---/gi;
   const pages: string[] = [];
   let lastIndex = 0;
@@ -177,7 +215,7 @@ function extractInscriptions(pageText: string): Inscription[] {
     const inscriptionText = pageText.substring(startIndex, endIndex);
 
     try {
-      const inscription = parseInscription(inscriptionText);
+      const inscription = parseInscription(inscriptionText, parseInt(currentMatch[1], 10));
       inscriptions.push(inscription);
     } catch (error) {
       logger.warn({
@@ -190,62 +228,117 @@ function extractInscriptions(pageText: string): Inscription[] {
   return inscriptions;
 }
 
+/**
+ * Labels of the inscription fields in the boosted output
+ */
+const FIELD_LABELS: Array<[InscriptionCandidateField, string]> = [
+  ['acte_publication_date', 'Date de présentation d\'inscription'],
+  ['acte_publication_number', 'Numéro'],
+  ['acte_nature', 'Nature de l\'acte'],
+  ['party_roles', 'Qualité'],
+  ['party_names', 'Nom des parties'],
+  ['remarques', 'Remarques'],
+  ['radiation_number', 'Radiations'],
+];
+
+/**
+ * Matches the start of the next field label, which ends the current field block
+ */
+const NEXT_FIELD_PATTERN = new RegExp(
+  `^\\s*(?:${FIELD_LABELS.map(([, label]) => escapeRegex(label)).join('|')})\\s*:`,
+  'im'
+);
+
 /**
  * Parse a single inscription from its text block
  */
-function parseInscription(text: string): Inscription {
-  // Extract fields using helper function
-  const date = extractField(text, 'Date de présentation d\'inscription');
-  const numero = extractField(text, 'Numéro');
-  const nature = extractField(text, 'Nature de l\'acte');
-  const qualite = extractField(text, 'Qualité');
-  const nomParties = extractField(text, 'Nom des parties');
-  const remarques = extractField(text, 'Remarques');
-  const radiations = extractField(text, 'Radiations');
+function parseInscription(text: string, lineNumber: number): Inscription {
+  const candidates = {} as InscriptionCandidates;
+  for (const [field, label] of FIELD_LABELS) {
+    candidates[field] = extractCandidates(text, label);
+  }
+
+  const selected = (field: InscriptionCandidateField) => candidates[field][0]?.value ?? null;
 
   // Parse parties
-  const parties = parseParties(nomParties || '', qualite || '');
+  const parties = parseParties(selected('party_names') || '', selected('party_roles') || '');
 
   return {
-    acte_publication_date: date,
-    acte_publication_number: numero,
-    acte_nature: nature,
+    line_number: lineNumber,
+    acte_publication_date: selected('acte_publication_date'),
+    acte_publication_number: selected('acte_publication_number'),
+    acte_nature: selected('acte_nature'),
     parties,
-    remarques,
-    radiation_number: radiations
+    remarques: selected('remarques'),
+    radiation_number: selected('radiation_number'),
+    candidates,
+    min_confidence: minimumConfidence(candidates),
   };
 }
 
 /**
- * Extract a field value from inscription text
- * Handles both "Option 1:" format and simple "Field: value" format
+ * Extract the candidates of a field, ranked by decreasing confidence
+ * Handles both "Option 1: VALUE (Confiance: XX%)" lists and simple "Field: value" lines
  */
-function extractField(text: string, fieldName: string): string | null {
-  // Try to match "Option 1: VALUE (Confiance: XX%)" pattern first
-  const optionPattern = new RegExp(
-    `${escapeRegex(fieldName)}\\s*:?\\s*Option\\s+1\\s*:\\s*(.+?)\\s*\\(Confiance`,
-    'is'
-  );
-  const optionMatch = text.match(optionPattern);
-  
-  if (optionMatch) {
-    const value = optionMatch[1].trim();
-    return normalizeValue(value);
+function extractCandidates(text: string, fieldName: string): FieldCandidate[] {
+  const label = text.match(new RegExp(`${escapeRegex(fieldName)}\\s*:?[ \\t]*`, 'i'));
+  if (!label) {
+    return [];
   }
 
-  // Fallback: Try simple "Field: value" pattern
-  const simplePattern = new RegExp(
-    `${escapeRegex(fieldName)}\\s*:?\\s*(.+?)(?:\\n|$)`,
-    'i'
-  );
-  const simpleMatch = text.match(simplePattern);
-  
-  if (simpleMatch) {
-    const value = simpleMatch[1].trim();
-    return normalizeValue(value);
+  // The field block runs until the next field label
+  const rest = text.substring(label.index! + label[0].length);
+  const nextField = rest.search(NEXT_FIELD_PATTERN);
+  const block = nextField >= 0 ? rest.substring(0, nextField) : rest;
+
+  const optionPattern = /Option\s+\d+\s*:\s*(.+?)\s*\(Confiance\s*:?\s*(\d+(?:[.,]\d+)?)\s*%?\s*\)/gi;
+  const candidates: FieldCandidate[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = optionPattern.exec(block)) !== null) {
+    candidates.push({
+      value: normalizeValue(match[1]),
+      confidence: parseConfidence(match[2]),
+    });
   }
 
-  return null;
+  if (candidates.length === 0) {
+    // Simple "Field: value" line, optionally followed by "(Confiance: XX%)"
+    const line = block.trim().split('\n')[0];
+    if (line === '') {
+      return [];
+    }
+    const confidenceMatch = line.match(/\s*\(Confiance\s*:?\s*(\d+(?:[.,]\d+)?)\s*%?\s*\)\s*$/i);
+
+    candidates.push({
+      value: normalizeValue(confidenceMatch ? line.substring(0, confidenceMatch.index) : line),
+      confidence: confidenceMatch ? parseConfidence(confidenceMatch[1]) : null,
+    });
+  }
+
+  // Stable sort: options without confidence keep their order after scored ones
+  return candidates
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => ((b.candidate.confidence ?? -1) - (a.candidate.confidence ?? -1)) || a.index - b.index)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Lowest confidence among the selected (first) candidate of each field
+ */
+function minimumConfidence(candidates: InscriptionCandidates): number | null {
+  const confidences = Object.values(candidates)
+    .map(fieldCandidates => fieldCandidates[0]?.confidence)
+    .filter((confidence): confidence is number => typeof confidence === 'number');
+
+  return confidences.length > 0 ? Math.min(...confidences) : null;
+}
+
+/**
+ * Parse a "95" or "95,5" confidence percentage
+ */
+function parseConfidence(value: string): number {
+  return Math.min(100, parseFloat(value.replace(',', '.')));
 }
 
 /**
@@ -314,25 +407,3 @@ function splitNames(text: string): string[] {
 
   return names;
 }
-
-/**
- * Normalize a field value
- * Converts [Vide] to null, trims whitespace
- */
-function normalizeValue(value: string): string | null {
-  const trimmed = value.trim();
-  
-  if (trimmed === '[Vide]' || trimmed === '' || trimmed.toLowerCase() === 'vide') {
-    return null;
-  }
-  
-  return trimmed;
-}
-
-/**
- * Escape special regex characters
- */
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
-
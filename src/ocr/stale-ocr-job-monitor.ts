@@ -64,12 +64,13 @@ export class StaleOCRJobMonitor {
         const client = supabaseManager.getServiceClient(env);
         if (!client) continue;
 
-        // Find stale OCR jobs
+        // Find stale OCR jobs (page-level jobs stay alive while pages keep completing)
         const { data: staleJobs, error: queryError } = await client
           .from('extraction_queue')
           .select('id, ocr_worker_id, ocr_started_at, document_source, document_number')
           .eq('status_id', EXTRACTION_STATUS.OCR_PROCESSING)
-          .lt('ocr_started_at', staleThreshold);
+          .lt('ocr_started_at', staleThreshold)
+          .or(`ocr_heartbeat_at.is.null,ocr_heartbeat_at.lt.${staleThreshold}`);
 
         if (queryError) {
           logger.error({ error: queryError, environment: env }, 'Error querying for stale OCR jobs');
@@ -93,11 +94,13 @@ export class StaleOCRJobMonitor {
             status_id: EXTRACTION_STATUS.COMPLETE,
             ocr_worker_id: null,
             ocr_started_at: null,
+            ocr_heartbeat_at: null,
             ocr_error: 'Reset by stale OCR job monitor - job exceeded processing time limit',
             ocr_last_error_at: new Date().toISOString(),
           })
           .eq('status_id', EXTRACTION_STATUS.OCR_PROCESSING)
-          .lt('ocr_started_at', staleThreshold);
+          .lt('ocr_started_at', staleThreshold)
+          .or(`ocr_heartbeat_at.is.null,ocr_heartbeat_at.lt.${staleThreshold}`);
 
         if (updateError) {
           logger.error({ error: updateError, environment: env }, 'Error resetting stale OCR jobs');
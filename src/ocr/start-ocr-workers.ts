@@ -8,6 +8,7 @@
  */
 
 import { OCRWorker } from './ocr-worker';
+import { TesseractClient } from './tesseract-client';
 import { staleOCRJobMonitor } from './stale-ocr-job-monitor';
 import { logger } from '../utils/logger';
 import { config } from '../config';
@@ -33,12 +34,18 @@ async function startWorkers(): Promise<void> {
   logger.info('');
 
   // Check configuration
-  if (!config.ocr.geminiApiKey) {
-    logger.error('❌ GEMINI_API_KEY is not configured');
-    logger.error('   Please set GEMINI_API_KEY in your .env file');
+  const tesseractEnabled = config.ocr.tesseract.enabled || config.ocr.preferredProvider === 'tesseract';
+  if (!config.ocr.geminiApiKey && !config.ocr.claudeApiKey && !tesseractEnabled) {
+    logger.error('❌ No OCR provider API key is configured');
+    logger.error('   Please set GEMINI_API_KEY and/or CLAUDE_API_KEY in your .env file');
+    logger.error('   (or OCR_TESSERACT_ENABLED=true to run local OCR only)');
     process.exit(1);
   }
 
+  if (tesseractEnabled && !(await new TesseractClient({ ...config.ocr.tesseract, tempDir: config.ocr.tempDir }).isAvailable())) {
+    logger.warn(`⚠️  Tesseract (${config.ocr.tesseract.binaryPath}, ${config.ocr.tesseract.language}) is not installed; local OCR will fail`);
+  }
+
   // Log enabled environments
   const enabledEnvs = Object.entries(config.ocr.enabledEnvironments)
     .filter(([_, enabled]) => enabled)
@@ -53,7 +60,10 @@ async function startWorkers(): Promise<void> {
   logger.info('⚙️  Configuration:');
   logger.info(`   Worker count: ${WORKER_COUNT}`);
   logger.info(`   Enabled environments: ${enabledEnvs.join(', ')}`);
-  logger.info(`   Gemini model: ${config.ocr.extractModel.gemini}`);
+  logger.info(`   Preferred provider: ${config.ocr.preferredProvider}`);
+  logger.info(`   Gemini model: ${config.ocr.extractModel.gemini}${config.ocr.geminiApiKey ? '' : ' (no API key)'}`);
+  logger.info(`   Claude model: ${config.ocr.extractModel.claude}${config.ocr.claudeApiKey ? '' : ' (no API key)'}`);
+  logger.info(`   Tesseract: ${tesseractEnabled ? config.ocr.tesseract.language : 'disabled'}`);
   logger.info(`   Temperature: ${config.ocr.extractTemperature}`);
   logger.info(`   Temp directory: ${config.ocr.tempDir}`);
   logger.info('');
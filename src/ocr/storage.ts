@@ -0,0 +1,75 @@
+/**
+ * Storage helpers for extraction_queue PDFs
+ * Resolves the bucket/path of a job's supabase_path and downloads the file
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { ExtractionQueueJob } from '../types';
+
+/**
+ * Bucket used for legacy supabase_path values (just "filename.pdf")
+ */
+const BUCKET_BY_SOURCE: Record<string, string> = {
+  'index': 'index',
+  'acte': 'actes',
+  'plan_cadastraux': 'plans-cadastraux',
+};
+
+/**
+ * Bucket and object path of a job's stored PDF
+ */
+export function resolveStorageLocation(
+  job: Pick<ExtractionQueueJob, 'supabase_path' | 'document_source'>
+): { bucket: string; filePath: string } {
+  if (!job.supabase_path) {
+    throw new Error('No supabase_path found for job');
+  }
+
+  // New format: "bucket/filename.pdf"
+  if (job.supabase_path.includes('/')) {
+    const parts = job.supabase_path.split('/');
+    return { bucket: parts[0], filePath: parts.slice(1).join('/') };
+  }
+
+  // Legacy format: just "filename.pdf" - determine bucket from document_source
+  const bucket = BUCKET_BY_SOURCE[job.document_source];
+  if (!bucket) {
+    throw new Error(`Unknown document_source: ${job.document_source}`);
+  }
+
+  return { bucket, filePath: job.supabase_path };
+}
+
+/**
+ * Download a job's PDF to `${destDir}/${job.id}.pdf` and return the local path
+ */
+export async function downloadJobPDF(
+  client: SupabaseClient,
+  job: Pick<ExtractionQueueJob, 'id' | 'supabase_path' | 'document_source'>,
+  destDir: string
+): Promise<string> {
+  const { bucket, filePath } = resolveStorageLocation(job);
+
+  logger.info({ bucket, path: filePath }, 'Downloading file from Supabase');
+
+  const { data, error } = await client.storage
+    .from(bucket)
+    .download(filePath);
+
+  if (error || !data) {
+    throw new Error(`Failed to download file: ${error?.message || 'Unknown error'}`);
+  }
+
+  // Save to temp file
+  const localFilePath = path.join(destDir, `${job.id}.pdf`);
+  const buffer = Buffer.from(await data.arrayBuffer());
+  await fs.mkdir(destDir, { recursive: true });
+  await fs.writeFile(localFilePath, buffer);
+
+  logger.info({ localFilePath, size: buffer.length }, 'File downloaded successfully');
+
+  return localFilePath;
+}
@@ -0,0 +1,294 @@
+/**
+ * Structured OCR Output
+ * Asks the providers for the SanitizedOCRResult of a boosted index text as JSON
+ * (Gemini response schema, Claude tool use) instead of recovering it from the
+ * "--- Page X ---" / "Ligne X:" markers with regexes. The JSON is validated with
+ * zod and the request is retried with the violations when it does not match.
+ */
+
+import { z } from 'zod';
+import { ResponseSchema, SchemaType } from '@google/generative-ai';
+import { logger } from '../utils/logger';
+import { normalizeValue } from '../utils/text';
+import {
+  SanitizedOCRResult,
+  Inscription,
+  FieldCandidate,
+  InscriptionCandidateField,
+  InscriptionCandidates,
+} from '../types/ocr';
+
+/**
+ * Error raised when a provider's JSON does not match the schema after every attempt
+ */
+export class StructuredOutputError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+const CANDIDATE_FIELDS: InscriptionCandidateField[] = [
+  'acte_publication_date',
+  'acte_publication_number',
+  'acte_nature',
+  'party_roles',
+  'party_names',
+  'remarques',
+  'radiation_number',
+];
+
+const nullableText = z.string().nullable();
+
+/**
+ * Validation schema of the JSON returned by the providers
+ * Candidates are a flat list (response schemas have no maps); they are grouped per
+ * field and the min_confidence is computed once validated
+ */
+export const structuredOCRSchema = z.object({
+  pages: z.array(z.object({
+    pageNumber: z.number().int().positive(),
+    metadata: z.object({
+      circonscription: nullableText,
+      cadastre: nullableText,
+      lot_number: nullableText,
+    }),
+    inscriptions: z.array(z.object({
+      line_number: z.number().int().positive(),
+      acte_publication_date: nullableText,
+      acte_publication_number: nullableText,
+      acte_nature: nullableText,
+      parties: z.array(z.object({
+        name: z.string().min(1),
+        role: z.string(),
+      })),
+      remarques: nullableText,
+      radiation_number: nullableText,
+      candidates: z.array(z.object({
+        field: z.enum(CANDIDATE_FIELDS as [InscriptionCandidateField, ...InscriptionCandidateField[]]),
+        value: nullableText,
+        confidence: z.number().min(0).max(100).nullable(),
+      })).default([]),
+    })),
+  })).min(1, 'At least one page is required'),
+});
+
+export type StructuredOCROutput = z.infer<typeof structuredOCRSchema>;
+
+const nullableString = (description: string): ResponseSchema => ({
+  type: SchemaType.STRING,
+  nullable: true,
+  description,
+});
+
+/**
+ * Response schema of structuredOCRSchema, in the OpenAPI subset used by Gemini
+ * (converted with toJSONSchema for Claude tool use)
+ */
+export const STRUCTURED_OCR_RESPONSE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    pages: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          pageNumber: { type: SchemaType.INTEGER, description: 'Numéro de la page (--- Page X ---)' },
+          metadata: {
+            type: SchemaType.OBJECT,
+            properties: {
+              circonscription: nullableString('Circonscription foncière'),
+              cadastre: nullableString('Cadastre'),
+              lot_number: nullableString('Numéro de lot'),
+            },
+            required: ['circonscription', 'cadastre', 'lot_number'],
+          },
+          inscriptions: {
+            type: SchemaType.ARRAY,
+            items: {
+              type: SchemaType.OBJECT,
+              properties: {
+                line_number: { type: SchemaType.INTEGER, description: 'Numéro de la ligne (Ligne X:)' },
+                acte_publication_date: nullableString('Date de présentation d\'inscription, AAAA-MM-JJ si possible'),
+                acte_publication_number: nullableString('Numéro d\'inscription'),
+                acte_nature: nullableString('Nature de l\'acte'),
+                parties: {
+                  type: SchemaType.ARRAY,
+                  items: {
+                    type: SchemaType.OBJECT,
+                    properties: {
+                      name: { type: SchemaType.STRING, description: 'Nom de la partie' },
+                      role: { type: SchemaType.STRING, description: 'Qualité de la partie, vide si absente' },
+                    },
+                    required: ['name', 'role'],
+                  },
+                },
+                remarques: nullableString('Remarques'),
+                radiation_number: nullableString('Radiations'),
+                candidates: {
+                  type: SchemaType.ARRAY,
+                  description: 'Toutes les options proposées pour les champs incertains',
+                  items: {
+                    type: SchemaType.OBJECT,
+                    properties: {
+                      field: { type: SchemaType.STRING, format: 'enum', enum: CANDIDATE_FIELDS },
+                      value: nullableString('Valeur de l\'option'),
+                      confidence: { type: SchemaType.NUMBER, nullable: true, description: 'Confiance en %' },
+                    },
+                    required: ['field', 'value', 'confidence'],
+                  },
+                },
+              },
+              required: [
+                'line_number',
+                'acte_publication_date',
+                'acte_publication_number',
+                'acte_nature',
+                'parties',
+                'remarques',
+                'radiation_number',
+                'candidates',
+              ],
+            },
+          },
+        },
+        required: ['pageNumber', 'metadata', 'inscriptions'],
+      },
+    },
+  },
+  required: ['pages'],
+};
+
+/**
+ * Convert a Gemini response schema to JSON Schema (nullable types become type unions)
+ */
+export function toJSONSchema(schema: ResponseSchema): Record<string, unknown> {
+  const { type, nullable, items, properties, ...rest } = schema;
+  const converted: Record<string, unknown> = {
+    ...rest,
+    type: nullable ? [type, 'null'] : type,
+  };
+
+  if (items) {
+    converted.items = toJSONSchema(items);
+  }
+  if (properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(properties).map(([name, property]) => [name, toJSONSchema(property)])
+    );
+  }
+
+  return converted;
+}
+
+/**
+ * Validate a provider's JSON and convert it to a SanitizedOCRResult
+ * Throws a StructuredOutputError listing the schema violations
+ */
+export function parseStructuredOutput(data: unknown): SanitizedOCRResult {
+  const json = typeof data === 'string' ? parseJSON(data) : data;
+  const validation = structuredOCRSchema.safeParse(json);
+
+  if (!validation.success) {
+    const issues = validation.error.errors.map(e => `${e.path.join('.') || '(root)'}: ${e.message}`);
+    throw new StructuredOutputError(`Structured OCR output does not match the schema - ${issues.slice(0, 10).join('; ')}`, issues);
+  }
+
+  const pages = [...validation.data.pages].sort((a, b) => a.pageNumber - b.pageNumber);
+
+  return {
+    pages: pages.map(page => ({
+      pageNumber: page.pageNumber,
+      metadata: {
+        circonscription: normalizeValue(page.metadata.circonscription),
+        cadastre: normalizeValue(page.metadata.cadastre),
+        lot_number: normalizeValue(page.metadata.lot_number),
+      },
+      inscriptions: page.inscriptions.map(toInscription),
+    })),
+  };
+}
+
+/**
+ * Request a structured result, retrying with the schema violations of the previous
+ * attempt appended to the prompt
+ * @param generate Calls the provider; feedback is null on the first attempt
+ */
+export async function generateStructuredResult(
+  generate: (feedback: string | null) => Promise<unknown>,
+  maxAttempts: number
+): Promise<{ result: SanitizedOCRResult; attempts: number }> {
+  let lastError: StructuredOutputError | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const feedback = lastError
+      ? `La réponse précédente ne respectait pas le schéma JSON:\n- ${lastError.issues.slice(0, 20).join('\n- ')}\nCorrige ces erreurs.`
+      : null;
+
+    try {
+      return { result: parseStructuredOutput(await generate(feedback)), attempts: attempt };
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) {
+        throw error;
+      }
+      lastError = error;
+      logger.warn({ attempt, maxAttempts, issues: error.issues.slice(0, 5) }, '⚠️  Structured OCR output rejected by schema');
+    }
+  }
+
+  throw lastError || new StructuredOutputError('Structured OCR output failed');
+}
+
+function toInscription(inscription: StructuredOCROutput['pages'][number]['inscriptions'][number]): Inscription {
+  const selected: Record<InscriptionCandidateField, string | null> = {
+    acte_publication_date: normalizeValue(inscription.acte_publication_date),
+    acte_publication_number: normalizeValue(inscription.acte_publication_number),
+    acte_nature: normalizeValue(inscription.acte_nature),
+    party_roles: normalizeValue(inscription.parties.map(p => p.role).filter(Boolean).join('; ')),
+    party_names: normalizeValue(inscription.parties.map(p => p.name).join('; ')),
+    remarques: normalizeValue(inscription.remarques),
+    radiation_number: normalizeValue(inscription.radiation_number),
+  };
+
+  const candidates = {} as InscriptionCandidates;
+  for (const field of CANDIDATE_FIELDS) {
+    const options: FieldCandidate[] = inscription.candidates
+      .filter(candidate => candidate.field === field)
+      .map(candidate => ({ value: normalizeValue(candidate.value), confidence: candidate.confidence }))
+      .sort((a, b) => (b.confidence ?? -1) - (a.confidence ?? -1));
+
+    // The field value comes first, as in the regex sanitizer
+    const index = options.findIndex(option => option.value === selected[field]);
+    const first = index >= 0 ? options.splice(index, 1)[0] : { value: selected[field], confidence: null };
+    candidates[field] = first.value === null && options.length === 0 ? [] : [first, ...options];
+  }
+
+  const confidences = Object.values(candidates)
+    .map(fieldCandidates => fieldCandidates[0]?.confidence)
+    .filter((confidence): confidence is number => typeof confidence === 'number');
+
+  return {
+    line_number: inscription.line_number,
+    acte_publication_date: selected.acte_publication_date,
+    acte_publication_number: selected.acte_publication_number,
+    acte_nature: selected.acte_nature,
+    parties: inscription.parties.map(p => ({ name: p.name.trim(), role: p.role.trim() })),
+    remarques: selected.remarques,
+    radiation_number: selected.radiation_number,
+    candidates,
+    min_confidence: confidences.length > 0 ? Math.min(...confidences) : null,
+  };
+}
+
+/**
+ * Providers sometimes wrap JSON in a Markdown code fence
+ */
+function parseJSON(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  try {
+    return JSON.parse(fenced ? fenced[1] : text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid JSON';
+    throw new StructuredOutputError(`Structured OCR output is not valid JSON - ${message}`, [`(root): ${message}`]);
+  }
+}
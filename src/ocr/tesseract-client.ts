@@ -0,0 +1,102 @@
+/**
+ * Tesseract OCR Client
+ * Runs a local Tesseract install on page images, for environments without
+ * OCR API keys (dev, air-gapped) and as the last-resort fallback provider.
+ * Tesseract only reads text: it cannot follow prompts or apply boost rules.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+
+const execFileAsync = promisify(execFile);
+
+export interface TesseractConfig {
+  /** Tesseract binary (default: tesseract on PATH) */
+  binaryPath?: string;
+  /** Traineddata languages, joined with "+" (default: fra) */
+  language?: string;
+  /** Page segmentation mode (default: 6, a single uniform block of text, best for index tables) */
+  pageSegmentationMode?: number;
+  /** Timeout of one page in milliseconds */
+  timeoutMs?: number;
+  tempDir: string;
+}
+
+export class TesseractClient {
+  private binaryPath: string;
+  private pageSegmentationMode: number;
+  private timeoutMs: number;
+  private tempDir: string;
+  readonly language: string;
+
+  constructor(config: TesseractConfig) {
+    this.binaryPath = config.binaryPath || 'tesseract';
+    this.language = config.language || 'fra';
+    this.pageSegmentationMode = config.pageSegmentationMode ?? 6;
+    this.timeoutMs = config.timeoutMs ?? 120000;
+    this.tempDir = config.tempDir;
+  }
+
+  /**
+   * Check that the binary runs and the language data is installed
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      const { stdout } = await execFileAsync(this.binaryPath, ['--list-langs'], { timeout: 10000 });
+      const installed = stdout.split('\n').map(line => line.trim());
+      const missing = this.language.split('+').filter(lang => !installed.includes(lang));
+
+      if (missing.length > 0) {
+        logger.warn({ missing }, 'Tesseract language data not installed');
+        return false;
+      }
+      return true;
+    } catch (error) {
+      logger.warn({ error: error instanceof Error ? error.message : error }, 'Tesseract not available');
+      return false;
+    }
+  }
+
+  /**
+   * Extract text from an image file
+   */
+  async recognizeFile(imagePath: string): Promise<string> {
+    // Arguments are passed as is, never parsed by a shell
+    const args = [imagePath, 'stdout', '-l', this.language, '--psm', String(this.pageSegmentationMode)];
+
+    logger.debug({ binary: this.binaryPath, args }, 'Running Tesseract');
+
+    const { stdout, stderr } = await execFileAsync(this.binaryPath, args, {
+      timeout: this.timeoutMs,
+      maxBuffer: 16 * 1024 * 1024,
+    });
+
+    // Tesseract reports progress and resolution estimates on stderr
+    if (stderr && /error/i.test(stderr)) {
+      logger.warn({ stderr, imagePath }, 'Tesseract warnings');
+    }
+
+    return stdout;
+  }
+
+  /**
+   * Extract text from base64 image data (written to a temp file for the CLI)
+   */
+  async recognizeBase64(base64Data: string, mimeType: string): Promise<string> {
+    const extension = mimeType === 'image/jpeg' ? 'jpg' : 'png';
+    const imagePath = path.join(this.tempDir, `tesseract-${uuidv4()}.${extension}`);
+
+    await fs.mkdir(this.tempDir, { recursive: true });
+    await fs.writeFile(imagePath, Buffer.from(base64Data, 'base64'));
+
+    try {
+      return await this.recognizeFile(imagePath);
+    } finally {
+      await fs.unlink(imagePath).catch(() => undefined);
+    }
+  }
+}
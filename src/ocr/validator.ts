@@ -0,0 +1,287 @@
+/**
+ * OCR Validation Module
+ * Rules engine checking sanitized index inscriptions before they reach title
+ * reports: real dates, known publication number formats, page metadata that
+ * matches the originating extraction_queue job, and pages without inscriptions.
+ * Parsed plans are checked against the lot and cadastre of their job.
+ */
+
+import { logger } from '../utils/logger';
+import { foldAccents } from '../utils/text';
+import {
+  SanitizedOCRResult,
+  PageResult,
+  Inscription,
+  ParsedPlan,
+  ValidationIssue,
+  ValidationReport,
+} from '../types/ocr';
+import { splitIntoPages } from './sanitizer';
+
+/**
+ * Fields of the originating job the page metadata is checked against
+ * (for index documents, document_number is the lot number)
+ */
+export interface ValidationJobContext {
+  document_number?: string | null;
+  circonscription_fonciere?: string | null;
+  cadastre?: string | null;
+}
+
+export interface ValidateOptions {
+  /** Boosted text the result was sanitized from, used to detect pages with content but no inscriptions */
+  boostedText?: string;
+  /** Reference date for future-date checks (defaults to now) */
+  now?: Date;
+  /** False when the result was sanitized from raw text the boost rules were not applied to */
+  boostApplied?: boolean;
+}
+
+/**
+ * Publication number formats of the Registre foncier du Québec
+ * - current numbering: 7 or 8 digits, usually grouped by 3 ("3 770 292", "12 345 678")
+ * - older registers: up to 6 digits ("45 678", "123456")
+ */
+const PUBLICATION_NUMBER_FORMATS: RegExp[] = [
+  /^\d{1,2}[ \u00a0]?\d{3}[ \u00a0]?\d{3}$/,
+  /^\d{1,3}[ \u00a0]?\d{3}$/,
+  /^\d{1,6}$/,
+];
+
+/**
+ * Pages shorter than this are considered blank when they have no inscriptions
+ * (same threshold as the sanitizer warning)
+ */
+const EMPTY_PAGE_MIN_CONTENT = 100;
+
+type InscriptionRule = (inscription: Inscription, page: PageResult, options: ValidateOptions) => ValidationIssue[];
+type PageRule = (page: PageResult, job: ValidationJobContext, pageText: string | null) => ValidationIssue[];
+
+const inscriptionRules: InscriptionRule[] = [
+  function checkDate(inscription, page, options) {
+    const value = inscription.acte_publication_date;
+    if (value === null) {
+      return [];
+    }
+    if (!isValidDate(value)) {
+      return [issue('invalid_date', 'error', `Date "${value}" is not a valid YYYY-MM-DD date`, page, inscription, 'acte_publication_date', value)];
+    }
+    if (value.substring(0, 10) > (options.now || new Date()).toISOString().substring(0, 10)) {
+      return [issue('future_date', 'warning', `Date "${value}" is in the future`, page, inscription, 'acte_publication_date', value)];
+    }
+    return [];
+  },
+
+  function checkPublicationNumber(inscription, page) {
+    const value = inscription.acte_publication_number;
+    if (!value) {
+      return [issue('missing_publication_number', 'error', 'Publication number is missing', page, inscription, 'acte_publication_number', null)];
+    }
+    if (!isKnownPublicationNumber(value)) {
+      return [issue('invalid_publication_number', 'error', `Publication number "${value}" does not match a known registry format`, page, inscription, 'acte_publication_number', value)];
+    }
+    return [];
+  },
+];
+
+const pageRules: PageRule[] = [
+  function checkMetadata(page, job) {
+    const issues: ValidationIssue[] = [];
+    const checks: Array<[keyof PageResult['metadata'], string | null | undefined, 'circonscription_mismatch' | 'cadastre_mismatch' | 'lot_mismatch']> = [
+      ['circonscription', job.circonscription_fonciere, 'circonscription_mismatch'],
+      ['cadastre', job.cadastre, 'cadastre_mismatch'],
+      ['lot_number', job.document_number, 'lot_mismatch'],
+    ];
+
+    const missing = checks.filter(([field]) => !page.metadata[field]).map(([field]) => field);
+    if (missing.length > 0) {
+      issues.push(issue('missing_metadata', 'warning', `Page header is missing ${missing.join(', ')}`, page, null, null, null));
+    }
+
+    for (const [field, expected, code] of checks) {
+      const actual = page.metadata[field];
+      if (!actual || !expected || sameIdentifier(actual, expected)) {
+        continue;
+      }
+      // A different lot means the page belongs to another index; naming variations of
+      // circonscription/cadastre are common, so those are only warnings
+      const severity = code === 'lot_mismatch' ? 'error' : 'warning';
+      issues.push(issue(code, severity, `Page ${field} "${actual}" does not match job value "${expected}"`, page, null, field, actual));
+    }
+
+    return issues;
+  },
+
+  function checkEmptyPage(page, _job, pageText) {
+    if (page.inscriptions.length > 0) {
+      return [];
+    }
+    if (pageText !== null && pageText.length > EMPTY_PAGE_MIN_CONTENT) {
+      return [issue('empty_page', 'error', `No inscriptions found in a page with ${pageText.length} characters of content`, page, null, null, null)];
+    }
+    return [issue('empty_page', 'warning', 'No inscriptions found on page', page, null, null, null)];
+  },
+];
+
+/**
+ * Run all validation rules on a sanitized index result
+ */
+export function validateSanitizedResult(
+  result: SanitizedOCRResult,
+  job: ValidationJobContext,
+  options: ValidateOptions = {}
+): ValidationReport {
+  const pageTexts = options.boostedText !== undefined ? splitIntoPages(options.boostedText) : null;
+  const issues: ValidationIssue[] = [];
+
+  result.pages.forEach((page, index) => {
+    const pageText = pageTexts ? pageTexts[index] ?? '' : null;
+
+    for (const rule of pageRules) {
+      issues.push(...rule(page, job, pageText));
+    }
+    for (const inscription of page.inscriptions) {
+      for (const rule of inscriptionRules) {
+        issues.push(...rule(inscription, page, options));
+      }
+    }
+    // Unboosted text keeps the raw OCR errors: every page goes to review
+    if (options.boostApplied === false) {
+      issues.push(issue('boost_not_applied', 'error', 'Boost rules were not applied: inscriptions come from the raw OCR text', page, null, null, null));
+    }
+  });
+
+  const report = buildReport(issues, options);
+
+  logger.info({
+    pages: result.pages.length,
+    errors: report.error_count,
+    warnings: report.warning_count,
+  }, 'OCR validation complete');
+
+  return report;
+}
+
+/**
+ * Check a parsed plan against its originating job: the requested lot must be
+ * one of the lots shown on the plan (otherwise the wrong plan was downloaded)
+ */
+export function validateParsedPlan(
+  plan: ParsedPlan,
+  job: ValidationJobContext,
+  options: Pick<ValidateOptions, 'now'> = {}
+): ValidationReport {
+  const planIssue = (code: ValidationIssue['code'], severity: ValidationIssue['severity'], message: string, field: string | null, value: string | null): ValidationIssue => ({
+    code,
+    severity,
+    message,
+    page_number: 1,
+    line_number: null,
+    field,
+    value,
+  });
+  const issues: ValidationIssue[] = [];
+
+  const missing = (['lot_numbers', 'cadastre', 'circonscription', 'surveyor', 'minute_number', 'plan_date'] as const)
+    .filter(field => field === 'lot_numbers' ? plan.lot_numbers.length === 0 : !plan[field]);
+  if (missing.length > 0) {
+    issues.push(planIssue('missing_metadata', 'warning', `Plan title block is missing ${missing.join(', ')}`, null, null));
+  }
+
+  const requestedLot = job.document_number;
+  if (requestedLot && plan.lot_numbers.length > 0 && !plan.lot_numbers.some(lot => sameIdentifier(lot, requestedLot))) {
+    issues.push(planIssue('requested_lot_not_on_plan', 'error', `Requested lot "${requestedLot}" is not among the plan lots (${plan.lot_numbers.join(', ')})`, 'lot_numbers', requestedLot));
+  }
+
+  const checks: Array<[string | null, string | null | undefined, 'circonscription' | 'cadastre', 'circonscription_mismatch' | 'cadastre_mismatch']> = [
+    [plan.circonscription, job.circonscription_fonciere, 'circonscription', 'circonscription_mismatch'],
+    [plan.cadastre, job.cadastre, 'cadastre', 'cadastre_mismatch'],
+  ];
+  for (const [actual, expected, field, code] of checks) {
+    if (actual && expected && !sameIdentifier(actual, expected)) {
+      issues.push(planIssue(code, 'warning', `Plan ${field} "${actual}" does not match job value "${expected}"`, field, actual));
+    }
+  }
+
+  if (plan.plan_date && plan.plan_date > (options.now || new Date()).toISOString().substring(0, 10)) {
+    issues.push(planIssue('future_date', 'warning', `Plan date "${plan.plan_date}" is in the future`, 'plan_date', plan.plan_date));
+  }
+
+  const report = buildReport(issues, options);
+
+  logger.info({
+    lots: plan.lot_numbers.length,
+    errors: report.error_count,
+    warnings: report.warning_count,
+  }, 'Plan validation complete');
+
+  return report;
+}
+
+/**
+ * Whether a sanitized date is a real YYYY-MM-DD calendar date, optionally
+ * followed by the original reading in parentheses
+ */
+export function isValidDate(value: string): boolean {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:\s*\(.*\))?$/);
+  if (!match) {
+    return false;
+  }
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Whether a publication number matches one of the registry formats
+ */
+export function isKnownPublicationNumber(value: string): boolean {
+  const trimmed = value.trim();
+  return PUBLICATION_NUMBER_FORMATS.some(format => format.test(trimmed));
+}
+
+/**
+ * Compare identifiers ignoring case, accents, spaces and punctuation
+ * ("1 358 176" = "1358176", "Montréal" = "MONTREAL")
+ */
+function sameIdentifier(a: string, b: string): boolean {
+  const normalize = (value: string) => foldAccents(value)
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+  return normalize(a) === normalize(b);
+}
+
+function buildReport(issues: ValidationIssue[], options: Pick<ValidateOptions, 'now'>): ValidationReport {
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+
+  return {
+    valid: errorCount === 0,
+    error_count: errorCount,
+    warning_count: issues.length - errorCount,
+    issues,
+    validated_at: (options.now || new Date()).toISOString(),
+  };
+}
+
+function issue(
+  code: ValidationIssue['code'],
+  severity: ValidationIssue['severity'],
+  message: string,
+  page: PageResult,
+  inscription: Inscription | null,
+  field: string | null,
+  value: string | null
+): ValidationIssue {
+  return {
+    code,
+    severity,
+    message,
+    page_number: page.pageNumber,
+    line_number: inscription ? inscription.line_number : null,
+    field,
+    value,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Tests for the job claimer RPC calls
+ */
+
+import { JobClaimer } from '../job-claimer';
+import { createSupabaseStub } from '../../__tests__/supabase-stub';
+
+jest.mock('../../utils/logger');
+
+describe('JobClaimer', () => {
+  it('claims extraction jobs with the worker id and document sources', async () => {
+    const { client, rpc } = createSupabaseStub({ data: [{ id: 'job-1', document_source: 'index' }], error: null });
+
+    const job = await new JobClaimer(client, 'worker-1').claimExtractionJob({ documentSources: ['index', 'acte'], agingMinutes: 30 });
+
+    expect(job).toEqual({ id: 'job-1', document_source: 'index' });
+    expect(rpc).toHaveBeenCalledWith('claim_extraction_job', {
+      p_worker_id: 'worker-1',
+      p_document_sources: ['index', 'acte'],
+      p_aging_minutes: 30,
+    });
+  });
+
+  it('claims OCR jobs of every document source by default', async () => {
+    const { client, rpc } = createSupabaseStub({ data: [], error: null });
+
+    await expect(new JobClaimer(client, 'ocr-1').claimOCRJob()).resolves.toBeNull();
+    expect(rpc).toHaveBeenCalledWith('claim_ocr_job', { p_worker_id: 'ocr-1', p_document_sources: null, p_aging_minutes: null });
+  });
+
+  it('reports no job when the claim fails', async () => {
+    const { client } = createSupabaseStub({ data: null, error: { message: 'function claim_ocr_job does not exist' } });
+
+    await expect(new JobClaimer(client, 'ocr-1').claimOCRJob()).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Tests for the job priority levels
+ */
+
+import { JOB_PRIORITY, resolveJobPriority, jobPriorityName, toBullPriority } from '../priority';
+
+describe('job priorities', () => {
+  it('resolves level names and raw values, normal by default', () => {
+    expect(resolveJobPriority()).toBe(0);
+    expect(resolveJobPriority(null)).toBe(0);
+    expect(resolveJobPriority('rush')).toBe(JOB_PRIORITY.rush);
+    expect(resolveJobPriority('low')).toBe(JOB_PRIORITY.low);
+    expect(resolveJobPriority(7.9)).toBe(7);
+  });
+
+  it('orders the levels so rush jobs are claimed first', () => {
+    expect(JOB_PRIORITY.rush).toBeGreaterThan(JOB_PRIORITY.high);
+    expect(JOB_PRIORITY.high).toBeGreaterThan(JOB_PRIORITY.normal);
+    expect(JOB_PRIORITY.normal).toBeGreaterThan(JOB_PRIORITY.low);
+  });
+
+  it('names raw priorities by the closest level below them', () => {
+    expect(jobPriorityName(undefined)).toBe('normal');
+    expect(jobPriorityName(2)).toBe('normal');
+    expect(jobPriorityName(5)).toBe('high');
+    expect(jobPriorityName(250)).toBe('rush');
+    expect(jobPriorityName(-4)).toBe('low');
+  });
+
+  it('maps priorities to Bull priorities, 1 being the highest', () => {
+    expect(toBullPriority(JOB_PRIORITY.rush)).toBe(1);
+    expect(toBullPriority(JOB_PRIORITY.high)).toBe(2);
+    expect(toBullPriority(JOB_PRIORITY.normal)).toBe(3);
+    expect(toBullPriority(JOB_PRIORITY.low)).toBe(4);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for the follow-references selection
+ */
+
+import { selectReferencedActes } from '../reference-follower';
+import { sanitizeOCRResult } from '../../ocr/sanitizer';
+
+jest.mock('../../utils/logger');
+
+const BOOSTED_TEXT = `
+--- Page 1 ---
+
+Lot: 1 358 176
+
+Ligne 1:
+Date de présentation d'inscription: 1986-09-12
+Numéro: 3 770 292
+Nature de l'acte: Vente
+
+Ligne 2:
+Date de présentation d'inscription: 1986-09-12
+Numéro: 3 770 293
+Nature de l'acte: Hypothèque
+Radiations: 4 100 200
+
+Ligne 3:
+Date de présentation d'inscription: 1991-02-01
+Numéro: 4 100 200
+Nature de l'acte: Quittance
+
+Ligne 4:
+Date de présentation d'inscription: 2005-03-01
+Numéro: 12 000 000
+Nature de l'acte: Hypothèque
+
+--- Page 2 ---
+
+Lot: 1 358 176
+
+Ligne 1:
+Date de présentation d'inscription: 2005-03-01
+Numéro: 12 000 000
+Nature de l'acte: Hypothèque
+
+Ligne 2:
+Date de présentation d'inscription: 2010-01-01
+Numéro: ABC
+Nature de l'acte: Vente
+`;
+
+describe('selectReferencedActes', () => {
+  const result = sanitizeOCRResult(BOOSTED_TEXT);
+  const numbers = (options: Parameters<typeof selectReferencedActes>[1]) =>
+    selectReferencedActes(result, options).map(r => r.publication_number);
+
+  it('should follow every valid publication number once', () => {
+    expect(numbers({})).toEqual(['3 770 292', '3 770 293', '4 100 200', '12 000 000']);
+    expect(selectReferencedActes(result, {})[3].normalized).toBe('12000000');
+  });
+
+  it('should filter by nature ignoring case and accents', () => {
+    expect(numbers({ natures: ['HYPOTHEQUE'] })).toEqual(['3 770 293', '12 000 000']);
+  });
+
+  it('should filter by date range', () => {
+    expect(numbers({ date_from: '1990-01-01', date_to: '2000-12-31' })).toEqual(['4 100 200']);
+  });
+
+  it('should skip radiated charges and their radiations when active only', () => {
+    expect(numbers({ active_only: true })).toEqual(['3 770 292', '12 000 000']);
+  });
+});
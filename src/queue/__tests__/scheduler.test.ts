@@ -0,0 +1,120 @@
+/**
+ * Tests for the job scheduling policies
+ */
+
+import { JobScheduler, RunningJobsCache, SchedulerSettings, SchedulingSlot } from '../scheduler';
+
+const SETTINGS: SchedulerSettings = {
+  policy: 'weighted',
+  environmentWeights: { prod: 3, staging: 1 },
+  jobTypeWeights: { extraction: 2, req: 1, rdprm: 0 },
+  maxConcurrent: {},
+  agingMinutes: 30,
+};
+
+const key = (slot: SchedulingSlot) => `${slot.environment}:${slot.jobType}`;
+
+describe('JobScheduler', () => {
+  it('shares claims by weight when every slot has work', () => {
+    const scheduler = new JobScheduler(SETTINGS);
+    const claims: Record<string, number> = {};
+
+    for (let i = 0; i < 120; i++) {
+      const [slot] = scheduler.plan(['prod', 'staging']);
+      scheduler.claimed(slot);
+      claims[key(slot)] = (claims[key(slot)] || 0) + 1;
+    }
+
+    // Weights 6, 3, 2, 1 out of 12; rdprm has weight 0
+    expect(claims).toEqual({ 'prod:extraction': 60, 'prod:req': 30, 'staging:extraction': 20, 'staging:req': 10 });
+  });
+
+  it('does not starve a slot behind a busy backlog', () => {
+    const scheduler = new JobScheduler(SETTINGS);
+    const polled: string[] = [];
+
+    for (let i = 0; i < 12; i++) {
+      // prod:extraction always has work; staging:req is tried whenever it comes first
+      const [slot] = scheduler.plan(['prod', 'staging']);
+      polled.push(key(slot));
+      scheduler.claimed(slot);
+    }
+
+    expect(polled).toContain('staging:req');
+  });
+
+  it('drops the credit of empty slots', () => {
+    const scheduler = new JobScheduler({ ...SETTINGS, environmentWeights: { prod: 1 }, jobTypeWeights: { extraction: 1, req: 1, rdprm: 0 } });
+    const claimNext = (hasWork: (slot: SchedulingSlot) => boolean) => {
+      for (const slot of scheduler.plan(['prod'])) {
+        if (hasWork(slot)) {
+          scheduler.claimed(slot);
+          return key(slot);
+        }
+        scheduler.empty(slot);
+      }
+      return null;
+    };
+
+    // Only extraction has jobs for a while
+    for (let i = 0; i < 10; i++) {
+      expect(claimNext(slot => slot.jobType === 'extraction')).toBe('prod:extraction');
+    }
+
+    // REQ work arriving now gets its normal share, not ten banked turns
+    const claims = Array.from({ length: 4 }, () => claimNext(() => true));
+    expect(claims.filter(claim => claim === 'prod:req')).toHaveLength(2);
+  });
+
+  it('keeps the original order with the strict policy', () => {
+    const scheduler = new JobScheduler({ ...SETTINGS, policy: 'strict' });
+
+    expect(scheduler.plan(['prod', 'staging']).map(key)).toEqual([
+      'prod:extraction', 'prod:req', 'prod:rdprm',
+      'staging:extraction', 'staging:req', 'staging:rdprm',
+    ]);
+  });
+
+  it('leaves out job types at their cap', () => {
+    const scheduler = new JobScheduler({ ...SETTINGS, policy: 'strict', maxConcurrent: { req: 2, rdprm: 0 } });
+
+    expect(scheduler.cappedJobTypes).toEqual(['req']);
+    expect(scheduler.plan(['prod'], { req: 2 }).map(key)).toEqual(['prod:extraction', 'prod:rdprm']);
+    expect(scheduler.plan(['prod'], { req: 1 }).map(key)).toContain('prod:req');
+  });
+
+  it('describes the effective policy', () => {
+    const description = new JobScheduler({ ...SETTINGS, maxConcurrent: { rdprm: 1 } }).describe(['prod']);
+
+    expect(description).toMatchObject({ policy: 'weighted', aging_minutes: 30, max_concurrent: { rdprm: 1 } });
+    expect(description.slots).toEqual([
+      { environment: 'prod', job_type: 'extraction', weight: 6, share: 0.667 },
+      { environment: 'prod', job_type: 'req', weight: 3, share: 0.333 },
+      { environment: 'prod', job_type: 'rdprm', weight: 0, share: 0 },
+    ]);
+  });
+});
+
+describe('RunningJobsCache', () => {
+  it('loads the counts once per TTL and adds the jobs claimed in between', async () => {
+    const cache = new RunningJobsCache(60000);
+    const load = jest.fn().mockResolvedValue({ rdprm: 1 });
+
+    await expect(Promise.all([cache.get(load), cache.get(load)])).resolves.toEqual([{ rdprm: 1 }, { rdprm: 1 }]);
+    cache.claimed('rdprm');
+    cache.claimed('req');
+
+    await expect(cache.get(load)).resolves.toEqual({ rdprm: 2 });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('reloads the counts once the TTL has passed', async () => {
+    const cache = new RunningJobsCache(0);
+    const load = jest.fn().mockResolvedValueOnce({ extraction: 3 }).mockResolvedValueOnce({ extraction: 0 });
+
+    await cache.get(load);
+
+    await expect(cache.get(load)).resolves.toEqual({ extraction: 0 });
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
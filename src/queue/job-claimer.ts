@@ -0,0 +1,71 @@
+/**
+ * Job Claimer
+ * Claims the next eligible extraction_queue job with the claim_extraction_job and
+ * claim_ocr_job database functions: one round-trip, and concurrent workers skip
+ * rows locked by each other instead of losing a select-then-update race.
+ * Jobs come out by priority (highest first, raised by aging), then oldest first.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../utils/logger';
+import { ExtractionQueueJob } from '../types';
+
+export type ClaimStage = 'extraction' | 'ocr';
+
+export interface ClaimOptions {
+  /** Only claim these document sources (default: all) */
+  documentSources?: Array<ExtractionQueueJob['document_source']>;
+  /** Waiting jobs gain one priority level per this many minutes (default: no aging) */
+  agingMinutes?: number;
+}
+
+const CLAIM_FUNCTIONS: Record<ClaimStage, string> = {
+  extraction: 'claim_extraction_job',
+  ocr: 'claim_ocr_job',
+};
+
+export class JobClaimer {
+  constructor(private client: SupabaseClient, private workerId: string) {}
+
+  /**
+   * Claim the next job waiting for extraction (En attente -> En traitement)
+   */
+  async claimExtractionJob(options: ClaimOptions = {}): Promise<ExtractionQueueJob | null> {
+    return this.claim('extraction', options);
+  }
+
+  /**
+   * Claim the next extracted job waiting for OCR (Complété -> OCR en traitement)
+   */
+  async claimOCRJob(options: ClaimOptions = {}): Promise<ExtractionQueueJob | null> {
+    return this.claim('ocr', options);
+  }
+
+  /**
+   * Claim a job of a stage; errors are logged and reported as no job so the
+   * polling loop carries on
+   */
+  private async claim(stage: ClaimStage, options: ClaimOptions): Promise<ExtractionQueueJob | null> {
+    const { data, error } = await this.client.rpc(CLAIM_FUNCTIONS[stage], {
+      p_worker_id: this.workerId,
+      p_document_sources: options.documentSources && options.documentSources.length > 0
+        ? options.documentSources
+        : null,
+      p_aging_minutes: options.agingMinutes || null,
+    });
+
+    if (error) {
+      logger.error({
+        error: error.message,
+        details: error.details,
+        hint: error.hint,
+        stage,
+        workerId: this.workerId,
+      }, `❌ Error claiming ${stage} job`);
+      return null;
+    }
+
+    const rows = (data || []) as ExtractionQueueJob[];
+    return rows[0] || null;
+  }
+}
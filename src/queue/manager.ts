@@ -2,7 +2,8 @@ import Bull from 'bull';
 import { supabase } from '../utils/supabase';
 import { logger } from '../utils/logger';
 import { config } from '../config';
-import { ExtractionQueueJob, EXTRACTION_STATUS } from '../types';
+import { ExtractionQueueJob, EXTRACTION_STATUS, FollowReferencesOptions } from '../types';
+import { JobPriorityName, resolveJobPriority, toBullPriority } from './priority';
 
 export class QueueManager {
   private queue: Bull.Queue<ExtractionQueueJob>;
@@ -80,6 +81,9 @@ export class QueueManager {
     cadastre?: string;
     designation_secondaire?: string;
     acte_type?: 'Acte' | 'Avis d\'adresse' | 'Radiation' | 'Acte divers';
+    ocr_force_refresh?: boolean;
+    follow_references?: boolean | FollowReferencesOptions;
+    priority?: JobPriorityName | number;
   }): Promise<ExtractionQueueJob> {
     const job: Partial<ExtractionQueueJob> = {
       document_source: params.document_source,
@@ -89,7 +93,10 @@ export class QueueManager {
       cadastre: params.cadastre,
       designation_secondaire: params.designation_secondaire,
       acte_type: params.acte_type,
+      ocr_force_refresh: params.ocr_force_refresh || false,
+      follow_references: params.follow_references === true ? {} : params.follow_references || null,
       status_id: EXTRACTION_STATUS.EN_ATTENTE,
+      priority: resolveJobPriority(params.priority),
       attemtps: 0,
       max_attempts: 3,
     };
@@ -122,7 +129,8 @@ export class QueueManager {
     logger.info({ 
       jobId: data.id, 
       documentNumber: data.document_number,
-      documentSource: data.document_source 
+      documentSource: data.document_source,
+      priority: data.priority,
     }, 'Job created');
     
     return data;
@@ -131,7 +139,7 @@ export class QueueManager {
   private async addJobToQueue(job: ExtractionQueueJob): Promise<void> {
     await this.queue.add(job, {
       jobId: job.id,
-      priority: 2, // Default priority
+      priority: toBullPriority(job.priority),
       attempts: job.attemtps || 0, // Note: typo in database field
       backoff: {
         type: 'exponential',
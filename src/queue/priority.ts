@@ -0,0 +1,49 @@
+/**
+ * Job Priorities
+ * Named priority levels of extraction_queue jobs and their claim order.
+ * Workers claim the highest priority first (raised by aging), then the oldest job.
+ */
+
+export type JobPriorityName = 'low' | 'normal' | 'high' | 'rush';
+
+/**
+ * extraction_queue.priority of each level
+ * Levels are spaced so that aging (one level per SCHEDULER_AGING_MINUTES) only lets
+ * a job overtake the next level after a few periods; rush jobs always come first
+ */
+export const JOB_PRIORITY: Record<JobPriorityName, number> = {
+  low: -4,
+  normal: 0,
+  high: 4,
+  rush: 100,
+};
+
+export const JOB_PRIORITY_NAMES = Object.keys(JOB_PRIORITY) as JobPriorityName[];
+
+/**
+ * Priority column value of a level name or raw integer (default: normal)
+ */
+export function resolveJobPriority(priority?: JobPriorityName | number | null): number {
+  if (priority === undefined || priority === null) {
+    return JOB_PRIORITY.normal;
+  }
+  return typeof priority === 'number' ? Math.trunc(priority) : JOB_PRIORITY[priority];
+}
+
+/**
+ * Closest level name of a priority column value
+ */
+export function jobPriorityName(priority?: number | null): JobPriorityName {
+  const value = priority ?? JOB_PRIORITY.normal;
+  if (value >= JOB_PRIORITY.rush) return 'rush';
+  if (value >= JOB_PRIORITY.high) return 'high';
+  if (value > JOB_PRIORITY.low) return 'normal';
+  return 'low';
+}
+
+/**
+ * Bull priority of a job (1 is the highest)
+ */
+export function toBullPriority(priority?: number | null): number {
+  return JOB_PRIORITY_NAMES.length - JOB_PRIORITY_NAMES.indexOf(jobPriorityName(priority));
+}
@@ -0,0 +1,256 @@
+/**
+ * Reference Follower
+ * "Follow references" mode of index jobs: once an index is OCR'd, enqueue one
+ * acte job per publication number of its inscriptions, linked to the index job
+ * so the progress of the whole bundle can be tracked.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../utils/logger';
+import {
+  ExtractionQueueJob,
+  EXTRACTION_STATUS,
+  SanitizedOCRResult,
+  FollowReferencesOptions,
+  FollowedReferences,
+} from '../types';
+import { computeEtatDesDroits, normalizeNumber, normalizeText } from '../analysis/charges';
+import { isKnownPublicationNumber } from '../ocr/validator';
+
+/**
+ * Publication number of the index to enqueue as an acte job
+ */
+export interface ReferencedActe {
+  /** Publication number as read on the index */
+  publication_number: string;
+  /** Digits only, used as document_number_normalized */
+  normalized: string;
+  acte_nature: string | null;
+  publication_date: string | null;
+}
+
+/**
+ * Progress of an index job and the acte jobs it enqueued
+ */
+export interface BundleProgress {
+  parent: Pick<ExtractionQueueJob, 'id' | 'document_number' | 'status_id' | 'followed_references'>;
+  jobs: Array<Pick<ExtractionQueueJob, 'id' | 'document_number' | 'status_id' | 'parent_job_id' | 'error_message'>>;
+  total: number;
+  completed: number;
+  failed: number;
+  in_progress: number;
+  /** Share of acte jobs that reached a final status (0-100) */
+  percent: number;
+}
+
+/**
+ * Publication numbers of an index matching the follow-references filters,
+ * de-duplicated, in index order
+ */
+export function selectReferencedActes(
+  result: SanitizedOCRResult,
+  options: FollowReferencesOptions
+): ReferencedActe[] {
+  const natures = (options.natures || []).map(normalizeText);
+  const excluded = options.active_only ? radiatedNumbers(result) : new Set<string>();
+  const selected = new Map<string, ReferencedActe>();
+
+  for (const inscription of result.pages.flatMap(page => page.inscriptions)) {
+    const number = inscription.acte_publication_number;
+    const normalized = normalizeNumber(number);
+    if (!number || !normalized || !isKnownPublicationNumber(number) || selected.has(normalized)) {
+      continue;
+    }
+
+    const nature = normalizeText(inscription.acte_nature);
+    if (natures.length > 0 && !natures.some(n => nature.includes(n))) {
+      continue;
+    }
+
+    const date = inscription.acte_publication_date?.substring(0, 10) || null;
+    if ((options.date_from || options.date_to) && !date) {
+      continue;
+    }
+    if ((options.date_from && date! < options.date_from) || (options.date_to && date! > options.date_to)) {
+      continue;
+    }
+
+    if (excluded.has(normalized)) {
+      continue;
+    }
+
+    selected.set(normalized, {
+      publication_number: number,
+      normalized,
+      acte_nature: inscription.acte_nature,
+      publication_date: inscription.acte_publication_date,
+    });
+  }
+
+  return Array.from(selected.values());
+}
+
+/**
+ * Radiated charges and the actes that radiated them
+ */
+function radiatedNumbers(result: SanitizedOCRResult): Set<string> {
+  const numbers = new Set<string>();
+
+  for (const charge of computeEtatDesDroits(result).charges) {
+    if (charge.status !== 'radiated') {
+      continue;
+    }
+    for (const number of [charge.publication_number, ...charge.events.map(e => e.publication_number)]) {
+      const normalized = normalizeNumber(number);
+      if (normalized) {
+        numbers.add(normalized);
+      }
+    }
+  }
+
+  return numbers;
+}
+
+export class ReferenceFollower {
+  constructor(private client: SupabaseClient) {}
+
+  /**
+   * Enqueue the acte jobs referenced by an OCR'd index job
+   * Publication numbers that already have an acte job are linked, not re-enqueued
+   */
+  async follow(
+    job: ExtractionQueueJob,
+    result: SanitizedOCRResult,
+    options: FollowReferencesOptions
+  ): Promise<FollowedReferences> {
+    const referenced = selectReferencedActes(result, options);
+    const existing = await this.findExistingActeJobs(referenced.map(r => r.normalized));
+    const toCreate = referenced.filter(r => !existing.has(r.normalized));
+
+    let createdIds: string[] = [];
+    if (toCreate.length > 0) {
+      const { data, error } = await this.client
+        .from('extraction_queue')
+        .insert(toCreate.map(reference => ({
+          document_source: 'acte',
+          document_number: reference.publication_number,
+          document_number_normalized: reference.normalized,
+          circonscription_fonciere: job.circonscription_fonciere,
+          acte_type: 'Acte',
+          parent_job_id: job.id,
+          priority: job.priority ?? 0, // acte jobs of a rush index are rush too
+          status_id: EXTRACTION_STATUS.EN_ATTENTE,
+          attemtps: 0,
+          max_attempts: 3,
+        })))
+        .select('id');
+
+      if (error) {
+        throw new Error(`Failed to enqueue referenced actes: ${error.message}`);
+      }
+      createdIds = (data || []).map(row => row.id);
+    }
+
+    const summary: FollowedReferences = {
+      followed_at: new Date().toISOString(),
+      referenced: referenced.length,
+      created: createdIds.length,
+      existing: referenced.length - toCreate.length,
+      job_ids: [...createdIds, ...Array.from(existing.values())],
+    };
+
+    const { error: updateError } = await this.client
+      .from('extraction_queue')
+      .update({ followed_references: summary })
+      .eq('id', job.id);
+
+    if (updateError) {
+      throw new Error(`Failed to record followed references: ${updateError.message}`);
+    }
+
+    logger.info({
+      jobId: job.id,
+      referenced: summary.referenced,
+      created: summary.created,
+      existing: summary.existing,
+    }, '🔗 Enqueued referenced actes');
+
+    return summary;
+  }
+
+  /**
+   * Progress of an index job bundle, null when the job does not exist
+   */
+  async getBundle(jobId: string): Promise<BundleProgress | null> {
+    const { data: parent, error } = await this.client
+      .from('extraction_queue')
+      .select('id, document_number, status_id, followed_references')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load job: ${error.message}`);
+    }
+    if (!parent) {
+      return null;
+    }
+
+    const jobIds: string[] = parent.followed_references?.job_ids || [];
+    let jobs: BundleProgress['jobs'] = [];
+
+    if (jobIds.length > 0) {
+      const { data, error: jobsError } = await this.client
+        .from('extraction_queue')
+        .select('id, document_number, status_id, parent_job_id, error_message')
+        .in('id', jobIds)
+        .order('created_at', { ascending: true });
+
+      if (jobsError) {
+        throw new Error(`Failed to load bundle jobs: ${jobsError.message}`);
+      }
+      jobs = data || [];
+    }
+
+    const completed = jobs.filter(j => j.status_id === EXTRACTION_STATUS.EXTRACTION_COMPLETE).length;
+    const failed = jobs.filter(j => j.status_id === EXTRACTION_STATUS.ERREUR).length;
+
+    return {
+      parent,
+      jobs,
+      total: jobs.length,
+      completed,
+      failed,
+      in_progress: jobs.length - completed - failed,
+      percent: jobs.length > 0 ? Math.round(((completed + failed) / jobs.length) * 100) : 100,
+    };
+  }
+
+  /**
+   * Existing acte job ids by normalized publication number
+   */
+  private async findExistingActeJobs(numbers: string[]): Promise<Map<string, string>> {
+    const existing = new Map<string, string>();
+    if (numbers.length === 0) {
+      return existing;
+    }
+
+    const { data, error } = await this.client
+      .from('extraction_queue')
+      .select('id, document_number_normalized')
+      .eq('document_source', 'acte')
+      .in('document_number_normalized', numbers)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to look up existing acte jobs: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      if (!existing.has(row.document_number_normalized)) {
+        existing.set(row.document_number_normalized, row.id);
+      }
+    }
+
+    return existing;
+  }
+}
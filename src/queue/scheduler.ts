@@ -0,0 +1,259 @@
+/**
+ * Job Scheduler
+ * Decides which environment and job type a unified worker polls next.
+ * - weighted: smooth weighted round-robin between (environment, job type) slots,
+ *   weight = environment weight x job type weight; slots that were passed over
+ *   keep their credit, so a busy prod extraction backlog cannot starve REQ sessions
+ * - strict: the original order (environments in order, extraction, then REQ, then RDPRM)
+ * Per-type caps bound the jobs of a type in progress across all workers, and
+ * aging lets waiting extraction_queue jobs gain priority as they get older.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { EnvironmentName } from '../utils/supabase';
+import { EXTRACTION_STATUS } from '../types';
+
+export type SchedulerJobType = 'extraction' | 'req' | 'rdprm';
+
+export const SCHEDULER_JOB_TYPES: SchedulerJobType[] = ['extraction', 'req', 'rdprm'];
+
+export type SchedulingPolicyName = 'weighted' | 'strict';
+
+export interface SchedulingSlot {
+  environment: EnvironmentName;
+  jobType: SchedulerJobType;
+}
+
+export interface SchedulerSettings {
+  policy: SchedulingPolicyName;
+  /** Weight per environment (missing: 1, 0: never polled) */
+  environmentWeights: Record<string, number>;
+  /** Weight per job type (missing: 1, 0: never polled) */
+  jobTypeWeights: Record<string, number>;
+  /** Max jobs of a type in progress across all workers (missing or 0: no cap) */
+  maxConcurrent: Record<string, number>;
+  /** extraction_queue jobs gain one priority level per this many minutes waiting (0: off) */
+  agingMinutes: number;
+}
+
+/**
+ * Pluggable order in which slots are polled
+ */
+export interface SchedulingPolicy {
+  readonly name: SchedulingPolicyName;
+  /** Slots to poll for the next job, in order */
+  order(slots: SchedulingSlot[]): SchedulingSlot[];
+  /** A job was claimed from the slot */
+  claimed(slot: SchedulingSlot): void;
+  /** The slot had no job */
+  empty(slot: SchedulingSlot): void;
+}
+
+/**
+ * Effective policy, as shown by GET /api/scheduler
+ */
+export interface SchedulerDescription {
+  policy: SchedulingPolicyName;
+  aging_minutes: number;
+  max_concurrent: Partial<Record<SchedulerJobType, number>>;
+  slots: Array<{
+    environment: EnvironmentName;
+    job_type: SchedulerJobType;
+    weight: number;
+    /** Share of claims when every slot has work (weighted policy) */
+    share: number;
+  }>;
+}
+
+/**
+ * Environments in order, then job types in order
+ */
+export class StrictPriorityPolicy implements SchedulingPolicy {
+  readonly name = 'strict' as const;
+
+  order(slots: SchedulingSlot[]): SchedulingSlot[] {
+    return slots;
+  }
+
+  claimed(): void {}
+
+  empty(): void {}
+}
+
+/**
+ * Smooth weighted round-robin: every poll adds each slot's weight to its credit,
+ * slots are tried by credit, and a claim costs the total weight of the slots that
+ * may have work. A slot found without jobs drops its credit so idle queues do not
+ * bank turns, and stops counting towards the cost of claims in that poll.
+ */
+export class WeightedRoundRobinPolicy implements SchedulingPolicy {
+  readonly name = 'weighted' as const;
+  private credits = new Map<string, number>();
+  private totalWeight = 0;
+  private idleWeight = 0;
+
+  constructor(private weightOf: (slot: SchedulingSlot) => number) {}
+
+  order(slots: SchedulingSlot[]): SchedulingSlot[] {
+    const weighted = slots
+      .map((slot, index) => ({ slot, index, weight: this.weightOf(slot) }))
+      .filter(entry => entry.weight > 0);
+
+    this.totalWeight = weighted.reduce((total, entry) => total + entry.weight, 0);
+    this.idleWeight = 0;
+
+    for (const { slot, weight } of weighted) {
+      this.credits.set(slotKey(slot), (this.credits.get(slotKey(slot)) || 0) + weight);
+    }
+
+    return weighted
+      .sort((a, b) => (this.credits.get(slotKey(b.slot))! - this.credits.get(slotKey(a.slot))!) || a.index - b.index)
+      .map(entry => entry.slot);
+  }
+
+  claimed(slot: SchedulingSlot): void {
+    this.credits.set(slotKey(slot), (this.credits.get(slotKey(slot)) || 0) - (this.totalWeight - this.idleWeight));
+  }
+
+  empty(slot: SchedulingSlot): void {
+    this.credits.set(slotKey(slot), 0);
+    this.idleWeight += this.weightOf(slot);
+  }
+}
+
+export class JobScheduler {
+  private policy: SchedulingPolicy;
+
+  constructor(private settings: SchedulerSettings) {
+    this.policy = settings.policy === 'strict'
+      ? new StrictPriorityPolicy()
+      : new WeightedRoundRobinPolicy(slot => this.weightOf(slot));
+  }
+
+  get agingMinutes(): number {
+    return this.settings.agingMinutes;
+  }
+
+  /**
+   * Job types whose cap is configured (their running jobs need counting)
+   */
+  get cappedJobTypes(): SchedulerJobType[] {
+    return SCHEDULER_JOB_TYPES.filter(type => (this.settings.maxConcurrent[type] || 0) > 0);
+  }
+
+  /**
+   * Slots to poll, in policy order, without the job types at their cap
+   */
+  plan(environments: EnvironmentName[], running: Partial<Record<SchedulerJobType, number>> = {}): SchedulingSlot[] {
+    const atCap = new Set(this.cappedJobTypes.filter(type => (running[type] || 0) >= this.settings.maxConcurrent[type]));
+
+    return this.policy.order(buildSlots(environments)).filter(slot => !atCap.has(slot.jobType));
+  }
+
+  claimed(slot: SchedulingSlot): void {
+    this.policy.claimed(slot);
+  }
+
+  empty(slot: SchedulingSlot): void {
+    this.policy.empty(slot);
+  }
+
+  describe(environments: EnvironmentName[]): SchedulerDescription {
+    const slots = buildSlots(environments).map(slot => ({ ...slot, weight: this.weightOf(slot) }));
+    const totalWeight = slots.reduce((total, slot) => total + slot.weight, 0);
+
+    return {
+      policy: this.policy.name,
+      aging_minutes: this.settings.agingMinutes,
+      max_concurrent: Object.fromEntries(this.cappedJobTypes.map(type => [type, this.settings.maxConcurrent[type]])),
+      slots: slots.map(slot => ({
+        environment: slot.environment,
+        job_type: slot.jobType,
+        weight: slot.weight,
+        share: this.policy.name === 'weighted' && totalWeight > 0
+          ? Math.round((slot.weight / totalWeight) * 1000) / 1000
+          : 0,
+      })),
+    };
+  }
+
+  private weightOf(slot: SchedulingSlot): number {
+    return (this.settings.environmentWeights[slot.environment] ?? 1) * (this.settings.jobTypeWeights[slot.jobType] ?? 1);
+  }
+}
+
+/**
+ * Jobs of each type in progress in an environment (all workers)
+ */
+export async function countRunningJobs(
+  client: SupabaseClient,
+  jobTypes: SchedulerJobType[] = SCHEDULER_JOB_TYPES
+): Promise<Partial<Record<SchedulerJobType, number>>> {
+  const queries: Record<SchedulerJobType, () => PromiseLike<{ count: number | null; error: { message: string } | null }>> = {
+    extraction: () => client.from('extraction_queue').select('id', { count: 'exact', head: true }).eq('status_id', EXTRACTION_STATUS.EN_TRAITEMENT),
+    req: () => client.from('search_sessions').select('id', { count: 'exact', head: true }).eq('status', 'scraping_company_data'),
+    rdprm: () => client.from('rdprm_searches').select('id', { count: 'exact', head: true }).eq('status', 'in_progress'),
+  };
+
+  const counts = await Promise.all(jobTypes.map(async type => {
+    const { count, error } = await queries[type]();
+    if (error) {
+      throw new Error(`Failed to count running ${type} jobs: ${error.message}`);
+    }
+    return [type, count || 0] as const;
+  }));
+
+  return Object.fromEntries(counts);
+}
+
+type RunningCounts = Partial<Record<SchedulerJobType, number>>;
+
+/**
+ * Running job counts shared by the workers of a process, loaded at most once
+ * per TTL instead of on every poll; jobs claimed in between are added locally
+ */
+export class RunningJobsCache {
+  private totals: RunningCounts | null = null;
+  private loadedAt = 0;
+  private loading: Promise<RunningCounts> | null = null;
+
+  constructor(private ttlMs: number) {}
+
+  async get(load: () => Promise<RunningCounts>): Promise<RunningCounts> {
+    if (this.totals && Date.now() - this.loadedAt < this.ttlMs) {
+      return { ...this.totals };
+    }
+
+    // Concurrent callers share the same load
+    if (!this.loading) {
+      this.loading = load()
+        .then(totals => {
+          this.totals = totals;
+          this.loadedAt = Date.now();
+          return totals;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+
+    return { ...(await this.loading) };
+  }
+
+  /**
+   * Count a job claimed since the last load (only the counted, capped job types)
+   */
+  claimed(jobType: SchedulerJobType): void {
+    if (this.totals && this.totals[jobType] !== undefined) {
+      this.totals[jobType]! += 1;
+    }
+  }
+}
+
+function buildSlots(environments: EnvironmentName[]): SchedulingSlot[] {
+  return environments.flatMap(environment => SCHEDULER_JOB_TYPES.map(jobType => ({ environment, jobType })));
+}
+
+function slotKey(slot: SchedulingSlot): string {
+  return `${slot.environment}:${slot.jobType}`;
+}
@@ -0,0 +1,37 @@
+/**
+ * Tests for the review queue revisions and corrections
+ */
+
+import { ReviewQueue } from '../review-queue';
+import { ReviewError } from '../review-rules';
+import { createSupabaseStub } from '../../__tests__/supabase-stub';
+
+jest.mock('../../utils/logger');
+
+describe('ReviewQueue', () => {
+  it('lets the database number the revision', async () => {
+    const { client, rpc } = createSupabaseStub({ data: { job_id: 'job-1', revision: 3 } });
+
+    const revision = await new ReviewQueue(client).saveRevision('job-1', null, 'reviewer', 'ocr_rerun', null);
+
+    expect(revision.revision).toBe(3);
+    expect(rpc).toHaveBeenCalledWith('save_ocr_result_revision', {
+      p_job_id: 'job-1',
+      p_content: null,
+      p_created_by: 'reviewer',
+      p_source: 'ocr_rerun',
+      p_note: null,
+      p_ocr_output: null,
+    });
+  });
+
+  it('rejects corrections of a resolved item', async () => {
+    const { client, from } = createSupabaseStub({ data: { id: 'item-1', job_id: 'job-1', status: 'resolved' } });
+
+    const correction = new ReviewQueue(client).submitCorrection('item-1', { reviewer: 'reviewer', fields: {} });
+
+    await expect(correction).rejects.toThrow(ReviewError);
+    await expect(correction).rejects.toMatchObject({ statusCode: 409 });
+    expect(from).toHaveBeenCalledTimes(1);
+  });
+});
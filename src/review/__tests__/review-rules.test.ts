@@ -0,0 +1,104 @@
+/**
+ * Tests for the OCR review rules
+ */
+
+import { findReviewCandidates, applyCorrection, ReviewError } from '../review-rules';
+import { sanitizeOCRResult } from '../../ocr/sanitizer';
+import { validateSanitizedResult } from '../../ocr/validator';
+
+jest.mock('../../utils/logger');
+
+const BOOSTED_TEXT = `
+--- Page 1 ---
+
+Circonscription foncière: Montréal
+Cadastre: Test
+Lot: 123
+
+Ligne 1:
+Date de présentation d'inscription: 1986-09-12 (Confiance: 95%)
+Numéro: 3 770 292 (Confiance: 98%)
+Nature de l'acte: Testament (Confiance: 90%)
+
+Ligne 2:
+Date de présentation d'inscription: 1986-13-40
+Numéro: Option 1: 3 770 300 (Confiance: 45%)
+Option 2: 3 770 800 (Confiance: 40%)
+Nature de l'acte: Vente
+
+Ligne 3:
+Date de présentation d'inscription: 1990-01-01
+Numéro: [Vide]
+Nature de l'acte: Quittance
+
+--- Page 2 ---
+
+Circonscription foncière: Montréal
+Cadastre: Test
+Lot: 123
+
+Le tableau de cette page contient plusieurs lignes d'inscriptions dont aucune n'a pu être structurée.
+`;
+
+describe('Review Rules', () => {
+  const result = sanitizeOCRResult(BOOSTED_TEXT);
+  const report = validateSanitizedResult(result, {}, { boostedText: BOOSTED_TEXT });
+
+  describe('findReviewCandidates', () => {
+    it('should flag low confidence and validation errors', () => {
+      const candidates = findReviewCandidates(result, report, 70);
+
+      expect(candidates.map(c => [c.page_number, c.line_number, c.reasons])).toEqual([
+        [1, 2, ['low_confidence', 'invalid_date']],
+        [1, 3, ['missing_publication_number']],
+        [2, 0, ['empty_page']],
+      ]);
+      expect(candidates[0].min_confidence).toBe(45);
+      expect(candidates[2].inscription).toBeNull();
+    });
+
+    it('should respect the confidence threshold', () => {
+      const candidates = findReviewCandidates(result, report, 40);
+
+      expect(candidates.find(c => c.line_number === 2)?.reasons).toEqual(['invalid_date']);
+    });
+  });
+
+  describe('applyCorrection', () => {
+    it('should correct an inscription without touching the original', () => {
+      const revised = applyCorrection(result, { page_number: 1, line_number: 2 }, {
+        reviewer: 'jdoe',
+        fields: { acte_publication_date: '1986-12-04', acte_publication_number: '3 770 800' },
+      });
+
+      const corrected = revised.pages[0].inscriptions.find(i => i.line_number === 2)!;
+      expect(corrected.acte_publication_date).toBe('1986-12-04');
+      expect(corrected.acte_publication_number).toBe('3 770 800');
+      expect(corrected.acte_nature).toBe('Vente');
+      expect(result.pages[0].inscriptions[1].acte_publication_number).toBe('3 770 300');
+    });
+
+    it('should replace the inscriptions of a page item', () => {
+      const revised = applyCorrection(result, { page_number: 2, line_number: 0 }, {
+        reviewer: 'jdoe',
+        inscriptions: [{ line_number: 1, acte_publication_number: '4 000 000', acte_nature: 'Vente' }],
+      });
+
+      expect(revised.pages[1].inscriptions).toHaveLength(1);
+      expect(revised.pages[1].inscriptions[0]).toMatchObject({
+        line_number: 1,
+        acte_publication_number: '4 000 000',
+        acte_nature: 'Vente',
+        parties: [],
+        min_confidence: null,
+      });
+    });
+
+    it('should reject field corrections on page items', () => {
+      expect(() => applyCorrection(result, { page_number: 2, line_number: 0 }, {
+        reviewer: 'jdoe',
+        fields: { acte_nature: 'Vente' },
+      })).toThrow(ReviewError);
+    });
+  });
+});
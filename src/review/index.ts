@@ -0,0 +1,7 @@
+/**
+ * OCR Review Module
+ * Human review of uncertain or invalid sanitized OCR inscriptions
+ */
+
+export { ReviewQueue, ReviewListOptions } from './review-queue';
+export { findReviewCandidates, applyCorrection, ReviewError } from './review-rules';
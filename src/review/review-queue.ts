@@ -0,0 +1,306 @@
+/**
+ * OCR Review Queue
+ * Stores flagged pages/inscriptions in ocr_review_items and turns reviewer
+ * corrections into authoritative revisions of a job's SanitizedOCRResult.
+ * The machine original always stays in extraction_queue.sanitized_content.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import fs from 'fs/promises';
+import { logger } from '../utils/logger';
+import {
+  SanitizedOCRResult,
+  ReviewItem,
+  ReviewStatus,
+  ReviewCorrection,
+  OCRResultRevision,
+  OCROutputSnapshot,
+  ValidationReport,
+} from '../types';
+import { findReviewCandidates, applyCorrection, ReviewError } from './review-rules';
+import { saveInscriptions } from '../ocr/sanitized-store';
+import { downloadJobPDF } from '../ocr/storage';
+import { PDFConverter } from '../ocr/pdf-converter';
+import { PartyResolver } from '../analysis/party-resolver';
+
+export interface ReviewListOptions {
+  status?: ReviewStatus;
+  jobId?: string;
+  limit?: number;
+}
+
+export class ReviewQueue {
+  constructor(private client: SupabaseClient) {}
+
+  /**
+   * Queue the flagged pages and inscriptions of a job
+   * Pending items of a previous OCR run are replaced; resolved items are kept
+   */
+  async enqueue(
+    jobId: string,
+    result: SanitizedOCRResult,
+    report: ValidationReport,
+    confidenceThreshold: number
+  ): Promise<number> {
+    const candidates = findReviewCandidates(result, report, confidenceThreshold);
+
+    const { error: deleteError } = await this.client
+      .from('ocr_review_items')
+      .delete()
+      .eq('job_id', jobId)
+      .eq('status', 'pending');
+
+    if (deleteError) {
+      throw new Error(`Failed to clear pending review items: ${deleteError.message}`);
+    }
+
+    if (candidates.length === 0) {
+      return 0;
+    }
+
+    const { error } = await this.client
+      .from('ocr_review_items')
+      .upsert(
+        candidates.map(candidate => ({ job_id: jobId, status: 'pending', ...candidate })),
+        { onConflict: 'job_id,page_number,line_number', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      throw new Error(`Failed to queue review items: ${error.message}`);
+    }
+
+    logger.info({ jobId, count: candidates.length, confidenceThreshold }, '🔎 Queued OCR items for review');
+
+    return candidates.length;
+  }
+
+  /**
+   * List review items, oldest first
+   */
+  async list(options: ReviewListOptions = {}): Promise<ReviewItem[]> {
+    let query = this.client
+      .from('ocr_review_items')
+      .select('*')
+      .order('created_at', { ascending: true })
+      .order('page_number', { ascending: true })
+      .order('line_number', { ascending: true })
+      .limit(options.limit || 50);
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+    if (options.jobId) {
+      query = query.eq('job_id', options.jobId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list review items: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get a review item, throwing a 404 ReviewError when it does not exist
+   */
+  async get(id: string): Promise<ReviewItem> {
+    const { data, error } = await this.client
+      .from('ocr_review_items')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get review item: ${error.message}`);
+    }
+    if (!data) {
+      throw new ReviewError('Review item not found', 404);
+    }
+
+    return data;
+  }
+
+  /**
+   * Current authoritative result of a job: the latest reviewed revision, or the
+   * machine output when nothing was reviewed yet
+   */
+  async getCurrentResult(jobId: string): Promise<SanitizedOCRResult> {
+    const { data, error } = await this.client
+      .from('extraction_queue')
+      .select('sanitized_content, reviewed_content')
+      .eq('id', jobId)
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to load OCR result: ${error?.message || 'job not found'}`);
+    }
+
+    const result = data.reviewed_content || data.sanitized_content;
+    if (!result) {
+      throw new ReviewError('Job has no sanitized OCR result', 409);
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply a reviewer correction and store it as a new revision
+   */
+  async submitCorrection(
+    id: string,
+    correction: ReviewCorrection
+  ): Promise<{ item: ReviewItem; revision: OCRResultRevision }> {
+    const item = await this.get(id);
+    if (item.status === 'resolved') {
+      throw new ReviewError('Review item is already resolved', 409);
+    }
+
+    const current = await this.getCurrentResult(item.job_id);
+    const revised = applyCorrection(current, item, correction);
+    const reviewedAt = new Date().toISOString();
+
+    const revision = await this.saveRevision(item.job_id, revised, correction.reviewer, 'review', correction.note || null);
+
+    const { error: jobError } = await this.client
+      .from('extraction_queue')
+      .update({
+        reviewed_content: revised,
+        reviewed_by: correction.reviewer,
+        reviewed_at: reviewedAt,
+      })
+      .eq('id', item.job_id);
+
+    if (jobError) {
+      throw new Error(`Failed to update reviewed content: ${jobError.message}`);
+    }
+
+    // Keep the queryable inscription rows and party mentions in line with the authoritative result
+    await saveInscriptions(this.client, item.job_id, revised);
+    await this.reindexParties(item.job_id, revised);
+
+    const { data: updated, error: itemError } = await this.client
+      .from('ocr_review_items')
+      .update({
+        status: 'resolved',
+        correction,
+        reviewed_by: correction.reviewer,
+        reviewed_at: reviewedAt,
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (itemError) {
+      throw new Error(`Failed to resolve review item: ${itemError.message}`);
+    }
+    if (!updated) {
+      throw new ReviewError('Review item was resolved by another correction', 409);
+    }
+
+    logger.info({
+      reviewItemId: id,
+      jobId: item.job_id,
+      revision: revision.revision,
+      reviewer: correction.reviewer,
+    }, '✅ OCR review correction applied');
+
+    return { item: updated, revision };
+  }
+
+  /**
+   * Render the page of a review item from the stored PDF
+   */
+  async renderPageImage(item: ReviewItem, tempDir: string): Promise<{ image: Buffer; mimeType: string }> {
+    const { data: job, error } = await this.client
+      .from('extraction_queue')
+      .select('id, supabase_path, document_source')
+      .eq('id', item.job_id)
+      .single();
+
+    if (error || !job) {
+      throw new Error(`Failed to load job: ${error?.message || 'job not found'}`);
+    }
+
+    const converter = new PDFConverter(tempDir);
+    const pdfPath = await downloadJobPDF(this.client, { ...job, id: `review-${item.id}` }, tempDir);
+
+    try {
+      const page = await converter.convertPageToImage(pdfPath, item.page_number, { dpi: 150, format: 'png' });
+      await converter.cleanup(page.imagePath);
+      return { image: Buffer.from(page.base64Data, 'base64'), mimeType: page.mimeType };
+    } finally {
+      await fs.unlink(pdfPath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Re-resolve the parties of a reviewed result; a failure does not undo the correction
+   */
+  private async reindexParties(jobId: string, result: SanitizedOCRResult): Promise<void> {
+    try {
+      const { data: job, error } = await this.client
+        .from('extraction_queue')
+        .select('id, document_source, document_number, circonscription_fonciere, cadastre')
+        .eq('id', jobId)
+        .single();
+
+      if (error || !job) {
+        throw new Error(error?.message || 'job not found');
+      }
+
+      await new PartyResolver(this.client).indexJob(job, result, null);
+    } catch (error) {
+      logger.warn({ jobId, error: error instanceof Error ? error.message : error }, 'Failed to re-index parties of reviewed result');
+    }
+  }
+
+  /**
+   * Revisions of a job's result, oldest first
+   */
+  async listRevisions(jobId: string): Promise<OCRResultRevision[]> {
+    const { data, error } = await this.client
+      .from('ocr_result_revisions')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('revision', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list OCR result revisions: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Store a new numbered revision of a job's result
+   */
+  async saveRevision(
+    jobId: string,
+    content: SanitizedOCRResult | null,
+    createdBy: string,
+    source: string,
+    note: string | null,
+    ocrOutput: OCROutputSnapshot | null = null
+  ): Promise<OCRResultRevision> {
+    // The database numbers the revision, so concurrent saves never share a number
+    const { data, error } = await this.client
+      .rpc('save_ocr_result_revision', {
+        p_job_id: jobId,
+        p_content: content,
+        p_created_by: createdBy,
+        p_source: source,
+        p_note: note,
+        p_ocr_output: ocrOutput,
+      })
+      .single<OCRResultRevision>();
+
+    if (error) {
+      throw new Error(`Failed to save OCR result revision: ${error.message}`);
+    }
+
+    return data;
+  }
+}
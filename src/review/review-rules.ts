@@ -0,0 +1,153 @@
+/**
+ * Review Rules
+ * Decides which pages and inscriptions of a SanitizedOCRResult need a human
+ * reviewer, and applies reviewer corrections to produce a new revision
+ */
+
+import {
+  SanitizedOCRResult,
+  Inscription,
+  ReviewCandidate,
+  ReviewReason,
+  ReviewCorrection,
+  ValidationReport,
+} from '../types';
+
+/**
+ * Error raised for review requests that cannot be applied (unknown item,
+ * correction not matching the item, ...)
+ */
+export class ReviewError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+/**
+ * Find the pages and inscriptions that need review
+ * - inscriptions whose lowest field confidence is under the threshold
+ * - pages and inscriptions with error-severity validation issues
+ */
+export function findReviewCandidates(
+  result: SanitizedOCRResult,
+  report: ValidationReport,
+  confidenceThreshold: number
+): ReviewCandidate[] {
+  const reasonsByItem = new Map<string, Set<ReviewReason>>();
+  const addReason = (pageNumber: number, lineNumber: number, reason: ReviewReason) => {
+    const key = `${pageNumber}:${lineNumber}`;
+    if (!reasonsByItem.has(key)) {
+      reasonsByItem.set(key, new Set());
+    }
+    reasonsByItem.get(key)!.add(reason);
+  };
+
+  for (const page of result.pages) {
+    for (const inscription of page.inscriptions) {
+      if (inscription.min_confidence !== null && inscription.min_confidence < confidenceThreshold) {
+        addReason(page.pageNumber, inscription.line_number, 'low_confidence');
+      }
+    }
+  }
+
+  for (const issue of report.issues) {
+    if (issue.severity === 'error') {
+      addReason(issue.page_number, issue.line_number ?? 0, issue.code);
+    }
+  }
+
+  const candidates: ReviewCandidate[] = [];
+
+  for (const page of result.pages) {
+    const pageReasons = reasonsByItem.get(`${page.pageNumber}:0`);
+    if (pageReasons) {
+      candidates.push({
+        page_number: page.pageNumber,
+        line_number: 0,
+        reasons: Array.from(pageReasons),
+        min_confidence: null,
+        inscription: null,
+      });
+    }
+
+    for (const inscription of page.inscriptions) {
+      const reasons = reasonsByItem.get(`${page.pageNumber}:${inscription.line_number}`);
+      if (reasons) {
+        candidates.push({
+          page_number: page.pageNumber,
+          line_number: inscription.line_number,
+          reasons: Array.from(reasons),
+          min_confidence: inscription.min_confidence,
+          inscription,
+        });
+      }
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Apply a reviewer correction to a copy of the result
+ * Inscription items take `fields`, page items take the full `inscriptions` list
+ */
+export function applyCorrection(
+  result: SanitizedOCRResult,
+  item: { page_number: number; line_number: number },
+  correction: ReviewCorrection
+): SanitizedOCRResult {
+  const revised: SanitizedOCRResult = JSON.parse(JSON.stringify(result));
+  const page = revised.pages.find(p => p.pageNumber === item.page_number);
+
+  if (!page) {
+    throw new ReviewError(`Page ${item.page_number} not found in OCR result`);
+  }
+
+  if (correction.inscriptions) {
+    page.inscriptions = correction.inscriptions.map(input => ({
+      ...emptyInscription(input.line_number),
+      ...input,
+    }));
+  }
+
+  if (correction.fields) {
+    if (item.line_number === 0) {
+      throw new ReviewError('Field corrections require an inscription item; use inscriptions for page items');
+    }
+
+    const inscription = page.inscriptions.find(i => i.line_number === item.line_number);
+    if (!inscription) {
+      throw new ReviewError(`Line ${item.line_number} not found on page ${item.page_number}`);
+    }
+
+    Object.assign(inscription, correction.fields);
+  }
+
+  return revised;
+}
+
+/**
+ * Inscription entered by a reviewer - no OCR candidates or confidence
+ */
+function emptyInscription(lineNumber: number): Inscription {
+  return {
+    line_number: lineNumber,
+    acte_publication_date: null,
+    acte_publication_number: null,
+    acte_nature: null,
+    parties: [],
+    remarques: null,
+    radiation_number: null,
+    candidates: {
+      acte_publication_date: [],
+      acte_publication_number: [],
+      acte_nature: [],
+      party_roles: [],
+      party_names: [],
+      remarques: [],
+      radiation_number: [],
+    },
+    min_confidence: null,
+  };
+}
@@ -0,0 +1,205 @@
+#!/usr/bin/env ts-node
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { createOCRProviders, OCRProviderName } from '../ocr/ocr-providers';
+import { PDFConverter } from '../ocr/pdf-converter';
+import { getPrompt, versionPrompt, listPrompts, PromptDocumentType, PromptStage, VersionedPrompt } from '../ocr/prompt-registry';
+import { loadGoldenSet, evaluateCase, ResponseRecorder, GoldenCaseResult } from '../ocr/golden-set';
+import { FieldCountMap, mergeCounts, summarizeCounts, EvaluationSummary } from '../ocr/evaluation';
+
+/**
+ * Script to evaluate OCR prompts and models against the golden set
+ *
+ * Runs the OCR stages over every golden document with recorded provider responses
+ * (no network) and reports field-level precision/recall per document type.
+ * Candidate prompts and models are recorded once with --record.
+ *
+ * Usage:
+ *   npx tsx src/scripts/eval-ocr.ts
+ *   npx tsx src/scripts/eval-ocr.ts --type=index --prompt=index.boost=./boost-v2.txt
+ *   npx tsx src/scripts/eval-ocr.ts --type=acte --boost-model=gemini-2.5-flash --record
+ *   npx tsx src/scripts/eval-ocr.ts --structured --json=eval-report.json
+ */
+
+interface EvalOptions {
+  goldenDir: string;
+  documentType?: PromptDocumentType;
+  provider: OCRProviderName;
+  extractModel?: string;
+  boostModel?: string;
+  /** Candidate prompt files by prompt name ("index.boost") */
+  promptFiles: Record<string, string>;
+  structured: boolean;
+  record: boolean;
+  jsonPath?: string;
+}
+
+interface TypeReport {
+  documentType: PromptDocumentType;
+  prompts: Record<string, string>;
+  models: { extract: string; boost: string };
+  summary: EvaluationSummary;
+  failures: Array<{ id: string; error: string }>;
+}
+
+async function evalOCR(options: EvalOptions) {
+  try {
+    logger.info('='.repeat(60));
+    logger.info('🧪 OCR GOLDEN-SET EVALUATION');
+    logger.info('='.repeat(60));
+
+    const cases = await loadGoldenSet(options.goldenDir, options.documentType);
+    if (cases.length === 0) {
+      throw new Error(`No golden cases found in ${options.goldenDir}`);
+    }
+
+    // Providers are only called when recording
+    const tempDir = path.join(os.tmpdir(), 'ocr-eval');
+    const provider = options.record
+      ? createOCRProviders({
+        preferredProvider: options.provider,
+        geminiApiKey: config.ocr.geminiApiKey,
+        claudeApiKey: config.ocr.claudeApiKey,
+        tempDir,
+      }).find(p => p.name === options.provider) || null
+      : null;
+
+    if (options.record && !provider) {
+      throw new Error(`API key of ${options.provider} is required to record responses`);
+    }
+    if (options.record) {
+      await fs.mkdir(tempDir, { recursive: true });
+    }
+
+    const reports: TypeReport[] = [];
+
+    for (const documentType of ['index', 'acte'] as PromptDocumentType[]) {
+      const typeCases = cases.filter(c => c.documentType === documentType);
+      if (typeCases.length === 0) {
+        continue;
+      }
+
+      const prompts = {
+        extract: await resolvePrompt(documentType, 'extract', options),
+        boost: await resolvePrompt(documentType, 'boost', options),
+        structure: options.structured && documentType === 'index'
+          ? await resolvePrompt(documentType, 'structure', options)
+          : undefined,
+      };
+      const settings = documentType === 'acte' ? config.ocr.acte : config.ocr;
+      const models = {
+        extract: { model: options.extractModel || settings.extractModel[options.provider], temperature: settings.extractTemperature },
+        boost: { model: options.boostModel || settings.boostModel[options.provider], temperature: settings.boostTemperature },
+      };
+
+      const results: GoldenCaseResult[] = [];
+      for (const goldenCase of typeCases) {
+        const result = await evaluateCase(goldenCase, {
+          prompts,
+          models,
+          provider,
+          pdfConverter: provider ? new PDFConverter(tempDir) : undefined,
+          recorder: await ResponseRecorder.open(goldenCase.recordingsPath, options.record),
+        });
+        results.push(result);
+        logger.info(`   ${result.error ? '❌' : '✅'} ${documentType}/${result.id}${result.error ? ` - ${result.error}` : ''}`);
+      }
+
+      const scored = results.filter((r): r is GoldenCaseResult & { counts: FieldCountMap } => r.counts !== null);
+      reports.push({
+        documentType,
+        prompts: Object.fromEntries(
+          Object.entries(prompts)
+            .filter((entry): entry is [string, VersionedPrompt] => !!entry[1])
+            .map(([stage, prompt]) => [stage, prompt.id])
+        ),
+        models: { extract: models.extract.model, boost: models.boost.model },
+        summary: summarizeCounts(scored.reduce((total, r) => mergeCounts(total, r.counts), {} as FieldCountMap), scored.length),
+        failures: results.filter(r => r.error).map(r => ({ id: r.id, error: r.error! })),
+      });
+    }
+
+    for (const report of reports) {
+      printReport(report);
+    }
+
+    if (options.jsonPath) {
+      await fs.writeFile(options.jsonPath, JSON.stringify(reports, null, 2) + '\n');
+      logger.info(`   Report written to ${options.jsonPath}`);
+    }
+
+  } catch (error) {
+    logger.error({ error }, '❌ OCR evaluation failed');
+    process.exit(1);
+  }
+}
+
+/**
+ * Registered prompt, or the candidate file given with --prompt=<name>=<file>
+ */
+async function resolvePrompt(documentType: PromptDocumentType, stage: PromptStage, options: EvalOptions): Promise<VersionedPrompt> {
+  const name = `${documentType}.${stage}`;
+  const file = options.promptFiles[name];
+
+  if (!file) {
+    return getPrompt(documentType, stage);
+  }
+  return versionPrompt(name, `candidate-${path.basename(file, path.extname(file))}`, await fs.readFile(file, 'utf-8'));
+}
+
+function printReport(report: TypeReport) {
+  const percent = (value: number | null) => value === null ? '   -  ' : `${(value * 100).toFixed(1).padStart(5)}%`;
+
+  logger.info('');
+  logger.info('='.repeat(60));
+  logger.info(`📊 ${report.documentType.toUpperCase()} - ${report.summary.documents} document(s)`);
+  logger.info('='.repeat(60));
+  for (const [stage, id] of Object.entries(report.prompts)) {
+    logger.info(`   Prompt ${stage}: ${id}`);
+  }
+  logger.info(`   Models: extract ${report.models.extract}, boost ${report.models.boost}`);
+  logger.info('');
+  logger.info(`   ${'Field'.padEnd(26)} Precision  Recall    TP    FP    FN`);
+  for (const score of [...report.summary.fields, report.summary.overall]) {
+    logger.info(`   ${score.field.padEnd(26)} ${percent(score.precision)}    ${percent(score.recall)}  ${String(score.true_positives).padStart(4)}  ${String(score.false_positives).padStart(4)}  ${String(score.false_negatives).padStart(4)}`);
+  }
+  if (report.failures.length > 0) {
+    logger.info('');
+    logger.info(`   ⚠️  ${report.failures.length} document(s) not scored`);
+  }
+  logger.info('');
+}
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const argValue = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+
+const promptFiles: Record<string, string> = {};
+for (const arg of args.filter(a => a.startsWith('--prompt='))) {
+  const [name, file] = arg.substring('--prompt='.length).split('=');
+  if (!listPrompts().includes(name) || !file) {
+    logger.error(`Invalid --prompt (expected <name>=<file>, name in ${listPrompts().join(', ')}): ${arg}`);
+    process.exit(1);
+  }
+  promptFiles[name] = file;
+}
+
+const options: EvalOptions = {
+  goldenDir: argValue('golden') || path.join(process.cwd(), 'eval', 'golden'),
+  documentType: argValue('type') as PromptDocumentType | undefined,
+  provider: (argValue('provider') || config.ocr.preferredProvider) as OCRProviderName,
+  extractModel: argValue('extract-model'),
+  boostModel: argValue('boost-model'),
+  promptFiles,
+  structured: args.includes('--structured'),
+  record: args.includes('--record'),
+  jsonPath: argValue('json'),
+};
+
+// Run the script
+evalOCR(options).then(() => {
+  process.exit(0);
+});
@@ -0,0 +1,94 @@
+#!/usr/bin/env ts-node
+import { supabaseManager, EnvironmentName } from '../utils/supabase';
+import { EXTRACTION_STATUS } from '../types';
+import { logger } from '../utils/logger';
+import { PartyResolver } from '../analysis/party-resolver';
+
+/**
+ * Script to resolve the parties of every OCR'd job of an environment
+ *
+ * New OCR results are indexed by the OCR worker; this backfills party ids and
+ * mentions for jobs completed before party resolution existed.
+ *
+ * Usage:
+ *   npx tsx src/scripts/index-parties.ts --environment=dev
+ *   npx tsx src/scripts/index-parties.ts --environment=prod --dry-run
+ */
+
+interface IndexPartiesOptions {
+  environment: EnvironmentName;
+  dryRun: boolean;
+}
+
+const BATCH_SIZE = 100;
+
+async function indexParties(options: IndexPartiesOptions) {
+  try {
+    logger.info('='.repeat(60));
+    logger.info(`👥 INDEX PARTIES SCRIPT (${options.environment})`);
+    logger.info('='.repeat(60));
+
+    const client = supabaseManager.getServiceClient(options.environment);
+    if (!client) {
+      throw new Error(`Environment ${options.environment} is not configured`);
+    }
+
+    const resolver = new PartyResolver(client);
+    let offset = 0;
+    let jobs = 0;
+    let mentions = 0;
+
+    for (;;) {
+      const { data, error } = await client
+        .from('extraction_queue')
+        .select('id, document_source, document_number, circonscription_fonciere, cadastre, sanitized_content, reviewed_content, acte_parsed_content')
+        .eq('status_id', EXTRACTION_STATUS.EXTRACTION_COMPLETE)
+        .or('sanitized_content.not.is.null,acte_parsed_content.not.is.null')
+        .order('created_at', { ascending: true })
+        .range(offset, offset + BATCH_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to query OCR'd jobs: ${error.message}`);
+      }
+      if (!data || data.length === 0) {
+        break;
+      }
+
+      for (const job of data) {
+        jobs++;
+        if (options.dryRun) {
+          continue;
+        }
+        mentions += await resolver.indexJob(job, job.reviewed_content || job.sanitized_content, job.acte_parsed_content);
+      }
+
+      logger.info(`   Processed ${jobs} jobs...`);
+      offset += BATCH_SIZE;
+    }
+
+    logger.info('');
+    logger.info('='.repeat(60));
+    logger.info(options.dryRun ? '🔍 DRY RUN - no parties indexed' : '✅ PARTIES INDEXED');
+    logger.info('='.repeat(60));
+    logger.info(`   Jobs: ${jobs}`);
+    logger.info(`   Mentions: ${mentions}`);
+    logger.info('');
+
+  } catch (error) {
+    logger.error({ error }, '❌ Failed to index parties');
+    process.exit(1);
+  }
+}
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const environmentArg = args.find(arg => arg.startsWith('--environment='));
+const options: IndexPartiesOptions = {
+  environment: (environmentArg?.split('=')[1] || 'dev') as EnvironmentName,
+  dryRun: args.includes('--dry-run'),
+};
+
+// Run the script
+indexParties(options).then(() => {
+  process.exit(0);
+});
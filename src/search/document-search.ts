@@ -0,0 +1,54 @@
+/**
+ * Document Search
+ * Full-text and structured search over OCR'd documents, backed by the
+ * search_documents Postgres function (see migration 017); searchable_file_content
+ * is filled from boosted_file_content by a trigger (see migration 029)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../utils/logger';
+import { foldAccents } from '../utils/text';
+import { DocumentSearchQuery, DocumentSearchHit, DocumentSearchResult } from '../types';
+import { normalizePartyName } from '../analysis/party-names';
+
+const DEFAULT_LIMIT = 20;
+
+export class DocumentSearch {
+  constructor(private client: SupabaseClient) {}
+
+  async search(query: DocumentSearchQuery): Promise<DocumentSearchResult> {
+    const limit = query.limit || DEFAULT_LIMIT;
+    const offset = query.offset || 0;
+
+    const { data, error } = await this.client.rpc('search_documents', {
+      p_query: query.q ? foldAccents(query.q) : null,
+      p_document_source: query.document_source || null,
+      p_nature: query.nature || null,
+      // Resolved parties match every spelling of the name, the raw name catches the others
+      p_party_key: query.party ? normalizePartyName(query.party).key : null,
+      p_party_name: query.party || null,
+      p_date_from: query.date_from || null,
+      p_date_to: query.date_to || null,
+      p_circonscription: query.circonscription || null,
+      p_cadastre: query.cadastre || null,
+      p_limit: limit,
+      p_offset: offset,
+    });
+
+    if (error) {
+      throw new Error(`Failed to search documents: ${error.message}`);
+    }
+
+    const rows: Array<DocumentSearchHit & { total_count: number }> = data || [];
+    const total = rows.length > 0 ? Number(rows[0].total_count) : 0;
+
+    logger.debug({ query, total }, '🔎 Document search');
+
+    return {
+      total,
+      limit,
+      offset,
+      hits: rows.map(({ total_count: _total, ...hit }) => hit),
+    };
+  }
+}
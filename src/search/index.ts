@@ -0,0 +1,7 @@
+/**
+ * Document Search Module
+ * Full-text and structured search over OCR'd documents
+ */
+
+export { DocumentSearch } from './document-search';
+export { foldAccents } from '../utils/text';
@@ -0,0 +1,226 @@
+/**
+ * TypeScript types for title analysis
+ * Results computed from the sanitized index of a lot (état des droits, chain of title)
+ * and parties resolved across documents
+ */
+
+import type { Party, ParsedActe } from './ocr';
+
+/**
+ * Kind of right or charge published on a lot
+ */
+export type ChargeCategory =
+  | 'hypotheque'
+  | 'servitude'
+  | 'bail'
+  | 'droit_reel'
+  | 'avis';
+
+/**
+ * Status of a charge once radiations and transfers are applied
+ * - active: nothing radiates or transfers it
+ * - partially_radiated: only partial radiations (e.g., quittance partielle) apply
+ * - transferred: still in force, held by a new holder (cession, transport)
+ * - radiated: fully radiated
+ */
+export type ChargeStatus = 'active' | 'partially_radiated' | 'transferred' | 'radiated';
+
+/**
+ * How a charge was affected by another inscription
+ */
+export type ChargeEventType = 'radiation' | 'partial_radiation' | 'transfer';
+
+/**
+ * Where the link between a charge and the affecting inscription was found
+ * - radiation_column: radiation number written on the charge line
+ * - reference: the affecting inscription references the charge number
+ */
+export type ChargeLinkSource = 'radiation_column' | 'reference';
+
+/**
+ * Radiation or transfer applied to a charge
+ */
+export interface ChargeEvent {
+  type: ChargeEventType;
+  source: ChargeLinkSource;
+  /** Publication number of the affecting inscription */
+  publication_number: string;
+  /** Date and nature of the affecting inscription, null when it is not on the index */
+  publication_date: string | null;
+  acte_nature: string | null;
+  /** Position of the affecting inscription on the index, null when it is not on the index */
+  page_number: number | null;
+  line_number: number | null;
+}
+
+/**
+ * A charge published on the lot with its computed status
+ */
+export interface ChargeEntry {
+  publication_number: string | null;
+  publication_date: string | null;
+  acte_nature: string | null;
+  category: ChargeCategory;
+  status: ChargeStatus;
+  parties: Party[];
+  page_number: number;
+  line_number: number;
+  events: ChargeEvent[];
+}
+
+/**
+ * Radiating or transferring inscription whose target charge is not on the index
+ */
+export interface UnlinkedInscription {
+  publication_number: string | null;
+  publication_date: string | null;
+  acte_nature: string | null;
+  /** Referenced numbers that did not match a charge */
+  references: string[];
+  page_number: number;
+  line_number: number;
+}
+
+/**
+ * État des droits of a lot: the charges of its index and whether they are still in force
+ */
+export interface EtatDesDroits {
+  lot_number: string | null;
+  circonscription: string | null;
+  cadastre: string | null;
+  /** Charges in chronological order */
+  charges: ChargeEntry[];
+  /** Charges still in force (active, partially radiated or transferred) */
+  in_force_count: number;
+  counts: Record<ChargeStatus, number>;
+  unlinked: UnlinkedInscription[];
+  generated_at: string;
+}
+
+/**
+ * Acte extraction linked to a transfer inscription of the index
+ */
+export interface LinkedActe {
+  job_id: string;
+  status_id: number;
+  /** Typed deed fields, null until the acte OCR completed */
+  parsed: ParsedActe | null;
+}
+
+/**
+ * Party of a transfer, on the granting (previous owner) or receiving (new owner) side
+ */
+export interface TitleParty {
+  name: string;
+  role: string;
+  side: 'grantor' | 'grantee' | 'unknown';
+}
+
+/**
+ * Ownership transfer of the chain of title (vente, donation, testament, ...)
+ */
+export interface TitleTransfer {
+  publication_number: string | null;
+  publication_date: string | null;
+  acte_nature: string | null;
+  page_number: number;
+  line_number: number;
+  /** Where the parties were read from: the extracted acte when available, else the index line */
+  parties_source: 'acte' | 'index';
+  parties: TitleParty[];
+  acte: LinkedActe | null;
+}
+
+export type TitleGapType = 'owner_mismatch' | 'missing_parties' | 'missing_date';
+
+/**
+ * Break in the chain of title, between a transfer and the previous one
+ */
+export interface TitleGap {
+  type: TitleGapType;
+  message: string;
+  /** Publication number of the transfer the gap was found at */
+  publication_number: string | null;
+  /** Publication number of the previous transfer, null for the first one */
+  previous_publication_number: string | null;
+}
+
+/**
+ * Owner node of the chain-of-title graph
+ */
+export interface TitleGraphNode {
+  /** Normalized name key */
+  id: string;
+  name: string;
+}
+
+/**
+ * Transfer edge of the chain-of-title graph, from a grantor to a grantee
+ */
+export interface TitleGraphEdge {
+  from: string;
+  to: string;
+  publication_number: string | null;
+  publication_date: string | null;
+  acte_nature: string | null;
+}
+
+/**
+ * Ordered ownership history of a lot
+ */
+export interface ChainOfTitle {
+  lot_number: string | null;
+  circonscription: string | null;
+  cadastre: string | null;
+  /** Transfers in chronological order */
+  transfers: TitleTransfer[];
+  graph: {
+    nodes: TitleGraphNode[];
+    edges: TitleGraphEdge[];
+  };
+  gaps: TitleGap[];
+  /** Grantees of the latest transfer */
+  current_owners: string[];
+  generated_at: string;
+}
+
+/**
+ * Row of the parties table - one resolved person or company per environment
+ */
+export interface PartyRecord {
+  id: string;
+  /** Normalized name key of the first name resolved to this party */
+  name_key: string;
+  display_name: string;
+  kind: 'person' | 'company';
+  /** Numéro d'entreprise du Québec, when matched in req_companies */
+  neq: string | null;
+  /** Other name keys resolved to this party (spelling variants, NEQ matches) */
+  alias_keys: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Row of the party_mentions table - a party appearing on an inscription or acte
+ */
+export interface PartyMention {
+  id: string;
+  party_id: string;
+  job_id: string;
+  document_source: 'acte' | 'index' | 'plan_cadastraux';
+  raw_name: string;
+  role: string;
+  /** Normalized role, for role queries ("creancier") */
+  role_key: string;
+  lot_number: string | null;
+  circonscription: string | null;
+  cadastre: string | null;
+  acte_publication_number: string | null;
+  acte_publication_date: string | null;
+  acte_nature: string | null;
+  /** Position on the index, null for actes */
+  page_number: number | null;
+  line_number: number | null;
+  created_at: string;
+}
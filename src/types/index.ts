@@ -1,3 +1,5 @@
+import type { SanitizedOCRResult, ParsedActe, ParsedPlan, ValidationReport, OCROverrides } from './ocr';
+
 export interface ExtractionJob {
   id: string;
   document_type: 'index' | 'actes' | 'plans_cadastraux';
@@ -34,6 +36,7 @@ export interface ExtractionQueueJob {
   designation_secondaire?: string;
   acte_type?: 'Acte' | 'Avis d\'adresse' | 'Radiation' | 'Acte divers';
   status_id?: number; // 1='En attente', 2='En traitement', 3='Complété', 4='Erreur', 5='Extraction Complété', 6='OCR en traitement'
+  priority?: number; // Claim order, higher first, then oldest (JOB_PRIORITY levels: low -4, normal 0, high 4, rush 100)
   worker_id?: string;
   attemtps?: number; // Note: typo in database column name
   max_attempts?: number;
@@ -42,7 +45,7 @@ export interface ExtractionQueueJob {
   error_message?: string;
   file_content?: string; // Raw OCR text (unprocessed)
   boosted_file_content?: string; // Enhanced OCR text (with corrections applied)
-  searchable_file_content?: string;
+  searchable_file_content?: string; // Boosted text folded for search (set by a database trigger)
   claude_file_id?: string;
   file_id_active?: boolean;
   created_at: string;
@@ -56,6 +59,54 @@ export interface ExtractionQueueJob {
   ocr_max_attempts?: number;
   ocr_error?: string;
   ocr_last_error_at?: string;
+  ocr_provider?: string; // Provider(s) that produced file_content, comma-separated for mixed index pages
+  ocr_model?: string; // Model(s) that produced file_content
+  ocr_boost_provider?: 'gemini' | 'claude' | 'tesseract'; // Provider that produced boosted_file_content
+  ocr_boost_applied?: boolean | null; // False when boosted_file_content is the raw text (Tesseract cannot apply the boost rules)
+  ocr_boost_model?: string; // Model that produced boosted_file_content
+  sanitized_content?: SanitizedOCRResult | null; // Structured JSON of boosted_file_content (index only)
+  acte_parsed_content?: ParsedActe | null; // Typed deed fields parsed from boosted_file_content (acte only)
+  plan_parsed_content?: ParsedPlan | null; // Title block parsed from boosted_file_content (plan_cadastraux only)
+  ocr_validation?: ValidationReport | null; // Validation rules report of sanitized_content (index) or plan_parsed_content (plan)
+  ocr_prompt_versions?: Record<string, string> | null; // Prompt ids per OCR stage (extract, boost, structure)
+  ocr_sanitization_error?: string | null; // Set when boosted_file_content could not be sanitized or parsed
+  ocr_force_refresh?: boolean; // Bypass the OCR cache for the next OCR run (cleared on completion)
+  ocr_overrides?: OCROverrides | null; // Provider, model, temperature and prompt versions of a pending OCR re-run (cleared on completion)
+  reviewed_content?: SanitizedOCRResult | null; // Latest reviewer-corrected revision of sanitized_content
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  follow_references?: FollowReferencesOptions | null; // Enqueue the actes referenced by this index once OCR'd (NULL = off)
+  followed_references?: FollowedReferences | null; // Outcome of follow_references
+  parent_job_id?: string | null; // Index job this acte job was enqueued from
+}
+
+/**
+ * Filters of the "follow references" mode of index jobs
+ * An inscription is followed when it matches every filter that is set
+ */
+export interface FollowReferencesOptions {
+  /** Acte natures to follow, matched ignoring case and accents (e.g., ["vente", "hypotheque"]) */
+  natures?: string[];
+  /** Publication date range, inclusive (YYYY-MM-DD) */
+  date_from?: string;
+  date_to?: string;
+  /** Skip radiated charges and the actes that radiated them */
+  active_only?: boolean;
+}
+
+/**
+ * Acte jobs of an index bundle, stored on the parent job
+ */
+export interface FollowedReferences {
+  followed_at: string;
+  /** Publication numbers kept by the filters */
+  referenced: number;
+  /** Acte jobs created for this index */
+  created: number;
+  /** Publication numbers that already had an acte job */
+  existing: number;
+  /** Created and existing acte job ids */
+  job_ids: string[];
 }
 
 // Status mapping constants for easy reference
@@ -74,7 +125,11 @@ export interface WorkerAccount {
   password: string;
   is_active: boolean;
   last_used?: string;
-  failure_count: number;
+  failure_count: number; // Consecutive login failures
+  leased_by?: string | null; // Worker holding the account
+  lease_expires_at?: string | null;
+  cooldown_until?: string | null; // Not leased before this time after a login failure
+  last_error?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -141,4 +196,16 @@ export class DataValidationError extends Error {
 }
 
 // Export OCR sanitization types
-export * from './ocr';
\ No newline at end of file
+export * from './ocr';
+
+// Export OCR review types
+export * from './review';
+
+// Export title analysis types
+export * from './analysis';
+
+// Export document search types
+export * from './search';
+
+// Export model usage and cost types
+export * from './usage';
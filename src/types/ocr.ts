@@ -13,10 +13,41 @@ export interface Party {
   role: string;
 }
 
+/**
+ * A candidate reading of an OCR field, as proposed by the boost output
+ * ("Option 1: VALUE (Confiance: XX%)")
+ */
+export interface FieldCandidate {
+  /** Candidate value (null for [Vide]) */
+  value: string | null;
+  /** Confidence in percent (0-100), null when the OCR output gave none */
+  confidence: number | null;
+}
+
+/**
+ * Inscription fields that carry OCR candidates
+ */
+export type InscriptionCandidateField =
+  | 'acte_publication_date'
+  | 'acte_publication_number'
+  | 'acte_nature'
+  | 'party_roles'
+  | 'party_names'
+  | 'remarques'
+  | 'radiation_number';
+
+/**
+ * Candidates of each field, ranked by decreasing confidence
+ * The first candidate is the value used for the inscription field
+ */
+export type InscriptionCandidates = Record<InscriptionCandidateField, FieldCandidate[]>;
+
 /**
  * A single inscription (line item) from a land registry document
  */
 export interface Inscription {
+  /** Line number on the page, as numbered by the OCR output ("Ligne X:") */
+  line_number: number;
   /** Date of publication/presentation (format: YYYY-MM-DD or as extracted) */
   acte_publication_date: string | null;
   /** Publication/registration number */
@@ -29,6 +60,10 @@ export interface Inscription {
   remarques: string | null;
   /** Radiation/cancellation number if applicable */
   radiation_number: string | null;
+  /** Ranked candidates with confidence for each field */
+  candidates: InscriptionCandidates;
+  /** Lowest confidence among the selected field values, null when no confidence was reported */
+  min_confidence: number | null;
 }
 
 /**
@@ -64,3 +99,147 @@ export interface SanitizedOCRResult {
   pages: PageResult[];
 }
 
+/**
+ * Party to an acte (deed)
+ */
+export interface ActeParty {
+  /** Full name as written in the acte */
+  name: string;
+  /** Legal capacity (e.g., "Vendeur", "Acheteur", "Créancier", "Débiteur"), empty when not stated */
+  role: string;
+  /** Address of the party when stated */
+  address: string | null;
+}
+
+/**
+ * Lot concerned by an acte
+ */
+export interface ActeLot {
+  /** Lot number (e.g., "1 234 567") */
+  lot_number: string;
+  /** Cadastre/survey area */
+  cadastre: string | null;
+  /** Land registry office/district */
+  circonscription: string | null;
+}
+
+/**
+ * Consideration (price) stated in an acte
+ */
+export interface ActeConsideration {
+  /** Amount in dollars */
+  amount: number;
+  /** Amount as written (e.g., "250 000,00 $") */
+  text: string;
+}
+
+/**
+ * Structured fields of an acte, parsed from the boosted OCR text
+ */
+export interface ParsedActe {
+  /** Inscription (publication) number, digits only (e.g., "12345678") */
+  inscription_number: string | null;
+  /** Registration date (YYYY-MM-DD) */
+  registration_date: string | null;
+  /** Bureau de la publicité des droits (registry office) */
+  bureau_publicite: string | null;
+  /** Nature of the acte (e.g., "Vente", "Hypothèque", "Quittance") */
+  nature: string | null;
+  /** Parties with their roles */
+  parties: ActeParty[];
+  /** Price or other consideration, when stated */
+  consideration: ActeConsideration | null;
+  /** Notary who received the acte */
+  notary: string | null;
+  /** Lots concerned by the acte */
+  lots: ActeLot[];
+  /** Prior inscription numbers referenced by the acte, digits only */
+  referenced_inscriptions: string[];
+}
+
+/**
+ * Title block (cartouche) of a cadastral plan, parsed from the boosted OCR text
+ */
+export interface ParsedPlan {
+  /** Plan title as written (e.g., "Plan cadastral parcellaire") */
+  title: string | null;
+  /** Lots shown on the plan; renovated lots as "1 234 567", older lots as written */
+  lot_numbers: string[];
+  /** Cadastre (e.g., "Cadastre du Québec") */
+  cadastre: string | null;
+  /** Registration division */
+  circonscription: string | null;
+  /** Land surveyor (arpenteur-géomètre) who signed the plan */
+  surveyor: string | null;
+  /** Surveyor's minute number, digits only */
+  minute_number: string | null;
+  /** Date of the plan (YYYY-MM-DD) */
+  plan_date: string | null;
+  /** Scale (e.g., "1:500") */
+  scale: string | null;
+}
+
+/**
+ * Validation rule codes for sanitized index results and parsed plans
+ */
+export type ValidationCode =
+  | 'invalid_date'
+  | 'future_date'
+  | 'missing_publication_number'
+  | 'invalid_publication_number'
+  | 'missing_metadata'
+  | 'circonscription_mismatch'
+  | 'cadastre_mismatch'
+  | 'lot_mismatch'
+  | 'empty_page'
+  | 'requested_lot_not_on_plan'
+  | 'boost_not_applied';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * A single validation finding
+ */
+export interface ValidationIssue {
+  code: ValidationCode;
+  severity: ValidationSeverity;
+  message: string;
+  /** Page number (1-indexed) */
+  page_number: number;
+  /** Inscription line number, null for page-level findings */
+  line_number: number | null;
+  /** Offending field, when the finding is about a single field */
+  field: string | null;
+  /** Offending value as extracted */
+  value: string | null;
+}
+
+/**
+ * Validation result of a SanitizedOCRResult, stored with the job
+ */
+export interface ValidationReport {
+  /** True when there is no error-severity finding */
+  valid: boolean;
+  error_count: number;
+  warning_count: number;
+  issues: ValidationIssue[];
+  validated_at: string;
+}
+
+/**
+ * OCR settings of a job re-run (POST /api/extractions/:id/ocr), replacing the
+ * configured ones until the next re-run
+ */
+export interface OCROverrides {
+  /** Only provider used, without failover */
+  provider?: 'gemini' | 'claude' | 'tesseract';
+  extract_model?: string;
+  boost_model?: string;
+  /** Temperature of the extract and boost stages */
+  temperature?: number;
+  /** Registered prompt versions by stage (e.g., { boost: "1" } for index.boost@1) */
+  prompt_versions?: {
+    extract?: string;
+    boost?: string;
+  };
+}
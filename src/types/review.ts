@@ -0,0 +1,123 @@
+/**
+ * TypeScript types for the OCR review queue
+ * Uncertain or invalid index inscriptions are queued for a human reviewer whose
+ * corrections become an authoritative revision of the SanitizedOCRResult
+ */
+
+import type {
+  Party,
+  SanitizedOCRResult,
+  Inscription,
+  ValidationCode,
+  ValidationReport,
+  ParsedActe,
+  ParsedPlan,
+  OCROverrides,
+} from './ocr';
+
+/**
+ * Why an item was queued for review: a field confidence under the threshold,
+ * or an error-severity validation rule
+ */
+export type ReviewReason = 'low_confidence' | ValidationCode;
+
+export type ReviewStatus = 'pending' | 'resolved';
+
+/**
+ * A page or inscription flagged for review, before it is stored
+ */
+export interface ReviewCandidate {
+  page_number: number;
+  /** Inscription line number, 0 for page-level items */
+  line_number: number;
+  reasons: ReviewReason[];
+  /** Lowest field confidence of the inscription, when reported */
+  min_confidence: number | null;
+  /** Machine inscription at the time it was queued (null for page-level items) */
+  inscription: Inscription | null;
+}
+
+/**
+ * Row of the ocr_review_items table
+ */
+export interface ReviewItem extends ReviewCandidate {
+  id: string;
+  job_id: string;
+  status: ReviewStatus;
+  correction: ReviewCorrection | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Editable inscription fields
+ */
+export interface InscriptionFieldsCorrection {
+  acte_publication_date?: string | null;
+  acte_publication_number?: string | null;
+  acte_nature?: string | null;
+  parties?: Party[];
+  remarques?: string | null;
+  radiation_number?: string | null;
+}
+
+/**
+ * Correction submitted by a reviewer
+ * - fields: corrected values of the flagged inscription
+ * - inscriptions: full replacement of the inscriptions of a flagged page
+ * Submitting neither confirms the machine reading
+ */
+export interface ReviewCorrection {
+  reviewer: string;
+  note?: string;
+  fields?: InscriptionFieldsCorrection;
+  inscriptions?: Array<InscriptionFieldsCorrection & { line_number: number }>;
+}
+
+/**
+ * Row of the ocr_result_revisions table - an authoritative version of a job's
+ * SanitizedOCRResult (the machine original stays in extraction_queue.sanitized_content)
+ * - source "review": a reviewer correction
+ * - source "ocr_rerun": the output replaced by an OCR re-run, kept for comparison
+ *   (content is null for actes and plans)
+ */
+export interface OCRResultRevision {
+  id: string;
+  job_id: string;
+  revision: number;
+  content: SanitizedOCRResult | null;
+  ocr_output: OCROutputSnapshot | null;
+  created_by: string;
+  source: string;
+  note: string | null;
+  created_at: string;
+}
+
+/**
+ * OCR output of a job as it was before an OCR re-run
+ */
+export interface OCROutputSnapshot {
+  file_content: string | null;
+  boosted_file_content: string | null;
+  sanitized_content: SanitizedOCRResult | null;
+  acte_parsed_content: ParsedActe | null;
+  plan_parsed_content: ParsedPlan | null;
+  ocr_validation: ValidationReport | null;
+  ocr_provider: string | null;
+  ocr_model: string | null;
+  ocr_boost_provider: string | null;
+  ocr_boost_model: string | null;
+  ocr_prompt_versions: Record<string, string> | null;
+  ocr_overrides: OCROverrides | null;
+  ocr_completed_at: string | null;
+}
+
+/**
+ * OCR re-run requested from the API
+ */
+export interface OCRRerunRequest {
+  requested_by: string;
+  note?: string;
+  overrides?: OCROverrides;
+}
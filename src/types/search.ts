@@ -0,0 +1,46 @@
+/**
+ * TypeScript types for searching OCR'd documents
+ * Full-text queries run on extraction_queue.searchable_file_content (boosted OCR
+ * text with accents folded); structured filters use the sanitized inscriptions,
+ * parsed actes and resolved parties
+ */
+
+import type { ExtractionQueueJob } from './index';
+
+export interface DocumentSearchQuery {
+  /** Full-text query, web search syntax ("vente -hypotheque", "\"caisse desjardins\"") */
+  q?: string;
+  document_source?: ExtractionQueueJob['document_source'];
+  /** Nature d'acte, matched as a substring ignoring case and accents */
+  nature?: string;
+  /** Party name, matched by resolved party or as a substring of the name read */
+  party?: string;
+  /** Inscription or registration date range (YYYY-MM-DD, inclusive) */
+  date_from?: string;
+  date_to?: string;
+  circonscription?: string;
+  cadastre?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface DocumentSearchHit {
+  job_id: string;
+  document_source: ExtractionQueueJob['document_source'];
+  document_number: string;
+  circonscription_fonciere: string | null;
+  cadastre: string | null;
+  status_id: number;
+  ocr_completed_at: string | null;
+  /** Full-text rank, 0 without a query */
+  rank: number;
+  /** Matching excerpts with the terms in <mark></mark>, or the start of the document without a query */
+  snippet: string | null;
+}
+
+export interface DocumentSearchResult {
+  total: number;
+  limit: number;
+  offset: number;
+  hits: DocumentSearchHit[];
+}
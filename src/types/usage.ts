@@ -0,0 +1,77 @@
+/**
+ * TypeScript types for model usage and cost accounting
+ * Every Gemini, Claude and OpenAI call records its tokens, latency and estimated
+ * cost in model_usage, attributed to the job and environment it ran for
+ */
+
+import type { ExtractionQueueJob } from './index';
+
+export type ModelUsageProvider = 'gemini' | 'claude' | 'openai';
+
+/**
+ * One model call, as measured by the client that made it
+ */
+export interface ModelCall {
+  provider: ModelUsageProvider;
+  model: string;
+  /** What the call was for ("ocr.extract_page", "ocr.boost", "fallback.index", "vision.analyze", ...) */
+  operation: string;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+}
+
+/**
+ * Row of the model_usage table
+ */
+export interface ModelUsageRecord extends ModelCall {
+  id?: string;
+  job_id: string | null;
+  document_source: ExtractionQueueJob['document_source'] | null;
+  worker_id: string | null;
+  /** USD, null when the model has no known price */
+  estimated_cost_usd: number | null;
+  created_at?: string;
+}
+
+export interface CostReportQuery {
+  /** Inclusive day range (YYYY-MM-DD, UTC) */
+  date_from?: string;
+  date_to?: string;
+  document_source?: ExtractionQueueJob['document_source'];
+}
+
+/**
+ * Usage of a day, document source, provider and model in one environment
+ */
+export interface CostReportRow {
+  environment: string;
+  day: string;
+  /** null for calls made outside a job */
+  document_source: ExtractionQueueJob['document_source'] | null;
+  provider: ModelUsageProvider;
+  model: string;
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  estimated_cost_usd: number;
+  /** Calls of models without a known price (not included in the cost) */
+  unpriced_calls: number;
+}
+
+export interface CostTotals {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  estimated_cost_usd: number;
+  unpriced_calls: number;
+}
+
+export interface CostReport {
+  query: CostReportQuery;
+  rows: CostReportRow[];
+  by_day: Array<CostTotals & { day: string }>;
+  by_document_source: Array<CostTotals & { document_source: string | null }>;
+  by_environment: Array<CostTotals & { environment: string }>;
+  total: CostTotals;
+}
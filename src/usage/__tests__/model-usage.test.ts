@@ -0,0 +1,116 @@
+/**
+ * Tests for model usage tracking, pricing and cost reports
+ */
+
+import { withModelUsageContext, trackModelCall, geminiTokenUsage, anthropicTokenUsage, openAITokenUsage } from '../model-usage';
+import { estimateCost, getModelPrice } from '../pricing';
+import { summarizeCostRows, renderCostCSV } from '../cost-report';
+import { CostReportRow } from '../../types';
+import { createSupabaseStub } from '../../__tests__/supabase-stub';
+
+jest.mock('../../utils/logger');
+
+function row(overrides: Partial<CostReportRow>): CostReportRow {
+  return {
+    environment: 'prod',
+    day: '2025-10-01',
+    document_source: 'index',
+    provider: 'gemini',
+    model: 'gemini-2.5-pro',
+    calls: 1,
+    input_tokens: 1000,
+    output_tokens: 500,
+    estimated_cost_usd: 0.01,
+    unpriced_calls: 0,
+    ...overrides,
+  };
+}
+
+describe('Model Usage', () => {
+  describe('pricing', () => {
+    it('should match dated model versions to their family', () => {
+      expect(getModelPrice('claude-sonnet-4-5-20250929')).toEqual({ input_per_million: 3, output_per_million: 15 });
+      expect(getModelPrice('gemini-2.0-flash-exp')?.input_per_million).toBe(0.1);
+      expect(getModelPrice('gemini-2.5-flash-lite')?.input_per_million).toBe(0.1);
+      expect(getModelPrice('gpt-4o-mini')?.input_per_million).toBe(0.15);
+      expect(getModelPrice('some-local-model')).toBeNull();
+    });
+
+    it('should estimate the cost in USD', () => {
+      expect(estimateCost('gemini-2.5-pro', 2_000_000, 100_000)).toBeCloseTo(3.5);
+      expect(estimateCost('gpt-4o', 1200, 80)).toBeCloseTo(0.0038);
+      expect(estimateCost('unknown-model', 1000, 1000)).toBeNull();
+    });
+  });
+
+  describe('trackModelCall', () => {
+    it('should record the usage against the job of the current context', async () => {
+      const { client, from, query } = createSupabaseStub();
+
+      const result = await withModelUsageContext(
+        { client, environment: 'dev', jobId: 'job-1', documentSource: 'acte', workerId: 'ocr-worker-1' },
+        () => trackModelCall(
+          { provider: 'claude', model: 'claude-sonnet-4-5-20250929', operation: 'ocr.boost' },
+          async () => ({ text: 'boosted', usage: { input_tokens: 10_000, output_tokens: 2_000 } }),
+          r => anthropicTokenUsage(r.usage)
+        )
+      );
+
+      expect(result.text).toBe('boosted');
+      expect(from).toHaveBeenCalledWith('model_usage');
+      expect(query.insert).toHaveBeenCalledWith(expect.objectContaining({
+        job_id: 'job-1',
+        document_source: 'acte',
+        worker_id: 'ocr-worker-1',
+        provider: 'claude',
+        operation: 'ocr.boost',
+        input_tokens: 10_000,
+        output_tokens: 2_000,
+        estimated_cost_usd: 0.06,
+      }));
+    });
+
+    it('should not record failed calls or calls outside a job', async () => {
+      const { client, query } = createSupabaseStub();
+      const call = { provider: 'openai' as const, model: 'gpt-4o', operation: 'fallback.index' };
+
+      await expect(withModelUsageContext({ client, environment: 'dev', jobId: 'job-1' }, () =>
+        trackModelCall(call, async () => { throw new Error('500'); }, () => null)
+      )).rejects.toThrow('500');
+      await trackModelCall(call, async () => 'ok', () => ({ input_tokens: 1, output_tokens: 1 }));
+
+      expect(query.insert).not.toHaveBeenCalled();
+    });
+
+    it('should read the token counts of each SDK', () => {
+      expect(geminiTokenUsage({ promptTokenCount: 120, candidatesTokenCount: 30 })).toEqual({ input_tokens: 120, output_tokens: 30 });
+      expect(openAITokenUsage({ prompt_tokens: 50, completion_tokens: 5 })).toEqual({ input_tokens: 50, output_tokens: 5 });
+      expect(geminiTokenUsage(undefined)).toBeNull();
+    });
+  });
+
+  describe('summarizeCostRows', () => {
+    it('should total the rows by day, document source and environment', () => {
+      const report = summarizeCostRows([
+        row({ day: '2025-10-02', estimated_cost_usd: 0.2 }),
+        row({ environment: 'staging', document_source: 'acte', estimated_cost_usd: 0.1 }),
+        row({ provider: 'openai', model: 'gpt-4o', document_source: null, calls: 3, estimated_cost_usd: 0.05, unpriced_calls: 1 }),
+      ], { date_from: '2025-10-01' });
+
+      expect(report.rows.map(r => r.day)).toEqual(['2025-10-01', '2025-10-01', '2025-10-02']);
+      expect(report.by_day).toEqual([
+        expect.objectContaining({ day: '2025-10-01', calls: 4, estimated_cost_usd: 0.15 }),
+        expect.objectContaining({ day: '2025-10-02', calls: 1, estimated_cost_usd: 0.2 }),
+      ]);
+      expect(report.by_document_source.find(g => g.document_source === null)?.unpriced_calls).toBe(1);
+      expect(report.by_environment.map(g => g.environment)).toEqual(['prod', 'staging']);
+      expect(report.total).toEqual({ calls: 5, input_tokens: 3000, output_tokens: 1500, estimated_cost_usd: 0.35, unpriced_calls: 1 });
+    });
+
+    it('should render the rows as CSV', () => {
+      const csv = renderCostCSV(summarizeCostRows([row({ document_source: null })], {}));
+
+      expect(csv.split('\n')[1]).toBe('prod,2025-10-01,,gemini,gemini-2.5-pro,1,1000,500,0.010000,0');
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Cost Report
+ * Model usage aggregated by day, document source and environment, backed by the
+ * get_model_usage_report Postgres function of each environment (see migration 019)
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../utils/logger';
+import { EnvironmentName } from '../utils/supabase';
+import { CostReport, CostReportQuery, CostReportRow, CostTotals } from '../types';
+
+export class CostReporter {
+  constructor(private environments: Array<{ environment: EnvironmentName; client: SupabaseClient }>) {}
+
+  async report(query: CostReportQuery): Promise<CostReport> {
+    const rows: CostReportRow[] = [];
+
+    for (const { environment, client } of this.environments) {
+      const { data, error } = await client.rpc('get_model_usage_report', {
+        p_date_from: query.date_from || null,
+        p_date_to: query.date_to || null,
+        p_document_source: query.document_source || null,
+      });
+
+      if (error) {
+        throw new Error(`Failed to load model usage of ${environment}: ${error.message}`);
+      }
+
+      // Aggregates come back as strings (bigint / numeric)
+      for (const row of data || []) {
+        rows.push({
+          environment,
+          day: row.day,
+          document_source: row.document_source,
+          provider: row.provider,
+          model: row.model,
+          calls: Number(row.calls),
+          input_tokens: Number(row.input_tokens),
+          output_tokens: Number(row.output_tokens),
+          estimated_cost_usd: Number(row.estimated_cost_usd),
+          unpriced_calls: Number(row.unpriced_calls),
+        });
+      }
+    }
+
+    logger.debug({ query, rows: rows.length }, '💰 Cost report');
+
+    return summarizeCostRows(rows, query);
+  }
+}
+
+/**
+ * Totals of the report rows by day, document source and environment
+ */
+export function summarizeCostRows(rows: CostReportRow[], query: CostReportQuery): CostReport {
+  const sortedRows = [...rows].sort((a, b) =>
+    a.day.localeCompare(b.day)
+    || a.environment.localeCompare(b.environment)
+    || (a.document_source || '').localeCompare(b.document_source || '')
+    || a.model.localeCompare(b.model)
+  );
+
+  return {
+    query,
+    rows: sortedRows,
+    by_day: groupTotals(sortedRows, row => row.day)
+      .map(([day, totals]) => ({ day, ...totals })),
+    by_document_source: groupTotals(sortedRows, row => row.document_source)
+      .map(([documentSource, totals]) => ({ document_source: documentSource, ...totals })),
+    by_environment: groupTotals(sortedRows, row => row.environment)
+      .map(([environment, totals]) => ({ environment, ...totals })),
+    total: sortedRows.reduce(addTotals, emptyTotals()),
+  };
+}
+
+/**
+ * Report rows as CSV, one line per environment, day, document source and model
+ */
+export function renderCostCSV(report: CostReport): string {
+  const header = 'environment,day,document_source,provider,model,calls,input_tokens,output_tokens,estimated_cost_usd,unpriced_calls';
+  const lines = report.rows.map(row => [
+    row.environment,
+    row.day,
+    row.document_source || '',
+    row.provider,
+    row.model,
+    row.calls,
+    row.input_tokens,
+    row.output_tokens,
+    row.estimated_cost_usd.toFixed(6),
+    row.unpriced_calls,
+  ].join(','));
+
+  return [header, ...lines].join('\n') + '\n';
+}
+
+function groupTotals<K extends string | null>(rows: CostReportRow[], keyOf: (row: CostReportRow) => K): Array<[K, CostTotals]> {
+  const groups = new Map<K, CostTotals>();
+
+  for (const row of rows) {
+    const key = keyOf(row);
+    groups.set(key, addTotals(groups.get(key) || emptyTotals(), row));
+  }
+
+  return Array.from(groups.entries());
+}
+
+function addTotals(totals: CostTotals, row: CostTotals): CostTotals {
+  return {
+    calls: totals.calls + row.calls,
+    input_tokens: totals.input_tokens + row.input_tokens,
+    output_tokens: totals.output_tokens + row.output_tokens,
+    // Rounded to the micro-dollar to avoid floating point noise in the sums
+    estimated_cost_usd: Math.round((totals.estimated_cost_usd + row.estimated_cost_usd) * 1_000_000) / 1_000_000,
+    unpriced_calls: totals.unpriced_calls + row.unpriced_calls,
+  };
+}
+
+function emptyTotals(): CostTotals {
+  return { calls: 0, input_tokens: 0, output_tokens: 0, estimated_cost_usd: 0, unpriced_calls: 0 };
+}
@@ -0,0 +1,19 @@
+/**
+ * Model Usage Module
+ * Token, latency and cost accounting of the Gemini, Claude and OpenAI calls
+ */
+
+export {
+  withModelUsageContext,
+  getModelUsageContext,
+  trackModelCall,
+  recordModelUsage,
+  toUsageRecord,
+  geminiTokenUsage,
+  anthropicTokenUsage,
+  openAITokenUsage,
+  ModelUsageContext,
+  TokenUsage,
+} from './model-usage';
+export { MODEL_PRICES, ModelPrice, getModelPrice, estimateCost } from './pricing';
+export { CostReporter, summarizeCostRows, renderCostCSV } from './cost-report';
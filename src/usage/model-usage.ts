@@ -0,0 +1,141 @@
+/**
+ * Model Usage Tracking
+ * Records the tokens, latency and estimated cost of every model call in the
+ * model_usage table of the environment of the job it ran for.
+ *
+ * Workers run each job inside withModelUsageContext() and the clients wrap their
+ * requests in trackModelCall(), so the job does not have to be passed down to
+ * every client. Calls made outside a job context are only logged.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../utils/logger';
+import { EnvironmentName } from '../utils/supabase';
+import { ExtractionQueueJob, ModelCall, ModelUsageProvider, ModelUsageRecord } from '../types';
+import { estimateCost } from './pricing';
+
+export interface ModelUsageContext {
+  /** Service client of the job environment, where the usage is stored */
+  client: SupabaseClient;
+  environment: EnvironmentName;
+  jobId?: string | null;
+  documentSource?: ExtractionQueueJob['document_source'] | null;
+  workerId?: string | null;
+}
+
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+const usageContext = new AsyncLocalStorage<ModelUsageContext>();
+
+/**
+ * Run a job so that the model calls it makes are attributed to it
+ */
+export function withModelUsageContext<T>(context: ModelUsageContext, run: () => Promise<T>): Promise<T> {
+  return usageContext.run(context, run);
+}
+
+/**
+ * Job context of the current model call, if any
+ */
+export function getModelUsageContext(): ModelUsageContext | undefined {
+  return usageContext.getStore();
+}
+
+/**
+ * Time a model request and record its usage once it succeeds
+ * Failed requests are not billed by the providers and are not recorded
+ */
+export async function trackModelCall<T>(
+  call: { provider: ModelUsageProvider; model: string; operation: string },
+  run: () => Promise<T>,
+  getUsage: (result: T) => TokenUsage | null
+): Promise<T> {
+  const startTime = Date.now();
+  const result = await run();
+
+  recordModelUsage({
+    ...call,
+    ...(getUsage(result) || { input_tokens: 0, output_tokens: 0 }),
+    latency_ms: Date.now() - startTime,
+  });
+
+  return result;
+}
+
+/**
+ * Store a model call against the current job (non-blocking, failures are logged)
+ */
+export function recordModelUsage(call: ModelCall): void {
+  const context = getModelUsageContext();
+  const record = toUsageRecord(call, context);
+
+  logger.debug({ ...record }, '💰 Model usage');
+
+  if (!context) {
+    return;
+  }
+
+  context.client.from('model_usage').insert(record).then(({ error }) => {
+    if (error) {
+      logger.warn({ error: error.message, jobId: record.job_id, environment: context.environment }, '⚠️  Failed to record model usage (non-critical)');
+    }
+  });
+}
+
+/**
+ * model_usage row of a call, with its estimated cost
+ */
+export function toUsageRecord(call: ModelCall, context?: ModelUsageContext): ModelUsageRecord {
+  return {
+    ...call,
+    job_id: context?.jobId ?? null,
+    document_source: context?.documentSource ?? null,
+    worker_id: context?.workerId ?? null,
+    estimated_cost_usd: estimateCost(call.model, call.input_tokens, call.output_tokens),
+  };
+}
+
+/**
+ * Token counts of a Gemini response (usageMetadata)
+ */
+export function geminiTokenUsage(
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number } | null
+): TokenUsage | null {
+  if (!usageMetadata) {
+    return null;
+  }
+  return {
+    input_tokens: usageMetadata.promptTokenCount || 0,
+    output_tokens: usageMetadata.candidatesTokenCount || 0,
+  };
+}
+
+/**
+ * Token counts of a Claude message (usage)
+ */
+export function anthropicTokenUsage(usage?: { input_tokens?: number; output_tokens?: number } | null): TokenUsage | null {
+  if (!usage) {
+    return null;
+  }
+  return {
+    input_tokens: usage.input_tokens || 0,
+    output_tokens: usage.output_tokens || 0,
+  };
+}
+
+/**
+ * Token counts of an OpenAI chat completion (usage)
+ */
+export function openAITokenUsage(usage?: { prompt_tokens?: number; completion_tokens?: number } | null): TokenUsage | null {
+  if (!usage) {
+    return null;
+  }
+  return {
+    input_tokens: usage.prompt_tokens || 0,
+    output_tokens: usage.completion_tokens || 0,
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Model Pricing
+ * List prices in USD per million tokens, used to estimate the cost of each
+ * model call. Models are matched by the longest known prefix so dated versions
+ * ("claude-sonnet-4-5-20250929") use the price of their family.
+ *
+ * Update the table when providers change their prices; costs are recorded at
+ * call time and are not recomputed.
+ */
+
+export interface ModelPrice {
+  input_per_million: number;
+  output_per_million: number;
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  // Gemini (prompts up to 200k tokens)
+  'gemini-2.5-pro': { input_per_million: 1.25, output_per_million: 10 },
+  'gemini-2.5-flash-lite': { input_per_million: 0.1, output_per_million: 0.4 },
+  'gemini-2.5-flash': { input_per_million: 0.3, output_per_million: 2.5 },
+  'gemini-2.0-flash-lite': { input_per_million: 0.075, output_per_million: 0.3 },
+  'gemini-2.0-flash': { input_per_million: 0.1, output_per_million: 0.4 },
+  'gemini-1.5-pro': { input_per_million: 1.25, output_per_million: 5 },
+  'gemini-1.5-flash': { input_per_million: 0.075, output_per_million: 0.3 },
+
+  // Claude
+  'claude-opus-4': { input_per_million: 15, output_per_million: 75 },
+  'claude-sonnet-4': { input_per_million: 3, output_per_million: 15 },
+  'claude-3-7-sonnet': { input_per_million: 3, output_per_million: 15 },
+  'claude-3-5-sonnet': { input_per_million: 3, output_per_million: 15 },
+  'claude-haiku-4': { input_per_million: 1, output_per_million: 5 },
+  'claude-3-5-haiku': { input_per_million: 0.8, output_per_million: 4 },
+
+  // OpenAI
+  'gpt-4o-mini': { input_per_million: 0.15, output_per_million: 0.6 },
+  'gpt-4o': { input_per_million: 2.5, output_per_million: 10 },
+  'gpt-4-turbo': { input_per_million: 10, output_per_million: 30 },
+  'gpt-4-vision-preview': { input_per_million: 10, output_per_million: 30 },
+};
+
+/**
+ * Price of a model, or null when it is unknown
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? MODEL_PRICES[prefix] : null;
+}
+
+/**
+ * Estimated cost of a call in USD (null when the model has no known price)
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number | null {
+  const price = getModelPrice(model);
+  if (!price) {
+    return null;
+  }
+
+  const cost = (inputTokens * price.input_per_million + outputTokens * price.output_per_million) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
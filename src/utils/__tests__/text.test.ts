@@ -0,0 +1,33 @@
+/**
+ * Tests for the shared text helpers
+ */
+
+import { foldAccents, normalizeValue, escapeRegex } from '../text';
+
+describe('text helpers', () => {
+  it('folds accents and ligatures, keeping case', () => {
+    expect(foldAccents('Hypothèque CÉDÉE à Montréal')).toBe('Hypotheque CEDEE a Montreal');
+    expect(foldAccents('Œuvre du cœur')).toBe('OEuvre du coeur');
+    expect(foldAccents('CRÉANCIER Çà')).toBe('CREANCIER Ca');
+  });
+
+  it('reads [Vide] and blanks as null, keeping illegible fields', () => {
+    expect(normalizeValue('  Vente ')).toBe('Vente');
+    expect(normalizeValue('[Vide]')).toBeNull();
+    expect(normalizeValue('vide')).toBeNull();
+    expect(normalizeValue('   ')).toBeNull();
+    expect(normalizeValue(null)).toBeNull();
+    expect(normalizeValue('[ILLISIBLE]')).toBe('[ILLISIBLE]');
+    expect(normalizeValue('[VIDE]')).toBe('[VIDE]');
+  });
+
+  it('reads illegible placeholders as null when asked', () => {
+    expect(normalizeValue('[ILLISIBLE]', { illegibleAsNull: true })).toBeNull();
+    expect(normalizeValue('[vide]', { illegibleAsNull: true })).toBeNull();
+    expect(normalizeValue('Vente', { illegibleAsNull: true })).toBe('Vente');
+  });
+
+  it('escapes regex characters', () => {
+    expect(new RegExp(escapeRegex('Nature (acte)?')).test('Nature (acte)?')).toBe(true);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Text helpers shared by the OCR parsers, the analysis rules and search
+ */
+
+/**
+ * Remove French accents, keeping case ("Hypothèque" -> "Hypotheque", "œ" -> "oe")
+ */
+export function foldAccents(text: string): string {
+  return text
+    .replace(/œ/g, 'oe')
+    .replace(/Œ/g, 'OE')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC');
+}
+
+export interface NormalizeValueOptions {
+  /** Also read [ILLISIBLE] and any casing of [Vide] as null (default: kept, so illegible fields can be flagged) */
+  illegibleAsNull?: boolean;
+}
+
+/**
+ * Field value of OCR output: trimmed, [Vide] and blanks as null
+ */
+export function normalizeValue(value: string | null | undefined, options: NormalizeValueOptions = {}): string | null {
+  const trimmed = value?.trim() ?? '';
+
+  if (trimmed === '' || trimmed === '[Vide]' || trimmed.toLowerCase() === 'vide') {
+    return null;
+  }
+  if (options.illegibleAsNull && /^\[(?:vide|illisible)\]$/i.test(trimmed)) {
+    return null;
+  }
+
+  return trimmed;
+}
+
+/**
+ * Escape special regex characters
+ */
+export function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,5 +1,6 @@
 import { logger } from './logger';
 import fs from 'fs/promises';
+import { recordModelUsage, openAITokenUsage } from '../usage/model-usage';
 
 export interface VisionAnalysisResult {
   success: boolean;
@@ -71,6 +72,8 @@ Please provide a structured analysis including:
 Focus especially on identifying save/download buttons for PDF documents.`;
 
       // Call OpenAI Vision API
+      const model = 'gpt-4-vision-preview';
+      const startTime = Date.now();
       const response = await fetch('https://api.openai.com/v1/chat/completions', {
         method: 'POST',
         headers: {
@@ -78,7 +81,7 @@ Focus especially on identifying save/download buttons for PDF documents.`;
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          model: 'gpt-4-vision-preview',
+          model,
           messages: [
             {
               role: 'user',
@@ -103,6 +106,10 @@ Focus especially on identifying save/download buttons for PDF documents.`;
       }
 
       const result = await response.json() as any;
+      const usage = openAITokenUsage(result.usage);
+      if (usage) {
+        recordModelUsage({ provider: 'openai', model, operation: 'vision.analyze', ...usage, latency_ms: Date.now() - startTime });
+      }
       const analysis = result.choices?.[0]?.message?.content || '';
 
       // Parse the analysis into structured format
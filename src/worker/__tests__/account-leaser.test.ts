@@ -0,0 +1,59 @@
+/**
+ * Tests for the worker account leases
+ */
+
+import { AccountLeaser } from '../account-leaser';
+import { createSupabaseStub } from '../../__tests__/supabase-stub';
+
+jest.mock('../../utils/logger');
+
+const settings = { leaseSeconds: 120, cooldownSeconds: 300, maxCooldownSeconds: 3600, maxFailures: 5 };
+
+describe('AccountLeaser', () => {
+  it('leases an account for the worker', async () => {
+    const { client, rpc } = createSupabaseStub({ data: [{ id: 'account-1', username: 'user1' }] });
+
+    const account = await new AccountLeaser(client, 'worker-1', settings).acquire();
+
+    expect(account.id).toBe('account-1');
+    expect(rpc).toHaveBeenCalledWith('lease_worker_account', { p_worker_id: 'worker-1', p_lease_seconds: 120 });
+  });
+
+  it('throws when no account is free', async () => {
+    const { client } = createSupabaseStub({ data: [] });
+
+    await expect(new AccountLeaser(client, 'worker-1', settings).acquire()).rejects.toThrow('No available worker accounts');
+  });
+
+  it('renews only the leases the worker still holds', async () => {
+    const { client: held, query: heldQuery } = createSupabaseStub({ data: [{ id: 'account-1' }] });
+    const { client: lost } = createSupabaseStub({ data: [] });
+
+    await expect(new AccountLeaser(held, 'worker-1', settings).renew('account-1')).resolves.toBe(true);
+    await expect(new AccountLeaser(lost, 'worker-1', settings).renew('account-1')).resolves.toBe(false);
+    expect(heldQuery.eq).toHaveBeenCalledWith('leased_by', 'worker-1');
+  });
+
+  it('records login failures with the cooldown settings', async () => {
+    const { client, rpc } = createSupabaseStub({ data: [{ id: 'account-1', username: 'user1', is_active: true, failure_count: 1 }] });
+
+    await new AccountLeaser(client, 'worker-1', settings).recordLoginFailure('account-1', new Error('Invalid credentials'));
+
+    expect(rpc).toHaveBeenCalledWith('record_worker_account_failure', {
+      p_account_id: 'account-1',
+      p_worker_id: 'worker-1',
+      p_error: 'Invalid credentials',
+      p_cooldown_seconds: 300,
+      p_max_cooldown_seconds: 3600,
+      p_max_failures: 5,
+    });
+  });
+
+  it('releases the lease when the failure cannot be recorded', async () => {
+    const { client, query } = createSupabaseStub({ error: { message: 'function does not exist' } }, {});
+
+    await new AccountLeaser(client, 'worker-1', settings).recordLoginFailure('account-1', 'timeout');
+
+    expect(query.update).toHaveBeenCalledWith({ leased_by: null, lease_expires_at: null });
+  });
+});
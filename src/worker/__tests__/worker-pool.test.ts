@@ -0,0 +1,133 @@
+/**
+ * Tests for the unified worker pool supervisor
+ */
+
+import { WorkerPool, PooledWorker, restartDelay } from '../worker-pool';
+
+jest.mock('../../utils/logger');
+
+class FakeWorker implements PooledWorker {
+  shutdown = jest.fn(async () => this.stop());
+  private stop!: () => void;
+  private crash!: (error: Error) => void;
+  private stopped = new Promise<void>((resolve, reject) => {
+    this.stop = resolve;
+    this.crash = reject;
+  });
+
+  constructor(readonly workerId: string, private failInitialize = false) {}
+
+  async initialize(): Promise<void> {
+    if (this.failInitialize) {
+      throw new Error('No available worker accounts');
+    }
+  }
+
+  whenStopped(): Promise<void> {
+    return this.stopped;
+  }
+
+  fail(message: string): void {
+    this.crash(new Error(message));
+  }
+}
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('restartDelay', () => {
+  it('doubles per consecutive crash up to the cap', () => {
+    expect(restartDelay(1, 5000, 60000)).toBe(5000);
+    expect(restartDelay(2, 5000, 60000)).toBe(10000);
+    expect(restartDelay(4, 5000, 60000)).toBe(40000);
+    expect(restartDelay(10, 5000, 60000)).toBe(60000);
+  });
+});
+
+describe('WorkerPool', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  function createPool(failInitialize: (slot: number, restarts: number) => boolean = () => false) {
+    const created: FakeWorker[] = [];
+    const pool = new WorkerPool({
+      size: 3,
+      restartDelayMs: 1000,
+      maxRestartDelayMs: 8000,
+      createWorker: (slot, restarts) => {
+        const worker = new FakeWorker(`worker-${slot}-${restarts}`, failInitialize(slot, restarts));
+        created.push(worker);
+        return worker;
+      },
+    });
+    return { pool, created };
+  }
+
+  it('starts one worker per slot', async () => {
+    const { pool, created } = createPool();
+
+    pool.start();
+    await flush();
+
+    expect(created.map(worker => worker.workerId)).toEqual(['worker-0-0', 'worker-1-0', 'worker-2-0']);
+    expect(pool.status().map(slot => slot.state)).toEqual(['running', 'running', 'running']);
+  });
+
+  it('restarts a crashed worker after the backoff delay', async () => {
+    const { pool, created } = createPool();
+    pool.start();
+    await flush();
+
+    created[1].fail('Target closed');
+    await flush();
+
+    expect(created[1].shutdown).toHaveBeenCalled();
+    expect(pool.status()[1]).toMatchObject({ state: 'restarting', last_error: 'Target closed' });
+
+    jest.advanceTimersByTime(999);
+    expect(created).toHaveLength(3);
+
+    jest.advanceTimersByTime(1);
+    await flush();
+
+    expect(created[3].workerId).toBe('worker-1-1');
+    expect(pool.status()[1]).toMatchObject({ state: 'running', restarts: 1, worker_id: 'worker-1-1' });
+  });
+
+  it('backs off workers that keep failing to initialize', async () => {
+    const { pool, created } = createPool((slot, restarts) => slot === 0 && restarts < 2);
+    pool.start();
+    await flush();
+
+    jest.advanceTimersByTime(1000);
+    await flush();
+    expect(created.filter(worker => worker.workerId.startsWith('worker-0'))).toHaveLength(2);
+
+    jest.advanceTimersByTime(1999);
+    await flush();
+    expect(created.filter(worker => worker.workerId.startsWith('worker-0'))).toHaveLength(2);
+
+    jest.advanceTimersByTime(1);
+    await flush();
+    expect(pool.status()[0]).toMatchObject({ state: 'running', restarts: 2 });
+  });
+
+  it('shuts every worker down and stops restarting on stop', async () => {
+    const { pool, created } = createPool();
+    pool.start();
+    await flush();
+
+    created[0].fail('crash');
+    await flush();
+    await pool.stop();
+    jest.advanceTimersByTime(10000);
+    await flush();
+
+    expect(created).toHaveLength(3);
+    created.forEach(worker => expect(worker.shutdown).toHaveBeenCalled());
+    expect(pool.status().map(slot => slot.state)).toEqual(['stopped', 'stopped', 'stopped']);
+  });
+});
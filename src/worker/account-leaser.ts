@@ -0,0 +1,131 @@
+/**
+ * Account Leaser
+ * Gives each unified worker its own registry account with the lease_worker_account
+ * database function: least recently used first, exclusive while the worker heartbeat
+ * renews the lease. Login failures cool the account down, then deactivate it.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../utils/logger';
+import { WorkerAccount } from '../types';
+
+export interface AccountLeaseSettings {
+  /** Lease duration, renewed by every heartbeat (s) */
+  leaseSeconds: number;
+  /** Cooldown after a first login failure, doubled per consecutive failure (s) */
+  cooldownSeconds: number;
+  /** Cap of the doubled cooldown (s) */
+  maxCooldownSeconds: number;
+  /** Consecutive login failures deactivating the account */
+  maxFailures: number;
+}
+
+export class AccountLeaser {
+  constructor(
+    private client: SupabaseClient,
+    private workerId: string,
+    private settings: AccountLeaseSettings
+  ) {}
+
+  /**
+   * Lease a free account, throwing when every active account is leased or cooling down
+   */
+  async acquire(): Promise<WorkerAccount> {
+    const { data, error } = await this.client.rpc('lease_worker_account', {
+      p_worker_id: this.workerId,
+      p_lease_seconds: this.settings.leaseSeconds,
+    });
+
+    if (error) {
+      throw new Error(`Failed to lease worker account: ${error.message}`);
+    }
+
+    const account = ((data || []) as WorkerAccount[])[0];
+    if (!account) {
+      throw new Error('No available worker accounts (all leased, cooling down or inactive)');
+    }
+
+    logger.info({ workerId: this.workerId, account: account.username, leaseSeconds: this.settings.leaseSeconds }, '🔑 Worker account leased');
+
+    return account;
+  }
+
+  /**
+   * Push the lease back; false when the worker no longer holds it (expired and leased again)
+   */
+  async renew(accountId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('worker_accounts')
+      .update({ lease_expires_at: new Date(Date.now() + this.settings.leaseSeconds * 1000).toISOString() })
+      .eq('id', accountId)
+      .eq('leased_by', this.workerId)
+      .select('id');
+
+    if (error) {
+      // A transient error leaves the lease as is; it is renewed by the next heartbeat
+      logger.warn({ error: error.message, workerId: this.workerId, accountId }, 'Failed to renew worker account lease');
+      return true;
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Give the account back (shutdown)
+   */
+  async release(accountId: string): Promise<void> {
+    const { error } = await this.client
+      .from('worker_accounts')
+      .update({ leased_by: null, lease_expires_at: null })
+      .eq('id', accountId)
+      .eq('leased_by', this.workerId);
+
+    if (error) {
+      logger.warn({ error: error.message, workerId: this.workerId, accountId }, 'Failed to release worker account lease');
+    }
+  }
+
+  /**
+   * Reset the consecutive failures of an account that logged in
+   */
+  async recordLoginSuccess(accountId: string): Promise<void> {
+    const { error } = await this.client
+      .from('worker_accounts')
+      .update({ failure_count: 0, cooldown_until: null, last_error: null })
+      .eq('id', accountId);
+
+    if (error) {
+      logger.warn({ error: error.message, accountId }, 'Failed to reset worker account failures');
+    }
+  }
+
+  /**
+   * Count a login failure and release the lease; the account cools down, or is
+   * deactivated after maxFailures consecutive failures
+   */
+  async recordLoginFailure(accountId: string, loginError: unknown): Promise<void> {
+    const message = loginError instanceof Error ? loginError.message : String(loginError);
+
+    const { data, error } = await this.client.rpc('record_worker_account_failure', {
+      p_account_id: accountId,
+      p_worker_id: this.workerId,
+      p_error: message.substring(0, 500),
+      p_cooldown_seconds: this.settings.cooldownSeconds,
+      p_max_cooldown_seconds: this.settings.maxCooldownSeconds,
+      p_max_failures: this.settings.maxFailures,
+    });
+
+    if (error) {
+      logger.error({ error: error.message, workerId: this.workerId, accountId }, 'Failed to record worker account failure');
+      await this.release(accountId);
+      return;
+    }
+
+    const account = ((data || []) as WorkerAccount[])[0];
+    if (account && !account.is_active) {
+      logger.error({ account: account.username, failureCount: account.failure_count }, '⛔ Worker account deactivated after repeated login failures');
+    } else if (account) {
+      logger.warn({ account: account.username, failureCount: account.failure_count, cooldownUntil: account.cooldown_until }, '🧊 Worker account cooling down after login failure');
+    }
+  }
+}
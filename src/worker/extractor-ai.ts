@@ -12,6 +12,7 @@ import { extractSelectOptions, SelectOption } from '../utils/fuzzy-matcher';
 import { IndexFallbackHandler } from './extractor-index-fallback';
 import { ActeFallbackHandler } from './extractor-acte-fallback';
 import { PlanCadastrauxFallbackHandler } from './extractor-plan-cadastraux-fallback';
+import { recordModelUsage, openAITokenUsage } from '../usage/model-usage';
 
 /**
  * Helper function to safely select an option from a dropdown
@@ -597,6 +598,8 @@ export class AIRegistreExtractor {
            Return ONLY a JSON object with:
            {"index": <number or -1>, "confidence": <"high"|"medium"|"low">, "reasoning": "<brief explanation>", "matched_text": "<the part that matched or 'none'>"}`;
 
+      const model = 'gpt-4o';  // Using more capable model for better matching
+      const startTime = Date.now();
       const response = await fetch('https://api.openai.com/v1/chat/completions', {
         method: 'POST',
         headers: {
@@ -604,7 +607,7 @@ export class AIRegistreExtractor {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          model: 'gpt-4o',  // Using more capable model for better matching
+          model,
           messages: [
             {
               role: 'system',
@@ -626,6 +629,10 @@ export class AIRegistreExtractor {
       }
 
       const data = await response.json() as any;
+      const usage = openAITokenUsage(data.usage);
+      if (usage) {
+        recordModelUsage({ provider: 'openai', model: model, operation: 'fallback.select_option', ...usage, latency_ms: Date.now() - startTime });
+      }
       const result = JSON.parse(data.choices[0].message.content);
 
       // Enhanced logging for debugging
@@ -1,6 +1,7 @@
 import { Page } from 'playwright';
 import { logger } from '../utils/logger';
 import { ExtractionConfig } from '../types';
+import { recordModelUsage, openAITokenUsage } from '../usage/model-usage';
 
 interface SelectOption {
   value: string;
@@ -501,6 +502,8 @@ export class IndexFallbackHandler {
       }
 
       // Call OpenAI API
+      const model = 'gpt-4o';
+      const startTime = Date.now();
       const response = await fetch('https://api.openai.com/v1/chat/completions', {
         method: 'POST',
         headers: {
@@ -508,7 +511,7 @@ export class IndexFallbackHandler {
           'Authorization': `Bearer ${this.openaiApiKey}`
         },
         body: JSON.stringify({
-          model: 'gpt-4o',
+          model,
           messages: [{ role: 'user', content: prompt }],
           temperature: 0.1,
           response_format: { type: 'json_object' }
@@ -541,6 +544,11 @@ export class IndexFallbackHandler {
         throw new Error('OpenAI API returned unexpected response structure');
       }
 
+      const usage = openAITokenUsage(data.usage);
+      if (usage) {
+        recordModelUsage({ provider: 'openai', model: model, operation: 'fallback.index', ...usage, latency_ms: Date.now() - startTime });
+      }
+
       const result = JSON.parse(data.choices[0].message.content);
 
       if (result.index !== null && result.index >= 0 && result.index < filteredOptions.length) {
@@ -1,6 +1,7 @@
 import { Page } from 'playwright';
 import { logger } from '../utils/logger';
 import { ExtractionConfig } from '../types';
+import { recordModelUsage, openAITokenUsage } from '../usage/model-usage';
 
 interface SelectOption {
   value: string;
@@ -354,6 +355,8 @@ export class PlanCadastrauxFallbackHandler {
     }
 
     try {
+      const model = 'gpt-4o-mini';
+      const startTime = Date.now();
       const response = await fetch('https://api.openai.com/v1/chat/completions', {
         method: 'POST',
         headers: {
@@ -361,7 +364,7 @@ export class PlanCadastrauxFallbackHandler {
           'Authorization': `Bearer ${this.openaiApiKey}`
         },
         body: JSON.stringify({
-          model: 'gpt-4o-mini',
+          model,
           messages: [
             { role: 'system', content: 'You are a helpful assistant that matches cadastre and designation information.' },
             { role: 'user', content: prompt }
@@ -376,6 +379,10 @@ export class PlanCadastrauxFallbackHandler {
       }
 
       const data: any = await response.json();
+      const usage = openAITokenUsage(data.usage);
+      if (usage) {
+        recordModelUsage({ provider: 'openai', model: model, operation: 'fallback.plan_cadastraux', ...usage, latency_ms: Date.now() - startTime });
+      }
       const result = JSON.parse(data.choices[0].message.content);
 
       const selectedOption = availableOptions[result.index];
@@ -12,15 +12,32 @@ import type { SearchSession, RDPRMSearch, UnifiedWorkerJob } from '../types/req-
 import { scrapeRegistreEntreprise } from '../req/scraper';
 import { scrapeRDPRM } from '../rdprm/scraper';
 import { convertToExtractionConfig } from '../queue/manager';
+import { JobClaimer } from '../queue/job-claimer';
+import { JobScheduler, SchedulerJobType, RunningJobsCache, countRunningJobs } from '../queue/scheduler';
+import { withModelUsageContext } from '../usage/model-usage';
+import { WorkerPool, PooledWorker } from './worker-pool';
+import { AccountLeaser } from './account-leaser';
+import { SupabaseClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs/promises';
 
+export interface UnifiedWorkerOptions {
+  /** Reset extraction jobs stuck in progress on startup (default: true) */
+  resetStuckJobs?: boolean;
+}
+
+/**
+ * Running job counts of the capped job types, shared by the pool workers and
+ * refreshed at most once per idle poll interval
+ */
+const runningJobsCache = new RunningJobsCache(5000);
+
 /**
  * Unified Worker Class
  * Can process extraction jobs, REQ searches, and RDPRM searches
  */
-export class UnifiedWorker {
-  private workerId: string;
+export class UnifiedWorker implements PooledWorker {
+  readonly workerId: string;
   private extractor: RegistreExtractor | null = null;
   private workerStatus: WorkerStatus;
   private heartbeatInterval: NodeJS.Timeout | null = null;
@@ -28,8 +45,16 @@ export class UnifiedWorker {
   private shouldStop: boolean = false;
   private lastJobTime: number = Date.now();
   private idleTimeoutMs: number = 2 * 60 * 1000; // 2 minutes idle before closing browser
-
-  constructor(workerId?: string) {
+  private leaseRetryMs: number = 60 * 1000; // 1 minute between lease attempts when no account is free
+  private nextLeaseAttempt: number = 0;
+  private maxConsecutivePollErrors: number = 5; // polls failing in a row before the worker is restarted
+  private consecutivePollErrors: number = 0;
+  private scheduler: JobScheduler = new JobScheduler(config.scheduler);
+  private processing: Promise<void> | null = null;
+  private currentJob: Promise<void> | null = null;
+  private accountLeaser: AccountLeaser;
+
+  constructor(workerId?: string, private options: UnifiedWorkerOptions = {}) {
     this.workerId = workerId || `unified-worker-${uuidv4()}`;
     this.workerStatus = {
       id: uuidv4(),
@@ -40,6 +65,7 @@ export class UnifiedWorker {
       jobs_completed: 0,
       jobs_failed: 0,
     };
+    this.accountLeaser = new AccountLeaser(supabase, this.workerId, config.worker.accountLease);
   }
 
   async initialize(): Promise<void> {
@@ -55,7 +81,9 @@ export class UnifiedWorker {
       }
 
       // Reset stuck jobs on startup
-      await this.resetStuckJobsOnStartup(environments);
+      if (this.options.resetStuckJobs !== false) {
+        await this.resetStuckJobsOnStartup(environments);
+      }
 
       // Register worker
       await this.registerWorker();
@@ -63,36 +91,41 @@ export class UnifiedWorker {
       // Start heartbeat
       this.startHeartbeat();
 
-      // Get account (for land registry extraction)
-      this.currentAccount = await this.getAvailableAccount();
-      this.workerStatus.account_id = this.currentAccount.id;
-
+      // The account for land registry extraction is leased with the first extraction job
       logger.info({
         workerId: this.workerId,
-        account: this.currentAccount.username,
         environments: environments.join(', '),
       }, '✅ Unified Worker registered and ready');
 
       // Start continuous job processing
-      this.processContinuously();
+      this.processing = this.processContinuously();
     } catch (error) {
       logger.error({ error, workerId: this.workerId }, 'Failed to initialize unified worker');
       throw error;
     }
   }
 
+  /**
+   * Resolves when continuous processing ends, rejects when it crashed
+   */
+  whenStopped(): Promise<void> {
+    return this.processing || Promise.resolve();
+  }
+
   /**
    * Initialize extractor for land registry jobs
    */
   private async initializeExtractor(): Promise<void> {
+    // The previous account may have been lost (login failure, expired lease)
     if (!this.currentAccount) {
-      throw new Error('No account available');
+      await this.leaseAccount();
     }
+    const account = this.currentAccount!;
 
     logger.info({ workerId: this.workerId }, 'Initializing land registry extractor');
 
     this.extractor = new RegistreExtractor(
-      this.currentAccount,
+      account,
       this.workerId,
       config.headless  // Use config.headless instead of config.isProduction
     );
@@ -101,7 +134,16 @@ export class UnifiedWorker {
 
     // Login to the registry
     logger.info({ workerId: this.workerId }, 'Logging in to land registry');
-    await this.extractor.login();
+    try {
+      await this.extractor.login();
+    } catch (error) {
+      // The account cools down; the next extraction job logs in with another one
+      await this.accountLeaser.recordLoginFailure(account.id, error);
+      this.dropAccount();
+      await this.closeExtractor();
+      throw error;
+    }
+    await this.accountLeaser.recordLoginSuccess(account.id);
 
     logger.info({ workerId: this.workerId }, 'Land registry extractor initialized and logged in');
   }
@@ -195,8 +237,11 @@ export class UnifiedWorker {
             jobs_completed: this.workerStatus.jobs_completed,
             jobs_failed: this.workerStatus.jobs_failed,
             current_job_id: this.workerStatus.current_job_id,
+            account_id: this.workerStatus.account_id ?? null,
           })
           .eq('worker_id', this.workerId);
+
+        await this.renewAccountLease();
       } catch (error) {
         logger.error({ error, workerId: this.workerId }, 'Heartbeat failed');
       }
@@ -204,28 +249,70 @@ export class UnifiedWorker {
   }
 
   /**
-   * Get available account for land registry extraction
+   * Lease an account for land registry extraction
    */
-  private async getAvailableAccount(): Promise<WorkerAccount> {
-    const { data: accounts, error } = await supabase
-      .from('worker_accounts')
-      .select('*')
-      .eq('is_active', true)
-      .limit(1);
+  private async leaseAccount(): Promise<void> {
+    this.currentAccount = await this.accountLeaser.acquire();
+    this.workerStatus.account_id = this.currentAccount.id;
+  }
 
-    if (error || !accounts || accounts.length === 0) {
-      throw new Error('No available worker accounts');
+  /**
+   * Whether the worker holds an account for the extraction job it claimed, leasing
+   * one when it has none; while none is free, extraction jobs are skipped for leaseRetryMs
+   */
+  private async ensureAccount(): Promise<boolean> {
+    if (this.currentAccount) {
+      return true;
+    }
+    if (Date.now() < this.nextLeaseAttempt) {
+      return false;
     }
 
-    const account = accounts[0];
+    try {
+      await this.leaseAccount();
+      return true;
+    } catch (error) {
+      this.nextLeaseAttempt = Date.now() + this.leaseRetryMs;
+      logger.warn({
+        workerId: this.workerId,
+        error: error instanceof Error ? error.message : error,
+        retryInMs: this.leaseRetryMs,
+      }, '⚠️ No worker account leased, skipping extraction jobs');
+      return false;
+    }
+  }
 
-    // Mark account as in use
-    await supabase
-      .from('worker_accounts')
-      .update({ last_used_at: new Date().toISOString() })
-      .eq('id', account.id);
+  /**
+   * Keep the account lease alive; a lost lease (expired and leased by another
+   * worker) drops the account and its browser session
+   */
+  private async renewAccountLease(): Promise<void> {
+    if (!this.currentAccount) {
+      return;
+    }
+
+    if (!(await this.accountLeaser.renew(this.currentAccount.id))) {
+      logger.warn({ workerId: this.workerId, account: this.currentAccount.username }, 'Worker account lease lost');
+      this.dropAccount();
+      if (this.workerStatus.status !== 'busy') {
+        await this.closeExtractor();
+      }
+    }
+  }
+
+  private dropAccount(): void {
+    this.currentAccount = null;
+    this.workerStatus.account_id = undefined;
+  }
 
-    return account;
+  /**
+   * Give the account back so busy workers can lease it
+   */
+  private async releaseAccount(): Promise<void> {
+    if (this.currentAccount) {
+      await this.accountLeaser.release(this.currentAccount.id);
+      this.dropAccount();
+    }
   }
 
   /**
@@ -239,20 +326,23 @@ export class UnifiedWorker {
         // Get next job from any source
         const job = await this.getNextJob();
         currentJob = job;
+        this.consecutivePollErrors = 0;
 
         if (!job) {
           // Check idle timeout
           const idleTime = Date.now() - this.lastJobTime;
 
-          if (idleTime > this.idleTimeoutMs && this.extractor) {
+          // Idle workers give back their browser and account
+          if (idleTime > this.idleTimeoutMs && (this.extractor || this.currentAccount)) {
             logger.info(
               {
                 workerId: this.workerId,
                 idleMinutes: Math.round(idleTime / 60000),
               },
-              'Worker idle timeout - closing browser'
+              'Worker idle timeout - closing browser and releasing account'
             );
             await this.closeExtractor();
+            await this.releaseAccount();
           }
 
           // No jobs available, wait
@@ -263,8 +353,13 @@ export class UnifiedWorker {
         // Update last job time
         this.lastJobTime = Date.now();
 
-        // Process the job based on type
-        await this.processJob(job);
+        // Process the job based on type (shutdown waits for it)
+        this.currentJob = this.processJob(job);
+        try {
+          await this.currentJob;
+        } finally {
+          this.currentJob = null;
+        }
       } catch (error) {
         logger.error(
           {
@@ -277,11 +372,20 @@ export class UnifiedWorker {
           'Error in continuous processing'
         );
 
-        // Reset job if stuck
-        if (currentJob) {
-          await this.resetJobOnError(currentJob, error);
+        // Polling errors (claims, counts) are retried in place; only a database that
+        // stays unreachable is fatal, and the pool then restarts the worker
+        if (!currentJob) {
+          this.consecutivePollErrors++;
+          if (this.consecutivePollErrors >= this.maxConsecutivePollErrors) {
+            throw error;
+          }
+          await new Promise((resolve) => setTimeout(resolve, 5000 * this.consecutivePollErrors));
+          continue;
         }
 
+        // Reset job if stuck
+        await this.resetJobOnError(currentJob, error);
+
         // Close extractor on browser errors
         if (
           error instanceof Error &&
@@ -298,7 +402,8 @@ export class UnifiedWorker {
   }
 
   /**
-   * Get next job from any source (extraction, REQ, or RDPRM)
+   * Get next job from any source (extraction, REQ, or RDPRM), polling the
+   * environments and job types in the order of the scheduling policy
    */
   private async getNextJob(): Promise<UnifiedWorkerJob | null> {
     this.workerStatus.status = 'idle';
@@ -309,27 +414,38 @@ export class UnifiedWorker {
       return null;
     }
 
-    logger.debug({ environments: environments.join(', ') }, '🔄 Polling for jobs across environments');
+    const running = await runningJobsCache.get(() => this.countCappedJobs(environments));
+    const slots = this.scheduler.plan(environments, running);
 
-    // Poll all environments for any job type
-    for (const env of environments) {
-      const client = supabaseManager.getServiceClient(env);
+    logger.debug({
+      slots: slots.map(slot => `${slot.environment}:${slot.jobType}`).join(', '),
+      running,
+    }, '🔄 Polling for jobs across environments');
+
+    for (const slot of slots) {
+      const client = supabaseManager.getServiceClient(slot.environment);
       if (!client) {
-        logger.warn({ environment: env }, '⚠️ No client available for environment');
+        logger.warn({ environment: slot.environment }, '⚠️ No client available for environment');
         continue;
       }
 
-      // Priority 1: Check for pending extraction jobs
-      const extractionJob = await this.getNextExtractionJob(client, env);
-      if (extractionJob) return extractionJob;
+      // Extraction jobs need a registry account: skipped while none was free recently
+      if (slot.jobType === 'extraction' && !this.currentAccount && Date.now() < this.nextLeaseAttempt) {
+        continue;
+      }
 
-      // Priority 2: Check for pending REQ jobs
-      const reqJob = await this.getNextREQJob(client, env);
-      if (reqJob) return reqJob;
+      const job = slot.jobType === 'extraction'
+        ? await this.getNextExtractionJob(client, slot.environment)
+        : slot.jobType === 'req'
+          ? await this.getNextREQJob(client, slot.environment)
+          : await this.getNextRDPRMJob(client, slot.environment);
 
-      // Priority 3: Check for pending RDPRM jobs
-      const rdprmJob = await this.getNextRDPRMJob(client, env);
-      if (rdprmJob) return rdprmJob;
+      if (job) {
+        this.scheduler.claimed(slot);
+        runningJobsCache.claimed(slot.jobType);
+        return job;
+      }
+      this.scheduler.empty(slot);
     }
 
     logger.debug('💤 No jobs found in any environment');
@@ -337,69 +453,44 @@ export class UnifiedWorker {
   }
 
   /**
-   * Get next extraction job (land registry)
+   * Jobs in progress across all workers and environments, for the job types
+   * with a concurrency cap (SCHEDULER_MAX_CONCURRENT)
    */
-  private async getNextExtractionJob(client: any, env: EnvironmentName): Promise<UnifiedWorkerJob | null> {
-    const { data, error } = await client
-      .from('extraction_queue')
-      .select('*')
-      .eq('status_id', EXTRACTION_STATUS.EN_ATTENTE)
-      .order('created_at', { ascending: true })
-      .limit(10); // Get multiple jobs to filter
-
-    if (error) {
-      logger.error({ error, environment: env }, '❌ Error querying extraction_queue');
-      return null;
-    }
+  private async countCappedJobs(environments: EnvironmentName[]): Promise<Partial<Record<SchedulerJobType, number>>> {
+    const jobTypes = this.scheduler.cappedJobTypes;
+    const totals: Partial<Record<SchedulerJobType, number>> = {};
 
-    if (!data || data.length === 0) {
-      logger.debug({ environment: env }, '🔍 No extraction jobs found');
-      return null;
+    if (jobTypes.length === 0) {
+      return totals;
     }
 
-    // Find first job that hasn't exceeded max attempts
-    const job = data.find((j: ExtractionQueueJob) => {
-      const attempts = j.attemtps || 0;
-      const maxAttempts = j.max_attempts || 3;
-      return attempts < maxAttempts;
-    });
-
-    if (!job) {
-      // All jobs have exceeded max attempts - mark them as ERREUR
-      logger.warn({
-        environment: env,
-        jobsFound: data.length
-      }, '⚠️ All available jobs have exceeded max attempts - marking as ERREUR');
+    for (const env of environments) {
+      const client = supabaseManager.getServiceClient(env);
+      if (!client) continue;
 
-      for (const failedJob of data) {
-        await client
-          .from('extraction_queue')
-          .update({
-            status_id: EXTRACTION_STATUS.ERREUR,
-            error_message: 'Max attempts exceeded',
-          })
-          .eq('id', failedJob.id)
-          .eq('status_id', EXTRACTION_STATUS.EN_ATTENTE);
+      try {
+        const counts = await countRunningJobs(client, jobTypes);
+        for (const type of jobTypes) {
+          totals[type] = (totals[type] || 0) + (counts[type] || 0);
+        }
+      } catch (error) {
+        logger.warn({ error: error instanceof Error ? error.message : error, environment: env }, '⚠️ Failed to count running jobs');
       }
-
-      return null;
     }
 
-    // Claim the job
-    const { data: claimedJob, error: claimError } = await client
-      .from('extraction_queue')
-      .update({
-        status_id: EXTRACTION_STATUS.EN_TRAITEMENT,
-        worker_id: this.workerId,
-        processing_started_at: new Date().toISOString(),
-      })
-      .eq('id', job.id)
-      .eq('status_id', EXTRACTION_STATUS.EN_ATTENTE)
-      .select()
-      .single();
+    return totals;
+  }
+
+  /**
+   * Claim next extraction job (land registry), by priority then age
+   */
+  private async getNextExtractionJob(client: SupabaseClient, env: EnvironmentName): Promise<UnifiedWorkerJob | null> {
+    const job = await new JobClaimer(client, this.workerId).claimExtractionJob({
+      agingMinutes: this.scheduler.agingMinutes,
+    });
 
-    if (claimError || !claimedJob) {
-      logger.debug({ error: claimError, jobId: job.id.substring(0, 8), environment: env }, '⚠️ Failed to claim extraction job (likely race condition)');
+    if (!job) {
+      logger.debug({ environment: env }, '🔍 No extraction jobs found');
       return null;
     }
 
@@ -413,13 +504,38 @@ export class UnifiedWorker {
       '📋 Claimed extraction job'
     );
 
+    // The account is leased only once there is a job to run, so idle workers hold none
+    if (!(await this.ensureAccount())) {
+      await this.unclaimExtractionJob(client, job);
+      return null;
+    }
+
     return {
-      ...claimedJob,
+      ...job,
       _job_type: 'extraction',
       _environment: env,
     };
   }
 
+  /**
+   * Put a claimed extraction job back in the queue, untouched, for a worker with an account
+   */
+  private async unclaimExtractionJob(client: SupabaseClient, job: ExtractionQueueJob): Promise<void> {
+    const { error } = await client
+      .from('extraction_queue')
+      .update({
+        status_id: EXTRACTION_STATUS.EN_ATTENTE,
+        worker_id: null,
+        processing_started_at: null,
+      })
+      .eq('id', job.id)
+      .eq('worker_id', this.workerId);
+
+    if (error) {
+      throw new Error(`Failed to return extraction job ${job.id} to the queue: ${error.message}`);
+    }
+  }
+
   /**
    * Get next REQ job
    */
@@ -567,14 +683,36 @@ export class UnifiedWorker {
   private async processExtractionJob(job: ExtractionQueueJob & { _environment: EnvironmentName }): Promise<void> {
     logger.info({ jobId: job.id.substring(0, 8), type: 'extraction' }, 'Processing extraction job');
 
-    // Initialize extractor if needed
-    if (!this.extractor) {
+    // Initialize extractor if needed; a browser logged in with a lost account is replaced
+    if (!this.extractor || !this.currentAccount) {
+      await this.closeExtractor();
       await this.initializeExtractor();
     }
 
     const client = supabaseManager.getServiceClient(job._environment);
     if (!client) throw new Error(`No client for environment: ${job._environment}`);
 
+    try {
+      // Model calls made during the extraction (fallback option matching, vision) are recorded against the job
+      await withModelUsageContext(
+        { client, environment: job._environment, jobId: job.id, documentSource: job.document_source, workerId: this.workerId },
+        () => this.runExtractionJob(job, client)
+      );
+    } finally {
+      // The lease was lost during the job: the session belongs to another worker now
+      if (!this.currentAccount) {
+        await this.closeExtractor();
+      }
+    }
+  }
+
+  /**
+   * Download the document of an extraction job and update its status
+   */
+  private async runExtractionJob(
+    job: ExtractionQueueJob & { _environment: EnvironmentName },
+    client: SupabaseClient
+  ): Promise<void> {
     try {
       // Get bucket name and filename using legacy format (before extraction for logging)
       const { bucketName, fileName } = this.getStorageInfo(job);
@@ -623,18 +761,13 @@ export class UnifiedWorker {
         supabasePath: supabasePath
       }, 'PDF uploaded successfully');
 
-      // Determine final status based on document source
-      // plan_cadastraux doesn't need OCR, so set to EXTRACTION_COMPLETE (5)
-      // index and acte need OCR, so set to COMPLETE (3)
-      const finalStatus = job.document_source === 'plan_cadastraux'
-        ? EXTRACTION_STATUS.EXTRACTION_COMPLETE
-        : EXTRACTION_STATUS.COMPLETE;
+      // Every document source needs OCR (plans for their title block), so set to COMPLETE (3)
+      const finalStatus = EXTRACTION_STATUS.COMPLETE;
 
       logger.info({
         jobId: job.id.substring(0, 8),
         documentSource: job.document_source,
         finalStatus,
-        needsOCR: job.document_source !== 'plan_cadastraux'
       }, 'Setting final status');
 
       // Update job status
@@ -679,7 +812,6 @@ export class UnifiedWorker {
         status: finalStatus,
         supabasePath: fileName,
         updateResult: updateData,
-        ocrRequired: job.document_source !== 'plan_cadastraux'
       }, '✅ Extraction job completed');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -848,6 +980,7 @@ export class UnifiedWorker {
           .eq('id', job.id);
       }
     } catch (resetError) {
+      // Left in progress, the job is reset by the stale job monitors
       logger.error({ resetError, jobId: job.id }, 'Failed to reset job on error');
     }
   }
@@ -891,11 +1024,18 @@ export class UnifiedWorker {
     logger.info({ workerId: this.workerId }, 'Shutting down unified worker');
     this.shouldStop = true;
 
+    // Let the job in progress finish before closing its browser and releasing its account
+    if (this.currentJob) {
+      logger.info({ workerId: this.workerId }, 'Waiting for the current job to finish');
+      await this.currentJob.catch(() => undefined);
+    }
+
     if (this.heartbeatInterval) {
       clearInterval(this.heartbeatInterval);
     }
 
     await this.closeExtractor();
+    await this.releaseAccount();
 
     await supabase
       .from('worker_status')
@@ -904,23 +1044,28 @@ export class UnifiedWorker {
   }
 }
 
-// Main entry point
+// Main entry point: a pool of WORKER_COUNT workers
 if (require.main === module) {
-  const worker = new UnifiedWorker();
-
-  process.on('SIGTERM', async () => {
-    await worker.shutdown();
-    process.exit(0);
+  const size = Math.max(1, config.worker.count);
+
+  const pool = new WorkerPool({
+    size,
+    restartDelayMs: config.worker.restartDelay,
+    maxRestartDelayMs: config.worker.maxRestartDelay,
+    createWorker: (slot, restarts) => new UnifiedWorker(`unified-worker-${slot + 1}-${uuidv4().substring(0, 8)}`, {
+      // Only the first start of the first slot resets stuck jobs, never those of running siblings
+      resetStuckJobs: slot === 0 && restarts === 0,
+    }),
   });
 
-  process.on('SIGINT', async () => {
-    await worker.shutdown();
+  const shutdown = async (signal: string) => {
+    logger.info({ signal }, 'Shutting down unified worker pool');
+    await pool.stop();
     process.exit(0);
-  });
+  };
 
-  worker.initialize().catch((error) => {
-    logger.error({ error }, 'Failed to start unified worker');
-    process.exit(1);
-  });
-}
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
 
+  pool.start();
+}
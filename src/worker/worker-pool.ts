@@ -0,0 +1,174 @@
+/**
+ * Worker Pool
+ * Supervises the unified workers of one process (WORKER_COUNT): starts them,
+ * restarts the ones that crash with exponential backoff, and stops them all
+ * on shutdown.
+ */
+
+import { logger } from '../utils/logger';
+
+/**
+ * Worker lifecycle the pool relies on
+ */
+export interface PooledWorker {
+  readonly workerId: string;
+  initialize(): Promise<void>;
+  /** Resolves when the worker stops processing, rejects when its processing loop crashed */
+  whenStopped(): Promise<void>;
+  /** Waits for the job in progress, then releases what the worker holds */
+  shutdown(): Promise<void>;
+}
+
+export interface WorkerPoolOptions {
+  size: number;
+  /** Worker of a slot; restarts counts the previous crashes of the slot */
+  createWorker(slot: number, restarts: number): PooledWorker;
+  /** Delay before the first restart of a crashed slot (ms) */
+  restartDelayMs: number;
+  /** Cap of the doubled restart delay (ms) */
+  maxRestartDelayMs: number;
+  /** A worker running this long is stable again: its next crash restarts after restartDelayMs */
+  stableAfterMs?: number;
+}
+
+export interface WorkerSlotStatus {
+  slot: number;
+  worker_id: string | null;
+  state: 'starting' | 'running' | 'restarting' | 'stopped';
+  restarts: number;
+  last_error: string | null;
+}
+
+interface WorkerSlot {
+  slot: number;
+  worker: PooledWorker | null;
+  state: WorkerSlotStatus['state'];
+  restarts: number;
+  consecutiveCrashes: number;
+  startedAt: number;
+  lastError: string | null;
+  restartTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Delay before restarting a slot after its nth consecutive crash (1-based)
+ */
+export function restartDelay(consecutiveCrashes: number, initialMs: number, maxMs: number): number {
+  return Math.min(maxMs, initialMs * 2 ** Math.max(0, consecutiveCrashes - 1));
+}
+
+export class WorkerPool {
+  private slots: WorkerSlot[] = [];
+  private stopping = false;
+
+  constructor(private options: WorkerPoolOptions) {}
+
+  /**
+   * Start every slot; a worker failing to initialize is restarted like a crash
+   */
+  start(): void {
+    this.stopping = false;
+    this.slots = Array.from({ length: this.options.size }, (_, slot) => ({
+      slot,
+      worker: null,
+      state: 'starting' as const,
+      restarts: 0,
+      consecutiveCrashes: 0,
+      startedAt: 0,
+      lastError: null,
+      restartTimer: null,
+    }));
+
+    logger.info({ size: this.options.size }, '👷 Starting unified worker pool');
+
+    for (const slot of this.slots) {
+      this.launch(slot);
+    }
+  }
+
+  /**
+   * Stop restarting and shut every worker down
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+
+    await Promise.all(this.slots.map(async slot => {
+      if (slot.restartTimer) {
+        clearTimeout(slot.restartTimer);
+        slot.restartTimer = null;
+      }
+      const worker = slot.worker;
+      slot.state = 'stopped';
+      if (worker) {
+        await worker.shutdown().catch(error => {
+          logger.error({ error, workerId: worker.workerId }, 'Failed to shut down worker');
+        });
+      }
+    }));
+
+    logger.info({ size: this.slots.length }, '🛑 Unified worker pool stopped');
+  }
+
+  status(): WorkerSlotStatus[] {
+    return this.slots.map(slot => ({
+      slot: slot.slot,
+      worker_id: slot.worker?.workerId || null,
+      state: slot.state,
+      restarts: slot.restarts,
+      last_error: slot.lastError,
+    }));
+  }
+
+  private launch(slot: WorkerSlot): void {
+    const worker = this.options.createWorker(slot.slot, slot.restarts);
+    slot.worker = worker;
+    slot.state = 'starting';
+    slot.startedAt = Date.now();
+
+    worker.initialize()
+      .then(() => {
+        if (slot.worker !== worker) return;
+        slot.state = 'running';
+        return worker.whenStopped().then(
+          () => this.handleExit(slot, worker, null),
+          error => this.handleExit(slot, worker, error)
+        );
+      }, error => this.handleExit(slot, worker, error));
+  }
+
+  private async handleExit(slot: WorkerSlot, worker: PooledWorker, error: unknown): Promise<void> {
+    if (this.stopping || slot.worker !== worker) {
+      return;
+    }
+
+    const stableAfterMs = this.options.stableAfterMs ?? 10 * 60 * 1000;
+    slot.consecutiveCrashes = Date.now() - slot.startedAt >= stableAfterMs ? 1 : slot.consecutiveCrashes + 1;
+    slot.lastError = error instanceof Error ? error.message : error ? String(error) : 'worker stopped processing';
+    slot.state = 'restarting';
+
+    // Release what the crashed worker still holds (heartbeat, browser, account)
+    await worker.shutdown().catch(shutdownError => {
+      logger.warn({ error: shutdownError, workerId: worker.workerId }, 'Failed to clean up crashed worker');
+    });
+
+    if (this.stopping) {
+      return;
+    }
+
+    const delay = restartDelay(slot.consecutiveCrashes, this.options.restartDelayMs, this.options.maxRestartDelayMs);
+    logger.error({
+      workerId: worker.workerId,
+      slot: slot.slot,
+      error: slot.lastError,
+      consecutiveCrashes: slot.consecutiveCrashes,
+      restartInMs: delay,
+    }, '💥 Unified worker crashed, restarting');
+
+    slot.restartTimer = setTimeout(() => {
+      slot.restartTimer = null;
+      if (this.stopping) return;
+      slot.restarts++;
+      this.launch(slot);
+    }, delay);
+  }
+}
@@ -0,0 +1,11 @@
+-- Migration to record which OCR provider and model produced each file_content
+-- The OCR worker now fails over between Gemini and Claude, so the origin of
+-- the text is no longer implied by configuration
+
+ALTER TABLE extraction_queue
+ADD COLUMN IF NOT EXISTS ocr_provider TEXT,
+ADD COLUMN IF NOT EXISTS ocr_model TEXT;
+
+-- Add comments
+COMMENT ON COLUMN extraction_queue.ocr_provider IS 'OCR provider that produced file_content (gemini or claude)';
+COMMENT ON COLUMN extraction_queue.ocr_model IS 'Model name that produced file_content';
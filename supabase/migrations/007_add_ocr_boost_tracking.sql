@@ -0,0 +1,13 @@
+-- Migration to record which provider and model produced boosted_file_content
+-- The OCR worker now runs a two-stage pipeline: extract (file_content) then
+-- boost (boosted_file_content), each stage with its own model settings
+
+ALTER TABLE extraction_queue
+ADD COLUMN IF NOT EXISTS ocr_boost_provider TEXT,
+ADD COLUMN IF NOT EXISTS ocr_boost_model TEXT;
+
+-- Update column comments now that both index and acte documents are boosted
+COMMENT ON COLUMN extraction_queue.file_content IS 'Raw OCR extracted text content from the PDF document - unprocessed output of the extract stage';
+COMMENT ON COLUMN extraction_queue.boosted_file_content IS 'OCR text with the domain-specific boost rules applied (BOOST_PROMPT for index, ACTE_BOOST_PROMPT for acte)';
+COMMENT ON COLUMN extraction_queue.ocr_boost_provider IS 'OCR provider that produced boosted_file_content (gemini or claude)';
+COMMENT ON COLUMN extraction_queue.ocr_boost_model IS 'Model name that produced boosted_file_content';
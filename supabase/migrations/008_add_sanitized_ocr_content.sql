@@ -0,0 +1,47 @@
+-- Migration to persist the structured (sanitized) OCR result of index documents
+-- sanitizeOCRResult converts boosted_file_content into pages -> metadata -> inscriptions -> parties;
+-- the full JSON is kept on the job and every inscription becomes a queryable row
+
+-- Add sanitized JSON and sanitization error flag to extraction_queue
+ALTER TABLE extraction_queue
+ADD COLUMN IF NOT EXISTS sanitized_content JSONB,
+ADD COLUMN IF NOT EXISTS ocr_sanitization_error TEXT;
+
+-- One row per inscription, keyed by job, page and line
+CREATE TABLE IF NOT EXISTS ocr_inscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES extraction_queue(id) ON DELETE CASCADE,
+  page_number INTEGER NOT NULL,
+  line_number INTEGER NOT NULL,
+  circonscription TEXT,
+  cadastre TEXT,
+  lot_number TEXT,
+  acte_publication_date TEXT,
+  acte_publication_number TEXT,
+  acte_nature TEXT,
+  parties JSONB NOT NULL DEFAULT '[]'::jsonb,
+  remarques TEXT,
+  radiation_number TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (job_id, page_number, line_number)
+);
+
+-- Indexes for the common lookups
+CREATE INDEX IF NOT EXISTS idx_ocr_inscriptions_publication_number ON ocr_inscriptions(acte_publication_number);
+CREATE INDEX IF NOT EXISTS idx_ocr_inscriptions_nature ON ocr_inscriptions(acte_nature);
+CREATE INDEX IF NOT EXISTS idx_ocr_inscriptions_lot ON ocr_inscriptions(circonscription, cadastre, lot_number);
+
+-- Find jobs whose OCR output could not be sanitized
+CREATE INDEX IF NOT EXISTS idx_extraction_queue_sanitization_error
+ON extraction_queue(status_id)
+WHERE ocr_sanitization_error IS NOT NULL;
+
+ALTER TABLE ocr_inscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to ocr_inscriptions" ON ocr_inscriptions
+  FOR ALL USING (true);
+
+-- Add comments
+COMMENT ON COLUMN extraction_queue.sanitized_content IS 'Structured SanitizedOCRResult JSON of boosted_file_content (index documents only)';
+COMMENT ON COLUMN extraction_queue.ocr_sanitization_error IS 'Error raised while sanitizing boosted_file_content; NULL when sanitization succeeded or was skipped';
+COMMENT ON TABLE ocr_inscriptions IS 'One row per sanitized index inscription, keyed by job, page and line';
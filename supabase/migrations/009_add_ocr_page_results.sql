@@ -0,0 +1,35 @@
+-- Migration for page-level OCR of index documents
+-- Each page is extracted separately; completed pages are stored so a crashed or
+-- reset job resumes from the pages it already has instead of starting over
+
+-- One row per extracted page, keyed by job, source file and page
+CREATE TABLE IF NOT EXISTS ocr_page_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES extraction_queue(id) ON DELETE CASCADE,
+  source_path TEXT NOT NULL,
+  page_number INTEGER NOT NULL,
+  total_pages INTEGER NOT NULL,
+  raw_text TEXT NOT NULL,
+  provider TEXT,
+  model TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (job_id, source_path, page_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ocr_page_results_job ON ocr_page_results(job_id);
+
+ALTER TABLE ocr_page_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to ocr_page_results" ON ocr_page_results
+  FOR ALL USING (true);
+
+-- Progress heartbeat, refreshed after every page so long documents are not
+-- treated as stale while pages are still completing
+ALTER TABLE extraction_queue
+ADD COLUMN IF NOT EXISTS ocr_heartbeat_at TIMESTAMPTZ;
+
+-- Add comments
+COMMENT ON TABLE ocr_page_results IS 'Raw OCR text per page of an index document, used to resume interrupted jobs';
+COMMENT ON COLUMN ocr_page_results.source_path IS 'supabase_path of the PDF the page was extracted from; results are only reused for the same file';
+COMMENT ON COLUMN extraction_queue.ocr_heartbeat_at IS 'Last OCR progress update (set when a page completes); stale checks use it instead of ocr_started_at when present';
@@ -0,0 +1,34 @@
+-- Migration for the content-addressed OCR cache
+-- Identical PDFs, page images and raw texts are OCRed/boosted once per prompt
+-- version and model; later jobs (in any environment sharing the cache) reuse the output
+
+CREATE TABLE IF NOT EXISTS ocr_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL CHECK (kind IN ('pdf', 'page', 'boost')),
+  content_hash TEXT NOT NULL,
+  prompt_version TEXT NOT NULL,
+  model TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  content TEXT NOT NULL,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_hit_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (kind, content_hash, prompt_version, model)
+);
+
+ALTER TABLE ocr_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to ocr_cache" ON ocr_cache
+  FOR ALL USING (true);
+
+-- Per-job flag to bypass cache lookups
+ALTER TABLE extraction_queue
+ADD COLUMN IF NOT EXISTS ocr_force_refresh BOOLEAN NOT NULL DEFAULT false;
+
+-- Add comments
+COMMENT ON TABLE ocr_cache IS 'Previous OCR outputs keyed by content hash, prompt version and model';
+COMMENT ON COLUMN ocr_cache.kind IS 'pdf = whole-document extraction, page = single page image extraction, boost = boost of a raw OCR text';
+COMMENT ON COLUMN ocr_cache.content_hash IS 'SHA-256 of the PDF file, page image or raw text';
+COMMENT ON COLUMN ocr_cache.prompt_version IS 'Hash of the prompt text used to produce the content';
+COMMENT ON COLUMN extraction_queue.ocr_force_refresh IS 'When true the OCR worker ignores cached outputs (fresh results still replace the cache entries)';
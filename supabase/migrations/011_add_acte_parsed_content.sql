@@ -0,0 +1,18 @@
+-- Migration to persist typed deed fields parsed from acte OCR output
+-- parseActe converts boosted_file_content of acte documents into inscription number,
+-- registration date, nature, parties, consideration, notary, lots and referenced inscriptions
+
+ALTER TABLE extraction_queue
+ADD COLUMN IF NOT EXISTS acte_parsed_content JSONB;
+
+-- Look up actes by inscription number and by referenced prior inscriptions
+CREATE INDEX IF NOT EXISTS idx_extraction_queue_acte_inscription_number
+ON extraction_queue ((acte_parsed_content->>'inscription_number'))
+WHERE acte_parsed_content IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_extraction_queue_acte_parsed_content
+ON extraction_queue USING GIN (acte_parsed_content jsonb_path_ops);
+
+-- Add comments
+COMMENT ON COLUMN extraction_queue.acte_parsed_content IS 'Validated ParsedActe JSON of boosted_file_content (acte documents only)';
+COMMENT ON COLUMN extraction_queue.ocr_sanitization_error IS 'Error raised while sanitizing (index) or parsing (acte) boosted_file_content; NULL when it succeeded or was skipped';
@@ -0,0 +1,16 @@
+-- Migration to keep the OCR candidates of each inscription field
+-- The boost output lists "Option N: VALUE (Confiance: XX%)" readings for uncertain
+-- fields; all candidates are kept with their confidence so reviewers can pick another one
+
+ALTER TABLE ocr_inscriptions
+ADD COLUMN IF NOT EXISTS candidates JSONB NOT NULL DEFAULT '{}'::jsonb,
+ADD COLUMN IF NOT EXISTS min_confidence NUMERIC(5, 2);
+
+-- Filter or route uncertain lines
+CREATE INDEX IF NOT EXISTS idx_ocr_inscriptions_min_confidence
+ON ocr_inscriptions(min_confidence)
+WHERE min_confidence IS NOT NULL;
+
+-- Add comments
+COMMENT ON COLUMN ocr_inscriptions.candidates IS 'Ranked candidates per field: {field: [{value, confidence}]}, highest confidence first';
+COMMENT ON COLUMN ocr_inscriptions.min_confidence IS 'Lowest confidence (0-100) among the selected field values; NULL when the OCR output reported none';
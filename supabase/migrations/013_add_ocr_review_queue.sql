@@ -0,0 +1,57 @@
+-- Migration for the human review queue of sanitized OCR output
+-- Low-confidence or invalid inscriptions (and pages without inscriptions) are queued;
+-- reviewer corrections become numbered revisions of the SanitizedOCRResult while the
+-- machine original stays in extraction_queue.sanitized_content
+
+-- Flagged pages (line_number = 0) and inscriptions
+CREATE TABLE IF NOT EXISTS ocr_review_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES extraction_queue(id) ON DELETE CASCADE,
+  page_number INTEGER NOT NULL,
+  line_number INTEGER NOT NULL DEFAULT 0,
+  reasons TEXT[] NOT NULL,
+  min_confidence NUMERIC(5, 2),
+  inscription JSONB,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'resolved')),
+  correction JSONB,
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (job_id, page_number, line_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ocr_review_items_status ON ocr_review_items(status, created_at);
+
+-- Authoritative revisions of a job's sanitized result
+CREATE TABLE IF NOT EXISTS ocr_result_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES extraction_queue(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  content JSONB NOT NULL,
+  created_by TEXT NOT NULL,
+  source TEXT NOT NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (job_id, revision)
+);
+
+ALTER TABLE ocr_review_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ocr_result_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to ocr_review_items" ON ocr_review_items
+  FOR ALL USING (true);
+
+CREATE POLICY "Service role has full access to ocr_result_revisions" ON ocr_result_revisions
+  FOR ALL USING (true);
+
+-- Latest authoritative revision on the job
+ALTER TABLE extraction_queue
+ADD COLUMN IF NOT EXISTS reviewed_content JSONB,
+ADD COLUMN IF NOT EXISTS reviewed_by TEXT,
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+-- Add comments
+COMMENT ON TABLE ocr_review_items IS 'Sanitized OCR pages (line_number = 0) and inscriptions waiting for or corrected by a reviewer';
+COMMENT ON COLUMN ocr_review_items.reasons IS 'low_confidence, invalid_date, missing_publication_number, no_inscriptions';
+COMMENT ON TABLE ocr_result_revisions IS 'Numbered authoritative revisions of a job SanitizedOCRResult, with author and source';
+COMMENT ON COLUMN extraction_queue.reviewed_content IS 'Latest reviewer-corrected SanitizedOCRResult; NULL when the machine output (sanitized_content) was not reviewed';
@@ -0,0 +1,15 @@
+-- Migration to persist validation reports of sanitized index OCR results
+-- validateSanitizedResult checks dates, publication number formats, page metadata
+-- against the job (circonscription, cadastre, lot) and pages without inscriptions
+
+ALTER TABLE extraction_queue
+ADD COLUMN IF NOT EXISTS ocr_validation JSONB;
+
+-- Find jobs whose sanitized result failed validation
+CREATE INDEX IF NOT EXISTS idx_extraction_queue_ocr_validation_invalid
+ON extraction_queue (id)
+WHERE (ocr_validation->>'valid')::boolean = false;
+
+-- Add comments
+COMMENT ON COLUMN extraction_queue.ocr_validation IS 'ValidationReport of sanitized_content: valid flag, error/warning counts and issues with page, line and field';
+COMMENT ON COLUMN ocr_review_items.reasons IS 'low_confidence or the codes of error-severity validation issues (invalid_date, missing_publication_number, invalid_publication_number, lot_mismatch, empty_page)';
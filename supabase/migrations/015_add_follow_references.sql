@@ -0,0 +1,22 @@
+-- Migration for the "follow references" mode of index jobs
+-- Once an index is OCR'd, one acte job is enqueued per publication number of its
+-- inscriptions (filtered by nature, date range or active charges), linked to the index job
+
+ALTER TABLE extraction_queue
+ADD COLUMN IF NOT EXISTS follow_references JSONB,
+ADD COLUMN IF NOT EXISTS followed_references JSONB,
+ADD COLUMN IF NOT EXISTS parent_job_id UUID REFERENCES extraction_queue(id) ON DELETE SET NULL;
+
+-- Bundle lookups and de-duplication of acte jobs by publication number
+CREATE INDEX IF NOT EXISTS idx_extraction_queue_parent_job_id
+ON extraction_queue(parent_job_id)
+WHERE parent_job_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_extraction_queue_acte_number
+ON extraction_queue(document_number_normalized)
+WHERE document_source = 'acte';
+
+-- Add comments
+COMMENT ON COLUMN extraction_queue.follow_references IS 'Follow-references filters of an index job (natures, date_from, date_to, active_only); NULL when the mode is off';
+COMMENT ON COLUMN extraction_queue.followed_references IS 'Outcome of follow_references: referenced, created and existing counts, and the acte job ids of the bundle';
+COMMENT ON COLUMN extraction_queue.parent_job_id IS 'Index job this acte job was enqueued from by follow_references';
@@ -0,0 +1,58 @@
+-- Migration for party entity resolution across OCR'd documents
+-- Party names of index inscriptions and actes are normalized (accents, word order,
+-- corporate suffixes) and resolved to stable party ids, with NEQ matches from REQ
+
+-- Resolved people and companies
+CREATE TABLE IF NOT EXISTS parties (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name_key TEXT NOT NULL UNIQUE,
+  display_name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('person', 'company')),
+  neq TEXT,
+  alias_keys TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_parties_neq ON parties(neq) WHERE neq IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_parties_alias_keys ON parties USING GIN (alias_keys);
+
+-- Every appearance of a party on an index inscription or an acte
+CREATE TABLE IF NOT EXISTS party_mentions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  party_id UUID NOT NULL REFERENCES parties(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES extraction_queue(id) ON DELETE CASCADE,
+  document_source TEXT NOT NULL,
+  raw_name TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT '',
+  role_key TEXT NOT NULL DEFAULT '',
+  lot_number TEXT,
+  circonscription TEXT,
+  cadastre TEXT,
+  acte_publication_number TEXT,
+  acte_publication_date TEXT,
+  acte_nature TEXT,
+  page_number INTEGER,
+  line_number INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_party_mentions_party ON party_mentions(party_id, role_key);
+CREATE INDEX IF NOT EXISTS idx_party_mentions_job ON party_mentions(job_id);
+
+ALTER TABLE parties ENABLE ROW LEVEL SECURITY;
+ALTER TABLE party_mentions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to parties" ON parties
+  FOR ALL USING (true);
+
+CREATE POLICY "Service role has full access to party_mentions" ON party_mentions
+  FOR ALL USING (true);
+
+-- Add comments
+COMMENT ON TABLE parties IS 'People and companies resolved from OCR party names; ids are stable within an environment';
+COMMENT ON COLUMN parties.name_key IS 'Normalized name key (p: people with sorted words, c: companies without corporate suffixes)';
+COMMENT ON COLUMN parties.alias_keys IS 'Other name keys resolved to this party (spelling variants, same NEQ)';
+COMMENT ON COLUMN parties.neq IS 'Numéro d''entreprise du Québec matched in req_companies';
+COMMENT ON TABLE party_mentions IS 'Parties of each index inscription and acte, replaced whenever the job is OCR''d or reviewed';
+COMMENT ON COLUMN party_mentions.role_key IS 'Role without accents or punctuation, in lowercase (creancier, debiteur, vendeur, ...)';
@@ -0,0 +1,146 @@
+-- Migration for full-text and structured search over OCR'd documents
+-- searchable_file_content holds the boosted OCR text with accents folded (filled by the
+-- OCR worker) so "hypotheque" matches "Hypothèque"; search_documents combines it with
+-- filters on the sanitized inscriptions, parsed actes and resolved parties
+
+-- Lowercase text without French accents, matching the folding done by the OCR worker
+CREATE OR REPLACE FUNCTION fold_search_text(value TEXT)
+RETURNS TEXT AS $$
+  SELECT lower(translate(
+    replace(replace(value, 'œ', 'oe'), 'Œ', 'OE'),
+    'àâäáãåçéèêëíìîïñóòôöõúùûüýÿÀÂÄÁÃÅÇÉÈÊËÍÌÎÏÑÓÒÔÖÕÚÙÛÜÝŸ',
+    'aaaaaaceeeeiiiinooooouuuuyyAAAAAACEEEEIIIINOOOOOUUUUYY'
+  ))
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Backfill documents OCR'd before searchable_file_content was filled
+UPDATE extraction_queue
+SET searchable_file_content = translate(
+  replace(replace(boosted_file_content, 'œ', 'oe'), 'Œ', 'OE'),
+  'àâäáãåçéèêëíìîïñóòôöõúùûüýÿÀÂÄÁÃÅÇÉÈÊËÍÌÎÏÑÓÒÔÖÕÚÙÛÜÝŸ',
+  'aaaaaaceeeeiiiinooooouuuuyyAAAAAACEEEEIIIINOOOOOUUUUYY'
+)
+WHERE boosted_file_content IS NOT NULL
+  AND searchable_file_content IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_extraction_queue_searchable_content_search
+ON extraction_queue USING gin(to_tsvector('french', searchable_file_content))
+WHERE searchable_file_content IS NOT NULL;
+
+-- Search OCR'd documents; every parameter is optional
+-- p_query uses web search syntax ("vente -hypotheque", "\"caisse desjardins\"")
+-- p_party_key is a normalized party key (see parties.name_key), p_party_name a raw name fallback
+CREATE OR REPLACE FUNCTION search_documents(
+  p_query TEXT DEFAULT NULL,
+  p_document_source TEXT DEFAULT NULL,
+  p_nature TEXT DEFAULT NULL,
+  p_party_key TEXT DEFAULT NULL,
+  p_party_name TEXT DEFAULT NULL,
+  p_date_from TEXT DEFAULT NULL,
+  p_date_to TEXT DEFAULT NULL,
+  p_circonscription TEXT DEFAULT NULL,
+  p_cadastre TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  job_id UUID,
+  document_source TEXT,
+  document_number TEXT,
+  circonscription_fonciere TEXT,
+  cadastre TEXT,
+  status_id INTEGER,
+  ocr_completed_at TIMESTAMPTZ,
+  rank REAL,
+  snippet TEXT,
+  total_count BIGINT
+) AS $$
+  WITH query AS (
+    SELECT CASE
+      WHEN p_query IS NULL OR btrim(p_query) = '' THEN NULL
+      ELSE websearch_to_tsquery('french', fold_search_text(p_query))
+    END AS tsq
+  ),
+  matches AS (
+    SELECT
+      eq.id,
+      eq.document_source,
+      eq.document_number,
+      eq.circonscription_fonciere,
+      eq.cadastre,
+      eq.status_id,
+      eq.ocr_completed_at,
+      eq.searchable_file_content,
+      CASE
+        WHEN query.tsq IS NULL THEN 0
+        ELSE ts_rank(to_tsvector('french', eq.searchable_file_content), query.tsq)
+      END AS rank,
+      query.tsq
+    FROM extraction_queue eq, query
+    WHERE eq.searchable_file_content IS NOT NULL
+      AND (query.tsq IS NULL OR to_tsvector('french', eq.searchable_file_content) @@ query.tsq)
+      AND (p_document_source IS NULL OR eq.document_source = p_document_source)
+      AND (p_circonscription IS NULL OR fold_search_text(eq.circonscription_fonciere) = fold_search_text(p_circonscription))
+      AND (p_cadastre IS NULL OR fold_search_text(eq.cadastre) = fold_search_text(p_cadastre))
+      -- Nature and date range apply to the same inscription of an index, or to the acte itself
+      AND (
+        (p_nature IS NULL AND p_date_from IS NULL AND p_date_to IS NULL)
+        OR EXISTS (
+          SELECT 1 FROM ocr_inscriptions oi
+          WHERE oi.job_id = eq.id
+            AND (p_nature IS NULL OR fold_search_text(oi.acte_nature) LIKE '%' || fold_search_text(p_nature) || '%')
+            AND (p_date_from IS NULL OR oi.acte_publication_date >= p_date_from)
+            AND (p_date_to IS NULL OR oi.acte_publication_date <= p_date_to)
+        )
+        OR (
+          eq.acte_parsed_content IS NOT NULL
+          AND (p_nature IS NULL OR fold_search_text(eq.acte_parsed_content->>'nature') LIKE '%' || fold_search_text(p_nature) || '%')
+          AND (p_date_from IS NULL OR eq.acte_parsed_content->>'registration_date' >= p_date_from)
+          AND (p_date_to IS NULL OR eq.acte_parsed_content->>'registration_date' <= p_date_to)
+        )
+      )
+      AND (
+        (p_party_key IS NULL AND p_party_name IS NULL)
+        OR EXISTS (
+          SELECT 1 FROM party_mentions pm
+          JOIN parties p ON p.id = pm.party_id
+          WHERE pm.job_id = eq.id
+            AND (
+              p.name_key = p_party_key
+              OR p_party_key = ANY(p.alias_keys)
+              OR fold_search_text(pm.raw_name) LIKE '%' || fold_search_text(p_party_name) || '%'
+            )
+        )
+      )
+  ),
+  page AS (
+    SELECT matches.*, COUNT(*) OVER () AS total_count
+    FROM matches
+    ORDER BY rank DESC, ocr_completed_at DESC NULLS LAST
+    LIMIT p_limit OFFSET p_offset
+  )
+  -- Highlight only the returned page, ts_headline being expensive
+  SELECT
+    page.id,
+    -- extraction_queue predates these migrations; cast to the declared result types
+    page.document_source::TEXT,
+    page.document_number::TEXT,
+    page.circonscription_fonciere::TEXT,
+    page.cadastre::TEXT,
+    page.status_id::INTEGER,
+    page.ocr_completed_at,
+    page.rank::REAL,
+    CASE
+      WHEN page.tsq IS NULL THEN left(page.searchable_file_content, 200)::TEXT
+      ELSE ts_headline('french', page.searchable_file_content, page.tsq,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=3, FragmentDelimiter=" ... "')
+    END AS snippet,
+    page.total_count
+  FROM page
+  ORDER BY page.rank DESC, page.ocr_completed_at DESC NULLS LAST
+$$ LANGUAGE sql STABLE;
+
+-- Update column comments
+COMMENT ON COLUMN extraction_queue.searchable_file_content IS 'boosted_file_content with accents folded, indexed for French full-text search (see search_documents)';
+COMMENT ON FUNCTION fold_search_text(TEXT) IS 'Lowercase text without French accents, used to compare search filters';
+COMMENT ON FUNCTION search_documents IS 'Full-text search over searchable_file_content with nature, party, date range, circonscription and cadastre filters; returns highlighted snippets';
@@ -0,0 +1,14 @@
+-- Migration to record the versioned prompts that produced each OCR result
+-- Prompt ids ("index.boost@1+1a2b3c4d") come from the prompt registry; the golden-set
+-- evaluation (npm run ocr:eval) compares prompt versions offline
+
+ALTER TABLE extraction_queue
+ADD COLUMN IF NOT EXISTS ocr_prompt_versions JSONB;
+
+-- Compare results across prompt versions
+CREATE INDEX IF NOT EXISTS idx_extraction_queue_ocr_prompt_versions
+ON extraction_queue USING GIN (ocr_prompt_versions)
+WHERE ocr_prompt_versions IS NOT NULL;
+
+-- Add comments
+COMMENT ON COLUMN extraction_queue.ocr_prompt_versions IS 'Prompt id per OCR stage: {extract, boost, structure} as "<document type>.<stage>@<version>+<content hash>"';
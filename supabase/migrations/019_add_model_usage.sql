@@ -0,0 +1,71 @@
+-- Migration for model usage and cost accounting
+-- Every Gemini, Claude and OpenAI call records its tokens, latency and estimated
+-- cost against the job it ran for; /api/costs aggregates them per environment
+
+CREATE TABLE IF NOT EXISTS model_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID REFERENCES extraction_queue(id) ON DELETE SET NULL,
+  document_source TEXT,
+  worker_id TEXT,
+  provider TEXT NOT NULL CHECK (provider IN ('gemini', 'claude', 'openai')),
+  model TEXT NOT NULL,
+  operation TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  estimated_cost_usd NUMERIC(12, 6),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_model_usage_created_at ON model_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_model_usage_job ON model_usage(job_id) WHERE job_id IS NOT NULL;
+
+ALTER TABLE model_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to model_usage" ON model_usage
+  FOR ALL USING (true);
+
+-- Usage per day (UTC), document source, provider and model
+CREATE OR REPLACE FUNCTION get_model_usage_report(
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_document_source TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  day TEXT,
+  document_source TEXT,
+  provider TEXT,
+  model TEXT,
+  calls BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  estimated_cost_usd NUMERIC,
+  unpriced_calls BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    to_char((mu.created_at AT TIME ZONE 'UTC')::DATE, 'YYYY-MM-DD') AS day,
+    mu.document_source,
+    mu.provider,
+    mu.model,
+    COUNT(*) AS calls,
+    COALESCE(SUM(mu.input_tokens), 0)::BIGINT AS input_tokens,
+    COALESCE(SUM(mu.output_tokens), 0)::BIGINT AS output_tokens,
+    COALESCE(SUM(mu.estimated_cost_usd), 0) AS estimated_cost_usd,
+    COUNT(*) FILTER (WHERE mu.estimated_cost_usd IS NULL) AS unpriced_calls
+  FROM model_usage mu
+  WHERE (p_date_from IS NULL OR mu.created_at >= (p_date_from::TIMESTAMP AT TIME ZONE 'UTC'))
+    AND (p_date_to IS NULL OR mu.created_at < ((p_date_to + 1)::TIMESTAMP AT TIME ZONE 'UTC'))
+    AND (p_document_source IS NULL OR mu.document_source = p_document_source)
+  GROUP BY 1, mu.document_source, mu.provider, mu.model
+  ORDER BY 1, mu.document_source, mu.provider, mu.model;
+$$;
+
+-- Add comments
+COMMENT ON TABLE model_usage IS 'Tokens, latency and estimated cost of each model call (OCR, scraper fallbacks, vision analysis)';
+COMMENT ON COLUMN model_usage.job_id IS 'extraction_queue job the call was made for (NULL once the job is deleted)';
+COMMENT ON COLUMN model_usage.operation IS 'Purpose of the call (ocr.extract_pdf, ocr.extract_page, ocr.boost, ocr.structure, fallback.index, fallback.plan_cadastraux, vision.analyze, ...)';
+COMMENT ON COLUMN model_usage.estimated_cost_usd IS 'Cost at list prices when the call was made (src/usage/pricing.ts); NULL for models without a known price';
+COMMENT ON FUNCTION get_model_usage_report IS 'Model usage per UTC day, document source, provider and model, for /api/costs';
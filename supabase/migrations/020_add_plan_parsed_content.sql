@@ -0,0 +1,16 @@
+-- Migration to persist the title block parsed from plan cadastraux OCR output
+-- parsePlan converts boosted_file_content of plan documents into the lots shown,
+-- cadastre, circonscription, surveyor, minute number, plan date and scale
+
+ALTER TABLE extraction_queue
+ADD COLUMN IF NOT EXISTS plan_parsed_content JSONB;
+
+-- Find the plans showing a lot ("1 234 567")
+CREATE INDEX IF NOT EXISTS idx_extraction_queue_plan_lot_numbers
+ON extraction_queue USING GIN ((plan_parsed_content->'lot_numbers'))
+WHERE plan_parsed_content IS NOT NULL;
+
+-- Add comments
+COMMENT ON COLUMN extraction_queue.plan_parsed_content IS 'Validated ParsedPlan JSON of boosted_file_content (plan_cadastraux documents only)';
+COMMENT ON COLUMN extraction_queue.ocr_sanitization_error IS 'Error raised while sanitizing (index) or parsing (acte, plan_cadastraux) boosted_file_content; NULL when it succeeded or was skipped';
+COMMENT ON COLUMN extraction_queue.ocr_validation IS 'Validation rules report of sanitized_content (index) or plan_parsed_content (plan_cadastraux: requested lot shown on the plan)';
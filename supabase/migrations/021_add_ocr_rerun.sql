@@ -0,0 +1,16 @@
+-- Migration for OCR re-runs (POST /api/extractions/:id/ocr)
+-- A re-run requeues OCR of a completed job with optional provider, model, temperature
+-- and prompt version overrides; the output it replaces is kept in ocr_result_revisions
+
+ALTER TABLE extraction_queue
+ADD COLUMN IF NOT EXISTS ocr_overrides JSONB;
+
+-- Re-run revisions snapshot the whole OCR output; actes and plans have no sanitized content
+ALTER TABLE ocr_result_revisions
+ADD COLUMN IF NOT EXISTS ocr_output JSONB,
+ALTER COLUMN content DROP NOT NULL;
+
+-- Add comments
+COMMENT ON COLUMN extraction_queue.ocr_overrides IS 'OCR settings of the last re-run: {provider, extract_model, boost_model, temperature, prompt_versions: {extract, boost}}; NULL uses the configured settings';
+COMMENT ON COLUMN ocr_result_revisions.source IS 'review (reviewer correction) or ocr_rerun (output replaced by an OCR re-run)';
+COMMENT ON COLUMN ocr_result_revisions.ocr_output IS 'OCR output replaced by an OCR re-run: raw and boosted text, parsed content, validation, providers, models, prompt versions and overrides';
@@ -0,0 +1,83 @@
+-- Migration for atomic server-side job claiming
+-- Workers claim the next eligible extraction_queue job in one round-trip; FOR UPDATE
+-- SKIP LOCKED lets concurrent workers each get a different job instead of racing on
+-- the same row. Status ids: 1 En attente, 2 En traitement, 3 Complété (ready for OCR),
+-- 4 Erreur, 6 OCR en traitement
+
+-- Higher priorities are claimed first, then the oldest job
+ALTER TABLE extraction_queue
+ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_extraction_queue_claim
+ON extraction_queue (status_id, priority DESC, created_at)
+WHERE status_id IN (1, 3);
+
+-- Claim the next job waiting for extraction (status 1 -> 2)
+CREATE OR REPLACE FUNCTION claim_extraction_job(
+  p_worker_id TEXT,
+  p_document_sources TEXT[] DEFAULT NULL
+)
+RETURNS SETOF extraction_queue
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Waiting jobs that used up their attempts are failed rather than claimed
+  UPDATE extraction_queue
+  SET status_id = 4,
+      error_message = 'Max attempts exceeded'
+  WHERE status_id = 1
+    AND COALESCE(attemtps, 0) >= COALESCE(max_attempts, 3);
+
+  RETURN QUERY
+  UPDATE extraction_queue q
+  SET status_id = 2,
+      worker_id = p_worker_id,
+      processing_started_at = NOW()
+  WHERE q.id = (
+    SELECT c.id
+    FROM extraction_queue c
+    WHERE c.status_id = 1
+      AND COALESCE(c.attemtps, 0) < COALESCE(c.max_attempts, 3)
+      AND (p_document_sources IS NULL OR c.document_source = ANY(p_document_sources))
+    ORDER BY c.priority DESC, c.created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+END;
+$$;
+
+-- Claim the next extracted job waiting for OCR (status 3 -> 6)
+CREATE OR REPLACE FUNCTION claim_ocr_job(
+  p_worker_id TEXT,
+  p_document_sources TEXT[] DEFAULT NULL
+)
+RETURNS SETOF extraction_queue
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE extraction_queue q
+  SET status_id = 6,
+      ocr_worker_id = p_worker_id,
+      ocr_started_at = NOW(),
+      ocr_heartbeat_at = NULL
+  WHERE q.id = (
+    SELECT c.id
+    FROM extraction_queue c
+    WHERE c.status_id = 3
+      AND c.supabase_path IS NOT NULL
+      AND COALESCE(c.ocr_attempts, 0) < COALESCE(c.ocr_max_attempts, 3)
+      AND (p_document_sources IS NULL OR c.document_source = ANY(p_document_sources))
+    ORDER BY c.priority DESC, c.created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+END;
+$$;
+
+-- Add comments
+COMMENT ON COLUMN extraction_queue.priority IS 'Claim order: higher priorities first, then oldest (default 0)';
+COMMENT ON FUNCTION claim_extraction_job IS 'Atomically claim the next waiting extraction job for a worker (SKIP LOCKED); fails waiting jobs past max_attempts';
+COMMENT ON FUNCTION claim_ocr_job IS 'Atomically claim the next extracted job waiting for OCR for a worker (SKIP LOCKED)';
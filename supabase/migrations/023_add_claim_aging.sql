@@ -0,0 +1,95 @@
+-- Migration adding priority aging to job claiming
+-- Waiting jobs gain one priority level per p_aging_minutes, so old low-priority jobs
+-- are eventually claimed before newer high-priority ones (SCHEDULER_AGING_MINUTES)
+
+DROP FUNCTION IF EXISTS claim_extraction_job(TEXT, TEXT[]);
+DROP FUNCTION IF EXISTS claim_ocr_job(TEXT, TEXT[]);
+
+-- Priority of a waiting job including aging (NULL or 0 minutes: no aging)
+CREATE OR REPLACE FUNCTION effective_job_priority(
+  p_priority INTEGER,
+  p_waiting_since TIMESTAMPTZ,
+  p_aging_minutes INTEGER
+)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_priority + CASE
+    WHEN COALESCE(p_aging_minutes, 0) > 0 AND p_waiting_since IS NOT NULL
+      THEN FLOOR(EXTRACT(EPOCH FROM (NOW() - p_waiting_since)) / 60 / p_aging_minutes)::INTEGER
+    ELSE 0
+  END;
+$$;
+
+-- Claim the next job waiting for extraction (status 1 -> 2)
+CREATE OR REPLACE FUNCTION claim_extraction_job(
+  p_worker_id TEXT,
+  p_document_sources TEXT[] DEFAULT NULL,
+  p_aging_minutes INTEGER DEFAULT NULL
+)
+RETURNS SETOF extraction_queue
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Waiting jobs that used up their attempts are failed rather than claimed
+  UPDATE extraction_queue
+  SET status_id = 4,
+      error_message = 'Max attempts exceeded'
+  WHERE status_id = 1
+    AND COALESCE(attemtps, 0) >= COALESCE(max_attempts, 3);
+
+  RETURN QUERY
+  UPDATE extraction_queue q
+  SET status_id = 2,
+      worker_id = p_worker_id,
+      processing_started_at = NOW()
+  WHERE q.id = (
+    SELECT c.id
+    FROM extraction_queue c
+    WHERE c.status_id = 1
+      AND COALESCE(c.attemtps, 0) < COALESCE(c.max_attempts, 3)
+      AND (p_document_sources IS NULL OR c.document_source = ANY(p_document_sources))
+    ORDER BY effective_job_priority(c.priority, c.created_at, p_aging_minutes) DESC, c.created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+END;
+$$;
+
+-- Claim the next extracted job waiting for OCR (status 3 -> 6)
+CREATE OR REPLACE FUNCTION claim_ocr_job(
+  p_worker_id TEXT,
+  p_document_sources TEXT[] DEFAULT NULL,
+  p_aging_minutes INTEGER DEFAULT NULL
+)
+RETURNS SETOF extraction_queue
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE extraction_queue q
+  SET status_id = 6,
+      ocr_worker_id = p_worker_id,
+      ocr_started_at = NOW(),
+      ocr_heartbeat_at = NULL
+  WHERE q.id = (
+    SELECT c.id
+    FROM extraction_queue c
+    WHERE c.status_id = 3
+      AND c.supabase_path IS NOT NULL
+      AND COALESCE(c.ocr_attempts, 0) < COALESCE(c.ocr_max_attempts, 3)
+      AND (p_document_sources IS NULL OR c.document_source = ANY(p_document_sources))
+    ORDER BY effective_job_priority(c.priority, c.created_at, p_aging_minutes) DESC, c.created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+END;
+$$;
+
+-- Add comments
+COMMENT ON FUNCTION effective_job_priority IS 'Job priority plus one level per p_aging_minutes waited since p_waiting_since';
+COMMENT ON FUNCTION claim_extraction_job IS 'Atomically claim the next waiting extraction job for a worker (SKIP LOCKED, aged priority then oldest); fails waiting jobs past max_attempts';
+COMMENT ON FUNCTION claim_ocr_job IS 'Atomically claim the next extracted job waiting for OCR for a worker (SKIP LOCKED, aged priority then oldest)';
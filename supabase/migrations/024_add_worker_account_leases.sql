@@ -0,0 +1,75 @@
+-- Migration for exclusive registry account leases
+-- A worker leases one worker_accounts row at a time; the lease expires unless the
+-- worker heartbeat renews it, so accounts of crashed workers come back on their own.
+-- Login failures put the account in a cooldown that doubles per consecutive failure
+-- and deactivate it after p_max_failures.
+
+ALTER TABLE worker_accounts
+ADD COLUMN IF NOT EXISTS leased_by TEXT,
+ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS cooldown_until TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_worker_accounts_lease
+ON worker_accounts (is_active, last_used NULLS FIRST)
+WHERE is_active = true;
+
+-- Lease the least recently used active account that is free and not cooling down
+CREATE OR REPLACE FUNCTION lease_worker_account(
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER
+)
+RETURNS SETOF worker_accounts
+LANGUAGE sql
+AS $$
+  UPDATE worker_accounts a
+  SET leased_by = p_worker_id,
+      lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      last_used = NOW(),
+      updated_at = NOW()
+  WHERE a.id = (
+    SELECT c.id
+    FROM worker_accounts c
+    WHERE c.is_active = true
+      AND (c.cooldown_until IS NULL OR c.cooldown_until <= NOW())
+      AND (c.leased_by IS NULL OR c.lease_expires_at IS NULL OR c.lease_expires_at <= NOW())
+    ORDER BY c.last_used ASC NULLS FIRST, c.created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING a.*;
+$$;
+
+-- Count a login failure, release the lease, cool the account down or deactivate it
+CREATE OR REPLACE FUNCTION record_worker_account_failure(
+  p_account_id UUID,
+  p_worker_id TEXT,
+  p_error TEXT,
+  p_cooldown_seconds INTEGER,
+  p_max_cooldown_seconds INTEGER,
+  p_max_failures INTEGER
+)
+RETURNS SETOF worker_accounts
+LANGUAGE sql
+AS $$
+  UPDATE worker_accounts
+  SET failure_count = COALESCE(failure_count, 0) + 1,
+      last_error = p_error,
+      cooldown_until = NOW() + make_interval(secs => LEAST(
+        p_max_cooldown_seconds,
+        p_cooldown_seconds * POWER(2, LEAST(COALESCE(failure_count, 0), 20))
+      )),
+      is_active = COALESCE(failure_count, 0) + 1 < p_max_failures,
+      leased_by = CASE WHEN leased_by = p_worker_id THEN NULL ELSE leased_by END,
+      lease_expires_at = CASE WHEN leased_by = p_worker_id THEN NULL ELSE lease_expires_at END,
+      updated_at = NOW()
+  WHERE id = p_account_id
+  RETURNING *;
+$$;
+
+COMMENT ON COLUMN worker_accounts.leased_by IS 'Worker holding the account (exclusive until lease_expires_at)';
+COMMENT ON COLUMN worker_accounts.lease_expires_at IS 'Lease expiry, pushed back by the heartbeat of the worker holding the account';
+COMMENT ON COLUMN worker_accounts.cooldown_until IS 'Account not leased before this time after a login failure';
+COMMENT ON COLUMN worker_accounts.last_error IS 'Last login error of the account';
+COMMENT ON FUNCTION lease_worker_account IS 'Atomically lease the least recently used free active account to a worker (SKIP LOCKED)';
+COMMENT ON FUNCTION record_worker_account_failure IS 'Count a login failure: release the lease, doubling cooldown, deactivate after p_max_failures';
@@ -0,0 +1,134 @@
+-- Migration keeping accents in search snippets
+-- search_documents matched and highlighted searchable_file_content (accents folded), so
+-- snippets showed "Hypotheque" for "Hypothèque". Matching still uses the folded column;
+-- headlines now come from boosted_file_content with a French configuration that folds
+-- accents the same way, so the folded query still highlights the accented words.
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'french_unaccent') THEN
+    CREATE TEXT SEARCH CONFIGURATION french_unaccent (COPY = french);
+    ALTER TEXT SEARCH CONFIGURATION french_unaccent
+      ALTER MAPPING FOR hword, hword_part, word WITH unaccent, french_stem;
+  END IF;
+END;
+$$;
+
+-- Search OCR'd documents; every parameter is optional
+-- p_query uses web search syntax ("vente -hypotheque", "\"caisse desjardins\"")
+-- p_party_key is a normalized party key (see parties.name_key), p_party_name a raw name fallback
+CREATE OR REPLACE FUNCTION search_documents(
+  p_query TEXT DEFAULT NULL,
+  p_document_source TEXT DEFAULT NULL,
+  p_nature TEXT DEFAULT NULL,
+  p_party_key TEXT DEFAULT NULL,
+  p_party_name TEXT DEFAULT NULL,
+  p_date_from TEXT DEFAULT NULL,
+  p_date_to TEXT DEFAULT NULL,
+  p_circonscription TEXT DEFAULT NULL,
+  p_cadastre TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  job_id UUID,
+  document_source TEXT,
+  document_number TEXT,
+  circonscription_fonciere TEXT,
+  cadastre TEXT,
+  status_id INTEGER,
+  ocr_completed_at TIMESTAMPTZ,
+  rank REAL,
+  snippet TEXT,
+  total_count BIGINT
+) AS $$
+  WITH query AS (
+    SELECT CASE
+      WHEN p_query IS NULL OR btrim(p_query) = '' THEN NULL
+      ELSE websearch_to_tsquery('french', fold_search_text(p_query))
+    END AS tsq
+  ),
+  matches AS (
+    SELECT
+      eq.id,
+      eq.document_source,
+      eq.document_number,
+      eq.circonscription_fonciere,
+      eq.cadastre,
+      eq.status_id,
+      eq.ocr_completed_at,
+      eq.boosted_file_content,
+      CASE
+        WHEN query.tsq IS NULL THEN 0
+        ELSE ts_rank(to_tsvector('french', eq.searchable_file_content), query.tsq)
+      END AS rank,
+      query.tsq
+    FROM extraction_queue eq, query
+    WHERE eq.searchable_file_content IS NOT NULL
+      AND (query.tsq IS NULL OR to_tsvector('french', eq.searchable_file_content) @@ query.tsq)
+      AND (p_document_source IS NULL OR eq.document_source = p_document_source)
+      AND (p_circonscription IS NULL OR fold_search_text(eq.circonscription_fonciere) = fold_search_text(p_circonscription))
+      AND (p_cadastre IS NULL OR fold_search_text(eq.cadastre) = fold_search_text(p_cadastre))
+      -- Nature and date range apply to the same inscription of an index, or to the acte itself
+      AND (
+        (p_nature IS NULL AND p_date_from IS NULL AND p_date_to IS NULL)
+        OR EXISTS (
+          SELECT 1 FROM ocr_inscriptions oi
+          WHERE oi.job_id = eq.id
+            AND (p_nature IS NULL OR fold_search_text(oi.acte_nature) LIKE '%' || fold_search_text(p_nature) || '%')
+            AND (p_date_from IS NULL OR oi.acte_publication_date >= p_date_from)
+            AND (p_date_to IS NULL OR oi.acte_publication_date <= p_date_to)
+        )
+        OR (
+          eq.acte_parsed_content IS NOT NULL
+          AND (p_nature IS NULL OR fold_search_text(eq.acte_parsed_content->>'nature') LIKE '%' || fold_search_text(p_nature) || '%')
+          AND (p_date_from IS NULL OR eq.acte_parsed_content->>'registration_date' >= p_date_from)
+          AND (p_date_to IS NULL OR eq.acte_parsed_content->>'registration_date' <= p_date_to)
+        )
+      )
+      AND (
+        (p_party_key IS NULL AND p_party_name IS NULL)
+        OR EXISTS (
+          SELECT 1 FROM party_mentions pm
+          JOIN parties p ON p.id = pm.party_id
+          WHERE pm.job_id = eq.id
+            AND (
+              p.name_key = p_party_key
+              OR p_party_key = ANY(p.alias_keys)
+              OR fold_search_text(pm.raw_name) LIKE '%' || fold_search_text(p_party_name) || '%'
+            )
+        )
+      )
+  ),
+  page AS (
+    SELECT matches.*, COUNT(*) OVER () AS total_count
+    FROM matches
+    ORDER BY rank DESC, ocr_completed_at DESC NULLS LAST
+    LIMIT p_limit OFFSET p_offset
+  )
+  -- Highlight only the returned page, ts_headline being expensive; snippets come from the
+  -- original text (accents kept), french_unaccent folding it like the matched column
+  SELECT
+    page.id,
+    -- extraction_queue predates these migrations; cast to the declared result types
+    page.document_source::TEXT,
+    page.document_number::TEXT,
+    page.circonscription_fonciere::TEXT,
+    page.cadastre::TEXT,
+    page.status_id::INTEGER,
+    page.ocr_completed_at,
+    page.rank::REAL,
+    CASE
+      WHEN page.tsq IS NULL THEN left(page.boosted_file_content, 200)::TEXT
+      ELSE ts_headline('french_unaccent', page.boosted_file_content, page.tsq,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=3, FragmentDelimiter=" ... "')
+    END AS snippet,
+    page.total_count
+  FROM page
+  ORDER BY page.rank DESC, page.ocr_completed_at DESC NULLS LAST
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON TEXT SEARCH CONFIGURATION french_unaccent IS 'French full-text configuration folding accents, used to highlight boosted_file_content with folded queries';
+COMMENT ON FUNCTION search_documents IS 'Full-text search over searchable_file_content with nature, party, date range, circonscription and cadastre filters; returns highlighted snippets of boosted_file_content';
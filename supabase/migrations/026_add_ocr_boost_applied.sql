@@ -0,0 +1,13 @@
+-- Migration flagging OCR results whose boost rules were not applied
+-- Tesseract, the offline/last-resort provider, cannot apply the boost rules and keeps the
+-- raw text as boosted_file_content; such index results also get a boost_not_applied
+-- validation error on every page so they go to the review queue
+
+ALTER TABLE extraction_queue
+ADD COLUMN IF NOT EXISTS ocr_boost_applied BOOLEAN;
+
+CREATE INDEX IF NOT EXISTS idx_extraction_queue_ocr_boost_not_applied
+ON extraction_queue (ocr_completed_at)
+WHERE ocr_boost_applied = false;
+
+COMMENT ON COLUMN extraction_queue.ocr_boost_applied IS 'False when boosted_file_content is the raw OCR text (boost rules not applied), NULL before this column existed';
@@ -0,0 +1,15 @@
+-- Migration recording the extract prompt version of stored OCR pages
+-- Pages are only resumed when they were read with the current prompt version and the
+-- model the provider would use now; the OCR worker deletes a job's pages once it completes
+
+ALTER TABLE ocr_page_results
+ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+-- Pages of jobs that already completed are no longer needed
+DELETE FROM ocr_page_results pr
+USING extraction_queue eq
+WHERE eq.id = pr.job_id
+  AND eq.status_id = 5;
+
+COMMENT ON COLUMN ocr_page_results.prompt_version IS 'Version of the extract prompt the page was read with (see ocr_cache.prompt_version)';
+COMMENT ON TABLE ocr_page_results IS 'Raw OCR text per page of an index document, used to resume interrupted jobs; deleted when the job completes';
@@ -0,0 +1,129 @@
+-- Migration making job claims cheap under many workers
+-- Claims no longer sweep exhausted jobs (a table-wide UPDATE on every poll, now done by
+-- the job monitors through fail_exhausted_extraction_jobs), and candidates come
+-- from two index scans bounded by p_window: highest priority first and oldest first.
+-- Aging only reorders those candidates, so the ORDER BY on effective_job_priority no
+-- longer sorts the whole queue.
+
+-- The three-argument versions of migration 023 are replaced by versions with p_window
+DROP FUNCTION IF EXISTS claim_extraction_job(TEXT, TEXT[], INTEGER);
+DROP FUNCTION IF EXISTS claim_ocr_job(TEXT, TEXT[], INTEGER);
+
+-- Oldest waiting jobs, the ones aging promotes
+CREATE INDEX IF NOT EXISTS idx_extraction_queue_waiting_age
+ON extraction_queue (status_id, created_at)
+WHERE status_id IN (1, 3);
+
+-- Fail the waiting extraction jobs that used up their attempts
+CREATE OR REPLACE FUNCTION fail_exhausted_extraction_jobs()
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  WITH failed AS (
+    UPDATE extraction_queue
+    SET status_id = 4,
+        error_message = 'Max attempts exceeded'
+    WHERE status_id = 1
+      AND COALESCE(attemtps, 0) >= COALESCE(max_attempts, 3)
+    RETURNING id
+  )
+  SELECT COUNT(*)::INTEGER FROM failed;
+$$;
+
+-- Claim the next job waiting for extraction (status 1 -> 2)
+CREATE OR REPLACE FUNCTION claim_extraction_job(
+  p_worker_id TEXT,
+  p_document_sources TEXT[] DEFAULT NULL,
+  p_aging_minutes INTEGER DEFAULT NULL,
+  p_window INTEGER DEFAULT 50
+)
+RETURNS SETOF extraction_queue
+LANGUAGE sql
+AS $$
+  UPDATE extraction_queue q
+  SET status_id = 2,
+      worker_id = p_worker_id,
+      processing_started_at = NOW()
+  WHERE q.id = (
+    SELECT c.id
+    FROM extraction_queue c
+    WHERE c.id IN (
+      (
+        SELECT p.id FROM extraction_queue p
+        WHERE p.status_id = 1
+          AND COALESCE(p.attemtps, 0) < COALESCE(p.max_attempts, 3)
+          AND (p_document_sources IS NULL OR p.document_source = ANY(p_document_sources))
+        ORDER BY p.priority DESC, p.created_at ASC
+        LIMIT p_window
+      )
+      UNION
+      (
+        SELECT o.id FROM extraction_queue o
+        WHERE COALESCE(p_aging_minutes, 0) > 0
+          AND o.status_id = 1
+          AND COALESCE(o.attemtps, 0) < COALESCE(o.max_attempts, 3)
+          AND (p_document_sources IS NULL OR o.document_source = ANY(p_document_sources))
+        ORDER BY o.created_at ASC
+        LIMIT p_window
+      )
+    )
+      AND c.status_id = 1
+    ORDER BY effective_job_priority(c.priority, c.created_at, p_aging_minutes) DESC, c.created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+$$;
+
+-- Claim the next extracted job waiting for OCR (status 3 -> 6)
+CREATE OR REPLACE FUNCTION claim_ocr_job(
+  p_worker_id TEXT,
+  p_document_sources TEXT[] DEFAULT NULL,
+  p_aging_minutes INTEGER DEFAULT NULL,
+  p_window INTEGER DEFAULT 50
+)
+RETURNS SETOF extraction_queue
+LANGUAGE sql
+AS $$
+  UPDATE extraction_queue q
+  SET status_id = 6,
+      ocr_worker_id = p_worker_id,
+      ocr_started_at = NOW(),
+      ocr_heartbeat_at = NULL
+  WHERE q.id = (
+    SELECT c.id
+    FROM extraction_queue c
+    WHERE c.id IN (
+      (
+        SELECT p.id FROM extraction_queue p
+        WHERE p.status_id = 3
+          AND p.supabase_path IS NOT NULL
+          AND COALESCE(p.ocr_attempts, 0) < COALESCE(p.ocr_max_attempts, 3)
+          AND (p_document_sources IS NULL OR p.document_source = ANY(p_document_sources))
+        ORDER BY p.priority DESC, p.created_at ASC
+        LIMIT p_window
+      )
+      UNION
+      (
+        SELECT o.id FROM extraction_queue o
+        WHERE COALESCE(p_aging_minutes, 0) > 0
+          AND o.status_id = 3
+          AND o.supabase_path IS NOT NULL
+          AND COALESCE(o.ocr_attempts, 0) < COALESCE(o.ocr_max_attempts, 3)
+          AND (p_document_sources IS NULL OR o.document_source = ANY(p_document_sources))
+        ORDER BY o.created_at ASC
+        LIMIT p_window
+      )
+    )
+      AND c.status_id = 3
+    ORDER BY effective_job_priority(c.priority, c.created_at, p_aging_minutes) DESC, c.created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+$$;
+
+-- Add comments
+COMMENT ON FUNCTION fail_exhausted_extraction_jobs IS 'Fail waiting extraction jobs past max_attempts (run by the health and stale job monitors); returns the number of jobs failed';
+COMMENT ON FUNCTION claim_extraction_job IS 'Atomically claim the next waiting extraction job for a worker (SKIP LOCKED); aged priority among the p_window highest-priority and p_window oldest candidates';
+COMMENT ON FUNCTION claim_ocr_job IS 'Atomically claim the next extracted job waiting for OCR for a worker (SKIP LOCKED); aged priority among the p_window highest-priority and p_window oldest candidates';
@@ -0,0 +1,45 @@
+-- Migration computing searchable_file_content in the database
+-- The OCR worker and the backfill of migration 017 folded the boosted text differently
+-- (the backfill kept whitespace and blank lines), so backfilled and newer rows were
+-- indexed differently. A trigger now fills the column with the same function used to
+-- refold every existing row, and queries are folded with the same unaccent rules.
+
+-- Searchable version of boosted OCR text: accents folded (case kept), whitespace
+-- collapsed and blank lines dropped
+CREATE OR REPLACE FUNCTION build_searchable_content(value TEXT)
+RETURNS TEXT AS $$
+  SELECT string_agg(line, E'\n' ORDER BY n)
+  FROM (
+    SELECT btrim(regexp_replace(raw, '\s+', ' ', 'g')) AS line, n
+    FROM regexp_split_to_table(unaccent('unaccent', value), E'\n') WITH ORDINALITY AS t(raw, n)
+  ) lines
+  WHERE line <> ''
+$$ LANGUAGE sql STABLE;
+
+-- Lowercase query text without accents, folded like build_searchable_content
+CREATE OR REPLACE FUNCTION fold_search_text(value TEXT)
+RETURNS TEXT AS $$
+  SELECT lower(unaccent('unaccent', value))
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION set_searchable_file_content()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.searchable_file_content = build_searchable_content(NEW.boosted_file_content);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_extraction_queue_searchable_content ON extraction_queue;
+CREATE TRIGGER set_extraction_queue_searchable_content BEFORE INSERT OR UPDATE OF boosted_file_content
+  ON extraction_queue FOR EACH ROW EXECUTE FUNCTION set_searchable_file_content();
+
+-- Refold every row, backfilled or written by the OCR worker
+UPDATE extraction_queue
+SET searchable_file_content = build_searchable_content(boosted_file_content)
+WHERE boosted_file_content IS NOT NULL;
+
+-- Add comments
+COMMENT ON FUNCTION build_searchable_content IS 'Boosted OCR text with accents folded, whitespace collapsed and blank lines dropped; fills searchable_file_content';
+COMMENT ON FUNCTION fold_search_text IS 'Lowercase text without accents, for full-text queries on searchable_file_content';
+COMMENT ON TRIGGER set_extraction_queue_searchable_content ON extraction_queue IS 'Keeps searchable_file_content in sync with boosted_file_content';
@@ -0,0 +1,38 @@
+-- Migration numbering OCR result revisions in the database
+-- Reading the latest revision and inserting the next one from the API raced: two
+-- concurrent corrections (or a correction and an OCR re-run) got the same number and
+-- one of them failed on UNIQUE (job_id, revision). The number is now allocated and
+-- inserted in one call, serialized per job by a transaction-level advisory lock.
+
+CREATE OR REPLACE FUNCTION save_ocr_result_revision(
+  p_job_id UUID,
+  p_content JSONB,
+  p_created_by TEXT,
+  p_source TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_ocr_output JSONB DEFAULT NULL
+)
+RETURNS SETOF ocr_result_revisions
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('ocr_result_revisions:' || p_job_id::TEXT));
+
+  RETURN QUERY
+  INSERT INTO ocr_result_revisions (job_id, revision, content, ocr_output, created_by, source, note)
+  SELECT
+    p_job_id,
+    COALESCE(MAX(r.revision), 0) + 1,
+    p_content,
+    p_ocr_output,
+    p_created_by,
+    p_source,
+    p_note
+  FROM ocr_result_revisions r
+  WHERE r.job_id = p_job_id
+  RETURNING *;
+END;
+$$;
+
+-- Add comments
+COMMENT ON FUNCTION save_ocr_result_revision IS 'Insert the next numbered revision of a job OCR result (serialized per job); returns the inserted revision';